@@ -74,6 +74,67 @@ export async function fetchWebhookStats(timeRange: string) {
   }
 }
 
+/**
+ * List stored webhook events for replay
+ */
+export async function fetchWebhookEvents(filter: {
+  eventTypes?: string[];
+  statuses?: string[];
+  from?: string;
+  to?: string;
+  errorContains?: string;
+}) {
+  try {
+    const searchParams = new URLSearchParams();
+    if (filter.eventTypes?.length) searchParams.set('eventTypes', filter.eventTypes.join(','));
+    if (filter.statuses?.length) searchParams.set('statuses', filter.statuses.join(','));
+    if (filter.from) searchParams.set('from', filter.from);
+    if (filter.to) searchParams.set('to', filter.to);
+    if (filter.errorContains) searchParams.set('errorContains', filter.errorContains);
+
+    const response = await fetch(`${APP_URL}/api/admin/webhook-replay?${searchParams}`, {
+      headers: getAdminHeaders(),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch webhook events: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch webhook events:', error);
+    return { events: [] };
+  }
+}
+
+/**
+ * Dry-run or re-drive stored webhook events
+ */
+export async function replayWebhookEvents(eventIds: string[], dryRun: boolean) {
+  try {
+    const response = await fetch(`${APP_URL}/api/admin/webhook-replay`, {
+      method: 'POST',
+      headers: {
+        ...getAdminHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ eventIds, dryRun }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || `Replay failed: ${response.status}` };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Webhook replay failed:', error);
+    return { success: false, error: 'Webhook replay failed' };
+  }
+}
+
 /**
  * Fetch analytics data
  */
@@ -201,3 +262,185 @@ export async function updateMemberStatus(memberId: string, action: 'suspend' | '
     return { success: false, error: 'Action failed' };
   }
 }
+
+/**
+ * Fetch members with a negative (carried-forward) balance
+ */
+export async function fetchNegativeBalances(creatorId?: string) {
+  try {
+    const searchParams = new URLSearchParams();
+    if (creatorId) searchParams.set('creatorId', creatorId);
+
+    const response = await fetch(`${APP_URL}/api/admin/negative-balances?${searchParams}`, {
+      headers: getAdminHeaders(),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch negative balances: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch negative balances:', error);
+    return { members: [], totalOwed: 0 };
+  }
+}
+
+/**
+ * Fetch payouts that didn't go through, per creator
+ */
+export async function fetchStuckPayouts(creatorId?: string) {
+  try {
+    const searchParams = new URLSearchParams();
+    if (creatorId) searchParams.set('creatorId', creatorId);
+
+    const response = await fetch(`${APP_URL}/api/admin/stuck-payouts?${searchParams}`, {
+      headers: getAdminHeaders(),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch stuck payouts: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch stuck payouts:', error);
+    return { creators: [], totalStuck: 0 };
+  }
+}
+
+/**
+ * Retry a stuck payout now, or cancel it so the next payout run replans it
+ */
+export async function resolveStuckPayout(payoutId: string, action: 'retry' | 'cancel') {
+  try {
+    const response = await fetch(`${APP_URL}/api/admin/stuck-payouts`, {
+      method: 'POST',
+      headers: {
+        ...getAdminHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ payoutId, action }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || `Update failed: ${response.status}` };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Stuck payout update failed:', error);
+    return { success: false, error: 'Stuck payout update failed' };
+  }
+}
+
+/**
+ * Fetch platform fee reconciliation per creator and month
+ */
+export async function fetchFeeReconciliation(creatorId?: string, issuesOnly: boolean = false) {
+  try {
+    const searchParams = new URLSearchParams();
+    if (creatorId) searchParams.set('creatorId', creatorId);
+    if (issuesOnly) searchParams.set('issues', '1');
+
+    const response = await fetch(`${APP_URL}/api/admin/fee-reconciliation?${searchParams}`, {
+      headers: getAdminHeaders(),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch fee reconciliation: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch fee reconciliation:', error);
+    return { reconciliations: [], totalDifference: 0, issueCount: 0 };
+  }
+}
+
+/**
+ * Export the platform fee reconciliation statement (CSV, base64)
+ */
+export async function exportFeeReconciliation(
+  creatorId?: string,
+  issuesOnly: boolean = false
+): Promise<{ success: boolean; data?: string; error?: string }> {
+  try {
+    const searchParams = new URLSearchParams({ format: 'csv' });
+    if (creatorId) searchParams.set('creatorId', creatorId);
+    if (issuesOnly) searchParams.set('issues', '1');
+
+    const response = await fetch(`${APP_URL}/api/admin/fee-reconciliation?${searchParams}`, {
+      headers: getAdminHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Export failed: ${response.status}`);
+    }
+
+    const blob = await response.blob();
+    const buffer = await blob.arrayBuffer();
+    const base64 = Buffer.from(buffer).toString('base64');
+
+    return { success: true, data: base64 };
+  } catch (error) {
+    console.error('Fee reconciliation export failed:', error);
+    return { success: false, error: 'Export failed' };
+  }
+}
+
+/**
+ * Fetch collusion clusters from the referral graph job
+ */
+export async function fetchFraudClusters(status?: string) {
+  try {
+    const searchParams = new URLSearchParams();
+    if (status) searchParams.set('status', status);
+
+    const response = await fetch(`${APP_URL}/api/admin/fraud-clusters?${searchParams}`, {
+      headers: getAdminHeaders(),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch fraud clusters: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch fraud clusters:', error);
+    return { clusters: [] };
+  }
+}
+
+/**
+ * Confirm or dismiss a collusion cluster
+ */
+export async function reviewFraudCluster(clusterId: string, status: 'confirmed' | 'dismissed') {
+  try {
+    const response = await fetch(`${APP_URL}/api/admin/fraud-clusters`, {
+      method: 'POST',
+      headers: {
+        ...getAdminHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ clusterId, status }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || `Review failed: ${response.status}` };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Fraud cluster review failed:', error);
+    return { success: false, error: 'Fraud cluster review failed' };
+  }
+}
@@ -0,0 +1,121 @@
+// app/admin/balances/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from '../../../components/ui/card';
+import logger from '../../../lib/logger';
+import { formatCurrency } from '../../../lib/utils/commission';
+import { fetchNegativeBalances } from '../actions';
+import { Scale, Search } from 'lucide-react';
+
+interface NegativeBalance {
+  memberId: string;
+  username: string;
+  referralCode: string;
+  creatorId: string;
+  creatorName: string;
+  balance: number;
+  recovered: number;
+}
+
+export default function AdminBalances() {
+  const [members, setMembers] = useState<NegativeBalance[]>([]);
+  const [totalOwed, setTotalOwed] = useState(0);
+  const [creatorId, setCreatorId] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadBalances();
+  }, []);
+
+  const loadBalances = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchNegativeBalances(creatorId.trim() || undefined);
+      setMembers(data.members || []);
+      setTotalOwed(data.totalOwed || 0);
+    } catch (error) {
+      logger.error('Failed to fetch negative balances:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadBalances();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-white">Negative Balances</h1>
+        <p className="text-gray-400 mt-1">
+          Clawbacks from refunds on commissions that were already paid, recovered from each member&apos;s next payouts
+        </p>
+      </div>
+
+      {/* Summary and Filter */}
+      <Card className="p-4 bg-gray-900 border-gray-800">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+          <div className="flex items-center gap-3 flex-1">
+            <Scale className="w-6 h-6 text-orange-400" />
+            <div>
+              <p className="text-sm text-gray-400">Outstanding across {members.length} member{members.length === 1 ? '' : 's'}</p>
+              <p className="text-2xl font-bold text-white">{formatCurrency(totalOwed)}</p>
+            </div>
+          </div>
+
+          <form onSubmit={handleFilter} className="relative lg:w-80">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={creatorId}
+              onChange={(e) => setCreatorId(e.target.value)}
+              placeholder="Filter by creator ID..."
+              className="w-full pl-10 pr-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-purple-500"
+            />
+          </form>
+        </div>
+      </Card>
+
+      {/* Balances Table */}
+      <Card className="bg-gray-900 border-gray-800 overflow-hidden">
+        {loading ? (
+          <div className="p-8 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+          </div>
+        ) : members.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">No members with a negative balance</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-800 border-b border-gray-700">
+                <tr>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Member</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Creator</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Balance</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Recovered so far</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {members.map((member) => (
+                  <tr key={member.memberId} className="hover:bg-gray-800/50">
+                    <td className="px-4 py-3">
+                      <p className="text-white">{member.username}</p>
+                      <p className="text-xs text-gray-500">{member.referralCode}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-300">{member.creatorName}</td>
+                    <td className="px-4 py-3 text-red-400 font-semibold">-{formatCurrency(-member.balance)}</td>
+                    <td className="px-4 py-3 text-gray-300">{formatCurrency(member.recovered)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
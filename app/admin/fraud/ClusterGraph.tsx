@@ -0,0 +1,107 @@
+// app/admin/fraud/ClusterGraph.tsx
+'use client';
+
+interface ClusterNode {
+  id: string;
+  username: string;
+  lost: boolean;
+}
+
+interface ClusterEdge {
+  from: string;
+  to: string;
+  kind: 'referral' | 'shared_device' | 'shared_ip';
+}
+
+interface ClusterGraphProps {
+  nodes: ClusterNode[];
+  edges: ClusterEdge[];
+  size?: number;
+}
+
+const EDGE_STYLES: Record<ClusterEdge['kind'], { stroke: string; dash?: string; label: string }> = {
+  referral: { stroke: '#a855f7', label: 'Referral' },
+  shared_device: { stroke: '#f87171', dash: '6 4', label: 'Same device' },
+  shared_ip: { stroke: '#facc15', dash: '2 4', label: 'Same IP' },
+};
+
+/**
+ * Members laid out on a circle - referrals are arrows, shared signals dashed lines
+ */
+export default function ClusterGraph({ nodes, edges, size = 360 }: ClusterGraphProps) {
+  const center = size / 2;
+  const radius = nodes.length > 1 ? center - 48 : 0;
+  const positions = new Map(
+    nodes.map((node, index) => {
+      const angle = (2 * Math.PI * index) / nodes.length - Math.PI / 2;
+      return [node.id, { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) }];
+    })
+  );
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-md mx-auto">
+        <defs>
+          <marker id="referral-arrow" viewBox="0 0 10 10" refX="22" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={EDGE_STYLES.referral.stroke} />
+          </marker>
+        </defs>
+
+        {edges.map((edge, index) => {
+          const from = positions.get(edge.from);
+          const to = positions.get(edge.to);
+          if (!from || !to) return null;
+
+          const style = EDGE_STYLES[edge.kind];
+          return (
+            <line
+              key={`${edge.kind}-${index}`}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke={style.stroke}
+              strokeWidth={edge.kind === 'referral' ? 2 : 1.5}
+              strokeDasharray={style.dash}
+              markerEnd={edge.kind === 'referral' ? 'url(#referral-arrow)' : undefined}
+            />
+          );
+        })}
+
+        {nodes.map((node) => {
+          const position = positions.get(node.id)!;
+          return (
+            <g key={node.id}>
+              <circle
+                cx={position.x}
+                cy={position.y}
+                r={14}
+                fill={node.lost ? '#7f1d1d' : '#1f2937'}
+                stroke={node.lost ? '#f87171' : '#6b7280'}
+                strokeWidth={2}
+              />
+              <text x={position.x} y={position.y + 30} textAnchor="middle" className="fill-gray-300 text-[11px]">
+                {node.username}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap justify-center gap-4 text-xs text-gray-400">
+        {Object.values(EDGE_STYLES).map((style) => (
+          <span key={style.label} className="flex items-center gap-1">
+            <svg width="24" height="6">
+              <line x1="0" y1="3" x2="24" y2="3" stroke={style.stroke} strokeWidth={2} strokeDasharray={style.dash} />
+            </svg>
+            {style.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-full bg-red-900 border border-red-400" />
+          Refunded or cancelled
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+// app/admin/fraud/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from '../../../components/ui/card';
+import logger from '../../../lib/logger';
+import { fetchFraudClusters, reviewFraudCluster } from '../actions';
+import ClusterGraph from './ClusterGraph';
+import { Network, ShieldCheck, ShieldX } from 'lucide-react';
+
+interface ClusterFlag {
+  type: string;
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+}
+
+interface FraudCluster {
+  id: string;
+  creatorId: string;
+  creator: { companyName: string };
+  memberIds: string[];
+  riskScore: number;
+  riskLevel: 'low' | 'medium' | 'high';
+  flags: ClusterFlag[];
+  graph: {
+    nodes: Array<{ id: string; username: string; lost: boolean }>;
+    edges: Array<{ from: string; to: string; kind: 'referral' | 'shared_device' | 'shared_ip' }>;
+  };
+  status: 'open' | 'confirmed' | 'dismissed' | 'superseded';
+  detectedAt: string;
+  lastSeenAt: string;
+}
+
+const STATUS_FILTERS = ['open', 'confirmed', 'dismissed'] as const;
+
+const RISK_COLORS: Record<FraudCluster['riskLevel'], string> = {
+  low: 'text-gray-400',
+  medium: 'text-yellow-300',
+  high: 'text-red-400',
+};
+
+export default function AdminFraud() {
+  const [clusters, setClusters] = useState<FraudCluster[]>([]);
+  const [status, setStatus] = useState<(typeof STATUS_FILTERS)[number]>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState(false);
+
+  useEffect(() => {
+    loadClusters();
+  }, [status]);
+
+  const loadClusters = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchFraudClusters(status);
+      setClusters(data.clusters || []);
+      setSelectedId(data.clusters?.[0]?.id ?? null);
+    } catch (error) {
+      logger.error('Failed to fetch fraud clusters:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (clusterId: string, decision: 'confirmed' | 'dismissed') => {
+    setReviewing(true);
+    try {
+      const result = await reviewFraudCluster(clusterId, decision);
+      if (result.success) {
+        loadClusters();
+      } else {
+        logger.error('Cluster review failed:', result.error);
+      }
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const selected = clusters.find(cluster => cluster.id === selectedId) ?? null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Fraud Detection</h1>
+          <p className="text-gray-400 mt-1">
+            Collusion rings - accounts sharing devices or IPs that refer each other
+          </p>
+        </div>
+
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as (typeof STATUS_FILTERS)[number])}
+          className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+        >
+          {STATUS_FILTERS.map(filter => (
+            <option key={filter} value={filter}>
+              {filter.charAt(0).toUpperCase() + filter.slice(1)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="p-8 flex justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+        </div>
+      ) : clusters.length === 0 ? (
+        <Card className="p-8 bg-gray-900 border-gray-800 text-center text-gray-500">
+          No {status} clusters
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Cluster List */}
+          <Card className="bg-gray-900 border-gray-800 divide-y divide-gray-800 overflow-hidden">
+            {clusters.map(cluster => (
+              <button
+                key={cluster.id}
+                onClick={() => setSelectedId(cluster.id)}
+                className={`w-full text-left px-4 py-3 transition ${
+                  cluster.id === selectedId ? 'bg-gray-800' : 'hover:bg-gray-800/50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-white flex items-center gap-2">
+                    <Network className="w-4 h-4 text-purple-400" />
+                    {cluster.memberIds.length} accounts
+                  </span>
+                  <span className={`text-sm ${RISK_COLORS[cluster.riskLevel]}`}>Risk {cluster.riskScore}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {cluster.creator.companyName} · last seen {new Date(cluster.lastSeenAt).toLocaleDateString()}
+                </p>
+              </button>
+            ))}
+          </Card>
+
+          {/* Cluster Detail */}
+          {selected && (
+            <Card className="lg:col-span-2 p-6 bg-gray-900 border-gray-800 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-white">
+                    {selected.memberIds.length}-account cluster · {selected.creator.companyName}
+                  </h2>
+                  <p className="text-sm text-gray-400">
+                    Detected {new Date(selected.detectedAt).toLocaleDateString()} · {selected.status}
+                  </p>
+                </div>
+
+                {selected.status === 'open' && (
+                  <div className="flex gap-2">
+                    <button
+                      disabled={reviewing}
+                      onClick={() => handleReview(selected.id, 'confirmed')}
+                      className="flex items-center gap-2 px-3 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg text-white text-sm transition"
+                    >
+                      <ShieldX className="w-4 h-4" />
+                      Confirm ring
+                    </button>
+                    <button
+                      disabled={reviewing}
+                      onClick={() => handleReview(selected.id, 'dismissed')}
+                      className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg text-white text-sm transition"
+                    >
+                      <ShieldCheck className="w-4 h-4" />
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <ul className="space-y-1 text-sm">
+                {selected.flags.map((flag, index) => (
+                  <li key={index} className={RISK_COLORS[flag.severity]}>
+                    {flag.description}
+                  </li>
+                ))}
+              </ul>
+
+              <ClusterGraph nodes={selected.graph.nodes} edges={selected.graph.edges} />
+
+              <p className="text-xs text-gray-500">
+                While a cluster is open or confirmed, new commissions earned by its members are held for review.
+              </p>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
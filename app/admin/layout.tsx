@@ -32,6 +32,15 @@ export default function AdminLayout({
               <a href="/admin/commissions" className="block px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-800 hover:text-white transition">
                 Commissions
               </a>
+              <a href="/admin/balances" className="block px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-800 hover:text-white transition">
+                Negative Balances
+              </a>
+              <a href="/admin/payouts" className="block px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-800 hover:text-white transition">
+                Stuck Payouts
+              </a>
+              <a href="/admin/reconciliation" className="block px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-800 hover:text-white transition">
+                Fee Reconciliation
+              </a>
               <a href="/admin/fraud" className="block px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-800 hover:text-white transition">
                 Fraud Detection
               </a>
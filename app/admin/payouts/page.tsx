@@ -0,0 +1,249 @@
+// app/admin/payouts/page.tsx
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import { Card } from '../../../components/ui/card';
+import logger from '../../../lib/logger';
+import { formatCurrency } from '../../../lib/utils/commission';
+import { fetchStuckPayouts, resolveStuckPayout } from '../actions';
+import { AlertTriangle, RefreshCw, Search, XCircle } from 'lucide-react';
+
+interface PayoutAttempt {
+  id: string;
+  outcome: 'paid' | 'failed' | 'ineligible';
+  errorCode: string | null;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+interface StuckPayout {
+  id: string;
+  username: string;
+  currency: string;
+  amount: number;
+  reportingAmount: number;
+  commissionCount: number;
+  status: 'retrying' | 'action_needed' | 'failed';
+  reason: string;
+  category: 'transient' | 'creator_action' | 'member_action' | 'admin_action';
+  errorMessage: string | null;
+  attemptCount: number;
+  nextRetryAt: string | null;
+  createdAt: string;
+  attempts: PayoutAttempt[];
+}
+
+interface StuckCreator {
+  creatorId: string;
+  creatorName: string;
+  stuckAmount: number;
+  byStatus: Record<string, number>;
+  byReason: Record<string, number>;
+  oldestAt: string;
+  payouts: StuckPayout[];
+}
+
+const STATUS_LABELS: Record<StuckPayout['status'], { label: string; color: string }> = {
+  retrying: { label: 'Retrying', color: 'text-yellow-300' },
+  action_needed: { label: 'Waiting on member', color: 'text-orange-300' },
+  failed: { label: 'Needs admin', color: 'text-red-400' },
+};
+
+export default function AdminStuckPayouts() {
+  const [creators, setCreators] = useState<StuckCreator[]>([]);
+  const [totalStuck, setTotalStuck] = useState(0);
+  const [creatorId, setCreatorId] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState(false);
+
+  useEffect(() => {
+    loadPayouts();
+  }, []);
+
+  const loadPayouts = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchStuckPayouts(creatorId.trim() || undefined);
+      setCreators(data.creators || []);
+      setTotalStuck(data.totalStuck || 0);
+    } catch (error) {
+      logger.error('Failed to fetch stuck payouts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadPayouts();
+  };
+
+  const handleResolve = async (payoutId: string, action: 'retry' | 'cancel') => {
+    setResolving(true);
+    try {
+      const result = await resolveStuckPayout(payoutId, action);
+      if (result.success) {
+        loadPayouts();
+      } else {
+        logger.error('Stuck payout update failed:', result.error);
+      }
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-white">Stuck Payouts</h1>
+        <p className="text-gray-400 mt-1">
+          Payouts whose transfer failed or that the member can&apos;t receive yet - their commissions wait here until they go through
+        </p>
+      </div>
+
+      {/* Summary and Filter */}
+      <Card className="p-4 bg-gray-900 border-gray-800">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+          <div className="flex items-center gap-3 flex-1">
+            <AlertTriangle className="w-6 h-6 text-orange-400" />
+            <div>
+              <p className="text-sm text-gray-400">Stuck across {creators.length} creator{creators.length === 1 ? '' : 's'}</p>
+              <p className="text-2xl font-bold text-white">{formatCurrency(totalStuck)}</p>
+            </div>
+          </div>
+
+          <form onSubmit={handleFilter} className="relative lg:w-80">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={creatorId}
+              onChange={(e) => setCreatorId(e.target.value)}
+              placeholder="Filter by creator ID..."
+              className="w-full pl-10 pr-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-purple-500"
+            />
+          </form>
+        </div>
+      </Card>
+
+      {loading ? (
+        <div className="p-8 flex justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+        </div>
+      ) : creators.length === 0 ? (
+        <Card className="p-8 bg-gray-900 border-gray-800 text-center text-gray-500">
+          No stuck payouts
+        </Card>
+      ) : (
+        creators.map(creator => (
+          <Card key={creator.creatorId} className="bg-gray-900 border-gray-800 overflow-hidden">
+            {/* Creator Summary */}
+            <div className="p-4 border-b border-gray-800 flex flex-col lg:flex-row lg:items-center justify-between gap-2">
+              <div>
+                <h2 className="text-lg font-semibold text-white">{creator.creatorName}</h2>
+                <p className="text-xs text-gray-500">
+                  Oldest since {new Date(creator.oldestAt).toLocaleDateString()} ·{' '}
+                  {Object.entries(creator.byReason)
+                    .map(([reason, amount]) => `${reason}: ${formatCurrency(amount)}`)
+                    .join(' · ')}
+                </p>
+              </div>
+              <p className="text-xl font-bold text-orange-300">{formatCurrency(creator.stuckAmount)}</p>
+            </div>
+
+            {/* Payouts Table */}
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-800 border-b border-gray-700">
+                  <tr>
+                    <th className="text-left px-4 py-3 text-gray-400 font-medium">Member</th>
+                    <th className="text-left px-4 py-3 text-gray-400 font-medium">Amount</th>
+                    <th className="text-left px-4 py-3 text-gray-400 font-medium">Status</th>
+                    <th className="text-left px-4 py-3 text-gray-400 font-medium">Reason</th>
+                    <th className="text-left px-4 py-3 text-gray-400 font-medium">Attempts</th>
+                    <th className="text-left px-4 py-3 text-gray-400 font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {creator.payouts.map(payout => (
+                    <Fragment key={payout.id}>
+                      <tr className="hover:bg-gray-800/50">
+                        <td className="px-4 py-3">
+                          <p className="text-white">{payout.username}</p>
+                          <p className="text-xs text-gray-500">
+                            {payout.commissionCount} commission{payout.commissionCount === 1 ? '' : 's'}
+                          </p>
+                        </td>
+                        <td className="px-4 py-3 text-gray-300">{formatCurrency(payout.amount, payout.currency)}</td>
+                        <td className={`px-4 py-3 ${STATUS_LABELS[payout.status].color}`}>
+                          {STATUS_LABELS[payout.status].label}
+                          {payout.nextRetryAt && (
+                            <p className="text-xs text-gray-500">Next {new Date(payout.nextRetryAt).toLocaleString()}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-300">
+                          {payout.reason}
+                          {payout.errorMessage && <p className="text-xs text-gray-500">{payout.errorMessage}</p>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <button
+                            onClick={() => setOpenId(openId === payout.id ? null : payout.id)}
+                            className="text-sm text-purple-400 hover:text-purple-300"
+                          >
+                            {payout.attemptCount} failed · history
+                          </button>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex gap-2">
+                            <button
+                              disabled={resolving}
+                              onClick={() => handleResolve(payout.id, 'retry')}
+                              className="flex items-center gap-1 px-2 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 rounded text-white text-xs transition"
+                            >
+                              <RefreshCw className="w-3 h-3" />
+                              Retry
+                            </button>
+                            <button
+                              disabled={resolving}
+                              onClick={() => handleResolve(payout.id, 'cancel')}
+                              className="flex items-center gap-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-white text-xs transition"
+                            >
+                              <XCircle className="w-3 h-3" />
+                              Cancel
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+
+                      {openId === payout.id && (
+                        <tr className="bg-gray-800/30">
+                          <td colSpan={6} className="px-4 py-3">
+                            <ul className="space-y-1 text-xs">
+                              {payout.attempts.map(attempt => (
+                                <li key={attempt.id} className="text-gray-400">
+                                  {new Date(attempt.createdAt).toLocaleString()} · {attempt.outcome}
+                                  {attempt.errorCode && ` · ${attempt.errorCode}`}
+                                  {attempt.errorMessage && ` · ${attempt.errorMessage}`}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        ))
+      )}
+
+      <p className="text-xs text-gray-500">
+        Cancelling releases a payout&apos;s commissions to the next payout run with a new transfer. For a possible
+        duplicate transfer, check the creator&apos;s Whop transfers first.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+// app/admin/reconciliation/page.tsx
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import { Card } from '../../../components/ui/card';
+import logger from '../../../lib/logger';
+import { formatCurrency } from '../../../lib/utils/commission';
+import { exportFeeReconciliation, fetchFeeReconciliation } from '../actions';
+import { CheckCircle, Download, FileSearch, Search } from 'lucide-react';
+
+interface ReconciliationIssue {
+  type: 'collected_twice' | 'never_collected' | 'collected_on_refund';
+  commissionId: string | null;
+  whopPaymentId: string | null;
+  transferId: string | null;
+  invoiceIds: string[];
+  amount: number;
+  description: string;
+}
+
+interface FeeReconciliation {
+  id: string;
+  creatorId: string;
+  creator: { companyName: string; companyId: string };
+  periodStart: string;
+  owed: number;
+  collected: number;
+  invoiced: number;
+  difference: number;
+  commissionCount: number;
+  issues: ReconciliationIssue[];
+  issueCount: number;
+  balanced: boolean;
+  reconciledAt: string;
+}
+
+const ISSUE_LABELS: Record<ReconciliationIssue['type'], { label: string; color: string }> = {
+  collected_twice: { label: 'Collected twice', color: 'text-red-400' },
+  never_collected: { label: 'Never collected', color: 'text-orange-300' },
+  collected_on_refund: { label: 'Collected on refund', color: 'text-yellow-300' },
+};
+
+function formatPeriod(periodStart: string): string {
+  return new Date(periodStart).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+export default function AdminFeeReconciliation() {
+  const [reconciliations, setReconciliations] = useState<FeeReconciliation[]>([]);
+  const [issueCount, setIssueCount] = useState(0);
+  const [creatorId, setCreatorId] = useState('');
+  const [issuesOnly, setIssuesOnly] = useState(true);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadReconciliation();
+  }, [issuesOnly]);
+
+  const loadReconciliation = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchFeeReconciliation(creatorId.trim() || undefined, issuesOnly);
+      setReconciliations(data.reconciliations || []);
+      setIssueCount(data.issueCount || 0);
+    } catch (error) {
+      logger.error('Failed to fetch fee reconciliation:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadReconciliation();
+  };
+
+  const exportData = async () => {
+    try {
+      const result = await exportFeeReconciliation(creatorId.trim() || undefined, issuesOnly);
+      if (result.success && result.data) {
+        const blob = new Blob([Uint8Array.from(atob(result.data), char => char.charCodeAt(0))], { type: 'text/csv' });
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `fee-reconciliation-${new Date().toISOString().slice(0, 10)}.csv`;
+        a.click();
+        window.URL.revokeObjectURL(url);
+      } else {
+        logger.error('Export failed:', result.error);
+      }
+    } catch (error) {
+      logger.error('Export failed:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Fee Reconciliation</h1>
+          <p className="text-gray-400 mt-1">
+            Platform share owed per creator and month vs what was collected by transfer and invoiced
+          </p>
+        </div>
+
+        <button
+          onClick={exportData}
+          className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white transition"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </button>
+      </div>
+
+      {/* Summary and Filter */}
+      <Card className="p-4 bg-gray-900 border-gray-800">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+          <div className="flex items-center gap-3 flex-1">
+            <FileSearch className="w-6 h-6 text-orange-400" />
+            <div>
+              <p className="text-sm text-gray-400">
+                {reconciliations.length} creator-month{reconciliations.length === 1 ? '' : 's'}
+              </p>
+              <p className="text-2xl font-bold text-white">{issueCount} issue{issueCount === 1 ? '' : 's'}</p>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={issuesOnly}
+              onChange={(e) => setIssuesOnly(e.target.checked)}
+              className="accent-purple-500"
+            />
+            Unbalanced only
+          </label>
+
+          <form onSubmit={handleFilter} className="relative lg:w-80">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={creatorId}
+              onChange={(e) => setCreatorId(e.target.value)}
+              placeholder="Filter by creator ID..."
+              className="w-full pl-10 pr-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-purple-500"
+            />
+          </form>
+        </div>
+      </Card>
+
+      {/* Reconciliation Table */}
+      <Card className="bg-gray-900 border-gray-800 overflow-hidden">
+        {loading ? (
+          <div className="p-8 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+          </div>
+        ) : reconciliations.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">
+            {issuesOnly ? 'Every reconciled month is balanced' : 'No reconciliations yet'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-800 border-b border-gray-700">
+                <tr>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Creator</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Period</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Owed</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Collected</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Invoiced</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Difference</th>
+                  <th className="text-left px-4 py-3 text-gray-400 font-medium">Issues</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {reconciliations.map((row) => (
+                  <Fragment key={row.id}>
+                    <tr className="hover:bg-gray-800/50">
+                      <td className="px-4 py-3">
+                        <p className="text-white">{row.creator.companyName}</p>
+                        <p className="text-xs text-gray-500">{row.commissionCount} sales</p>
+                      </td>
+                      <td className="px-4 py-3 text-gray-300">{formatPeriod(row.periodStart)}</td>
+                      <td className="px-4 py-3 text-gray-300">{formatCurrency(row.owed)}</td>
+                      <td className="px-4 py-3 text-gray-300">{formatCurrency(row.collected)}</td>
+                      <td className="px-4 py-3 text-gray-300">{formatCurrency(row.invoiced)}</td>
+                      <td className={`px-4 py-3 font-semibold ${
+                        row.difference < 0 ? 'text-orange-300' : row.difference > 0 ? 'text-red-400' : 'text-gray-300'
+                      }`}>
+                        {row.difference < 0 ? '-' : row.difference > 0 ? '+' : ''}{formatCurrency(Math.abs(row.difference))}
+                      </td>
+                      <td className="px-4 py-3">
+                        {row.balanced ? (
+                          <span className="flex items-center gap-1 text-green-400 text-sm">
+                            <CheckCircle className="w-4 h-4" />
+                            Balanced
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => setOpenId(openId === row.id ? null : row.id)}
+                            className="text-sm text-purple-400 hover:text-purple-300"
+                          >
+                            {row.issueCount} issue{row.issueCount === 1 ? '' : 's'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+
+                    {openId === row.id && (
+                      <tr className="bg-gray-800/30">
+                        <td colSpan={7} className="px-4 py-3">
+                          <ul className="space-y-1 text-xs">
+                            {row.issues.map((issue, index) => (
+                              <li key={index} className="text-gray-400">
+                                <span className={ISSUE_LABELS[issue.type].color}>{ISSUE_LABELS[issue.type].label}</span>
+                                {' · '}{formatCurrency(issue.amount)} · {issue.description}
+                                {issue.whopPaymentId && ` · payment ${issue.whopPaymentId}`}
+                                {issue.transferId && ` · transfer ${issue.transferId}`}
+                                {issue.invoiceIds.length > 0 && ` · invoice ${issue.invoiceIds.join(', ')}`}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      <p className="text-xs text-gray-500">
+        Amounts are in the reporting currency. A negative difference is platform share not collected yet; a positive
+        one was collected more than once or on refunded sales. Reconciled daily for the last few months.
+      </p>
+    </div>
+  );
+}
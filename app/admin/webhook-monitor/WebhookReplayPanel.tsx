@@ -0,0 +1,264 @@
+// app/admin/webhook-monitor/WebhookReplayPanel.tsx
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { fetchWebhookEvents, replayWebhookEvents } from '../actions';
+import { Search, PlayCircle, FlaskConical, CheckCircle2, XCircle } from 'lucide-react';
+
+interface StoredWebhookEvent {
+  id: string;
+  eventType: string;
+  status: string;
+  errorMessage: string | null;
+  retryCount: number;
+  createdAt: string;
+}
+
+interface RecordedChange {
+  model: string;
+  operation: string;
+  id?: string;
+  data?: unknown;
+}
+
+interface DryRunReport {
+  eventId: string;
+  eventType: string;
+  ok: boolean;
+  error?: string;
+  result?: { message?: string; error?: string };
+  changes: RecordedChange[];
+}
+
+const STATUSES = ['all', 'dead', 'retrying', 'pending', 'completed'] as const;
+const MAX_DRY_RUN_EVENTS = 25;
+
+export default function WebhookReplayPanel() {
+  const [eventType, setEventType] = useState('');
+  const [status, setStatus] = useState<(typeof STATUSES)[number]>('dead');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [errorContains, setErrorContains] = useState('');
+
+  const [events, setEvents] = useState<StoredWebhookEvent[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reports, setReports] = useState<DryRunReport[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const search = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    setReports([]);
+
+    const data = await fetchWebhookEvents({
+      eventTypes: eventType ? [eventType] : undefined,
+      statuses: status === 'all' ? undefined : [status],
+      from: from || undefined,
+      to: to || undefined,
+      errorContains: errorContains || undefined,
+    });
+
+    setEvents(data.events || []);
+    setSelected(new Set());
+    setIsBusy(false);
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === events.length ? new Set() : new Set(events.map(e => e.id)));
+  };
+
+  const replay = async (dryRun: boolean) => {
+    if (selected.size === 0) return;
+
+    if (!dryRun && !confirm(`Re-drive ${selected.size} events through the live handlers?`)) {
+      return;
+    }
+
+    setIsBusy(true);
+    setMessage(null);
+
+    const data = await replayWebhookEvents(Array.from(selected), dryRun);
+
+    if (!data.success) {
+      setMessage(data.error || 'Replay failed');
+    } else if (dryRun) {
+      setReports(data.reports || []);
+    } else {
+      setReports([]);
+      setMessage(`${data.requeued} events queued for processing`);
+    }
+
+    setIsBusy(false);
+  };
+
+  return (
+    <Card className="bg-[#1A1A1A] border-gray-800 mt-8">
+      <CardHeader>
+        <CardTitle className="text-white">Replay &amp; Re-drive</CardTitle>
+        <p className="text-sm text-gray-400">
+          Re-run stored events through the webhook handlers. Dry-run shows what would be created or changed.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+          <input
+            value={eventType}
+            onChange={(e) => setEventType(e.target.value)}
+            placeholder="Event type (e.g. payment.succeeded)"
+            className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white"
+          />
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as (typeof STATUSES)[number])}
+            className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white"
+          >
+            {STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s.charAt(0).toUpperCase() + s.slice(1)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white"
+          />
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white"
+          />
+          <input
+            value={errorContains}
+            onChange={(e) => setErrorContains(e.target.value)}
+            placeholder="Error contains..."
+            className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white"
+          />
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={search}
+            disabled={isBusy}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+          >
+            <Search className="w-4 h-4" />
+            Search
+          </button>
+          <button
+            onClick={() => replay(true)}
+            disabled={isBusy || selected.size === 0 || selected.size > MAX_DRY_RUN_EVENTS}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-600/20 text-purple-300 border border-purple-600/30 rounded-lg hover:bg-purple-600/30 disabled:opacity-50"
+          >
+            <FlaskConical className="w-4 h-4" />
+            Dry run ({selected.size})
+          </button>
+          <button
+            onClick={() => replay(false)}
+            disabled={isBusy || selected.size === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            <PlayCircle className="w-4 h-4" />
+            Re-drive ({selected.size})
+          </button>
+        </div>
+
+        {selected.size > MAX_DRY_RUN_EVENTS && (
+          <p className="text-xs text-yellow-400 mb-4">
+            Dry-run is limited to {MAX_DRY_RUN_EVENTS} events at a time.
+          </p>
+        )}
+
+        {message && <p className="text-sm text-gray-300 mb-4">{message}</p>}
+
+        {/* Matching events */}
+        {events.length > 0 && (
+          <div className="max-h-[400px] overflow-y-auto mb-6">
+            <table className="w-full text-sm">
+              <thead className="text-gray-400 text-left">
+                <tr>
+                  <th className="p-2">
+                    <input type="checkbox" checked={selected.size === events.length} onChange={toggleAll} />
+                  </th>
+                  <th className="p-2">Type</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2">Received</th>
+                  <th className="p-2">Attempts</th>
+                  <th className="p-2">Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr key={event.id} className="border-t border-gray-800">
+                    <td className="p-2">
+                      <input type="checkbox" checked={selected.has(event.id)} onChange={() => toggle(event.id)} />
+                    </td>
+                    <td className="p-2 text-white">{event.eventType}</td>
+                    <td className="p-2 text-gray-300">{event.status}</td>
+                    <td className="p-2 text-gray-400">{new Date(event.createdAt).toLocaleString()}</td>
+                    <td className="p-2 text-gray-400">{event.retryCount}</td>
+                    <td className="p-2 text-red-400 truncate max-w-xs">{event.errorMessage}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Dry-run reports */}
+        {reports.length > 0 && (
+          <div className="space-y-3">
+            {reports.map((report) => (
+              <div key={report.eventId} className="p-4 bg-gray-900/50 rounded-lg">
+                <div className="flex items-center gap-2 mb-2">
+                  {report.ok ? (
+                    <CheckCircle2 className="w-4 h-4 text-green-400" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-400" />
+                  )}
+                  <span className="text-white font-medium">{report.eventType}</span>
+                  <span className="text-xs text-gray-500">{report.eventId}</span>
+                </div>
+                {(report.error || report.result?.error || report.result?.message) && (
+                  <p className="text-xs text-gray-400 mb-2">
+                    {report.error || report.result?.error || report.result?.message}
+                  </p>
+                )}
+                {report.changes.length === 0 ? (
+                  <p className="text-xs text-gray-500">No changes - already fully applied</p>
+                ) : (
+                  <ul className="text-xs text-gray-300 space-y-1">
+                    {report.changes.map((change, i) => (
+                      <li key={i}>
+                        <span className="text-purple-300">{change.operation}</span> {change.model}
+                        {change.id && <span className="text-gray-500"> ({change.id})</span>}
+                        {change.data != null && (
+                          <span className="text-gray-500"> {JSON.stringify(change.data)}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
 import logger from '../../../lib/logger';
 import { fetchWebhookStats } from '../actions';
+import WebhookReplayPanel from './WebhookReplayPanel';
 import {
 Activity,
   AlertCircle,
@@ -344,6 +345,9 @@ export default function WebhookMonitor() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Replay & Re-drive */}
+      <WebhookReplayPanel />
     </div>
   );
 }
\ No newline at end of file
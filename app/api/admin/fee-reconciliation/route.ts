@@ -0,0 +1,65 @@
+// app/api/admin/fee-reconciliation/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { withRateLimit } from '../../../../lib/middleware/rate-limit';
+import { isAdmin } from '../../../../lib/whop/simple-auth';
+import {
+  exportFeeReconciliationCsv,
+  listFeeReconciliations,
+} from '../../../../lib/invoice/reconcile-platform-fees';
+import { roundDollars } from '../../../../lib/utils/money';
+import logger from '../../../../lib/logger';
+
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Platform Fee Reconciliation API
+ *
+ * GET - Platform share owed vs collected and invoiced, per creator and month
+ *       ?creatorId= for one creator, ?issues=1 for unbalanced months only,
+ *       ?format=csv for the exportable statement
+ *
+ * SECURITY: Requires admin authentication
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Verify admin access
+  if (!await isAdmin()) {
+    logger.warn('[ADMIN] Unauthorized access attempt to /api/admin/fee-reconciliation');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return withRateLimit(request, async (request) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const options = {
+        creatorId: searchParams.get('creatorId') || undefined,
+        issuesOnly: searchParams.get('issues') === '1',
+      };
+
+      if (searchParams.get('format') === 'csv') {
+        const csv = await exportFeeReconciliationCsv(options);
+
+        return new NextResponse(csv, {
+          headers: {
+            'Content-Type': 'text/csv',
+            'Content-Disposition': `attachment; filename="fee-reconciliation-${format(new Date(), 'yyyy-MM-dd')}.csv"`,
+          },
+        });
+      }
+
+      const reconciliations = await listFeeReconciliations(options);
+
+      return NextResponse.json({
+        success: true,
+        reconciliations,
+        totalDifference: roundDollars(reconciliations.reduce((sum, row) => sum + row.difference, 0)),
+        issueCount: reconciliations.reduce((sum, row) => sum + row.issueCount, 0),
+      });
+    } catch (error) {
+      logger.error('Failed to build fee reconciliation report:', error);
+      return NextResponse.json({ error: 'Failed to build fee reconciliation report' }, { status: 500 });
+    }
+  }, 'member');
+}
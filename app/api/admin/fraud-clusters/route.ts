@@ -0,0 +1,108 @@
+// app/api/admin/fraud-clusters/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRateLimit } from '../../../../lib/middleware/rate-limit';
+import { getWhopContext, isAdmin } from '../../../../lib/whop/simple-auth';
+import {
+  listFraudClusters,
+  reviewFraudCluster,
+  FRAUD_CLUSTER_STATUSES,
+} from '../../../../lib/fraud/collusion-analysis';
+import logger from '../../../../lib/logger';
+
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const listSchema = z.object({
+  status: z.enum(FRAUD_CLUSTER_STATUSES).optional(),
+  creatorId: z.string().min(1).optional(),
+});
+
+const reviewSchema = z.object({
+  clusterId: z.string().min(1),
+  status: z.enum(['confirmed', 'dismissed']),
+});
+
+/**
+ * Fraud Clusters API
+ *
+ * GET  - Collusion clusters found by the referral graph job
+ * POST - Confirm or dismiss a cluster
+ *
+ * SECURITY: Requires admin authentication
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Verify admin access
+  if (!await isAdmin()) {
+    logger.warn('[ADMIN] Unauthorized access attempt to /api/admin/fraud-clusters');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return withRateLimit(request, async (request) => {
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = listSchema.safeParse({
+      status: searchParams.get('status') || undefined,
+      creatorId: searchParams.get('creatorId') || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const clusters = await listFraudClusters(validationResult.data);
+
+      return NextResponse.json({ success: true, clusters });
+    } catch (error) {
+      logger.error('Failed to list fraud clusters:', error);
+      return NextResponse.json({ error: 'Failed to list fraud clusters' }, { status: 500 });
+    }
+  }, 'member');
+}
+
+export async function POST(request: NextRequest) {
+  // SECURITY: Verify admin access
+  if (!await isAdmin()) {
+    logger.warn('[ADMIN] Unauthorized access attempt to /api/admin/fraud-clusters POST');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return withRateLimit(request, async (request) => {
+    try {
+      const body = await request.json();
+      const validationResult = reviewSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: validationResult.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const { userId } = await getWhopContext();
+      const cluster = await reviewFraudCluster({ ...validationResult.data, reviewedBy: userId ?? 'admin' });
+
+      if (!cluster) {
+        return NextResponse.json({ error: 'Cluster not found' }, { status: 404 });
+      }
+
+      logger.info(`[ADMIN] Fraud cluster ${cluster.id} ${cluster.status} by ${cluster.reviewedBy}`);
+
+      return NextResponse.json({ success: true, cluster });
+    } catch (error) {
+      logger.error('Fraud cluster review failed:', error);
+
+      return NextResponse.json(
+        {
+          error: 'Fraud cluster review failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  }, 'member');
+}
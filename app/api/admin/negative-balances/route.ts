@@ -0,0 +1,43 @@
+// app/api/admin/negative-balances/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '../../../../lib/middleware/rate-limit';
+import { isAdmin } from '../../../../lib/whop/simple-auth';
+import { getNegativeBalanceReport } from '../../../../lib/ledger/member-balance';
+import { roundDollars } from '../../../../lib/utils/money';
+import logger from '../../../../lib/logger';
+
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Negative Balances API
+ *
+ * GET - Members still owing clawbacks on refunded, already-paid commissions
+ *       (optionally for one creator via ?creatorId=)
+ *
+ * SECURITY: Requires admin authentication
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Verify admin access
+  if (!await isAdmin()) {
+    logger.warn('[ADMIN] Unauthorized access attempt to /api/admin/negative-balances');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return withRateLimit(request, async (request) => {
+    try {
+      const creatorId = request.nextUrl.searchParams.get('creatorId') || undefined;
+      const members = await getNegativeBalanceReport({ creatorId });
+
+      return NextResponse.json({
+        success: true,
+        members,
+        totalOwed: roundDollars(members.reduce((sum, member) => sum - member.balance, 0)),
+      });
+    } catch (error) {
+      logger.error('Failed to build negative balance report:', error);
+      return NextResponse.json({ error: 'Failed to build negative balance report' }, { status: 500 });
+    }
+  }, 'member');
+}
@@ -0,0 +1,88 @@
+// app/api/admin/stuck-payouts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRateLimit } from '../../../../lib/middleware/rate-limit';
+import { getWhopContext, isAdmin } from '../../../../lib/whop/simple-auth';
+import { getStuckPayoutReport, resolveStuckPayout } from '../../../../lib/utils/payout-recovery';
+import logger from '../../../../lib/logger';
+
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const resolveSchema = z.object({
+  payoutId: z.string().min(1),
+  action: z.enum(['retry', 'cancel']),
+});
+
+/**
+ * Stuck Payouts API
+ *
+ * GET  - Money held in payouts that didn't go through, per creator
+ *        (optionally for one creator via ?creatorId=)
+ * POST - Retry a payout now, or cancel it so the next payout run replans it
+ *
+ * SECURITY: Requires admin authentication
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Verify admin access
+  if (!await isAdmin()) {
+    logger.warn('[ADMIN] Unauthorized access attempt to /api/admin/stuck-payouts');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return withRateLimit(request, async (request) => {
+    try {
+      const creatorId = request.nextUrl.searchParams.get('creatorId') || undefined;
+      const report = await getStuckPayoutReport({ creatorId });
+
+      return NextResponse.json({ success: true, ...report });
+    } catch (error) {
+      logger.error('Failed to build stuck payout report:', error);
+      return NextResponse.json({ error: 'Failed to build stuck payout report' }, { status: 500 });
+    }
+  }, 'member');
+}
+
+export async function POST(request: NextRequest) {
+  // SECURITY: Verify admin access
+  if (!await isAdmin()) {
+    logger.warn('[ADMIN] Unauthorized access attempt to /api/admin/stuck-payouts POST');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return withRateLimit(request, async (request) => {
+    try {
+      const body = await request.json();
+      const validationResult = resolveSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: validationResult.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const { userId } = await getWhopContext();
+      const payout = await resolveStuckPayout({ ...validationResult.data, resolvedBy: userId ?? 'admin' });
+
+      if (!payout) {
+        return NextResponse.json({ error: 'Payout not found or already settled' }, { status: 404 });
+      }
+
+      logger.info(`[ADMIN] Stuck payout ${payout.id} set to ${payout.status} by ${userId ?? 'admin'}`);
+
+      return NextResponse.json({ success: true, payout });
+    } catch (error) {
+      logger.error('Stuck payout update failed:', error);
+
+      return NextResponse.json(
+        {
+          error: 'Stuck payout update failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  }, 'member');
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
+import { startOfMonth } from 'date-fns'
 import { isAdmin } from '../../../../lib/whop/simple-auth';
+import {
+  getMemberEarningsTotals,
+  getCreatorRevenueTotals,
+  findUnbalancedTransactions,
+} from '../../../../lib/ledger/commission-ledger';
 import logger from '../../../../lib/logger';
 
 
@@ -9,6 +15,9 @@ const prisma = new PrismaClient()
 /**
  * Data Consistency Validation API
  *
+ * Cached earnings/revenue counters are checked against the commission ledger,
+ * and the ledger itself is checked for unbalanced postings.
+ *
  * SECURITY: Requires admin authentication
  */
 export async function POST(request: NextRequest) {
@@ -39,15 +48,23 @@ export async function POST(request: NextRequest) {
         total: 0,
         invalid: [] as any[]
       },
+      ledger: {
+        unbalanced: [] as any[]
+      },
       healthScore: 100
     }
 
+    const monthStart = startOfMonth(new Date())
+    const [memberLifetime, memberMonthly, creatorLifetime, creatorMonthly] = await Promise.all([
+      getMemberEarningsTotals(),
+      getMemberEarningsTotals({ since: monthStart }),
+      getCreatorRevenueTotals(),
+      getCreatorRevenueTotals(monthStart)
+    ])
+
     // Validate Member Data
     const members = await prisma.member.findMany({
       include: {
-        commissions: {
-          where: { status: 'paid' }
-        },
         referrals: true
       }
     })
@@ -63,10 +80,8 @@ export async function POST(request: NextRequest) {
         fixes: {}
       }
 
-      // Check lifetime earnings
-      const actualLifetimeEarnings = (member.commissions as any[]).reduce(
-        (sum: number, c: any) => sum + parseFloat(c.memberShare.toString()), 0
-      )
+      // Check lifetime earnings against the ledger
+      const actualLifetimeEarnings = memberLifetime.get(member.id) || 0
 
       if (Math.abs(actualLifetimeEarnings - parseFloat(member.lifetimeEarnings.toString())) > 0.01) {
         issues.problems.push({
@@ -77,15 +92,8 @@ export async function POST(request: NextRequest) {
         issues.fixes.lifetimeEarnings = actualLifetimeEarnings
       }
 
-      // Check monthly earnings
-      const now = new Date()
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1)
-      const monthlyCommissions = (member.commissions as any[]).filter(
-        (c: any) => new Date(c.createdAt) >= startOfMonth
-      )
-      const actualMonthlyEarnings = monthlyCommissions.reduce(
-        (sum: number, c: any) => sum + parseFloat(c.memberShare.toString()), 0
-      )
+      // Check monthly earnings against the ledger
+      const actualMonthlyEarnings = memberMonthly.get(member.id) || 0
 
       if (Math.abs(actualMonthlyEarnings - parseFloat(member.monthlyEarnings.toString())) > 0.01) {
         issues.problems.push({
@@ -124,9 +132,6 @@ export async function POST(request: NextRequest) {
     // Validate Creator Data
     const creators = await prisma.creator.findMany({
       include: {
-        commissions: {
-          where: { status: 'paid' }
-        },
         members: {
           include: { referrals: true }
         }
@@ -143,10 +148,8 @@ export async function POST(request: NextRequest) {
         fixes: {}
       }
 
-      // Check total revenue
-      const actualTotalRevenue = (creator.commissions as any[]).reduce(
-        (sum: number, c: any) => sum + parseFloat(c.creatorShare.toString()), 0
-      )
+      // Check total revenue against the ledger
+      const actualTotalRevenue = creatorLifetime.get(creator.id) || 0
 
       if (Math.abs(actualTotalRevenue - parseFloat(creator.totalRevenue.toString())) > 0.01) {
         issues.problems.push({
@@ -157,15 +160,8 @@ export async function POST(request: NextRequest) {
         issues.fixes.totalRevenue = actualTotalRevenue
       }
 
-      // Check monthly revenue
-      const now = new Date()
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1)
-      const monthlyCommissions = (creator.commissions as any[]).filter(
-        (c: any) => new Date(c.createdAt) >= startOfMonth
-      )
-      const actualMonthlyRevenue = monthlyCommissions.reduce(
-        (sum: number, c: any) => sum + parseFloat(c.creatorShare.toString()), 0
-      )
+      // Check monthly revenue against the ledger
+      const actualMonthlyRevenue = creatorMonthly.get(creator.id) || 0
 
       if (Math.abs(actualMonthlyRevenue - parseFloat(creator.monthlyRevenue.toString())) > 0.01) {
         issues.problems.push({
@@ -251,6 +247,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate Ledger Integrity (every posting must sum to zero)
+    report.ledger.unbalanced = await findUnbalancedTransactions()
+
     // Calculate health score
     const totalEntities = report.members.total + report.creators.total
     const totalDiscrepancies = report.members.discrepancies.length + report.creators.discrepancies.length
@@ -260,10 +259,11 @@ export async function POST(request: NextRequest) {
 
     // Add summary
     const summary = {
-      totalIssues: totalDiscrepancies + report.commissions.invalid.length,
+      totalIssues: totalDiscrepancies + report.commissions.invalid.length + report.ledger.unbalanced.length,
       membersWithIssues: report.members.discrepancies.length,
       creatorsWithIssues: report.creators.discrepancies.length,
       invalidCommissions: report.commissions.invalid.length,
+      unbalancedLedgerPostings: report.ledger.unbalanced.length,
       fixed: report.members.fixed + report.creators.fixed,
       healthScore: report.healthScore.toFixed(1) + '%'
     }
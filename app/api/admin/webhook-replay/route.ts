@@ -0,0 +1,130 @@
+// app/api/admin/webhook-replay/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRateLimit } from '../../../../lib/middleware/rate-limit';
+import { isAdmin } from '../../../../lib/whop/simple-auth';
+import {
+  findWebhookEvents,
+  dryRunWebhookEvents,
+  redriveWebhookEvents,
+  MAX_DRY_RUN_EVENTS,
+  MAX_REDRIVE_EVENTS,
+  type WebhookEventFilter,
+} from '../../../../lib/webhook/replay';
+import logger from '../../../../lib/logger';
+
+
+/**
+ * Zod schema for a stored-event selection
+ */
+const filterSchema = z.object({
+  eventTypes: z.array(z.string().min(1)).max(50).optional(),
+  statuses: z.array(z.enum(['pending', 'processing', 'retrying', 'completed', 'dead'])).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  hasError: z.boolean().optional(),
+  errorContains: z.string().max(200).optional(),
+});
+
+const replaySchema = z.object({
+  eventIds: z.array(z.string().min(1)).min(1).max(MAX_REDRIVE_EVENTS),
+  dryRun: z.boolean().default(true),
+});
+
+/**
+ * Webhook Replay API
+ *
+ * GET  - List stored WebhookEvent rows by type, date range, status or error
+ * POST - Dry-run or re-drive selected events through the Whop handlers
+ *
+ * SECURITY: Requires admin authentication
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Verify admin access
+  if (!await isAdmin()) {
+    logger.warn('[ADMIN] Unauthorized access attempt to /api/admin/webhook-replay');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return withRateLimit(request, async (request) => {
+    const searchParams = request.nextUrl.searchParams;
+    const list = (key: string) => searchParams.get(key)?.split(',').filter(Boolean) || undefined;
+
+    const validationResult = filterSchema.safeParse({
+      eventTypes: list('eventTypes'),
+      statuses: list('statuses'),
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      hasError: searchParams.has('hasError') ? searchParams.get('hasError') === 'true' : undefined,
+      errorContains: searchParams.get('errorContains') || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const filter: WebhookEventFilter = validationResult.data;
+      const events = await findWebhookEvents(filter, 200);
+
+      return NextResponse.json({ success: true, events });
+    } catch (error) {
+      logger.error('Failed to list webhook events:', error);
+      return NextResponse.json({ error: 'Failed to list webhook events' }, { status: 500 });
+    }
+  }, 'member');
+}
+
+export async function POST(request: NextRequest) {
+  // SECURITY: Verify admin access
+  if (!await isAdmin()) {
+    logger.warn('[ADMIN] Unauthorized access attempt to /api/admin/webhook-replay POST');
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return withRateLimit(request, async (request) => {
+    try {
+      const body = await request.json();
+      const validationResult = replaySchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: validationResult.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const { eventIds, dryRun } = validationResult.data;
+
+      if (dryRun) {
+        if (eventIds.length > MAX_DRY_RUN_EVENTS) {
+          return NextResponse.json(
+            { error: `Dry-run is limited to ${MAX_DRY_RUN_EVENTS} events per request` },
+            { status: 400 }
+          );
+        }
+
+        const reports = await dryRunWebhookEvents(eventIds);
+        return NextResponse.json({ success: true, dryRun: true, reports });
+      }
+
+      const requeued = await redriveWebhookEvents(eventIds);
+      logger.info(`[ADMIN] Webhook re-drive requested for ${eventIds.length} events (${requeued} queued)`);
+
+      return NextResponse.json({ success: true, dryRun: false, requeued });
+    } catch (error) {
+      logger.error('Webhook replay failed:', error);
+
+      return NextResponse.json(
+        {
+          error: 'Webhook replay failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  }, 'member');
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '../../../../lib/db/prisma';
 import { withRateLimit } from '../../../../lib/middleware/rate-limit';
 import { isAdmin } from '../../../../lib/whop/simple-auth';
+import { webhookQueue } from '../../../../lib/queue/webhook-queue';
 import { subHours, subDays, startOfHour, format } from 'date-fns';
 import logger from '../../../../lib/logger';
 
@@ -53,7 +54,8 @@ export async function GET(request: NextRequest) {
         successfulCommissions,
         failedCommissions,
         recentCommissions,
-        hourlyData
+        hourlyData,
+        queueStats
       ] = await Promise.all([
         // Total count
         prisma.commission.count({
@@ -97,6 +99,9 @@ export async function GET(request: NextRequest) {
 
         // Hourly statistics
         getHourlyStats(startDate),
+
+        // Async processing queue (WebhookEvent status counts)
+        webhookQueue.getStats(),
       ]);
 
       // Calculate aggregate statistics
@@ -141,6 +146,7 @@ export async function GET(request: NextRequest) {
         totalRevenue,
         recentEvents: events.slice(0, 20),
         hourlyStats: hourlyData,
+        queue: queueStats,
       };
 
       return NextResponse.json({
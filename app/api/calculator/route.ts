@@ -8,6 +8,7 @@ import {
   getMotivationalMessage,
   calculateWhatIfScenarios,
 } from '@/lib/utils/earnings-calculator';
+import { parseRecurringPolicy } from '@/lib/utils/recurring-commission';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -35,6 +36,8 @@ export async function GET(request: NextRequest) {
       where: { id: creatorId },
       select: {
         companyName: true,
+        recurringCommissionMode: true,
+        recurringCommissionLimit: true,
         members: {
           where: {
             subscriptionPrice: { gt: 0 }
@@ -76,6 +79,7 @@ export async function GET(request: NextRequest) {
     const input = {
       avgSubscriptionPrice: avgPrice,
       userSubscriptionPrice: userPrice,
+      recurringPolicy: parseRecurringPolicy(creator),
     };
 
     // Generate all projection data
@@ -89,6 +93,7 @@ export async function GET(request: NextRequest) {
       communityName: creator.companyName,
       avgSubscriptionPrice: avgPrice,
       userSubscriptionPrice: userPrice,
+      recurringPolicy: input.recurringPolicy,
       projection,
       projectionTable,
       breakEvenReferrals,
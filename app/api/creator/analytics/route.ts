@@ -8,12 +8,14 @@
  * - Top performers with detailed stats
  * - Time series data for charts
  * - Commission breakdown by tier
+ * - Click → signup → paid funnel by channel
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '../../../../lib/db/prisma';
 import { startOfDay, subDays, startOfMonth, subMonths, format } from 'date-fns';
 import logger from '../../../../lib/logger';
+import { getClickFunnel, type ClickFunnel } from '../../../../lib/analytics/click-tracking';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -34,6 +36,7 @@ interface CreatorAnalytics {
   referralGrowth: number;
   conversionRate: number;
   totalClicks: number;
+  clickFunnel: ClickFunnel; // Current period, bots excluded
 
   // Top performers
   topReferrers: Array<{
@@ -150,8 +153,8 @@ export async function GET(request: NextRequest) {
           createdAt: { gte: periodStart },
         },
         select: {
-          saleAmount: true,
-          memberShare: true,
+          reportingSaleAmount: true,
+          reportingMemberShare: true,
           appliedTier: true,
           createdAt: true,
         },
@@ -168,7 +171,7 @@ export async function GET(request: NextRequest) {
           },
         },
         select: {
-          saleAmount: true,
+          reportingSaleAmount: true,
         },
       }),
 
@@ -179,8 +182,8 @@ export async function GET(request: NextRequest) {
           status: 'paid',
         },
         _sum: {
-          saleAmount: true,
-          memberShare: true,
+          reportingSaleAmount: true,
+          reportingMemberShare: true,
         },
         _count: true,
       }),
@@ -222,13 +225,13 @@ export async function GET(request: NextRequest) {
           status: 'paid',
         },
         _sum: {
-          memberShare: true,
-          saleAmount: true,
+          reportingMemberShare: true,
+          reportingSaleAmount: true,
         },
         _count: true,
         orderBy: {
           _sum: {
-            memberShare: 'desc',
+            reportingMemberShare: 'desc',
           },
         },
         take: 10,
@@ -241,7 +244,7 @@ export async function GET(request: NextRequest) {
           status: 'pending',
         },
         _sum: {
-          memberShare: true,
+          reportingMemberShare: true,
         },
       }),
     ]);
@@ -252,18 +255,18 @@ export async function GET(request: NextRequest) {
 
     // Revenue metrics
     const currentRevenue = currentPeriodCommissions.reduce(
-      (sum, c) => sum + c.saleAmount,
+      (sum, c) => sum + (c.reportingSaleAmount ?? 0),
       0
     );
     const previousRevenue = previousPeriodCommissions.reduce(
-      (sum, c) => sum + c.saleAmount,
+      (sum, c) => sum + (c.reportingSaleAmount ?? 0),
       0
     );
     const revenueGrowth = previousRevenue > 0
       ? ((currentRevenue - previousRevenue) / previousRevenue) * 100
       : currentRevenue > 0 ? 100 : 0;
 
-    const totalRevenue = allTimeCommissions._sum.saleAmount || 0;
+    const totalRevenue = allTimeCommissions._sum.reportingSaleAmount || 0;
     const avgOrderValue = allTimeCommissions._count > 0
       ? totalRevenue / allTimeCommissions._count
       : 0;
@@ -303,7 +306,7 @@ export async function GET(request: NextRequest) {
     currentPeriodCommissions.forEach(c => {
       const tier = c.appliedTier || 'starter';
       if (tier in commissionByTier) {
-        commissionByTier[tier as keyof typeof commissionByTier] += c.memberShare;
+        commissionByTier[tier as keyof typeof commissionByTier] += c.reportingMemberShare ?? 0;
       }
     });
 
@@ -326,7 +329,7 @@ export async function GET(request: NextRequest) {
     currentPeriodCommissions.forEach(c => {
       const date = format(c.createdAt, 'yyyy-MM-dd');
       const current = dailyRevenueMap.get(date) || 0;
-      dailyRevenueMap.set(date, current + c.saleAmount);
+      dailyRevenueMap.set(date, current + (c.reportingSaleAmount ?? 0));
     });
 
     // Get daily referrals
@@ -387,12 +390,15 @@ export async function GET(request: NextRequest) {
         memberId: p.memberId,
         username: member?.username || 'Unknown',
         referrals: member?.totalReferred || 0,
-        revenue: p._sum.saleAmount || 0,
-        commissionEarned: p._sum.memberShare || 0,
+        revenue: p._sum.reportingSaleAmount || 0,
+        commissionEarned: p._sum.reportingMemberShare || 0,
         tier: member?.commissionTier || 'starter',
       };
     });
 
+    // Click → signup → paid for the period
+    const clickFunnel = await getClickFunnel({ creatorId: creator.id }, periodStart);
+
     // ========================================
     // BUILD RESPONSE
     // ========================================
@@ -408,6 +414,7 @@ export async function GET(request: NextRequest) {
       referralGrowth: Math.round(referralGrowth * 10) / 10,
       conversionRate: Math.round(conversionRate * 10) / 10,
       totalClicks: totalClicksAllTime,
+      clickFunnel,
 
       // Top performers
       topReferrers,
@@ -417,8 +424,8 @@ export async function GET(request: NextRequest) {
       dailyReferrals,
 
       // Commissions
-      totalCommissionsPaid: allTimeCommissions._sum.memberShare || 0,
-      pendingCommissions: pendingCommissionsData._sum.memberShare || 0,
+      totalCommissionsPaid: allTimeCommissions._sum.reportingMemberShare || 0,
+      pendingCommissions: pendingCommissionsData._sum.reportingMemberShare || 0,
       commissionByTier,
 
       // Period info
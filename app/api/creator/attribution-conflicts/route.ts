@@ -0,0 +1,192 @@
+// app/api/creator/attribution-conflicts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById, getWhopContext } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { getConflictCandidates, resolveAttributionConflict } from '../../../../lib/utils/attribution-conflicts';
+import { ReferralReassignmentError } from '../../../../lib/utils/referral-reassignment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CONFLICT_STATUSES = ['open', 'auto_resolved', 'resolved'] as const;
+
+/**
+ * Zod schema for resolving a conflict
+ */
+const resolveConflictSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  conflictId: z.string().min(1, 'Conflict ID is required'),
+  winnerMemberId: z.string().min(1, 'Winner member ID is required'),
+});
+
+/**
+ * GET /api/creator/attribution-conflicts?creatorId={id}&status=open
+ * List attribution conflicts with referee and candidate details
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+    const status = searchParams.get('status');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    if (status && !CONFLICT_STATUSES.includes(status as typeof CONFLICT_STATUSES[number])) {
+      return NextResponse.json(
+        { error: `status must be one of: ${CONFLICT_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized attribution conflict read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const conflicts = await prisma.attributionConflict.findMany({
+      where: { creatorId, ...(status && { status }) },
+      include: {
+        referee: { select: { id: true, username: true, referralCode: true, createdAt: true } },
+      },
+      orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+      take: 100,
+    });
+
+    // Candidate usernames for display
+    const candidateIds = Array.from(new Set(conflicts.flatMap(c => getConflictCandidates(c).map(x => x.memberId))));
+    const candidateMembers = await prisma.member.findMany({
+      where: { id: { in: candidateIds } },
+      select: { id: true, username: true },
+    });
+    const usernames = new Map(candidateMembers.map(m => [m.id, m.username]));
+
+    const openCount = await prisma.attributionConflict.count({ where: { creatorId, status: 'open' } });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        openCount,
+        conflicts: conflicts.map(conflict => ({
+          id: conflict.id,
+          status: conflict.status,
+          policy: conflict.policy,
+          referee: conflict.referee,
+          assignedMemberId: conflict.assignedMemberId,
+          candidates: getConflictCandidates(conflict).map(candidate => ({
+            ...candidate,
+            username: usernames.get(candidate.memberId) ?? null,
+          })),
+          resolvedBy: conflict.resolvedBy,
+          resolvedAt: conflict.resolvedAt,
+          createdAt: conflict.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error('❌ Error fetching attribution conflicts:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch attribution conflicts',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/creator/attribution-conflicts
+ * Resolve a conflict: credit one candidate and move the referee's commissions to them
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = resolveConflictSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized attribution conflict resolve attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    const { userId } = await getWhopContext();
+
+    const { conflict, reassignment } = await resolveAttributionConflict({
+      conflictId: data.conflictId,
+      creatorId: data.creatorId,
+      winnerMemberId: data.winnerMemberId,
+      resolvedBy: userId || 'creator',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { conflict, reassignment },
+    });
+  } catch (error) {
+    if (error instanceof ReferralReassignmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    logger.error('❌ Error resolving attribution conflict:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to resolve attribution conflict',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
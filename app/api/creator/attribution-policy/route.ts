@@ -0,0 +1,180 @@
+// app/api/creator/attribution-policy/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { ATTRIBUTION_POLICIES } from '../../../../lib/constants/attribution';
+import { describeAttributionPolicy, parseAttributionPolicy } from '../../../../lib/utils/attribution-policy';
+
+/**
+ * Zod schema for updating the attribution conflict policy
+ */
+const updateAttributionPolicySchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  policy: z.enum(ATTRIBUTION_POLICIES),
+});
+
+/**
+ * POST /api/creator/attribution-policy
+ * Set who gets credit when a signup has signals for different referrers
+ * (applies to future conflicts - recorded conflicts keep their outcome)
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateAttributionPolicySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized attribution policy update attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    // Verify creator exists
+    const creator = await prisma.creator.findUnique({
+      where: { id: data.creatorId },
+      select: { id: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedCreator = await prisma.creator.update({
+      where: { id: data.creatorId },
+      data: { attributionPolicy: data.policy },
+      select: { id: true, attributionPolicy: true, updatedAt: true },
+    });
+
+    logger.info(`Attribution policy for creator ${data.creatorId}: ${data.policy}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...updatedCreator,
+          description: describeAttributionPolicy(data.policy),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error updating attribution policy:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update attribution policy',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/creator/attribution-policy?creatorId={id}
+ * Get a creator's attribution conflict policy
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized attribution policy read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const creator = await prisma.creator.findUnique({
+      where: { id: creatorId },
+      select: { id: true, attributionPolicy: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const policy = parseAttributionPolicy(creator.attributionPolicy);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: creator.id,
+          policy,
+          description: describeAttributionPolicy(policy),
+          options: ATTRIBUTION_POLICIES.map(option => ({
+            policy: option,
+            description: describeAttributionPolicy(option),
+          })),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error fetching attribution policy:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch attribution policy',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
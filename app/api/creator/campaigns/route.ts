@@ -0,0 +1,321 @@
+// app/api/creator/campaigns/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { CAMPAIGN_LIMITS } from '../../../../lib/constants/commission';
+import { getCreatorTierSettings } from '../../../../lib/utils/tier-ladder';
+import { getCampaignStatus, validateCampaign } from '../../../../lib/utils/commission-campaigns';
+
+/**
+ * Zod schema for creating a boost campaign
+ * boostValue is a multiplier (e.g. 2 = "2x") or an added rate (e.g. 0.05 = "+5%")
+ */
+const createCampaignSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  name: z.string().trim().min(1).max(CAMPAIGN_LIMITS.MAX_NAME_LENGTH),
+  boostType: z.enum(['multiplier', 'additive']),
+  boostValue: z.number().positive(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  targetType: z.enum(['all', 'tier', 'members']).default('all'),
+  targetTiers: z.array(z.string().min(1)).max(20).default([]),
+  targetMemberIds: z.array(z.string().min(1)).max(CAMPAIGN_LIMITS.MAX_TARGET_MEMBERS).default([]),
+  productIds: z.array(z.string().min(1)).max(50).default([]),
+  billingPeriods: z.array(z.string().min(1)).max(10).default([]),
+});
+
+/**
+ * Zod schema for cancelling a campaign
+ */
+const cancelCampaignSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  campaignId: z.string().min(1, 'Campaign ID is required'),
+});
+
+/**
+ * POST /api/creator/campaigns
+ * Schedule a time-boxed commission boost campaign
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = createCampaignSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized campaign create attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    // Verify creator exists
+    const creator = await prisma.creator.findUnique({
+      where: { id: data.creatorId },
+      select: { id: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    // Validate campaign business rules (boost bounds, duration, targeting)
+    const campaignErrors = validateCampaign(data);
+
+    if (data.targetType === 'tier') {
+      const { ladder } = await getCreatorTierSettings(data.creatorId);
+      const unknownTiers = data.targetTiers.filter(key => !ladder.some(tier => tier.tierName === key));
+      if (unknownTiers.length > 0) {
+        campaignErrors.push(`Unknown tiers: ${unknownTiers.join(', ')}`);
+      }
+    }
+
+    if (data.targetType === 'members') {
+      const memberCount = await prisma.member.count({
+        where: { id: { in: data.targetMemberIds }, creatorId: data.creatorId },
+      });
+      if (memberCount !== new Set(data.targetMemberIds).size) {
+        campaignErrors.push('Some targeted members do not belong to this creator');
+      }
+    }
+
+    if (campaignErrors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid campaign',
+          details: campaignErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await prisma.commissionCampaign.create({
+      data: {
+        creatorId: data.creatorId,
+        name: data.name,
+        boostType: data.boostType,
+        boostValue: data.boostValue,
+        startsAt: data.startsAt,
+        endsAt: data.endsAt,
+        targetType: data.targetType,
+        targetTiers: data.targetType === 'tier' ? data.targetTiers : [],
+        targetMemberIds: data.targetType === 'members' ? data.targetMemberIds : [],
+        productIds: data.productIds,
+        billingPeriods: data.billingPeriods,
+      },
+    });
+
+    logger.info(`Boost campaign "${campaign.name}" scheduled for creator ${data.creatorId}`, {
+      campaignId: campaign.id,
+      boostType: campaign.boostType,
+      boostValue: campaign.boostValue,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...campaign, status: getCampaignStatus(campaign) },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error('❌ Error creating boost campaign:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create boost campaign',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/creator/campaigns?creatorId={id}
+ * List a creator's boost campaigns (newest first) with how many commissions each boosted
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized campaign read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const campaigns = await prisma.commissionCampaign.findMany({
+      where: { creatorId },
+      orderBy: { startsAt: 'desc' },
+      include: { _count: { select: { commissions: true } } },
+    });
+
+    const now = new Date();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          campaigns: campaigns.map(({ _count, ...campaign }) => ({
+            ...campaign,
+            status: getCampaignStatus(campaign, now),
+            boostedCommissions: _count.commissions,
+          })),
+          limits: CAMPAIGN_LIMITS,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error fetching boost campaigns:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch boost campaigns',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/creator/campaigns
+ * Cancel a scheduled or running campaign (commissions it already boosted keep their snapshot)
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function DELETE(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = cancelCampaignSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized campaign cancel attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    const campaign = await prisma.commissionCampaign.findFirst({
+      where: { id: data.campaignId, creatorId: data.creatorId },
+    });
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const status = getCampaignStatus(campaign);
+    if (status === 'ended' || status === 'cancelled') {
+      return NextResponse.json(
+        { error: `Campaign has already ${status === 'ended' ? 'ended' : 'been cancelled'}` },
+        { status: 409 }
+      );
+    }
+
+    const cancelled = await prisma.commissionCampaign.update({
+      where: { id: campaign.id },
+      data: { cancelledAt: new Date() },
+    });
+
+    logger.info(`Boost campaign "${cancelled.name}" cancelled for creator ${data.creatorId}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...cancelled, status: getCampaignStatus(cancelled) },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error cancelling boost campaign:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel boost campaign',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+// app/api/creator/clearing-period/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { COMMISSION_CLEARING } from '../../../../lib/constants/commission';
+import { describeCommissionHold, parseCommissionHoldDays } from '../../../../lib/utils/commission-clearing';
+
+/**
+ * Zod schema for updating the clearing period
+ */
+const updateClearingPeriodSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  holdDays: z.number().int().min(COMMISSION_CLEARING.MIN_HOLD_DAYS).max(COMMISSION_CLEARING.MAX_HOLD_DAYS),
+});
+
+/**
+ * POST /api/creator/clearing-period
+ * Set how many days commissions are held before payout
+ * (applies to new commissions - ones already clearing keep their date)
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateClearingPeriodSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized clearing period update attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    // Verify creator exists
+    const creator = await prisma.creator.findUnique({
+      where: { id: data.creatorId },
+      select: { id: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedCreator = await prisma.creator.update({
+      where: { id: data.creatorId },
+      data: { commissionHoldDays: data.holdDays },
+      select: { id: true, commissionHoldDays: true, updatedAt: true },
+    });
+
+    logger.info(`Clearing period for creator ${data.creatorId}: ${data.holdDays} days`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...updatedCreator,
+          description: describeCommissionHold(updatedCreator.commissionHoldDays),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error updating clearing period:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update clearing period',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/creator/clearing-period?creatorId={id}
+ * Get a creator's clearing period
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized clearing period read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const creator = await prisma.creator.findUnique({
+      where: { id: creatorId },
+      select: { id: true, commissionHoldDays: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const holdDays = parseCommissionHoldDays(creator);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: creator.id,
+          holdDays,
+          description: describeCommissionHold(holdDays),
+          limits: COMMISSION_CLEARING,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error fetching clearing period:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch clearing period',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,269 @@
+// app/api/creator/commission-tiers/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { BASE_RATES, TIER_LADDER_LIMITS, TIER_QUALIFICATION } from '../../../../lib/constants/commission';
+import {
+  COMMISSION_TIERS,
+  parseTierLadder,
+  parseTierQualification,
+  toTierLadderEntries,
+  validateTierLadder,
+  type TierLadderEntry,
+} from '../../../../lib/utils/tiered-commission';
+
+/**
+ * Zod schema for a single ladder tier
+ * creatorRate defaults to 70%, platformRate defaults to whatever is left
+ */
+const tierSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_-]{1,32}$/, 'Tier key must be lowercase letters, numbers, _ or -'),
+  name: z.string().trim().min(1).max(TIER_LADDER_LIMITS.MAX_NAME_LENGTH),
+  memberRate: z.number().min(0).max(1),
+  platformRate: z.number().min(0).max(1).optional(),
+  creatorRate: z.number().min(0).max(1).optional(),
+  requirements: z.object({
+    referrals: z.number().int().min(0).max(100000),
+    activeReferrals: z.number().int().min(0).max(100000).optional(),
+    referredRevenue: z.number().min(0).max(100_000_000).optional(),
+  }),
+});
+
+/**
+ * Zod schema for how members qualify (omit to keep the current settings)
+ */
+const qualificationSchema = z.object({
+  mode: z.enum(TIER_QUALIFICATION.MODES),
+  windowDays: z.number().int().min(TIER_QUALIFICATION.MIN_WINDOW_DAYS).max(TIER_QUALIFICATION.MAX_WINDOW_DAYS).optional(),
+  graceDays: z.number().int().min(TIER_QUALIFICATION.MIN_GRACE_DAYS).max(TIER_QUALIFICATION.MAX_GRACE_DAYS).optional(),
+});
+
+/**
+ * Zod schema for updating the commission tier ladder
+ * tiers: null resets the creator to the default Starter/Ambassador/Elite ladder
+ */
+const updateTierLadderSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  tiers: z.array(tierSchema).max(TIER_LADDER_LIMITS.MAX_TIERS).nullable(),
+  qualification: qualificationSchema.optional(),
+});
+
+function toLadderEntry(tier: z.infer<typeof tierSchema>): TierLadderEntry {
+  const creatorRate = tier.creatorRate ?? BASE_RATES.CREATOR;
+  // Derive the platform remainder in basis points so the rates sum to exactly 100%
+  const platformRate = tier.platformRate ??
+    (10_000 - Math.round(creatorRate * 10_000) - Math.round(tier.memberRate * 10_000)) / 10_000;
+
+  return {
+    key: tier.key,
+    name: tier.name,
+    memberRate: tier.memberRate,
+    platformRate,
+    creatorRate,
+    requirements: tier.requirements,
+  };
+}
+
+/**
+ * POST /api/creator/commission-tiers
+ * Replace a creator's commission tier ladder (and optionally how members qualify)
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateTierLadderSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized commission ladder update attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    // Verify creator exists
+    const creator = await prisma.creator.findUnique({
+      where: { id: data.creatorId },
+      select: { id: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    // Validate ladder business rules (ordering, rate bounds, 100% split)
+    const entries = data.tiers ? data.tiers.map(toLadderEntry) : null;
+    if (entries) {
+      const ladderErrors = validateTierLadder(entries);
+      if (ladderErrors.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Invalid tier ladder',
+            details: ladderErrors
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedCreator = await prisma.creator.update({
+      where: { id: data.creatorId },
+      data: {
+        commissionTierLadder: entries ? (entries as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        ...(data.qualification && {
+          tierQualificationMode: data.qualification.mode,
+          tierQualificationDays: data.qualification.windowDays,
+          tierDowngradeGraceDays: data.qualification.graceDays,
+        }),
+      },
+      select: {
+        id: true,
+        commissionTierLadder: true,
+        tierQualificationMode: true,
+        tierQualificationDays: true,
+        tierDowngradeGraceDays: true,
+        updatedAt: true,
+      },
+    });
+
+    logger.info(`Commission tier ladder ${entries ? 'updated' : 'reset to default'} for creator ${data.creatorId}`, {
+      tiers: entries?.map(entry => entry.key),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: updatedCreator.id,
+          isDefault: !entries,
+          tiers: toTierLadderEntries(parseTierLadder(updatedCreator.commissionTierLadder)),
+          qualification: parseTierQualification(updatedCreator),
+          updatedAt: updatedCreator.updatedAt,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error updating commission tier ladder:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update commission tier ladder',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/creator/commission-tiers?creatorId={id}
+ * Get a creator's commission tier ladder (the default ladder if none is configured)
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized commission ladder read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const creator = await prisma.creator.findUnique({
+      where: { id: creatorId },
+      select: {
+        id: true,
+        commissionTierLadder: true,
+        tierQualificationMode: true,
+        tierQualificationDays: true,
+        tierDowngradeGraceDays: true,
+      },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const ladder = parseTierLadder(creator.commissionTierLadder);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: creator.id,
+          isDefault: ladder === COMMISSION_TIERS,
+          tiers: toTierLadderEntries(ladder),
+          qualification: parseTierQualification(creator),
+          limits: TIER_LADDER_LIMITS,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error fetching commission tier ladder:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch commission tier ladder',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '../../../../lib/db/prisma';
 import logger from '../../../../lib/logger';
 import { startOfMonth, endOfMonth, subMonths, format } from 'date-fns';
+import { toCents, fromCents, sumDollars } from '../../../../lib/utils/money';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -55,11 +56,11 @@ export async function GET(request: NextRequest) {
     });
 
     // Get all referrals (members who were referred by these members)
-    const memberCodes = members.map(m => m.referralCode);
+    const memberIds = members.map(m => m.id);
 
     const referrals = await prisma.member.findMany({
       where: {
-        referredBy: { in: memberCodes },
+        referrerId: { in: memberIds },
         createdAt: {
           gte: startDate,
           lte: endDate,
@@ -67,7 +68,7 @@ export async function GET(request: NextRequest) {
       },
       select: {
         id: true,
-        referredBy: true,
+        referrerId: true,
         createdAt: true,
       },
     });
@@ -91,42 +92,43 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    // Create a map of member ID to referral code
+    // Create a map of referral ID to referrer ID
     const referralToMemberMap = new Map();
     referrals.forEach(ref => {
-      referralToMemberMap.set(ref.id, ref.referredBy);
+      referralToMemberMap.set(ref.id, ref.referrerId);
     });
 
     // Aggregate data by referrer
     const performanceMap = new Map();
 
     referrals.forEach(referral => {
-      const referrerCode = referral.referredBy;
-      if (!performanceMap.has(referrerCode)) {
-        performanceMap.set(referrerCode, {
+      const referrerId = referral.referrerId;
+      if (!performanceMap.has(referrerId)) {
+        performanceMap.set(referrerId, {
           referralCount: 0,
           totalRevenue: 0,
           suggestedReward: 0,
         });
       }
-      const stats = performanceMap.get(referrerCode);
+      const stats = performanceMap.get(referrerId);
       stats.referralCount += 1;
     });
 
     // Add commission data
     commissions.forEach(commission => {
-      const referrerCode = referralToMemberMap.get(commission.memberId);
-      if (referrerCode && performanceMap.has(referrerCode)) {
-        const stats = performanceMap.get(referrerCode);
-        stats.totalRevenue += Number(commission.saleAmount);
-        stats.suggestedReward += Number(commission.memberShare); // 10% suggested
+      const referrerId = referralToMemberMap.get(commission.memberId);
+      if (referrerId && performanceMap.has(referrerId)) {
+        const stats = performanceMap.get(referrerId);
+        // Accumulate in cents so the report totals match the commission records exactly
+        stats.totalRevenue += toCents(commission.saleAmount);
+        stats.suggestedReward += toCents(commission.memberShare); // 10% suggested
       }
     });
 
     // Build report data
     const reportData = members
       .map(member => {
-        const stats = performanceMap.get(member.referralCode) || {
+        const stats = performanceMap.get(member.id) || {
           referralCount: 0,
           totalRevenue: 0,
           suggestedReward: 0,
@@ -137,8 +139,8 @@ export async function GET(request: NextRequest) {
           email: member.email,
           referralCode: member.referralCode,
           referralCount: stats.referralCount,
-          totalRevenue: stats.totalRevenue,
-          suggestedReward: stats.suggestedReward,
+          totalRevenue: fromCents(stats.totalRevenue),
+          suggestedReward: fromCents(stats.suggestedReward),
         };
       })
       .filter(row => row.referralCount > 0) // Only include members with referrals
@@ -171,8 +173,8 @@ export async function GET(request: NextRequest) {
 
     // Calculate summary stats
     const totalReferrals = reportData.reduce((sum, row) => sum + row.referralCount, 0);
-    const totalRevenue = reportData.reduce((sum, row) => sum + row.totalRevenue, 0);
-    const totalSuggestedRewards = reportData.reduce((sum, row) => sum + row.suggestedReward, 0);
+    const totalRevenue = sumDollars(reportData.map(row => row.totalRevenue));
+    const totalSuggestedRewards = sumDollars(reportData.map(row => row.suggestedReward));
 
     // Add summary at bottom
     const summary = [
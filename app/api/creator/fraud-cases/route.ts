@@ -0,0 +1,183 @@
+// app/api/creator/fraud-cases/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById, getWhopContext, isAdmin } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { getCreatorFraudStats } from '../../../../lib/fraud/detector';
+import { FRAUD_CASE_STATUSES, type FraudCaseStatus } from '../../../../lib/fraud/fraud-cases';
+import { approveFraudCase, FraudReviewError, rejectFraudCase } from '../../../../lib/fraud/fraud-review';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Zod schema for reviewing a fraud case
+ */
+const reviewCaseSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  caseId: z.string().min(1, 'Case ID is required'),
+  action: z.enum(['approve', 'reject', 'whitelist']),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+/**
+ * GET /api/creator/fraud-cases?creatorId={id}&status=open
+ * List fraud cases with their held commission, plus fraud stats
+ *
+ * SECURITY: Requires authorization - user must own the creator resource (or be an admin)
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+    const status = searchParams.get('status');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    if (status && !FRAUD_CASE_STATUSES.includes(status as FraudCaseStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${FRAUD_CASE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId) || await isAdmin();
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized fraud case read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const [cases, pendingCount, stats] = await Promise.all([
+      prisma.fraudCase.findMany({
+        where: { creatorId, ...(status && { status }) },
+        include: {
+          member: { select: { id: true, username: true, referralCode: true, fraudWhitelisted: true } },
+          commission: {
+            select: { id: true, saleAmount: true, memberShare: true, currency: true, status: true, paymentType: true, createdAt: true },
+          },
+        },
+        orderBy: [{ status: 'asc' }, { riskScore: 'desc' }, { createdAt: 'desc' }],
+        take: 100,
+      }),
+      prisma.fraudCase.count({ where: { creatorId, status: 'open' } }),
+      getCreatorFraudStats(creatorId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { pendingCount, cases, stats },
+    });
+  } catch (error) {
+    logger.error('❌ Error fetching fraud cases:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch fraud cases',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/creator/fraud-cases
+ * Approve (pay out), reject (reverse) or whitelist the member of a held case
+ *
+ * SECURITY: Requires authorization - user must own the creator resource (or be an admin)
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = reviewCaseSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId) || await isAdmin();
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized fraud case review attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    const { userId } = await getWhopContext();
+    const reviewedBy = userId || 'creator';
+
+    if (data.action === 'reject') {
+      const savedAmount = await rejectFraudCase({
+        caseId: data.caseId,
+        creatorId: data.creatorId,
+        reviewedBy,
+        note: data.note,
+      });
+
+      return NextResponse.json({ success: true, data: { savedAmount } });
+    }
+
+    const releasedCommissionIds = await approveFraudCase({
+      caseId: data.caseId,
+      creatorId: data.creatorId,
+      reviewedBy,
+      note: data.note,
+      whitelist: data.action === 'whitelist',
+    });
+
+    return NextResponse.json({ success: true, data: { releasedCommissionIds } });
+  } catch (error) {
+    if (error instanceof FraudReviewError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    logger.error('❌ Error reviewing fraud case:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to review fraud case',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+// app/api/creator/landing-page/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { LANDING_SKIP_PARAM } from '../../../../lib/constants/attribution';
+import { describeRefereeBonus } from '../../../../lib/utils/referral-landing';
+
+/**
+ * Zod schema for toggling the referral landing page
+ */
+const updateLandingPageSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  enabled: z.boolean(),
+});
+
+/**
+ * POST /api/creator/landing-page
+ * Turn the referrer-branded landing page on or off for a community
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateLandingPageSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized landing page update attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    // Verify creator exists
+    const creator = await prisma.creator.findUnique({
+      where: { id: data.creatorId },
+      select: { id: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedCreator = await prisma.creator.update({
+      where: { id: data.creatorId },
+      data: { referralLandingEnabled: data.enabled },
+      select: {
+        id: true,
+        referralLandingEnabled: true,
+        updatedAt: true,
+      },
+    });
+
+    logger.info(`Referral landing page ${data.enabled ? 'enabled' : 'disabled'} for creator ${data.creatorId}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: updatedCreator,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error updating referral landing page:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update referral landing page',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/creator/landing-page?creatorId={id}
+ * Get the landing page setting and what visitors will see
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized landing page read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const creator = await prisma.creator.findUnique({
+      where: { id: creatorId },
+      select: {
+        id: true,
+        referralLandingEnabled: true,
+        companyName: true,
+        logoUrl: true,
+        description: true,
+      },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...creator,
+          refereeBonus: describeRefereeBonus(),
+          skipParam: LANDING_SKIP_PARAM,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error fetching referral landing page:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch referral landing page',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
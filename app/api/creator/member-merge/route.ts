@@ -0,0 +1,115 @@
+// app/api/creator/member-merge/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById, getWhopContext, isAdmin } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { mergeMembers, MERGE_TIMEOUT_MS } from '../../../../lib/utils/member-merge';
+import { previewInTransaction, ReferralReassignmentError } from '../../../../lib/utils/referral-reassignment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Zod schema for merging two member records
+ */
+const mergeMembersSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  sourceId: z.string().min(1, 'Duplicate member ID is required'),
+  targetId: z.string().min(1, 'Member to keep is required'),
+  reason: z.string().trim().max(500).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+/**
+ * POST /api/creator/member-merge
+ * Merge a duplicate member (sourceId) into the one that stays (targetId).
+ * dryRun (default) returns what would move and the resulting totals without committing.
+ *
+ * SECURITY: Requires authorization - user must own the creator resource (or be an admin)
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = mergeMembersSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId) || await isAdmin();
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized member merge attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    const members = await prisma.member.count({
+      where: { id: { in: [data.sourceId, data.targetId] }, creatorId: data.creatorId },
+    });
+
+    if (members !== 2) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    const { userId } = await getWhopContext();
+    const merge = (tx: Parameters<typeof mergeMembers>[0]) => mergeMembers(tx, {
+      sourceId: data.sourceId,
+      targetId: data.targetId,
+      triggeredBy: 'manual',
+      reason: data.reason || `Merged by ${userId || 'creator'}`,
+    });
+
+    const merged = data.dryRun
+      ? await previewInTransaction(merge, { timeout: MERGE_TIMEOUT_MS })
+      : await prisma.$transaction(merge, { timeout: MERGE_TIMEOUT_MS });
+
+    return NextResponse.json({
+      success: true,
+      data: { dryRun: data.dryRun, merge: merged },
+    });
+  } catch (error) {
+    if (error instanceof ReferralReassignmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    logger.error('❌ Error merging members:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to merge members',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+// app/api/creator/payout-schedule/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { PAYOUT_RUNS } from '../../../../lib/constants/commission';
+import {
+  describePayoutSchedule,
+  getNextPayoutRunAt,
+  parsePayoutMinimum,
+  parsePayoutSchedule,
+  PAYOUT_SCHEDULES,
+} from '../../../../lib/utils/payout-schedule';
+
+/**
+ * Zod schema for updating the payout schedule
+ */
+const updatePayoutScheduleSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  schedule: z.enum(PAYOUT_SCHEDULES),
+  minimum: z.number().min(PAYOUT_RUNS.MIN_MINIMUM).max(PAYOUT_RUNS.MAX_MINIMUM),
+});
+
+/**
+ * POST /api/creator/payout-schedule
+ * Set how often cleared commissions are paid out and the smallest payout per member
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updatePayoutScheduleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized payout schedule update attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    // Verify creator exists
+    const creator = await prisma.creator.findUnique({
+      where: { id: data.creatorId },
+      select: { id: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedCreator = await prisma.creator.update({
+      where: { id: data.creatorId },
+      data: { payoutSchedule: data.schedule, payoutMinimum: data.minimum },
+      select: { id: true, payoutSchedule: true, payoutMinimum: true, lastPayoutRunAt: true, updatedAt: true },
+    });
+
+    logger.info(`Payout schedule for creator ${data.creatorId}: ${data.schedule}, minimum ${data.minimum}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...updatedCreator,
+          description: describePayoutSchedule(data.schedule, data.minimum),
+          nextRunAt: getNextPayoutRunAt(data.schedule, updatedCreator.lastPayoutRunAt),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error updating payout schedule:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update payout schedule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/creator/payout-schedule?creatorId={id}
+ * Get a creator's payout schedule and when the next run is due
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized payout schedule read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const creator = await prisma.creator.findUnique({
+      where: { id: creatorId },
+      select: { id: true, payoutSchedule: true, payoutMinimum: true, lastPayoutRunAt: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = parsePayoutSchedule(creator);
+    const minimum = parsePayoutMinimum(creator);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: creator.id,
+          schedule,
+          minimum,
+          description: describePayoutSchedule(schedule, minimum),
+          lastRunAt: creator.lastPayoutRunAt,
+          nextRunAt: getNextPayoutRunAt(schedule, creator.lastPayoutRunAt),
+          limits: PAYOUT_RUNS,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error fetching payout schedule:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch payout schedule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
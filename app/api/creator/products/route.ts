@@ -0,0 +1,247 @@
+// app/api/creator/products/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { PRODUCT_RULE_LIMITS } from '../../../../lib/constants/commission';
+import { validateProductRules } from '../../../../lib/utils/product-commission';
+
+/**
+ * Zod schema for a product in the referral program
+ */
+const productSchema = z.object({
+  whopProductId: z.string().min(1),
+  name: z.string().trim().min(1).max(PRODUCT_RULE_LIMITS.MAX_NAME_LENGTH),
+  excluded: z.boolean().default(false),
+});
+
+/**
+ * Zod schema for a product commission rule (omitted match fields = any)
+ */
+const ruleSchema = z.object({
+  whopProductId: z.string().min(1).nullable().default(null),
+  billingPeriod: z.enum(['monthly', 'annual', 'lifetime']).nullable().default(null),
+  productType: z.enum(['subscription', 'one_time', 'course']).nullable().default(null),
+  memberRate: z.number().min(0).max(1),
+  recurring: z.boolean().default(true),
+});
+
+/**
+ * Zod schema for replacing a creator's products and product rules
+ */
+const updateProductsSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  products: z.array(productSchema).max(PRODUCT_RULE_LIMITS.MAX_PRODUCTS),
+  rules: z.array(ruleSchema).max(PRODUCT_RULE_LIMITS.MAX_RULES),
+});
+
+/**
+ * POST /api/creator/products
+ * Replace a creator's products (and exclusions) and per-product commission rules
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateProductsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized product rules update attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    // Verify creator exists
+    const creator = await prisma.creator.findUnique({
+      where: { id: data.creatorId },
+      select: { id: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    // Validate rule business rules (rate bounds, no duplicate matches, known products)
+    const ruleErrors = validateProductRules(data.rules);
+    const productIds = new Set(data.products.map(product => product.whopProductId));
+
+    if (productIds.size !== data.products.length) {
+      ruleErrors.push('Each product can only be listed once');
+    }
+    data.rules.forEach((rule, index) => {
+      if (rule.whopProductId && !productIds.has(rule.whopProductId)) {
+        ruleErrors.push(`Rule ${index + 1}: product ${rule.whopProductId} is not in the product list`);
+      }
+    });
+
+    if (ruleErrors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid product rules',
+          details: ruleErrors
+        },
+        { status: 400 }
+      );
+    }
+
+    const [products, rules] = await prisma.$transaction(async (tx) => {
+      await tx.productCommissionRule.deleteMany({ where: { creatorId: data.creatorId } });
+      await tx.creatorProduct.deleteMany({ where: { creatorId: data.creatorId } });
+
+      await tx.creatorProduct.createMany({
+        data: data.products.map(product => ({ ...product, creatorId: data.creatorId })),
+      });
+      await tx.productCommissionRule.createMany({
+        data: data.rules.map(rule => ({ ...rule, creatorId: data.creatorId })),
+      });
+
+      return Promise.all([
+        tx.creatorProduct.findMany({ where: { creatorId: data.creatorId }, orderBy: { name: 'asc' } }),
+        tx.productCommissionRule.findMany({ where: { creatorId: data.creatorId }, orderBy: { createdAt: 'asc' } }),
+      ]);
+    });
+
+    logger.info(`Product rules updated for creator ${data.creatorId}`, {
+      products: products.length,
+      excluded: products.filter(product => product.excluded).length,
+      rules: rules.length,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { products, rules },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error updating product rules:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update product rules',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/creator/products?creatorId={id}
+ * Get a creator's products, product rules, and product IDs seen on commissions but not yet listed
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized product rules read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const creator = await prisma.creator.findUnique({
+      where: { id: creatorId },
+      select: {
+        id: true,
+        productId: true,
+        products: { orderBy: { name: 'asc' } },
+        productRules: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    // Products that have sold through referrals but aren't configured yet
+    const soldProducts = await prisma.commission.findMany({
+      where: { creatorId, whopProductId: { not: null } },
+      distinct: ['whopProductId'],
+      select: { whopProductId: true },
+    });
+    const listed = new Set(creator.products.map(product => product.whopProductId));
+    const unlistedProductIds = [creator.productId, ...soldProducts.map(c => c.whopProductId as string)]
+      .filter((id, index, all) => id !== 'unknown' && !listed.has(id) && all.indexOf(id) === index);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: creator.id,
+          primaryProductId: creator.productId,
+          products: creator.products,
+          rules: creator.productRules,
+          unlistedProductIds,
+          limits: PRODUCT_RULE_LIMITS,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error fetching product rules:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch product rules',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,209 @@
+// app/api/creator/recurring-commission/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { RECURRING_COMMISSION_POLICY } from '../../../../lib/constants/commission';
+import { describeRecurringPolicy, parseRecurringPolicy } from '../../../../lib/utils/recurring-commission';
+
+/**
+ * Zod schema for updating the recurring commission policy
+ * limit is required for months / payments and ignored otherwise
+ */
+const updateRecurringPolicySchema = z.discriminatedUnion('mode', [
+  z.object({
+    creatorId: z.string().min(1, 'Creator ID is required'),
+    mode: z.literal('lifetime'),
+  }),
+  z.object({
+    creatorId: z.string().min(1, 'Creator ID is required'),
+    mode: z.literal('initial_only'),
+  }),
+  z.object({
+    creatorId: z.string().min(1, 'Creator ID is required'),
+    mode: z.literal('months'),
+    limit: z.number().int().min(RECURRING_COMMISSION_POLICY.MIN_MONTHS).max(RECURRING_COMMISSION_POLICY.MAX_MONTHS),
+  }),
+  z.object({
+    creatorId: z.string().min(1, 'Creator ID is required'),
+    mode: z.literal('payments'),
+    limit: z.number().int().min(RECURRING_COMMISSION_POLICY.MIN_PAYMENTS).max(RECURRING_COMMISSION_POLICY.MAX_PAYMENTS),
+  }),
+]);
+
+/**
+ * POST /api/creator/recurring-commission
+ * Set how long a referred membership keeps earning commission
+ * (applies to future payments - existing commissions are unchanged)
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateRecurringPolicySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized recurring policy update attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    // Verify creator exists
+    const creator = await prisma.creator.findUnique({
+      where: { id: data.creatorId },
+      select: { id: true },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedCreator = await prisma.creator.update({
+      where: { id: data.creatorId },
+      data: {
+        recurringCommissionMode: data.mode,
+        recurringCommissionLimit: 'limit' in data ? data.limit : null,
+      },
+      select: {
+        id: true,
+        recurringCommissionMode: true,
+        recurringCommissionLimit: true,
+        updatedAt: true,
+      },
+    });
+
+    const policy = parseRecurringPolicy(updatedCreator);
+    logger.info(`Recurring commission policy for creator ${data.creatorId}: ${describeRecurringPolicy(policy)}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: updatedCreator.id,
+          policy,
+          description: describeRecurringPolicy(policy),
+          updatedAt: updatedCreator.updatedAt,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error updating recurring commission policy:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update recurring commission policy',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/creator/recurring-commission?creatorId={id}
+ * Get a creator's recurring commission policy
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized recurring policy read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const creator = await prisma.creator.findUnique({
+      where: { id: creatorId },
+      select: {
+        id: true,
+        recurringCommissionMode: true,
+        recurringCommissionLimit: true,
+      },
+    });
+
+    if (!creator) {
+      return NextResponse.json(
+        { error: 'Creator not found' },
+        { status: 404 }
+      );
+    }
+
+    const policy = parseRecurringPolicy(creator);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: creator.id,
+          policy,
+          description: describeRecurringPolicy(policy),
+          limits: RECURRING_COMMISSION_POLICY,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('❌ Error fetching recurring commission policy:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch recurring commission policy',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
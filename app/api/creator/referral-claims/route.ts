@@ -0,0 +1,201 @@
+// app/api/creator/referral-claims/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById, getWhopContext } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import {
+  approveReferralClaim,
+  getReferralClaimEvidence,
+  ReferralClaimError,
+  rejectReferralClaim,
+} from '../../../../lib/utils/referral-claims';
+import { ReferralReassignmentError } from '../../../../lib/utils/referral-reassignment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CLAIM_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+/**
+ * Zod schema for reviewing a claim
+ */
+const reviewClaimSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  claimId: z.string().min(1, 'Claim ID is required'),
+  action: z.enum(['approve', 'reject']),
+  reason: z.string().trim().max(500).nullable().optional(),
+});
+
+/**
+ * GET /api/creator/referral-claims?creatorId={id}&status=pending
+ * List missed-referral claims with review evidence for pending ones
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const creatorId = searchParams.get('creatorId');
+    const status = searchParams.get('status');
+
+    if (!creatorId) {
+      return NextResponse.json(
+        { error: 'creatorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    if (status && !CLAIM_STATUSES.includes(status as typeof CLAIM_STATUSES[number])) {
+      return NextResponse.json(
+        { error: `status must be one of: ${CLAIM_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this creator's data
+    const isAuthorized = await canAccessCreatorById(creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized referral claim read attempt for creator: ${creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const claims = await prisma.referralClaim.findMany({
+      where: { creatorId, ...(status && { status }) },
+      include: {
+        claimant: { select: { id: true, username: true, referralCode: true } },
+        referee: { select: { id: true, username: true, whopUsername: true } },
+      },
+      orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+      take: 100,
+    });
+
+    // Evidence is gathered live - it's only needed while the claim is open
+    const withEvidence = await Promise.all(claims.map(async claim => ({
+      id: claim.id,
+      status: claim.status,
+      claimant: claim.claimant,
+      referee: claim.referee,
+      refereeHandle: claim.refereeHandle,
+      note: claim.note,
+      rejectionReason: claim.rejectionReason,
+      backfilled: claim.backfilled,
+      reviewedAt: claim.reviewedAt,
+      createdAt: claim.createdAt,
+      evidence: claim.status === 'pending' ? await getReferralClaimEvidence(prisma, claim) : null,
+    })));
+
+    const pendingCount = await prisma.referralClaim.count({ where: { creatorId, status: 'pending' } });
+
+    return NextResponse.json({
+      success: true,
+      data: { pendingCount, claims: withEvidence },
+    });
+  } catch (error) {
+    logger.error('❌ Error fetching referral claims:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch referral claims',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/creator/referral-claims
+ * Approve (credit the claimant + backfill commissions) or reject a claim
+ *
+ * SECURITY: Requires authorization - user must own the creator resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = reviewClaimSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized referral claim review attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    const { userId } = await getWhopContext();
+    const reviewedBy = userId || 'creator';
+
+    if (data.action === 'reject') {
+      const claim = await rejectReferralClaim({
+        claimId: data.claimId,
+        creatorId: data.creatorId,
+        reviewedBy,
+        reason: data.reason,
+      });
+
+      return NextResponse.json({ success: true, data: { claim } });
+    }
+
+    const { claim, reassignment } = await approveReferralClaim({
+      claimId: data.claimId,
+      creatorId: data.creatorId,
+      reviewedBy,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { claim, reassignment },
+    });
+  } catch (error) {
+    if (error instanceof ReferralClaimError || error instanceof ReferralReassignmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    logger.error('❌ Error reviewing referral claim:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to review referral claim',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+// app/api/creator/referral-reassignment/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessCreatorById, getWhopContext, isAdmin } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import {
+  previewInTransaction,
+  reassignReferral,
+  ReferralReassignmentError,
+} from '../../../../lib/utils/referral-reassignment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Zod schema for reassigning a referral
+ */
+const reassignReferralSchema = z.object({
+  creatorId: z.string().min(1, 'Creator ID is required'),
+  refereeId: z.string().min(1, 'Referee ID is required'),
+  toReferrerId: z.string().min(1, 'New referrer ID is required'),
+  reason: z.string().trim().max(500).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+/**
+ * POST /api/creator/referral-reassignment
+ * Credit a referee (and their past commissions) to a different referrer.
+ * dryRun (default) returns what would move without committing.
+ *
+ * SECURITY: Requires authorization - user must own the creator resource (or be an admin)
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = reassignReferralSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this creator
+    const isAuthorized = await canAccessCreatorById(data.creatorId) || await isAdmin();
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized referral reassignment attempt for creator: ${data.creatorId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    const referee = await prisma.member.findUnique({
+      where: { id: data.refereeId },
+      select: { creatorId: true },
+    });
+
+    if (!referee || referee.creatorId !== data.creatorId) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    const { userId } = await getWhopContext();
+    const reassign = (tx: Parameters<typeof reassignReferral>[0]) => reassignReferral(tx, {
+      refereeId: data.refereeId,
+      toReferrerId: data.toReferrerId,
+      reference: `manual:${data.refereeId}:${Date.now()}`,
+      triggeredBy: 'manual',
+      reason: data.reason || `Reassigned by ${userId || 'creator'}`,
+    });
+
+    const reassignment = data.dryRun
+      ? await previewInTransaction(reassign)
+      : await prisma.$transaction(reassign);
+
+    return NextResponse.json({
+      success: true,
+      data: { dryRun: data.dryRun, reassignment },
+    });
+  } catch (error) {
+    if (error instanceof ReferralReassignmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    logger.error('❌ Error reassigning referral:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to reassign referral',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// app/api/cron/analyze-fraud-graph/route.ts
+/**
+ * Collusion Ring Analysis
+ *
+ * Clusters each creator's referral graph by shared devices/IPs and stores
+ * suspicious clusters for admin review (see lib/fraud/collusion-analysis.ts).
+ *
+ * This should be called by Vercel Cron once a day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeCollusionRings } from '../../../../lib/fraud/collusion-analysis';
+import logger from '../../../../lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify cron secret to prevent unauthorized calls
+function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true; // Allow if no secret configured (dev mode)
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await analyzeCollusionRings();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Collusion analysis failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Collusion analysis failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -98,7 +98,7 @@ export async function POST(request: Request) {
         // Count new referrals this month
         const newReferralsCount = await prisma.member.count({
           where: {
-            referredBy: member.referralCode,
+            referrerId: member.id,
             createdAt: {
               gte: lastMonth,
               lt: thisMonth
@@ -109,7 +109,7 @@ export async function POST(request: Request) {
         // Find top referral (highest contributor)
         const topReferralData = await prisma.member.findFirst({
           where: {
-            referredBy: member.referralCode
+            referrerId: member.id
           },
           include: {
             commissions: {
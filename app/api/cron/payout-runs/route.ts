@@ -0,0 +1,51 @@
+// app/api/cron/payout-runs/route.ts
+/**
+ * Payout Runs
+ *
+ * Pays cleared commissions for creators whose weekly/monthly payout run is
+ * due (see lib/utils/payout-runs.ts). Runs after the release job.
+ *
+ * This should be called by Vercel Cron once a day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runDuePayouts } from '../../../../lib/utils/payout-runs';
+import logger from '../../../../lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify cron secret to prevent unauthorized calls
+function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true; // Allow if no secret configured (dev mode)
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runDuePayouts();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Payout run failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Payout run failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
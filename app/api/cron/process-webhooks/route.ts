@@ -0,0 +1,62 @@
+// app/api/cron/process-webhooks/route.ts
+/**
+ * Webhook Queue Worker
+ *
+ * Drains stored WebhookEvent rows through the business handlers:
+ * - Claims due `pending`/`retrying` events (and stale `processing` locks)
+ * - Retries failures with exponential backoff, tracked in `retryCount`
+ * - Moves events that exhaust their attempts to `dead`
+ *
+ * This should be called by Vercel Cron every minute.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookQueue } from '../../../../lib/queue/webhook-queue';
+import logger from '../../../../lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60; // 1 minute timeout for cron
+
+// Leave headroom under maxDuration for the in-flight batch to finish
+const TIME_BUDGET_MS = 45 * 1000;
+
+// Verify cron secret to prevent unauthorized calls
+function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true; // Allow if no secret configured (dev mode)
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const startTime = Date.now();
+    const results = await webhookQueue.drain(TIME_BUDGET_MS);
+
+    logger.info(
+      `Webhook worker run: ${results.completed} completed, ${results.retrying} retrying, ${results.dead} dead (${Date.now() - startTime}ms)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Webhook worker run failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Webhook worker failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/cron/recalculate-tiers/route.ts
+/**
+ * Commission Tier Recalculation
+ *
+ * Re-evaluates members of creators using rolling or still-paying tier
+ * qualification: upgrades, downgrade warnings and downgrades once the
+ * grace period has passed (see lib/utils/tier-recalculation.ts).
+ *
+ * This should be called by Vercel Cron once a day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { recalculateMemberTiers } from '../../../../lib/utils/tier-recalculation';
+import logger from '../../../../lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify cron secret to prevent unauthorized calls
+function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true; // Allow if no secret configured (dev mode)
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await recalculateMemberTiers();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Tier recalculation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Tier recalculation failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
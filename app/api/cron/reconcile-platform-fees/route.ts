@@ -0,0 +1,52 @@
+// app/api/cron/reconcile-platform-fees/route.ts
+/**
+ * Platform Fee Reconciliation
+ *
+ * Compares the platform share owed per creator and month with platform
+ * transfers and invoices, and stores the statement for the admin report
+ * (see lib/invoice/reconcile-platform-fees.ts). Runs after the payout runs.
+ *
+ * This should be called by Vercel Cron once a day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcilePlatformFees } from '../../../../lib/invoice/reconcile-platform-fees';
+import logger from '../../../../lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify cron secret to prevent unauthorized calls
+function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true; // Allow if no secret configured (dev mode)
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await reconcilePlatformFees();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Platform fee reconciliation failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Platform fee reconciliation failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
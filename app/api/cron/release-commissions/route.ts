@@ -0,0 +1,51 @@
+// app/api/cron/release-commissions/route.ts
+/**
+ * Commission Release
+ *
+ * Moves commissions past the creator's clearing period to cleared
+ * (see lib/utils/commission-release.ts). The payout run pays them.
+ *
+ * This should be called by Vercel Cron once a day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseClearedCommissions } from '../../../../lib/utils/commission-release';
+import logger from '../../../../lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify cron secret to prevent unauthorized calls
+function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true; // Allow if no secret configured (dev mode)
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await releaseClearedCommissions();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Commission release failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Commission release failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
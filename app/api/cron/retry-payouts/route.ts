@@ -0,0 +1,52 @@
+// app/api/cron/retry-payouts/route.ts
+/**
+ * Payout Retries
+ *
+ * Resends payouts whose transfer failed once their backoff is up, and
+ * rechecks members who couldn't receive transfers (see
+ * lib/utils/payout-recovery.ts).
+ *
+ * This should be called by Vercel Cron every 30 minutes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { retryDuePayouts } from '../../../../lib/utils/payout-recovery';
+import logger from '../../../../lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify cron secret to prevent unauthorized calls
+function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true; // Allow if no secret configured (dev mode)
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await retryDuePayouts();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Payout retry failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Payout retry failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/cron/update-fx-rates/route.ts
+/**
+ * FX Rate Refresh
+ *
+ * Stores today's rates into the reporting currency so commissions in other
+ * currencies can be normalized without hitting the provider per webhook.
+ *
+ * This should be called by Vercel Cron once a day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshFxRates } from '../../../../lib/fx/rates';
+import logger from '../../../../lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify cron secret to prevent unauthorized calls
+function verifyCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true; // Allow if no secret configured (dev mode)
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { effectiveDate, updated } = await refreshFxRates();
+
+    return NextResponse.json({
+      success: true,
+      effectiveDate: effectiveDate.toISOString(),
+      updated,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('FX rate refresh failed:', error);
+
+    return NextResponse.json(
+      {
+        error: 'FX rate refresh failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,10 @@ import { withRateLimit } from '../../../../lib/middleware/rate-limit';
 import { stringify } from 'csv-stringify/sync';
 import ExcelJS from 'exceljs';
 import logger from '../../../../lib/logger';
+import { roundDollars, sumDollars } from '../../../../lib/utils/money';
+import { CURRENCY_SETTINGS, formatCurrency } from '../../../../lib/constants/metrics';
+
+const REPORTING_CURRENCY = CURRENCY_SETTINGS.REPORTING_CURRENCY;
 
 
 /**
@@ -14,6 +18,9 @@ import logger from '../../../../lib/logger';
  * - CSV: Simple, compatible with all spreadsheet apps
  * - Excel: Rich formatting with multiple sheets
  * - JSON: Raw data for programmatic use
+ *
+ * Commissions keep their original currency; revenue totals are converted to
+ * the reporting currency and broken down per currency alongside.
  */
 
 export async function GET(request: NextRequest) {
@@ -138,6 +145,12 @@ async function gatherExportData(
         memberShare: true,
         creatorShare: true,
         platformShare: true,
+        currency: true,
+        fxRate: true,
+        reportingSaleAmount: true,
+        reportingMemberShare: true,
+        reportingCreatorShare: true,
+        reportingPlatformShare: true,
         paymentType: true,
         status: true,
         paidAt: true,
@@ -164,11 +177,12 @@ async function gatherExportData(
       topEarners,
       topReferrers,
       monthlyGrowth,
+      revenueByCurrency,
     ] = await Promise.all([
       // Total revenue
       prisma.commission.aggregate({
         where: { creatorId, status: 'paid' },
-        _sum: { saleAmount: true },
+        _sum: { reportingSaleAmount: true },
       }),
 
       // Monthly revenue
@@ -180,7 +194,7 @@ async function gatherExportData(
             gte: new Date(new Date().setDate(1)),
           },
         },
-        _sum: { saleAmount: true },
+        _sum: { reportingSaleAmount: true },
       }),
 
       // Total members
@@ -232,12 +246,25 @@ async function gatherExportData(
 
       // Monthly growth data
       getMonthlyGrowth(creatorId),
+
+      // Revenue per original currency
+      prisma.commission.groupBy({
+        by: ['currency'],
+        where: { creatorId, status: 'paid' },
+        _sum: { saleAmount: true, reportingSaleAmount: true },
+      }),
     ]);
 
     data.analytics = {
       summary: {
-        totalRevenue: totalRevenue._sum.saleAmount || 0,
-        monthlyRevenue: monthlyRevenue._sum.saleAmount || 0,
+        currency: REPORTING_CURRENCY,
+        totalRevenue: roundDollars(totalRevenue._sum.reportingSaleAmount || 0),
+        monthlyRevenue: roundDollars(monthlyRevenue._sum.reportingSaleAmount || 0),
+        revenueByCurrency: revenueByCurrency.map(row => ({
+          currency: row.currency,
+          revenue: roundDollars(row._sum.saleAmount || 0),
+          reportingRevenue: roundDollars(row._sum.reportingSaleAmount || 0),
+        })),
         totalMembers,
         referredMembers,
         organicMembers,
@@ -283,18 +310,27 @@ function generateCsvExport(data: any, dataType: string): NextResponse {
     csvContent = stringify([headers, ...rows]);
   } else if (data.commissions) {
     const headers = [
-      'ID', 'Payment ID', 'Member', 'Sale Amount', 'Member Share',
-      'Creator Share', 'Platform Share', 'Type', 'Status', 'Date'
+      'ID', 'Payment ID', 'Member', 'Currency', 'Sale Amount', 'Member Share',
+      'Creator Share', 'Platform Share', 'FX Rate',
+      `Sale Amount (${REPORTING_CURRENCY})`, `Member Share (${REPORTING_CURRENCY})`,
+      `Creator Share (${REPORTING_CURRENCY})`, `Platform Share (${REPORTING_CURRENCY})`,
+      'Type', 'Status', 'Date'
     ];
 
     const rows = data.commissions.map((c: any) => [
       c.id,
       c.whopPaymentId,
       c.member?.username || 'N/A',
-      c.saleAmount,
-      c.memberShare,
-      c.creatorShare,
-      c.platformShare,
+      c.currency,
+      roundDollars(c.saleAmount).toFixed(2),
+      roundDollars(c.memberShare).toFixed(2),
+      roundDollars(c.creatorShare).toFixed(2),
+      roundDollars(c.platformShare).toFixed(2),
+      c.fxRate,
+      roundDollars(c.reportingSaleAmount ?? c.saleAmount).toFixed(2),
+      roundDollars(c.reportingMemberShare ?? c.memberShare).toFixed(2),
+      roundDollars(c.reportingCreatorShare ?? c.creatorShare).toFixed(2),
+      roundDollars(c.reportingPlatformShare ?? c.platformShare).toFixed(2),
       c.paymentType,
       c.status,
       new Date(c.createdAt).toLocaleDateString(),
@@ -306,8 +342,9 @@ function generateCsvExport(data: any, dataType: string): NextResponse {
     const summary = data.analytics.summary;
     const headers = ['Metric', 'Value'];
     const rows = [
-      ['Total Revenue', `$${summary.totalRevenue.toFixed(2)}`],
-      ['Monthly Revenue', `$${summary.monthlyRevenue.toFixed(2)}`],
+      ['Total Revenue', formatCurrency(summary.totalRevenue, summary.currency)],
+      ['Monthly Revenue', formatCurrency(summary.monthlyRevenue, summary.currency)],
+      ...summary.revenueByCurrency.map((r: any) => [`Revenue (${r.currency})`, formatCurrency(r.revenue, r.currency)]),
       ['Total Members', summary.totalMembers],
       ['Referred Members', summary.referredMembers],
       ['Organic Members', summary.organicMembers],
@@ -346,8 +383,12 @@ async function generateExcelExport(data: any, companyName: string): Promise<Next
     // Add summary data
     summarySheet.addRow([]);
     summarySheet.addRow(['Metric', 'Value']);
-    summarySheet.addRow(['Total Revenue', `$${data.analytics.summary.totalRevenue.toFixed(2)}`]);
-    summarySheet.addRow(['Monthly Revenue', `$${data.analytics.summary.monthlyRevenue.toFixed(2)}`]);
+    const summary = data.analytics.summary;
+    summarySheet.addRow(['Total Revenue', formatCurrency(summary.totalRevenue, summary.currency)]);
+    summarySheet.addRow(['Monthly Revenue', formatCurrency(summary.monthlyRevenue, summary.currency)]);
+    summary.revenueByCurrency.forEach((r: any) => {
+      summarySheet.addRow([`Revenue (${r.currency})`, formatCurrency(r.revenue, r.currency)]);
+    });
     summarySheet.addRow(['Total Members', data.analytics.summary.totalMembers]);
     summarySheet.addRow(['Referred Members', data.analytics.summary.referredMembers]);
     summarySheet.addRow(['Organic Members', data.analytics.summary.organicMembers]);
@@ -375,7 +416,7 @@ async function generateExcelExport(data: any, companyName: string): Promise<Next
     data.members.forEach((member: any) => {
       membersSheet.addRow({
         ...member,
-        lifetimeEarnings: `$${member.lifetimeEarnings.toFixed(2)}`,
+        lifetimeEarnings: formatCurrency(member.lifetimeEarnings, REPORTING_CURRENCY),
         createdAt: new Date(member.createdAt).toLocaleDateString(),
       });
     });
@@ -397,6 +438,7 @@ async function generateExcelExport(data: any, companyName: string): Promise<Next
       { header: 'Date', key: 'date', width: 15 },
       { header: 'Member', key: 'member', width: 20 },
       { header: 'Amount', key: 'amount', width: 15 },
+      { header: `Amount (${REPORTING_CURRENCY})`, key: 'reportingAmount', width: 15 },
       { header: 'Type', key: 'type', width: 15 },
       { header: 'Status', key: 'status', width: 15 },
     ];
@@ -405,7 +447,8 @@ async function generateExcelExport(data: any, companyName: string): Promise<Next
       commissionsSheet.addRow({
         date: new Date(commission.createdAt).toLocaleDateString(),
         member: commission.member?.username || 'N/A',
-        amount: `$${commission.saleAmount.toFixed(2)}`,
+        amount: formatCurrency(commission.saleAmount, commission.currency),
+        reportingAmount: formatCurrency(commission.reportingSaleAmount ?? commission.saleAmount, REPORTING_CURRENCY),
         type: commission.paymentType,
         status: commission.status,
       });
@@ -459,11 +502,11 @@ async function getMonthlyGrowth(creatorId: string) {
       createdAt: { gte: sixMonthsAgo },
     },
     _sum: {
-      saleAmount: true,
+      reportingSaleAmount: true,
     },
   });
 
-  // Group by month
+  // Group by month (reporting currency)
   const monthlyGrowth: Record<string, number> = {};
 
   monthlyData.forEach(item => {
@@ -471,7 +514,7 @@ async function getMonthlyGrowth(creatorId: string) {
       year: 'numeric',
       month: 'short',
     });
-    monthlyGrowth[month] = (monthlyGrowth[month] || 0) + (item._sum.saleAmount || 0);
+    monthlyGrowth[month] = sumDollars([monthlyGrowth[month] || 0, item._sum.reportingSaleAmount || 0]);
   });
 
   return monthlyGrowth;
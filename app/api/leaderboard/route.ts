@@ -76,7 +76,7 @@ export async function GET(request: NextRequest) {
           });
           const realMemberIds = realMembers.map(m => m.id);
 
-          // Calculate earnings from Commission records
+          // Calculate earnings from Commission records (converted to the reporting currency)
           const membersWithEarnings = await prisma.commission.groupBy({
             by: ['memberId'],
             where: {
@@ -86,11 +86,11 @@ export async function GET(request: NextRequest) {
               }
             },
             _sum: {
-              memberShare: true,
+              reportingMemberShare: true,
             },
             orderBy: {
               _sum: {
-                memberShare: 'desc',
+                reportingMemberShare: 'desc',
               },
             },
             take: limit,
@@ -116,7 +116,7 @@ export async function GET(request: NextRequest) {
             const member = members.find(m => m.id === earning.memberId);
             return {
               ...member,
-              lifetimeEarnings: earning._sum.memberShare || 0,
+              lifetimeEarnings: earning._sum.reportingMemberShare || 0,
               monthlyEarnings: 0, // Can calculate this if needed
             };
           }).filter(m => m.id); // Filter out any null members
@@ -224,10 +224,10 @@ export async function GET(request: NextRequest) {
                 status: 'paid'
               },
               _sum: {
-                memberShare: true
+                reportingMemberShare: true
               }
             });
-            const myEarnings = memberEarnings._sum.memberShare || 0;
+            const myEarnings = memberEarnings._sum.reportingMemberShare || 0;
 
             // Get all members' earnings who have more than me
             const realMembers = await prisma.member.findMany({
@@ -253,14 +253,14 @@ export async function GET(request: NextRequest) {
                 }
               },
               having: {
-                memberShare: {
+                reportingMemberShare: {
                   _sum: {
                     gt: myEarnings
                   }
                 }
               },
               _sum: {
-                memberShare: true
+                reportingMemberShare: true
               }
             });
 
@@ -273,7 +273,7 @@ export async function GET(request: NextRequest) {
                 FROM "Commission" c
                 WHERE c.status = 'paid'
                 GROUP BY c."memberId"
-                HAVING SUM(c."memberShare") = ${myEarnings}
+                HAVING SUM(COALESCE(c."reportingMemberShare", c."memberShare")) = ${myEarnings}
               )
               AND m."createdAt" < ${member.createdAt}
             `;
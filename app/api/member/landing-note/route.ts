@@ -0,0 +1,71 @@
+// app/api/member/landing-note/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import { withRateLimit } from '../../../../lib/security/rate-limit-utils';
+import logger from '../../../../lib/logger';
+import { canAccessMemberById } from '../../../../lib/whop/simple-auth';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { LANDING_NOTE_MAX_LENGTH } from '../../../../lib/constants/attribution';
+
+const updateLandingNoteSchema = z.object({
+  memberId: z.string().min(1, 'Member ID is required'),
+  note: z.string().trim().max(LANDING_NOTE_MAX_LENGTH).nullable(),
+});
+
+/**
+ * POST /api/member/landing-note
+ * Set (or clear) the personal note shown on a member's referral landing page
+ *
+ * SECURITY: Requires authorization - user must own the member resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  return withRateLimit(request, async () => {
+    try {
+      const validationResult = updateLandingNoteSchema.safeParse(await request.json());
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      const { memberId, note } = validationResult.data;
+
+      // SECURITY: Verify user is authorized to modify this member's data
+      const isAuthorized = await canAccessMemberById(memberId);
+      if (!isAuthorized) {
+        logger.warn(`[SECURITY] Unauthorized landing note update attempt for member: ${memberId}`);
+        return NextResponse.json(
+          { error: 'Unauthorized - you do not have permission to modify this resource' },
+          { status: 403 }
+        );
+      }
+
+      const updatedMember = await prisma.member.update({
+        where: { id: memberId },
+        data: { landingNote: note || null },
+        select: { landingNote: true },
+      });
+
+      return NextResponse.json({
+        success: true,
+        landingNote: updatedMember.landingNote,
+      });
+    } catch (error) {
+      logger.error('❌ Error updating landing note:', error);
+      return NextResponse.json(
+        { error: 'Failed to update landing note' },
+        { status: 500 }
+      );
+    }
+  }, 'STANDARD');
+}
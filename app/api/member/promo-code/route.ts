@@ -0,0 +1,172 @@
+// app/api/member/promo-code/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '../../../../lib/db/prisma';
+import { withRateLimit } from '../../../../lib/security/rate-limit-utils';
+import logger from '../../../../lib/logger';
+import { canAccessMemberById } from '../../../../lib/whop/simple-auth';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { createPromoCode } from '../../../../lib/whop/promo-codes';
+import { generatePromoCode } from '../../../../lib/utils/promo-code';
+import { REFEREE_BONUS_DEFAULTS } from '../../../../lib/constants/attribution';
+
+const MAX_CODE_ATTEMPTS = 3;
+
+/**
+ * GET /api/member/promo-code?memberId={id}
+ * Get a member's personal promo code (null until issued)
+ *
+ * SECURITY: Requires authorization - user must own the member resource
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, async () => {
+    try {
+      const memberId = new URL(request.url).searchParams.get('memberId');
+
+      if (!memberId) {
+        return NextResponse.json(
+          { error: 'memberId query parameter is required' },
+          { status: 400 }
+        );
+      }
+
+      // SECURITY: Verify user is authorized to access this member's data
+      const isAuthorized = await canAccessMemberById(memberId);
+      if (!isAuthorized) {
+        logger.warn(`[SECURITY] Unauthorized promo code read attempt for member: ${memberId}`);
+        return NextResponse.json(
+          { error: 'Unauthorized - you do not have permission to access this resource' },
+          { status: 403 }
+        );
+      }
+
+      const member = await prisma.member.findUnique({
+        where: { id: memberId },
+        select: { promoCode: true },
+      });
+
+      if (!member) {
+        return NextResponse.json(
+          { error: 'Member not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        promoCode: member.promoCode,
+        percentOff: REFEREE_BONUS_DEFAULTS.bonusPercent,
+      });
+    } catch (error) {
+      logger.error('❌ Error fetching promo code:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch promo code' },
+        { status: 500 }
+      );
+    }
+  }, 'STANDARD');
+}
+
+/**
+ * POST /api/member/promo-code
+ * Issue the member's personal promo code (idempotent - returns the existing one)
+ *
+ * SECURITY: Requires authorization - user must own the member resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  return withRateLimit(request, async () => {
+    try {
+      const { memberId } = await request.json();
+
+      if (!memberId) {
+        return NextResponse.json(
+          { error: 'Missing required fields' },
+          { status: 400 }
+        );
+      }
+
+      // SECURITY: Verify user is authorized to modify this member's data
+      const isAuthorized = await canAccessMemberById(memberId);
+      if (!isAuthorized) {
+        logger.warn(`[SECURITY] Unauthorized promo code issue attempt for member: ${memberId}`);
+        return NextResponse.json(
+          { error: 'Unauthorized - you do not have permission to modify this resource' },
+          { status: 403 }
+        );
+      }
+
+      const member = await prisma.member.findUnique({
+        where: { id: memberId },
+        select: {
+          id: true,
+          referralCode: true,
+          promoCode: true,
+          creator: { select: { productId: true } },
+        },
+      });
+
+      if (!member) {
+        return NextResponse.json(
+          { error: 'Member not found' },
+          { status: 404 }
+        );
+      }
+
+      if (member.promoCode) {
+        return NextResponse.json({ success: true, promoCode: member.promoCode });
+      }
+
+      // Pick a code nobody holds yet (derived from the referral code)
+      let promoCode: string | null = null;
+      for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS && !promoCode; attempt++) {
+        const suffix = attempt === 0 ? '' : String(Math.floor(Math.random() * 90) + 10);
+        const candidate = generatePromoCode(member.referralCode, suffix);
+        const taken = await prisma.member.findUnique({ where: { promoCode: candidate }, select: { id: true } });
+        if (!taken) promoCode = candidate;
+      }
+
+      if (!promoCode) {
+        return NextResponse.json(
+          { error: 'Could not find a free promo code. Please try again.' },
+          { status: 409 }
+        );
+      }
+
+      const result = await createPromoCode({
+        code: promoCode,
+        productId: member.creator.productId,
+        percentOff: REFEREE_BONUS_DEFAULTS.bonusPercent,
+        metadata: { memberId: member.id, referralCode: member.referralCode },
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: 'Failed to create promo code on Whop', message: result.error },
+          { status: 502 }
+        );
+      }
+
+      const updatedMember = await prisma.member.update({
+        where: { id: member.id },
+        data: { promoCode, promoCodeWhopId: result.promoCodeId ?? null },
+        select: { promoCode: true },
+      });
+
+      logger.info(`Promo code ${promoCode} issued for member ${member.referralCode}`);
+
+      return NextResponse.json({
+        success: true,
+        promoCode: updatedMember.promoCode,
+      });
+    } catch (error) {
+      logger.error('❌ Error issuing promo code:', error);
+      return NextResponse.json(
+        { error: 'Failed to issue promo code' },
+        { status: 500 }
+      );
+    }
+  }, 'STANDARD');
+}
@@ -0,0 +1,140 @@
+// app/api/member/referral-claims/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import { withRateLimit } from '../../../../lib/security/rate-limit-utils';
+import logger from '../../../../lib/logger';
+import { canAccessMemberById } from '../../../../lib/whop/simple-auth';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { REFERRAL_CLAIM_LIMITS } from '../../../../lib/constants/attribution';
+import { fileReferralClaim, ReferralClaimError } from '../../../../lib/utils/referral-claims';
+
+const fileClaimSchema = z.object({
+  memberId: z.string().min(1, 'Member ID is required'),
+  referee: z.string().trim().min(1, 'Username of the referred member is required').max(100),
+  note: z.string().trim().max(REFERRAL_CLAIM_LIMITS.MAX_NOTE_LENGTH).nullable().optional(),
+});
+
+/**
+ * GET /api/member/referral-claims?memberId={id}
+ * List the missed-referral claims a member has filed
+ *
+ * SECURITY: Requires authorization - user must own the member resource
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, async () => {
+    try {
+      const memberId = new URL(request.url).searchParams.get('memberId');
+
+      if (!memberId) {
+        return NextResponse.json(
+          { error: 'memberId query parameter is required' },
+          { status: 400 }
+        );
+      }
+
+      // SECURITY: Verify user is authorized to access this member's data
+      const isAuthorized = await canAccessMemberById(memberId);
+      if (!isAuthorized) {
+        logger.warn(`[SECURITY] Unauthorized referral claim read attempt for member: ${memberId}`);
+        return NextResponse.json(
+          { error: 'Unauthorized - you do not have permission to access this resource' },
+          { status: 403 }
+        );
+      }
+
+      const claims = await prisma.referralClaim.findMany({
+        where: { claimantId: memberId },
+        select: {
+          id: true,
+          refereeHandle: true,
+          note: true,
+          status: true,
+          rejectionReason: true,
+          backfilled: true,
+          reviewedAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+      });
+
+      return NextResponse.json({ success: true, claims });
+    } catch (error) {
+      logger.error('❌ Error fetching referral claims:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch referral claims' },
+        { status: 500 }
+      );
+    }
+  }, 'STANDARD');
+}
+
+/**
+ * POST /api/member/referral-claims
+ * Claim a member who joined through you but wasn't attributed (creator reviews it)
+ *
+ * SECURITY: Requires authorization - user must own the member resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  return withRateLimit(request, async () => {
+    try {
+      const validationResult = fileClaimSchema.safeParse(await request.json());
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      const { memberId, referee, note } = validationResult.data;
+
+      // SECURITY: Verify user is authorized to modify this member's data
+      const isAuthorized = await canAccessMemberById(memberId);
+      if (!isAuthorized) {
+        logger.warn(`[SECURITY] Unauthorized referral claim attempt for member: ${memberId}`);
+        return NextResponse.json(
+          { error: 'Unauthorized - you do not have permission to modify this resource' },
+          { status: 403 }
+        );
+      }
+
+      const claim = await fileReferralClaim({ claimantId: memberId, refereeHandle: referee, note });
+
+      return NextResponse.json(
+        {
+          success: true,
+          claim: {
+            id: claim.id,
+            refereeHandle: claim.refereeHandle,
+            note: claim.note,
+            status: claim.status,
+            createdAt: claim.createdAt,
+          },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      if (error instanceof ReferralClaimError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      logger.error('❌ Error filing referral claim:', error);
+      return NextResponse.json(
+        { error: 'Failed to file referral claim' },
+        { status: 500 }
+      );
+    }
+  }, 'STANDARD');
+}
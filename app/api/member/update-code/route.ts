@@ -1,15 +1,24 @@
 // app/api/member/update-code/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '../../../../lib/db/prisma';
+import { z } from 'zod';
 import { withRateLimit } from '../../../../lib/security/rate-limit-utils';
 import logger from '../../../../lib/logger';
 import { canAccessMemberById } from '../../../../lib/whop/simple-auth';
 import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { changeReferralCode, ReferralCodeChangeError } from '../../../../lib/utils/referral-code-history';
 
+/**
+ * Zod schema for a referral code change
+ */
+const updateCodeSchema = z.object({
+  memberId: z.string().min(1, 'Member ID is required'),
+  newCode: z.string().trim().toUpperCase(),
+});
 
 /**
  * POST /api/member/update-code
- * Update a member's referral code
+ * Update a member's referral code. The old code is retired, not released:
+ * /r/[old] keeps redirecting to the new code and nobody else can claim it.
  *
  * SECURITY: Requires authorization - user must own the member resource
  */
@@ -20,15 +29,18 @@ export async function POST(request: NextRequest) {
 
   return withRateLimit(request, async () => {
     try {
-      const { memberId, newCode } = await request.json();
+      const body = await request.json();
 
-      if (!memberId || !newCode) {
+      const validationResult = updateCodeSchema.safeParse(body);
+      if (!validationResult.success) {
         return NextResponse.json(
-          { error: 'Missing required fields' },
+          { error: 'Missing required fields', details: validationResult.error.issues },
           { status: 400 }
         );
       }
 
+      const { memberId, newCode } = validationResult.data;
+
       // SECURITY: Verify user is authorized to modify this member's data
       const isAuthorized = await canAccessMemberById(memberId);
       if (!isAuthorized) {
@@ -39,44 +51,21 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Validate code format
-      const codeRegex = /^[A-Z0-9-]{3,20}$/;
-      if (!codeRegex.test(newCode)) {
-        return NextResponse.json(
-          { error: 'Invalid code format. Use 3-20 characters (A-Z, 0-9, hyphens only)' },
-          { status: 400 }
-        );
-      }
+      const result = await changeReferralCode(memberId, newCode);
 
-      // Check if code is already taken
-      const existingMember = await prisma.member.findUnique({
-        where: { referralCode: newCode },
+      return NextResponse.json({
+        success: true,
+        referralCode: result.referralCode,
+        remainingChanges: result.remainingChanges,
       });
-
-      if (existingMember && existingMember.id !== memberId) {
+    } catch (error) {
+      if (error instanceof ReferralCodeChangeError) {
         return NextResponse.json(
-          { error: 'This code is already taken. Please choose another.' },
-          { status: 409 }
+          { error: error.message },
+          { status: error.status }
         );
       }
 
-      // Update the member's referral code
-      const updatedMember = await prisma.member.update({
-        where: { id: memberId },
-        data: { referralCode: newCode },
-      });
-
-      console.log('✅ Referral code updated:', {
-        memberId,
-        oldCode: updatedMember.referralCode,
-        newCode,
-      });
-
-      return NextResponse.json({
-        success: true,
-        referralCode: updatedMember.referralCode,
-      });
-    } catch (error) {
       logger.error('❌ Error updating referral code:', error);
       return NextResponse.json(
         { error: 'Failed to update referral code' },
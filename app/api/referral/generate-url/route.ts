@@ -91,7 +91,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateU
       }),
       prisma.member.count({
         where: {
-          referredBy: member.referralCode,
+          referrerId: member.id,
         },
       }),
     ]);
@@ -220,7 +220,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<GenerateUr
         where: { memberId: member.id },
       }),
       prisma.member.count({
-        where: { referredBy: member.referralCode },
+        where: { referrerId: member.id },
       }),
     ]);
 
@@ -0,0 +1,319 @@
+// app/api/referral/sub-links/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../../../../lib/db/prisma';
+import logger from '../../../../lib/logger';
+import { canAccessMemberById } from '../../../../lib/whop/simple-auth';
+import { rateLimitMiddleware } from '../../../../lib/security/rate-limit-utils';
+import { checkOrigin } from '../../../../lib/security/origin-validation';
+import { SUB_LINK_LIMITS } from '../../../../lib/constants/attribution';
+import {
+  buildSubLinkUrl,
+  isValidSubLinkSlug,
+  listSubLinks,
+  slugifySubLinkLabel,
+} from '../../../../lib/analytics/sub-links';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const utmTag = z.string().trim().max(SUB_LINK_LIMITS.MAX_UTM_LENGTH).optional();
+
+/**
+ * Zod schema for creating a sub-link
+ * slug defaults to the slugified label; utmSource defaults to the slug
+ */
+const createSubLinkSchema = z.object({
+  memberId: z.string().min(1, 'Member ID is required'),
+  label: z.string().trim().min(1).max(SUB_LINK_LIMITS.MAX_LABEL_LENGTH),
+  slug: z.string().trim().toLowerCase().optional(),
+  utmSource: utmTag,
+  utmMedium: utmTag,
+  utmCampaign: utmTag,
+});
+
+/**
+ * Zod schema for archiving / restoring a sub-link
+ */
+const updateSubLinkSchema = z.object({
+  memberId: z.string().min(1, 'Member ID is required'),
+  subLinkId: z.string().min(1, 'Sub-link ID is required'),
+  archived: z.boolean(),
+});
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+/**
+ * GET /api/referral/sub-links?memberId={id}&includeArchived=true
+ * List a member's sub-links with click → signup → paid stats (plus the main link's)
+ *
+ * SECURITY: Requires authorization - user must own the member resource
+ */
+export async function GET(request: NextRequest) {
+  // SECURITY: Rate limiting (30 requests per minute for reads)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 30, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const memberId = searchParams.get('memberId');
+
+    if (!memberId) {
+      return NextResponse.json(
+        { error: 'memberId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify user is authorized to access this member's data
+    const isAuthorized = await canAccessMemberById(memberId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized sub-link read attempt for member: ${memberId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to access this resource' },
+        { status: 403 }
+      );
+    }
+
+    const member = await prisma.member.findUnique({
+      where: { id: memberId },
+      select: { id: true, referralCode: true },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    const { subLinks, mainLink } = await listSubLinks(member, getAppUrl(), {
+      includeArchived: searchParams.get('includeArchived') === 'true',
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        mainLink: { url: `${getAppUrl()}/r/${member.referralCode}`, stats: mainLink },
+        subLinks,
+        limits: { maxActive: SUB_LINK_LIMITS.MAX_ACTIVE_PER_MEMBER },
+      },
+    });
+  } catch (error) {
+    logger.error('❌ Error fetching sub-links:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch sub-links',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/referral/sub-links
+ * Create a named sub-link for a channel
+ *
+ * SECURITY: Requires authorization - user must own the member resource
+ */
+export async function POST(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = createSubLinkSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this member
+    const isAuthorized = await canAccessMemberById(data.memberId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized sub-link create attempt for member: ${data.memberId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    const member = await prisma.member.findUnique({
+      where: { id: data.memberId },
+      select: { id: true, referralCode: true },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    const slug = data.slug || slugifySubLinkLabel(data.label);
+    if (!isValidSubLinkSlug(slug)) {
+      return NextResponse.json(
+        { error: 'Invalid slug. Use up to 32 lowercase letters, numbers or hyphens' },
+        { status: 400 }
+      );
+    }
+
+    const activeCount = await prisma.referralSubLink.count({
+      where: { memberId: member.id, archivedAt: null },
+    });
+
+    if (activeCount >= SUB_LINK_LIMITS.MAX_ACTIVE_PER_MEMBER) {
+      return NextResponse.json(
+        { error: `You can have at most ${SUB_LINK_LIMITS.MAX_ACTIVE_PER_MEMBER} active links. Archive one first.` },
+        { status: 409 }
+      );
+    }
+
+    const subLink = await prisma.referralSubLink.create({
+      data: {
+        memberId: member.id,
+        slug,
+        label: data.label,
+        utmSource: data.utmSource || slug,
+        utmMedium: data.utmMedium || null,
+        utmCampaign: data.utmCampaign || null,
+      },
+    });
+
+    logger.info(`Sub-link "${slug}" created for member ${member.referralCode}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...subLink, url: buildSubLinkUrl(getAppUrl(), member.referralCode, subLink) },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'You already have a link with this slug. Choose another.' },
+        { status: 409 }
+      );
+    }
+
+    logger.error('❌ Error creating sub-link:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create sub-link',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/referral/sub-links
+ * Archive or restore a sub-link (archived links keep resolving and counting clicks)
+ *
+ * SECURITY: Requires authorization - user must own the member resource
+ */
+export async function PATCH(request: NextRequest) {
+  // SECURITY: Origin validation for CSRF protection
+  const originError = checkOrigin(request);
+  if (originError) return originError;
+
+  // SECURITY: Rate limiting (10 requests per minute)
+  const rateLimitResponse = await rateLimitMiddleware(request, { maxRequests: 10, windowMs: 60000 });
+  if (rateLimitResponse) return rateLimitResponse;
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateSubLinkSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validationResult.data;
+
+    // SECURITY: Verify user is authorized to modify this member
+    const isAuthorized = await canAccessMemberById(data.memberId);
+    if (!isAuthorized) {
+      logger.warn(`[SECURITY] Unauthorized sub-link update attempt for member: ${data.memberId}`);
+      return NextResponse.json(
+        { error: 'Unauthorized - you do not have permission to modify this resource' },
+        { status: 403 }
+      );
+    }
+
+    const subLink = await prisma.referralSubLink.findFirst({
+      where: { id: data.subLinkId, memberId: data.memberId },
+    });
+
+    if (!subLink) {
+      return NextResponse.json(
+        { error: 'Sub-link not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!data.archived && subLink.archivedAt) {
+      const activeCount = await prisma.referralSubLink.count({
+        where: { memberId: data.memberId, archivedAt: null },
+      });
+
+      if (activeCount >= SUB_LINK_LIMITS.MAX_ACTIVE_PER_MEMBER) {
+        return NextResponse.json(
+          { error: `You can have at most ${SUB_LINK_LIMITS.MAX_ACTIVE_PER_MEMBER} active links. Archive one first.` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await prisma.referralSubLink.update({
+      where: { id: subLink.id },
+      data: { archivedAt: data.archived ? (subLink.archivedAt ?? new Date()) : null },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    logger.error('❌ Error updating sub-link:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update sub-link',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -10,15 +10,30 @@ import { LeaderboardButton } from '../../../components/dashboard/LeaderboardButt
 import { MemberOnboardingModal } from '../../../components/dashboard/MemberOnboardingModal';
 import { WhopUsernameSetup } from '../../../components/dashboard/WhopUsernameSetup';
 import { EarningsCalculator } from '../../../components/dashboard/EarningsCalculator';
+import { ClickFunnelCard } from '../../../components/dashboard/ClickFunnelCard';
+import { PayoutStatusCard } from '../../../components/dashboard/PayoutStatusCard';
+import { PayoutIssuesCard } from '../../../components/dashboard/PayoutIssuesCard';
+import { BalanceStatementCard } from '../../../components/dashboard/BalanceStatementCard';
+import { PayoutStatementsCard } from '../../../components/dashboard/PayoutStatementsCard';
+import { SubLinkManager } from '../../../components/dashboard/SubLinkManager';
+import { PromoCodeCard } from '../../../components/dashboard/PromoCodeCard';
+import { MissedReferralClaimForm } from '../../../components/dashboard/MissedReferralClaimForm';
 import { CommissionTierBadge } from '../../../components/dashboard/TierProgressCard';
 import { StreakDisplay, StreakCard } from '../../../components/dashboard/StreakDisplay';
 import { formatCurrency } from '../../../lib/utils/commission';
 import { getCompleteMemberDashboardData } from '../../../lib/data/centralized-queries';
-import { getCommissionTier } from '../../../lib/utils/tiered-commission';
+import { getHeldTier, getTierByName, parseTierLadder, parseTierQualification, formatRateAsPercent, describeTierRequirements } from '../../../lib/utils/tiered-commission';
+import { getMemberTierMetrics } from '../../../lib/utils/tier-ladder';
 import { notFound } from 'next/navigation';
 import { getWhopContext, canAccessMemberDashboard } from '../../../lib/whop/simple-auth';
 import { getExperienceById, findMembershipByExperienceAndUser, listMembershipsByCompany, getUserById, getMembershipById } from '../../../lib/whop';
 import { createCreatorWithWhopData } from '../../../lib/whop/sync-creator';
+import { parseRecurringPolicy } from '../../../lib/utils/recurring-commission';
+import { describeCommissionHold } from '../../../lib/utils/commission-clearing';
+import { getMemberClearingSummary } from '../../../lib/utils/commission-release';
+import { getMemberBalanceStatement } from '../../../lib/ledger/member-balance';
+import { getMemberPayoutStatements } from '../../../lib/utils/payout-runs';
+import { getMemberPayoutIssues } from '../../../lib/utils/payout-recovery';
 import { generateReferralCode } from '../../../lib/utils/referral-code';
 import logger from '../../../lib/logger';
 
@@ -305,6 +320,12 @@ export default async function MemberDashboard({
         customReward4th: true,
         customReward5th: true,
         customReward6to10: true,
+        commissionTierLadder: true,
+        tierQualificationMode: true,
+        tierQualificationDays: true,
+        tierDowngradeGraceDays: true,
+        recurringCommissionMode: true,
+        recurringCommissionLimit: true,
       },
     });
 
@@ -325,9 +346,31 @@ export default async function MemberDashboard({
 
     // ========================================
     // TIERED COMMISSION SYSTEM
-    // Calculate member's current tier based on paid referrals
+    // Calculate member's current tier on the creator's ladder
     // ========================================
-    const tierConfig = getCommissionTier(data.totalReferred);
+    const commissionLadder = parseTierLadder(creator.commissionTierLadder);
+    const tierQualification = parseTierQualification(creator);
+    const tierMetrics = await getMemberTierMetrics(
+      { id: data.memberId, totalReferred: data.totalReferred },
+      { ladder: commissionLadder, qualification: tierQualification }
+    );
+    const tierConfig = getHeldTier(tierMetrics, commissionLadder, tierQualification, data.commissionTier);
+    const nextTier = commissionLadder[commissionLadder.indexOf(tierConfig) + 1] || null;
+    const pendingDowngrade = data.tierDowngradeAt && data.pendingCommissionTier
+      ? { tier: getTierByName(data.pendingCommissionTier, commissionLadder), at: data.tierDowngradeAt }
+      : null;
+
+    // Commissions still in the clearing period (or held for review)
+    const clearing = await getMemberClearingSummary(data.memberId);
+
+    // Clawbacks on paid commissions and the payouts that recovered them
+    const statement = await getMemberBalanceStatement(data.memberId);
+
+    // Payouts sent by the creator's payout runs, with the commissions they covered
+    const payoutStatements = await getMemberPayoutStatements(data.memberId);
+
+    // Payouts that didn't go through - retrying, or waiting on the member
+    const payoutIssues = await getMemberPayoutIssues(data.memberId);
 
     // Get actual subscription price - priority: creator's price > member's price > default
     // Creator's defaultSubscriptionPrice is auto-captured from first payment webhook
@@ -413,6 +456,9 @@ export default async function MemberDashboard({
           whopUsername={data.whopUsername}
         />
 
+        {/* Personal Promo Code - link-less referrals */}
+        <PromoCodeCard memberId={data.memberId} />
+
         {/* Custom Competition Banner - Shows when creator enables competition */}
         <CustomCompetitionBanner
           isEnabled={creator.customRewardEnabled || false}
@@ -444,6 +490,34 @@ export default async function MemberDashboard({
           }}
         />
 
+        {/* Payout Issues - failed transfers and payouts the member has to unblock */}
+        {payoutIssues.length > 0 && (
+          <PayoutIssuesCard issues={payoutIssues} />
+        )}
+
+        {/* Payout Status - clearing period before commissions are paid out */}
+        {clearing && (
+          <PayoutStatusCard
+            holdDescription={describeCommissionHold(clearing.holdDays)}
+            scheduleDescription={clearing.schedule}
+            commissions={clearing.commissions}
+          />
+        )}
+
+        {/* Balance Statement - only once a paid commission was refunded */}
+        {(statement.clawbacks.length > 0 || statement.offsets.length > 0) && (
+          <BalanceStatementCard
+            balance={statement.balance}
+            clawbacks={statement.clawbacks}
+            offsets={statement.offsets}
+          />
+        )}
+
+        {/* Payout Statements - once the first payout run paid this member */}
+        {payoutStatements.length > 0 && (
+          <PayoutStatementsCard statements={payoutStatements} />
+        )}
+
         {/* Earnings Chart - ✅ USING CENTRALIZED DATA */}
         <EarningsChartWrapper
           memberId={data.memberId}
@@ -460,8 +534,18 @@ export default async function MemberDashboard({
           userSubscriptionPrice={actualSubscriptionPrice}
           currentReferrals={data.totalReferred}
           communityName={creator.companyName}
+          recurringPolicy={parseRecurringPolicy(creator)}
         />
 
+        {/* Link Funnel - clicks → signups → paid */}
+        <ClickFunnelCard funnel={data.clickFunnel} />
+
+        {/* Tracking Links - named per-channel sub-links */}
+        <SubLinkManager memberId={data.memberId} />
+
+        {/* Missed Referrals - claim a signup that wasn't attributed */}
+        <MissedReferralClaimForm memberId={data.memberId} />
+
         {/* Reward Progress - Creator-defined reward tiers */}
         <RewardProgress
           currentReferrals={data.totalReferred}
@@ -520,6 +604,7 @@ export default async function MemberDashboard({
                 tier={tierConfig.tierName}
                 rate={tierConfig.memberRate}
                 size="md"
+                ladder={commissionLadder}
               />
             </div>
             <div className="text-right">
@@ -530,13 +615,16 @@ export default async function MemberDashboard({
             </div>
           </div>
           <div className="mt-3 text-xs text-gray-500">
-            {tierConfig.tierName === 'starter' && (
-              <span>Reach 50 referrals to unlock Ambassador tier (15% commission)</span>
-            )}
-            {tierConfig.tierName === 'ambassador' && (
-              <span>Reach 100 referrals to unlock Elite tier (18% commission)</span>
+            {pendingDowngrade && (
+              <div className="mb-2 text-yellow-400">
+                ⚠️ You no longer meet the {tierConfig.displayName} requirements. Requalify by {pendingDowngrade.at.toLocaleDateString()} or you'll move to {pendingDowngrade.tier.displayName} ({formatRateAsPercent(pendingDowngrade.tier.memberRate)}).
+              </div>
             )}
-            {tierConfig.tierName === 'elite' && (
+            {nextTier ? (
+              <span>
+                Reach {describeTierRequirements(nextTier)} to unlock {nextTier.displayName} tier ({formatRateAsPercent(nextTier.memberRate)} commission)
+              </span>
+            ) : (
               <span>🏆 You've reached the highest tier! Maximum commission rate.</span>
             )}
           </div>
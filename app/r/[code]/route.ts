@@ -3,6 +3,9 @@ import { prisma } from '../../../lib/db/prisma';
 import { applyRateLimit } from '../../../lib/security/rate-limit-utils';
 import { extractRealIP } from '../../../lib/utils/ip-hash';
 import logger from '../../../lib/logger';
+import { recordReferralClick } from '../../../lib/analytics/click-tracking';
+import { buildWhopProductUrl, shouldShowReferralLanding } from '../../../lib/utils/referral-landing';
+import { resolveReferralCode } from '../../../lib/utils/referral-code-history';
 
 // Whop API configuration for auto-fetching username
 const WHOP_API_KEY = process.env.WHOP_API_KEY;
@@ -23,11 +26,20 @@ export const dynamic = 'force-dynamic';
  * 4. Whop handles ALL attribution natively
  * 5. We read affiliate_username from webhook
  *
+ * Each click is also recorded (non-blocking) as an AttributionClick for
+ * first-party analytics: clicks, channels, click → signup → paid.
+ * Attribution itself stays with Whop.
+ *
+ * If the creator enabled the referral landing page, the click goes to
+ * /r/[code]/welcome first (skip with ?skip=1); its Continue button uses the
+ * same ?a= URL.
+ *
+ * Retired codes (the member switched to a vanity code) redirect permanently
+ * to the owner's current code, so already-posted links keep working.
+ *
  * NO MORE:
  * - Cookies
- * - Fingerprinting
- * - AttributionClick records
- * - 30-day windows (Whop handles this)
+ * - 30-day attribution windows (Whop handles this)
  */
 
 export async function GET(
@@ -76,6 +88,7 @@ export async function GET(
       where: { referralCode: code },
       select: {
         id: true,
+        referralCode: true,
         membershipId: true,
         whopUsername: true,
         username: true,
@@ -83,12 +96,21 @@ export async function GET(
           select: {
             productId: true,
             companyId: true,
+            referralLandingEnabled: true,
           }
         }
       }
     });
 
     if (!member) {
+      // Retired code: send the click (query string included) to the current one
+      const retired = await resolveReferralCode(code);
+      if (retired) {
+        const currentUrl = new URL(request.url);
+        currentUrl.pathname = `/r/${encodeURIComponent(retired.currentCode)}`;
+        return NextResponse.redirect(currentUrl.toString(), 308);
+      }
+
       logger.error('Member not found for code:', code);
       return redirectWithError('invalid_code');
     }
@@ -145,16 +167,24 @@ export async function GET(
     }
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    // 3. UPDATE MEMBER LAST ACTIVE (non-blocking)
+    // 3. RECORD CLICK + UPDATE MEMBER LAST ACTIVE (non-blocking)
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+    recordReferralClick(request, member)
+      .catch(err => logger.error('Failed to record referral click:', err));
+
     prisma.member.update({
       where: { id: member.id },
       data: { lastActive: new Date() }
     }).catch(err => logger.error('Failed to update lastActive:', err));
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    // 4. REDIRECT TO WHOP WITH ?a=whopUsername
+    // 4. LANDING PAGE (creator opt-in) OR REDIRECT TO WHOP WITH ?a=
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+    if (shouldShowReferralLanding(member.creator.referralLandingEnabled, new URL(request.url))) {
+      const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+      return NextResponse.redirect(new URL(`/r/${encodeURIComponent(member.referralCode)}/welcome`, appUrl).toString());
+    }
+
     logger.info(`Redirecting to Whop with affiliate: ${affiliateUsername}`);
     return redirectToProduct(member.creator.productId, affiliateUsername);
 
@@ -168,13 +198,8 @@ export async function GET(
 // HELPER: Redirect to Whop product page with ?a= affiliate parameter
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 function redirectToProduct(productId: string, whopUsername: string | null): NextResponse {
-  // Build Whop product URL
-  const baseUrl = `https://whop.com/products/${productId}`;
-
-  // If we have a whopUsername, add affiliate parameter
-  const redirectUrl = whopUsername
-    ? `${baseUrl}?a=${encodeURIComponent(whopUsername)}`
-    : baseUrl;
+  // Whop product URL, with the affiliate parameter if we have a whopUsername
+  const redirectUrl = buildWhopProductUrl(productId, whopUsername);
 
   logger.info(`Redirecting to: ${redirectUrl}`);
 
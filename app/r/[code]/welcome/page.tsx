@@ -0,0 +1,116 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { Gift, ArrowRight, Users } from 'lucide-react';
+import { prisma } from '../../../../lib/db/prisma';
+import { LANDING_SKIP_PARAM } from '../../../../lib/constants/attribution';
+import { buildWhopProductUrl, describeRefereeBonus } from '../../../../lib/utils/referral-landing';
+
+export const dynamic = 'force-dynamic';
+
+interface WelcomePageProps {
+  params: { code: string };
+}
+
+async function getLandingData(code: string) {
+  return prisma.member.findUnique({
+    where: { referralCode: code },
+    select: {
+      username: true,
+      whopUsername: true,
+      landingNote: true,
+      creator: {
+        select: {
+          companyName: true,
+          productId: true,
+          logoUrl: true,
+          description: true,
+          referralLandingEnabled: true,
+        },
+      },
+    },
+  });
+}
+
+export async function generateMetadata({ params }: WelcomePageProps): Promise<Metadata> {
+  const member = await getLandingData(params.code);
+  if (!member?.creator) return { title: 'Referral' };
+
+  return {
+    title: `${member.username} invited you to ${member.creator.companyName}`,
+    description: member.creator.description ?? undefined,
+    robots: { index: false },
+  };
+}
+
+/**
+ * Referrer-branded landing page (creator opt-in)
+ *
+ * /r/[code] has already recorded the click; Continue goes straight to Whop
+ * with ?a= so attribution is identical to the direct redirect.
+ */
+export default async function ReferralWelcomePage({ params }: WelcomePageProps) {
+  const member = await getLandingData(params.code);
+
+  // Disabled, unknown code or referrer not set up: let the redirect route handle it
+  if (!member?.creator?.referralLandingEnabled || !member.whopUsername) {
+    redirect(`/r/${encodeURIComponent(params.code)}?${LANDING_SKIP_PARAM}=1`);
+  }
+
+  const { creator } = member;
+  const bonus = describeRefereeBonus();
+  const continueUrl = buildWhopProductUrl(creator.productId, member.whopUsername);
+
+  return (
+    <div className="min-h-screen bg-[#0F0F0F] flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-[#1A1A1A] border border-[#2A2A2A] rounded-2xl p-8 text-center space-y-6">
+        {/* Community */}
+        {creator.logoUrl ? (
+          <img
+            src={creator.logoUrl}
+            alt={creator.companyName}
+            className="w-20 h-20 rounded-2xl mx-auto object-cover"
+          />
+        ) : (
+          <div className="w-20 h-20 rounded-2xl mx-auto bg-purple-900/40 flex items-center justify-center">
+            <Users className="w-10 h-10 text-purple-300" />
+          </div>
+        )}
+
+        <div>
+          <h1 className="text-2xl font-bold text-white">{creator.companyName}</h1>
+          {creator.description && (
+            <p className="text-gray-400 text-sm mt-2 leading-relaxed">{creator.description}</p>
+          )}
+        </div>
+
+        {/* Referrer */}
+        <div className="bg-[#0F0F0F] border border-[#333] rounded-lg p-4 text-left">
+          <p className="text-sm text-gray-300">
+            <span className="font-semibold text-white">{member.username}</span> invited you to join
+          </p>
+          {member.landingNote && (
+            <p className="text-sm text-gray-400 italic mt-2 whitespace-pre-line">&ldquo;{member.landingNote}&rdquo;</p>
+          )}
+        </div>
+
+        {/* Referee bonus */}
+        {bonus && (
+          <div className="flex items-center gap-3 bg-green-900/20 border border-green-500/30 rounded-lg p-4 text-left">
+            <Gift className="w-6 h-6 text-green-400 shrink-0" />
+            <p className="text-sm text-green-200">
+              Joining through this invite gets you <span className="font-semibold">{bonus}</span>.
+            </p>
+          </div>
+        )}
+
+        <a
+          href={continueUrl}
+          className="flex items-center justify-center gap-2 w-full bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg py-3 transition-colors"
+        >
+          Continue to {creator.companyName}
+          <ArrowRight className="w-4 h-4" />
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,10 @@ import { CreatorOnboardingBanner } from '../../../components/dashboard/CreatorOn
 import { PartnershipImpactCard } from '../../../components/creator/PartnershipImpactCard';
 import { InvoiceHistory } from '../../../components/creator/InvoiceHistory';
 import { CustomRateManager } from '../../../components/dashboard/CustomRateManager';
+import { AttributionConflictQueue } from '../../../components/dashboard/AttributionConflictQueue';
+import { ReferralClaimQueue } from '../../../components/dashboard/ReferralClaimQueue';
+import { MemberSupportTools } from '../../../components/dashboard/MemberSupportTools';
+import { FraudReviewQueue } from '../../../components/dashboard/FraudReviewQueue';
 import { CreatorAnnouncementForm } from '../../../components/dashboard/CreatorAnnouncementForm';
 import { formatCurrency } from '../../../lib/utils/commission';
 import { getWhopContext, canAccessCreatorDashboard } from '../../../lib/whop/simple-auth';
@@ -304,6 +308,26 @@ export default async function CreatorDashboardPage({ params }: CreatorDashboardP
             </Suspense>
           </div>
 
+          {/* Attribution Conflicts - policy + review queue */}
+          <Suspense fallback={<LoadingCard />}>
+            <AttributionConflictQueue creatorId={creator.id} />
+          </Suspense>
+
+          {/* Missed Referral Claims - member-filed, creator-reviewed */}
+          <Suspense fallback={<LoadingCard />}>
+            <ReferralClaimQueue creatorId={creator.id} />
+          </Suspense>
+
+          {/* Fraud Review - commissions held by the fraud check */}
+          <Suspense fallback={<LoadingCard />}>
+            <FraudReviewQueue creatorId={creator.id} />
+          </Suspense>
+
+          {/* Member Support Tools - reassign referrals, merge duplicate members */}
+          <Suspense fallback={<LoadingCard />}>
+            <MemberSupportTools creatorId={creator.id} companyId={experienceId} />
+          </Suspense>
+
           {/* Invoice History - Shows past invoices (moved to bottom) */}
           <Suspense fallback={<LoadingCard />}>
             <InvoiceHistory companyId={experienceId} />
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { GitMerge, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import logger from '../../lib/logger';
+
+interface AttributionConflictQueueProps {
+  creatorId: string;
+}
+
+interface PolicyOption {
+  policy: string;
+  description: string;
+}
+
+interface ConflictCandidate {
+  memberId: string;
+  referralCode: string;
+  username: string | null;
+  source: 'whop_affiliate' | 'promo_code' | 'referral_code';
+  at: string;
+}
+
+interface Conflict {
+  id: string;
+  status: 'open' | 'auto_resolved' | 'resolved';
+  policy: string;
+  referee: { id: string; username: string; referralCode: string; createdAt: string };
+  assignedMemberId: string | null;
+  candidates: ConflictCandidate[];
+  createdAt: string;
+}
+
+const POLICY_LABELS: Record<string, string> = {
+  first_touch: 'First touch',
+  last_touch: 'Last touch',
+  whop_wins: 'Whop link wins',
+  manual_review: 'Manual review',
+};
+
+const SOURCE_LABELS: Record<ConflictCandidate['source'], string> = {
+  whop_affiliate: 'Whop link',
+  promo_code: 'Promo code',
+  referral_code: 'Referral code',
+};
+
+export function AttributionConflictQueue({ creatorId }: AttributionConflictQueueProps) {
+  const [policy, setPolicy] = useState<string | null>(null);
+  const [options, setOptions] = useState<PolicyOption[]>([]);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [policyResponse, conflictsResponse] = await Promise.all([
+        fetch(`/api/creator/attribution-policy?creatorId=${creatorId}`),
+        fetch(`/api/creator/attribution-conflicts?creatorId=${creatorId}`),
+      ]);
+      const policyData = await policyResponse.json();
+      const conflictsData = await conflictsResponse.json();
+
+      if (!policyResponse.ok) throw new Error(policyData.error || 'Failed to load attribution policy');
+      if (!conflictsResponse.ok) throw new Error(conflictsData.error || 'Failed to load conflicts');
+
+      setPolicy(policyData.data.policy);
+      setOptions(policyData.data.options);
+      setConflicts(conflictsData.data.conflicts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load attribution settings');
+      logger.error('Failed to fetch attribution conflicts:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [creatorId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handlePolicyChange = async (nextPolicy: string) => {
+    setSavingPolicy(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/creator/attribution-policy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ creatorId, policy: nextPolicy }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || 'Failed to update policy');
+
+      setPolicy(nextPolicy);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update policy');
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const handleResolve = async (conflict: Conflict, candidate: ConflictCandidate) => {
+    setResolvingId(conflict.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch('/api/creator/attribution-conflicts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ creatorId, conflictId: conflict.id, winnerMemberId: candidate.memberId }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || 'Failed to resolve conflict');
+
+      const { movedCommissions } = data.data.reassignment;
+      setSuccess(
+        `${conflict.referee.username} credited to ${candidate.username ?? candidate.referralCode}` +
+        (movedCommissions > 0 ? ` (${movedCommissions} commissions moved)` : '')
+      );
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card className="bg-[#1A1A1A] border-[#2A2A2A] p-6">
+        <div className="flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-purple-500" />
+        </div>
+      </Card>
+    );
+  }
+
+  const openCount = conflicts.filter(conflict => conflict.status === 'open').length;
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <GitMerge className="w-5 h-5 text-purple-400" />
+          Attribution Conflicts
+          {openCount > 0 && (
+            <span className="ml-2 text-xs bg-yellow-500/20 text-yellow-300 rounded-full px-2 py-0.5">
+              {openCount} to review
+            </span>
+          )}
+        </CardTitle>
+        <p className="text-gray-400 text-sm">
+          When a new member has signals for two different referrers, this decides who gets the credit.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Policy */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {options.map(option => (
+            <button
+              key={option.policy}
+              onClick={() => handlePolicyChange(option.policy)}
+              disabled={savingPolicy}
+              title={option.description}
+              className={`p-2 rounded-lg border text-sm transition-colors ${
+                policy === option.policy
+                  ? 'border-purple-500 bg-purple-500/20 text-white'
+                  : 'border-gray-700 text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              {POLICY_LABELS[option.policy] ?? option.policy}
+            </button>
+          ))}
+        </div>
+        {policy && (
+          <p className="text-xs text-gray-500">
+            {options.find(option => option.policy === policy)?.description}
+          </p>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-400 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" /> {error}
+          </p>
+        )}
+        {success && (
+          <p className="text-sm text-green-400 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" /> {success}
+          </p>
+        )}
+
+        {/* Conflicts */}
+        {conflicts.length === 0 ? (
+          <p className="text-center text-sm text-gray-500">No attribution conflicts</p>
+        ) : (
+          <div className="space-y-2">
+            {conflicts.map(conflict => (
+              <div key={conflict.id} className="p-3 rounded-lg bg-gray-800/50 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white">{conflict.referee.username}</span>
+                  <span className="text-xs text-gray-500">
+                    {conflict.status === 'open' ? 'Needs review' : conflict.status === 'resolved' ? 'Resolved' : `Auto (${POLICY_LABELS[conflict.policy] ?? conflict.policy})`}
+                    {' · '}
+                    {new Date(conflict.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {conflict.candidates.map(candidate => {
+                    const credited = candidate.memberId === conflict.assignedMemberId;
+                    return (
+                      <Button
+                        key={candidate.memberId}
+                        size="sm"
+                        variant="outline"
+                        disabled={credited || resolvingId === conflict.id}
+                        onClick={() => handleResolve(conflict, candidate)}
+                        className={credited ? 'border-green-500/50 text-green-300' : 'border-gray-700 hover:bg-gray-800'}
+                      >
+                        {resolvingId === conflict.id && !credited && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                        {candidate.username ?? candidate.referralCode}
+                        <span className="ml-1 text-xs text-gray-500">({SOURCE_LABELS[candidate.source]})</span>
+                        {credited && <CheckCircle className="h-3 w-3 ml-1" />}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
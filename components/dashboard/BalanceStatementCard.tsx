@@ -0,0 +1,71 @@
+'use client';
+
+import { Scale } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { formatCurrency } from '../../lib/utils/commission';
+
+interface StatementLine {
+  id: string;
+  at: Date | string | null;
+  amount: number;
+  label: string;
+}
+
+interface BalanceStatementCardProps {
+  balance: number; // Settled balance - below zero is still being recovered
+  clawbacks: Array<{ id: string; at: Date | string; amount: number }>;
+  offsets: Array<{ id: string; at: Date | string | null; earned: number; offset: number }>;
+  maxLines?: number;
+}
+
+export function BalanceStatementCard({ balance, clawbacks, offsets, maxLines = 10 }: BalanceStatementCardProps) {
+  const lines: StatementLine[] = [
+    ...clawbacks.map(clawback => ({
+      id: clawback.id,
+      at: clawback.at,
+      amount: -clawback.amount,
+      label: 'Refund on a commission you were already paid',
+    })),
+    ...offsets.map(offset => ({
+      id: offset.id,
+      at: offset.at,
+      amount: offset.offset,
+      label: `Withheld from a ${formatCurrency(offset.earned)} commission`,
+    })),
+  ].sort((a, b) => new Date(b.at ?? 0).getTime() - new Date(a.at ?? 0).getTime());
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Scale className="w-5 h-5 text-orange-400" />
+          Balance Statement
+        </CardTitle>
+        <p className="text-gray-400 text-sm">
+          {balance < 0
+            ? `${formatCurrency(-balance)} from refunded sales will be withheld from your next payouts.`
+            : 'Refunds on sales you were already paid for have been recovered from later payouts.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {lines.slice(0, maxLines).map(line => (
+          <div key={line.id} className="flex items-center justify-between text-sm">
+            <span className="text-gray-300">
+              {line.label}
+              {line.at && <span className="text-gray-500"> · {new Date(line.at).toLocaleDateString()}</span>}
+            </span>
+            <span className={line.amount < 0 ? 'text-red-400' : 'text-green-400'}>
+              {line.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(line.amount))}
+            </span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between text-sm border-t border-gray-800 pt-2">
+          <span className="text-gray-400">Balance carried forward</span>
+          <span className={balance < 0 ? 'text-red-400 font-semibold' : 'text-gray-300 font-semibold'}>
+            {formatCurrency(Math.min(0, balance))}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { MousePointerClick } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import type { ClickFunnel } from '../../lib/analytics/click-tracking';
+
+interface ClickFunnelCardProps {
+  funnel: ClickFunnel;
+  title?: string;
+  subtitle?: string;
+  maxChannels?: number;
+}
+
+export function ClickFunnelCard({
+  funnel,
+  title = 'Link Funnel',
+  subtitle = 'Clicks on your referral link → signups → paid',
+  maxChannels = 5,
+}: ClickFunnelCardProps) {
+  const stages = [
+    { label: 'Clicks', value: funnel.clicks, rate: null, color: 'text-blue-400' },
+    { label: 'Signups', value: funnel.signups, rate: funnel.signupRate, color: 'text-yellow-400' },
+    { label: 'Paid', value: funnel.paid, rate: funnel.paidRate, color: 'text-green-400' },
+  ];
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <MousePointerClick className="w-5 h-5 text-blue-400" />
+          {title}
+        </CardTitle>
+        <p className="text-gray-400 text-sm">{subtitle}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3 text-center">
+          {stages.map(stage => (
+            <div key={stage.label} className="p-3 rounded-lg bg-gray-800/50">
+              <p className="text-xs text-gray-400">{stage.label}</p>
+              <p className={`text-2xl font-bold ${stage.color}`}>{stage.value.toLocaleString()}</p>
+              {stage.rate !== null && (
+                <p className="text-xs text-gray-500">{stage.rate}% of previous</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {funnel.byChannel.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">Top channels</p>
+            {funnel.byChannel.slice(0, maxChannels).map(row => (
+              <div key={row.channel} className="flex items-center justify-between text-sm">
+                <span className="text-gray-300 truncate">{row.channel}</span>
+                <span className="text-gray-500">
+                  {row.clicks} clicks · {row.signups} signups · {row.paid} paid
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-sm text-gray-500">No link clicks yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
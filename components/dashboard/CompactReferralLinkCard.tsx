@@ -5,6 +5,7 @@ import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Copy, Check, Share2, Edit2, X, Sparkles } from 'lucide-react';
 import { Input } from '../ui/input';
+import { REFERRAL_CODE_CHANGE_LIMITS } from '../../lib/constants/attribution';
 import logger from '../../lib/logger';
 
 
@@ -92,8 +93,7 @@ export function CompactReferralLinkCard({ code, url, memberId }: CompactReferral
     e.stopPropagation();
 
     // Validate code format
-    const codeRegex = /^[A-Z0-9-]{3,20}$/;
-    if (!codeRegex.test(newCode)) {
+    if (!REFERRAL_CODE_CHANGE_LIMITS.CODE_PATTERN.test(newCode)) {
       setError('Code must be 3-20 characters (letters, numbers, hyphens only)');
       return;
     }
@@ -157,8 +157,12 @@ export function CompactReferralLinkCard({ code, url, memberId }: CompactReferral
                   maxLength={20}
                 />
               </div>
-              {error && (
+              {error ? (
                 <p className="text-xs text-red-400">{error}</p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  Links with your old code keep working. {REFERRAL_CODE_CHANGE_LIMITS.MAX_CHANGES} changes per {REFERRAL_CODE_CHANGE_LIMITS.WINDOW_DAYS} days.
+                </p>
               )}
               <div className="flex items-center gap-2">
                 <Button
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { AnalyticsKPICard } from './AnalyticsKPICard';
 import { RevenueChart } from './RevenueChart';
 import { CommissionBreakdown } from './CommissionBreakdown';
+import { ClickFunnelCard } from './ClickFunnelCard';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { formatCurrency } from '../../lib/utils/commission';
 import {
@@ -16,6 +17,7 @@ import {
   RefreshCw,
 } from 'lucide-react';
 import { Button } from '../ui/button';
+import type { ClickFunnel } from '../../lib/analytics/click-tracking';
 
 interface CreatorAnalyticsProps {
   companyId: string;
@@ -31,6 +33,7 @@ interface AnalyticsData {
   referralGrowth: number;
   conversionRate: number;
   totalClicks: number;
+  clickFunnel: ClickFunnel;
   topReferrers: Array<{
     memberId: string;
     username: string;
@@ -225,6 +228,12 @@ export function CreatorAnalytics({
         </div>
       </div>
 
+      {/* Click → signup → paid */}
+      <ClickFunnelCard
+        funnel={analytics.clickFunnel}
+        subtitle="Referral link clicks this period → signups → paid, by channel"
+      />
+
       {/* Top Performers Table */}
       <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
         <CardHeader>
@@ -25,6 +25,8 @@ interface RevenueStats {
   monthlyGrowthRate: number;
   thisMonthReferrals: number;
   lastMonthReferrals: number;
+  reportingCurrency?: string;
+  revenueByCurrency?: Array<{ currency: string; revenue: number; reportingRevenue: number; salesCount: number }>;
 }
 
 interface TopPerformer {
@@ -111,6 +113,8 @@ export function CreatorDashboardClient({
           organicCount: revenueStats.organicCount,
           referredCount: revenueStats.referredCount,
           totalMembers: revenueStats.totalMembers,
+          reportingCurrency: revenueStats.reportingCurrency,
+          revenueByCurrency: revenueStats.revenueByCurrency,
         }}
       />
 
@@ -15,9 +15,15 @@ import {
 import {
   TIER_DISPLAY,
   formatRateAsPercent,
+  getTierDisplay,
   COMMISSION_TIERS,
   type CommissionTierName,
 } from '@/lib/utils/tiered-commission';
+import {
+  DEFAULT_RECURRING_POLICY,
+  describeRecurringPolicy,
+  type RecurringCommissionPolicy,
+} from '@/lib/utils/recurring-commission';
 
 interface EarningsCalculatorProps {
   avgSubscriptionPrice: number;
@@ -25,6 +31,7 @@ interface EarningsCalculatorProps {
   currentReferrals?: number;
   communityName?: string;
   compact?: boolean;
+  recurringPolicy?: RecurringCommissionPolicy;
 }
 
 export function EarningsCalculator({
@@ -33,13 +40,15 @@ export function EarningsCalculator({
   currentReferrals = 0,
   communityName = 'this community',
   compact = false,
+  recurringPolicy = DEFAULT_RECURRING_POLICY,
 }: EarningsCalculatorProps) {
   const [referralCount, setReferralCount] = useState(currentReferrals || 10);
 
   const input: CalculatorInput = useMemo(() => ({
     avgSubscriptionPrice,
     userSubscriptionPrice,
-  }), [avgSubscriptionPrice, userSubscriptionPrice]);
+    recurringPolicy,
+  }), [avgSubscriptionPrice, userSubscriptionPrice, recurringPolicy]);
 
   const projection = useMemo(
     () => calculateEarningsProjection(referralCount, input),
@@ -165,7 +174,7 @@ export function EarningsCalculator({
               ${projection.yearlyEarnings.toFixed(0)}
             </p>
             <p className="text-xs text-gray-500 mt-1">
-              Passive income annually
+              {recurringPolicy.mode === 'lifetime' ? 'Passive income annually' : describeRecurringPolicy(recurringPolicy)}
             </p>
           </div>
         </div>
@@ -200,8 +209,8 @@ export function EarningsCalculator({
         <div className="pt-4 border-t border-gray-800">
           <p className="text-gray-400 text-xs mb-3 text-center">Commission Tiers - Earn More as You Refer</p>
           <div className="grid grid-cols-3 gap-2 w-full">
-            {COMMISSION_TIERS.map((tier) => {
-              const display = TIER_DISPLAY[tier.tierName];
+            {COMMISSION_TIERS.map((tier, index) => {
+              const display = getTierDisplay(tier, index);
               const isCurrentTier = tier.tierName === projection.tier;
               const isUnlocked = referralCount >= tier.minReferrals;
 
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { ShieldAlert, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { formatCurrency } from '../../lib/utils/commission';
+import logger from '../../lib/logger';
+
+interface FraudReviewQueueProps {
+  creatorId: string;
+}
+
+type ReviewAction = 'approve' | 'reject' | 'whitelist';
+
+interface FraudCaseFlag {
+  type: string;
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+}
+
+interface FraudCase {
+  id: string;
+  status: 'open' | 'cleared' | 'approved' | 'rejected' | 'whitelisted';
+  riskScore: number;
+  riskLevel: 'low' | 'medium' | 'high';
+  flags: FraudCaseFlag[];
+  reviewNote: string | null;
+  savedAmount: number;
+  createdAt: string;
+  member: { id: string; username: string; referralCode: string; fraudWhitelisted: boolean };
+  commission: { id: string; saleAmount: number; memberShare: number; currency: string; status: string } | null;
+}
+
+interface FraudStats {
+  flaggedMembers: number;
+  blockedMembers: number;
+  flaggedCommissions: number;
+  savedFromFraud: number;
+}
+
+const STATUS_LABELS: Record<FraudCase['status'], string> = {
+  open: 'Held for review',
+  cleared: 'Low risk - paid',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  whitelisted: 'Whitelisted',
+};
+
+const RISK_COLORS: Record<FraudCase['riskLevel'], string> = {
+  low: 'text-gray-400',
+  medium: 'text-yellow-300',
+  high: 'text-red-400',
+};
+
+export function FraudReviewQueue({ creatorId }: FraudReviewQueueProps) {
+  const [cases, setCases] = useState<FraudCase[]>([]);
+  const [stats, setStats] = useState<FraudStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchCases = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/creator/fraud-cases?creatorId=${creatorId}`);
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load fraud cases');
+
+      setCases(data.data.cases);
+      setStats(data.data.stats);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load fraud cases');
+      logger.error('Failed to fetch fraud cases:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [creatorId]);
+
+  useEffect(() => {
+    fetchCases();
+  }, [fetchCases]);
+
+  const handleReview = async (fraudCase: FraudCase, action: ReviewAction) => {
+    if (action === 'reject' && !confirm(`Reject and reverse this commission for ${fraudCase.member.username}?`)) return;
+
+    setReviewingId(fraudCase.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch('/api/creator/fraud-cases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ creatorId, caseId: fraudCase.id, action, note: notes[fraudCase.id] || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || 'Failed to review case');
+
+      if (action === 'reject') {
+        setSuccess(`Commission reversed - ${formatCurrency(data.data.savedAmount)} withheld`);
+      } else {
+        const cleared = data.data.releasedCommissionIds.length;
+        setSuccess(
+          `${fraudCase.member.username} approved${action === 'whitelist' ? ' and whitelisted' : ''} - ` +
+          (cleared > 0 ? `${cleared} commission${cleared === 1 ? '' : 's'} in the next payout run` : 'payout follows the clearing period')
+        );
+      }
+      await fetchCases();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review case');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card className="bg-[#1A1A1A] border-[#2A2A2A] p-6">
+        <div className="flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-purple-500" />
+        </div>
+      </Card>
+    );
+  }
+
+  const openCount = cases.filter(fraudCase => fraudCase.status === 'open').length;
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-purple-400" />
+          Fraud Review
+          {openCount > 0 && (
+            <span className="ml-2 text-xs bg-yellow-500/20 text-yellow-300 rounded-full px-2 py-0.5">
+              {openCount} held
+            </span>
+          )}
+        </CardTitle>
+        <p className="text-gray-400 text-sm">
+          Suspicious commissions are held until you approve them. Rejecting reverses the commission.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {stats && stats.flaggedCommissions > 0 && (
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-2 rounded-lg bg-gray-800/50">
+              <p className="text-white font-semibold">{stats.flaggedMembers}</p>
+              <p className="text-xs text-gray-500">Flagged members</p>
+            </div>
+            <div className="p-2 rounded-lg bg-gray-800/50">
+              <p className="text-white font-semibold">{stats.blockedMembers}</p>
+              <p className="text-xs text-gray-500">Rejected members</p>
+            </div>
+            <div className="p-2 rounded-lg bg-gray-800/50">
+              <p className="text-white font-semibold">{formatCurrency(stats.savedFromFraud)}</p>
+              <p className="text-xs text-gray-500">Withheld</p>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-400 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" /> {error}
+          </p>
+        )}
+        {success && (
+          <p className="text-sm text-green-400 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" /> {success}
+          </p>
+        )}
+
+        {cases.length === 0 ? (
+          <p className="text-center text-sm text-gray-500">No flagged commissions</p>
+        ) : (
+          <div className="space-y-2">
+            {cases.map(fraudCase => (
+              <div key={fraudCase.id} className="p-3 rounded-lg bg-gray-800/50 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white">
+                    {fraudCase.member.username}
+                    {fraudCase.commission && (
+                      <span className="text-gray-400">
+                        {' · '}
+                        {formatCurrency(fraudCase.commission.memberShare, fraudCase.commission.currency)} commission
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    <span className={RISK_COLORS[fraudCase.riskLevel]}>Risk {fraudCase.riskScore}</span>
+                    {' · '}
+                    {STATUS_LABELS[fraudCase.status]}
+                    {' · '}
+                    {new Date(fraudCase.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+
+                <ul className="text-xs text-gray-400 space-y-0.5">
+                  {fraudCase.flags.map((flag, index) => (
+                    <li key={index} className={RISK_COLORS[flag.severity]}>
+                      {flag.description}
+                    </li>
+                  ))}
+                </ul>
+
+                {fraudCase.status === 'open' ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                      size="sm"
+                      disabled={reviewingId === fraudCase.id}
+                      onClick={() => handleReview(fraudCase, 'approve')}
+                      className="bg-purple-600 hover:bg-purple-700"
+                    >
+                      {reviewingId === fraudCase.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={reviewingId === fraudCase.id}
+                      onClick={() => handleReview(fraudCase, 'whitelist')}
+                      className="border-gray-700 hover:bg-gray-800"
+                    >
+                      Whitelist member
+                    </Button>
+                    <Input
+                      value={notes[fraudCase.id] ?? ''}
+                      onChange={(e) => setNotes({ ...notes, [fraudCase.id]: e.target.value })}
+                      placeholder="Note (optional)"
+                      className="h-8 w-48 bg-[#0F0F0F] border-[#333] text-white text-xs"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={reviewingId === fraudCase.id}
+                      onClick={() => handleReview(fraudCase, 'reject')}
+                      className="border-red-900 text-red-400 hover:bg-red-950"
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                ) : fraudCase.reviewNote ? (
+                  <p className="text-xs text-gray-500">Note: {fraudCase.reviewNote}</p>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Wrench, Loader2, CheckCircle, AlertCircle, Search } from 'lucide-react';
+import logger from '../../lib/logger';
+
+interface MemberSupportToolsProps {
+  creatorId: string;
+  companyId: string;
+}
+
+interface MemberOption {
+  id: string;
+  username: string;
+  referralCode: string;
+}
+
+type Tool = 'reassign' | 'merge';
+
+interface ReassignmentPreview {
+  changed: boolean;
+  movedCommissions: number;
+  movedEarnings: number;
+}
+
+interface MergePreview {
+  adoptedMembership: boolean;
+  droppedFraudWhitelist: boolean;
+  moved: Record<string, number>;
+  totals: {
+    totalReferred: number;
+    monthlyReferred: number;
+    lifetimeEarnings: number;
+    monthlyEarnings: number;
+    commissionTier: string;
+  };
+}
+
+function MemberPicker({
+  companyId,
+  label,
+  value,
+  onChange,
+}: {
+  companyId: string;
+  label: string;
+  value: MemberOption | null;
+  onChange: (member: MemberOption | null) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MemberOption[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const handleSearch = async () => {
+    if (query.trim().length < 2) return;
+    setSearching(true);
+
+    try {
+      const response = await fetch(
+        `/api/creator/custom-rates/search?companyId=${companyId}&q=${encodeURIComponent(query.trim())}`
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Search failed');
+      setResults(data.members);
+    } catch (err) {
+      logger.error('Failed to search members:', err);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between p-2 rounded-lg bg-gray-800/50 text-sm">
+        <span className="text-gray-400">{label}</span>
+        <span className="text-white">{value.username} <span className="text-gray-500">({value.referralCode})</span></span>
+        <button onClick={() => onChange(null)} className="text-xs text-gray-500 hover:text-white">Change</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+          placeholder={`${label}: username, code or email`}
+          className="bg-[#0F0F0F] border-[#333] text-white"
+        />
+        <Button size="sm" variant="outline" onClick={handleSearch} disabled={searching} className="border-gray-700">
+          {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+        </Button>
+      </div>
+      {results.map(member => (
+        <button
+          key={member.id}
+          onClick={() => { onChange(member); setResults([]); setQuery(''); }}
+          className="block w-full text-left text-sm px-2 py-1 rounded hover:bg-gray-800 text-gray-300"
+        >
+          {member.username} <span className="text-gray-500">({member.referralCode})</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function MemberSupportTools({ creatorId, companyId }: MemberSupportToolsProps) {
+  const [tool, setTool] = useState<Tool>('reassign');
+  const [first, setFirst] = useState<MemberOption | null>(null);
+  const [second, setSecond] = useState<MemberOption | null>(null);
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<ReassignmentPreview | MergePreview | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const reset = (nextTool: Tool) => {
+    setTool(nextTool);
+    setFirst(null);
+    setSecond(null);
+    setReason('');
+    setPreview(null);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!first || !second) return;
+    setRunning(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(
+        tool === 'reassign' ? '/api/creator/referral-reassignment' : '/api/creator/member-merge',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            tool === 'reassign'
+              ? { creatorId, refereeId: first.id, toReferrerId: second.id, reason: reason || undefined, dryRun }
+              : { creatorId, sourceId: first.id, targetId: second.id, reason: reason || undefined, dryRun }
+          ),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+
+      if (dryRun) {
+        setPreview(tool === 'reassign' ? data.data.reassignment : data.data.merge);
+      } else {
+        setSuccess(
+          tool === 'reassign'
+            ? `${first.username} is now credited to ${second.username}`
+            : `${first.username} merged into ${second.username}`
+        );
+        setPreview(null);
+        setFirst(null);
+        setSecond(null);
+        setReason('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Wrench className="w-5 h-5 text-purple-400" />
+          Member Support Tools
+        </CardTitle>
+        <p className="text-gray-400 text-sm">
+          Fix attribution by hand. Every change is previewed first and recorded in the audit log.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {(['reassign', 'merge'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => reset(option)}
+              className={`p-2 rounded-lg border text-sm transition-colors ${
+                tool === option
+                  ? 'border-purple-500 bg-purple-500/20 text-white'
+                  : 'border-gray-700 text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              {option === 'reassign' ? 'Reassign referral' : 'Merge duplicates'}
+            </button>
+          ))}
+        </div>
+
+        <MemberPicker
+          companyId={companyId}
+          label={tool === 'reassign' ? 'Referred member' : 'Duplicate (removed)'}
+          value={first}
+          onChange={(member) => { setFirst(member); setPreview(null); }}
+        />
+        <MemberPicker
+          companyId={companyId}
+          label={tool === 'reassign' ? 'New referrer' : 'Member to keep'}
+          value={second}
+          onChange={(member) => { setSecond(member); setPreview(null); }}
+        />
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional, kept in the audit log)"
+          className="bg-[#0F0F0F] border-[#333] text-white"
+        />
+
+        {preview && (
+          <div className="p-3 rounded-lg bg-gray-800/50 text-sm text-gray-300 space-y-1">
+            {'movedCommissions' in preview ? (
+              preview.changed ? (
+                <p>
+                  Moves {preview.movedCommissions} commissions (${preview.movedEarnings.toFixed(2)} earnings) to {second?.username}.
+                </p>
+              ) : (
+                <p>{first?.username} is already credited to {second?.username} - nothing to change.</p>
+              )
+            ) : (
+              <>
+                <p>
+                  Moves {Object.entries(preview.moved).filter(([, count]) => count > 0).map(([key, count]) => `${count} ${key}`).join(', ') || 'no records'}.
+                </p>
+                {preview.adoptedMembership && (
+                  <p className="text-gray-400">{second?.username} takes over the newer Whop membership.</p>
+                )}
+                {preview.droppedFraudWhitelist && (
+                  <p className="text-yellow-400">
+                    Only one of the two was fraud-whitelisted - {second?.username} won&apos;t be until you whitelist them again.
+                  </p>
+                )}
+                <p className="text-gray-400">
+                  Afterwards: {preview.totals.totalReferred} referrals, ${preview.totals.lifetimeEarnings.toFixed(2)} lifetime earnings, {preview.totals.commissionTier} tier.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-400 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" /> {error}
+          </p>
+        )}
+        {success && (
+          <p className="text-sm text-green-400 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" /> {success}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!first || !second || running}
+            onClick={() => run(true)}
+            className="border-gray-700 hover:bg-gray-800"
+          >
+            {running && !preview && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Preview
+          </Button>
+          <Button
+            size="sm"
+            disabled={!preview || running}
+            onClick={() => run(false)}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            {running && preview && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Confirm
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,13 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { TrendingUp, Award, Zap, ChevronRight } from 'lucide-react';
+import {
+  COMMISSION_TIERS,
+  getNextTierInfo,
+  getTierDisplay,
+  type CommissionTierConfig,
+  type TierMetrics,
+} from '@/lib/utils/tiered-commission';
 
 // ============================================
 // REWARD TIER DISPLAY (Creator-customizable)
@@ -16,50 +23,34 @@ const REWARD_TIERS = {
 } as const;
 
 // ============================================
-// COMMISSION TIER DISPLAY (Platform-controlled)
+// COMMISSION TIER DISPLAY (Creator ladder, default Starter/Ambassador/Elite)
 // ============================================
-const COMMISSION_TIERS = {
-  starter: {
-    name: 'Starter',
-    icon: '🚀',
-    rate: '10%',
-    color: 'text-blue-400',
-    bg: 'bg-blue-900/30',
-    border: 'border-blue-500/30',
-    nextTier: 'ambassador',
-    nextAt: 50,
-  },
-  ambassador: {
-    name: 'Ambassador',
-    icon: '⭐',
-    rate: '15%',
-    color: 'text-yellow-400',
-    bg: 'bg-yellow-900/30',
-    border: 'border-yellow-500/30',
-    nextTier: 'elite',
-    nextAt: 100,
-  },
-  elite: {
-    name: 'Elite',
-    icon: '👑',
-    rate: '18%',
-    color: 'text-purple-400',
-    bg: 'bg-purple-900/30',
-    border: 'border-purple-500/30',
-    nextTier: null,
-    nextAt: null,
-  },
-} as const;
-
-type CommissionTierKey = keyof typeof COMMISSION_TIERS;
+function getCommissionDisplay(commissionTier: string, ladder: CommissionTierConfig[]) {
+  const index = Math.max(ladder.findIndex(t => t.tierName === commissionTier.toLowerCase()), 0);
+  const tier = ladder[index];
+  const display = getTierDisplay(tier, index);
+
+  return {
+    tier,
+    index,
+    name: display.name,
+    icon: display.icon,
+    color: display.textClass,
+    bg: display.bgClass,
+    border: `${display.borderClass}/30`,
+    nextTier: ladder[index + 1] || null,
+  };
+}
 
 interface MemberTierDisplayProps {
   username: string;
   rewardTier: string;           // Bronze/Silver/Gold/Platinum (creator tiers)
-  commissionTier: string;       // starter/ambassador/elite (platform tiers)
-  commissionRate: number;       // 0.10, 0.15, or 0.18
+  commissionTier: string;       // Tier key on the creator's ladder (starter/ambassador/elite by default)
+  commissionRate: number;       // 0.10, 0.15, or 0.18 on the default ladder
   paidReferralCount: number;    // For progress to next commission tier
   totalReferrals: number;       // Total referrals (for reward tier display)
+  ladder?: CommissionTierConfig[];  // Creator's commission ladder
+  metrics?: TierMetrics;            // Active referrals / referred revenue, if the ladder uses them
 }
 
 export function MemberTierDisplay({
@@ -69,23 +60,19 @@ export function MemberTierDisplay({
   commissionRate,
   paidReferralCount,
   totalReferrals,
+  ladder = COMMISSION_TIERS,
+  metrics,
 }: MemberTierDisplayProps) {
   // Normalize tier names (handle case sensitivity)
   const normalizedRewardTier = rewardTier.charAt(0).toUpperCase() + rewardTier.slice(1).toLowerCase();
   const rewardDisplay = REWARD_TIERS[normalizedRewardTier as keyof typeof REWARD_TIERS] || REWARD_TIERS.Unranked;
 
-  const commissionKey = commissionTier.toLowerCase() as CommissionTierKey;
-  const commissionDisplay = COMMISSION_TIERS[commissionKey] || COMMISSION_TIERS.starter;
+  const commissionDisplay = getCommissionDisplay(commissionTier, ladder);
 
   // Calculate progress to next commission tier
-  let progress = 0;
-  let referralsToNext = 0;
-  if (commissionDisplay.nextTier && commissionDisplay.nextAt) {
-    const currentMin = commissionKey === 'starter' ? 0 : (commissionKey === 'ambassador' ? 50 : 100);
-    const range = commissionDisplay.nextAt - currentMin;
-    progress = Math.min(((paidReferralCount - currentMin) / range) * 100, 100);
-    referralsToNext = Math.max(commissionDisplay.nextAt - paidReferralCount, 0);
-  }
+  const tierInfo = getNextTierInfo({ ...metrics, referrals: paidReferralCount }, ladder);
+  const progress = tierInfo.progressPercent;
+  const referralsToNext = tierInfo.referralsToNextTier;
 
   return (
     <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
@@ -129,7 +116,7 @@ export function MemberTierDisplay({
             </div>
 
             {/* Progress to next tier */}
-            {commissionDisplay.nextTier && referralsToNext > 0 && (
+            {commissionDisplay.nextTier && progress < 100 && (
               <div className="border-l border-gray-600 pl-3 ml-1">
                 <div className="w-20">
                   <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden mb-1">
@@ -139,7 +126,7 @@ export function MemberTierDisplay({
                     />
                   </div>
                   <p className="text-xs text-gray-400">
-                    {referralsToNext} to {COMMISSION_TIERS[commissionDisplay.nextTier as CommissionTierKey]?.name}
+                    {referralsToNext > 0 ? `${referralsToNext} to ` : 'Next: '}{commissionDisplay.nextTier.displayName}
                   </p>
                 </div>
               </div>
@@ -165,16 +152,17 @@ export function MemberTierBadges({
   rewardTier,
   commissionTier,
   commissionRate,
+  ladder = COMMISSION_TIERS,
 }: {
   rewardTier: string;
   commissionTier: string;
   commissionRate: number;
+  ladder?: CommissionTierConfig[];
 }) {
   const normalizedRewardTier = rewardTier.charAt(0).toUpperCase() + rewardTier.slice(1).toLowerCase();
   const rewardDisplay = REWARD_TIERS[normalizedRewardTier as keyof typeof REWARD_TIERS] || REWARD_TIERS.Unranked;
 
-  const commissionKey = commissionTier.toLowerCase() as CommissionTierKey;
-  const commissionDisplay = COMMISSION_TIERS[commissionKey] || COMMISSION_TIERS.starter;
+  const commissionDisplay = getCommissionDisplay(commissionTier, ladder);
 
   return (
     <div className="flex items-center gap-2">
@@ -183,8 +171,8 @@ export function MemberTierBadges({
         {rewardDisplay.icon} {normalizedRewardTier}
       </Badge>
 
-      {/* Commission tier badge (only show if above starter) */}
-      {commissionKey !== 'starter' && (
+      {/* Commission tier badge (only show above the entry tier) */}
+      {commissionDisplay.index > 0 && (
         <Badge className={`${commissionDisplay.bg} ${commissionDisplay.color}`}>
           {commissionDisplay.icon} {(commissionRate * 100).toFixed(0)}%
         </Badge>
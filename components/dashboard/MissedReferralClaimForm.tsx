@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Loader2, UserPlus } from 'lucide-react';
+import logger from '../../lib/logger';
+
+interface MissedReferralClaimFormProps {
+  memberId: string;
+}
+
+interface ReferralClaim {
+  id: string;
+  refereeHandle: string;
+  status: 'pending' | 'approved' | 'rejected';
+  rejectionReason: string | null;
+  backfilled: number;
+  createdAt: string;
+}
+
+const STATUS_STYLES: Record<ReferralClaim['status'], string> = {
+  pending: 'text-yellow-300',
+  approved: 'text-green-400',
+  rejected: 'text-red-400',
+};
+
+export function MissedReferralClaimForm({ memberId }: MissedReferralClaimFormProps) {
+  const [claims, setClaims] = useState<ReferralClaim[]>([]);
+  const [referee, setReferee] = useState('');
+  const [note, setNote] = useState('');
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/member/referral-claims?memberId=${memberId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load claims');
+      }
+
+      setClaims(data.claims);
+    } catch (err) {
+      logger.error('Failed to fetch referral claims:', err);
+    }
+  }, [memberId]);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch('/api/member/referral-claims', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ memberId, referee, note: note || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit claim');
+      }
+
+      setSuccess(`Claim for ${data.claim.refereeHandle} sent for review`);
+      setReferee('');
+      setNote('');
+      await fetchClaims();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit claim');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A] p-4">
+      <div className="space-y-3">
+        <button onClick={() => setOpen(!open)} className="flex items-center gap-2 w-full text-left">
+          <UserPlus className="h-4 w-4 text-purple-400" />
+          <h3 className="font-semibold text-white text-sm flex-1">Missing a referral?</h3>
+          <span className="text-xs text-gray-500">{open ? 'Hide' : 'Claim it'}</span>
+        </button>
+
+        {open && (
+          <>
+            <p className="text-xs text-gray-400">
+              If a friend joined through you but doesn&apos;t show up in your referrals, tell us their
+              username. The community owner reviews the claim and credits you if it checks out.
+            </p>
+            <Input
+              value={referee}
+              onChange={(e) => setReferee(e.target.value)}
+              placeholder="Their Whop username"
+              className="bg-[#0F0F0F] border-[#333] text-white"
+            />
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="How did you refer them? (optional)"
+              maxLength={500}
+              className="bg-[#0F0F0F] border-[#333] text-white"
+            />
+            <Button
+              onClick={handleSubmit}
+              disabled={submitting || !referee.trim()}
+              size="sm"
+              className="bg-purple-600 hover:bg-purple-700 gap-2"
+            >
+              {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              Submit Claim
+            </Button>
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {success && <p className="text-xs text-green-400">{success}</p>}
+          </>
+        )}
+
+        {claims.length > 0 && (
+          <div className="space-y-1">
+            {claims.map(claim => (
+              <div key={claim.id} className="flex items-center justify-between text-xs">
+                <span className="text-gray-300">{claim.refereeHandle}</span>
+                <span className={STATUS_STYLES[claim.status]}>
+                  {claim.status === 'approved' && claim.backfilled > 0
+                    ? `approved · ${claim.backfilled} past payments credited`
+                    : claim.status === 'rejected' && claim.rejectionReason
+                      ? `rejected · ${claim.rejectionReason}`
+                      : claim.status}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
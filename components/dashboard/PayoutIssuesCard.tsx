@@ -0,0 +1,53 @@
+'use client';
+
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { formatCurrency } from '../../lib/utils/commission';
+
+interface PayoutIssue {
+  id: string;
+  amount: number;
+  currency: string;
+  commissionCount: number;
+  actionNeeded: boolean; // The member has to fix something on Whop
+  message: string; // describeMemberPayoutIssue()
+  nextRetryAt: Date | string | null;
+}
+
+interface PayoutIssuesCardProps {
+  issues: PayoutIssue[]; // getMemberPayoutIssues() - computed on the server
+}
+
+export function PayoutIssuesCard({ issues }: PayoutIssuesCardProps) {
+  const actionNeeded = issues.some(issue => issue.actionNeeded);
+
+  return (
+    <Card className={`bg-[#1A1A1A] ${actionNeeded ? 'border-red-500/50' : 'border-[#2A2A2A]'}`}>
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <AlertTriangle className={`w-5 h-5 ${actionNeeded ? 'text-red-400' : 'text-yellow-400'}`} />
+          {actionNeeded ? 'Action Needed to Get Paid' : 'Payout Delayed'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {issues.map(issue => (
+          <div key={issue.id} className="p-3 rounded-lg bg-gray-800/50 space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-white font-semibold">{formatCurrency(issue.amount, issue.currency)}</span>
+              <span className="text-gray-500">
+                {issue.commissionCount} commission{issue.commissionCount === 1 ? '' : 's'}
+              </span>
+            </div>
+            <p className={`text-sm ${issue.actionNeeded ? 'text-red-300' : 'text-gray-400'}`}>{issue.message}</p>
+            {issue.nextRetryAt && (
+              <p className="text-xs text-gray-500 flex items-center gap-1">
+                <RefreshCw className="w-3 h-3" />
+                Next attempt {new Date(issue.nextRetryAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
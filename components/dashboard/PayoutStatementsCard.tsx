@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { Receipt, ChevronDown, ChevronUp } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { formatCurrency } from '../../lib/utils/commission';
+
+interface PayoutStatementLine {
+  id: string;
+  saleAmount: number;
+  paymentType: string; // initial | recurring
+  earnedAt: Date | string;
+  amount: number;
+  balanceOffset: number;
+}
+
+interface PayoutStatement {
+  id: string;
+  paidAt: Date | string | null;
+  currency: string;
+  amount: number;
+  balanceOffset: number; // Reporting currency withheld for refunds on earlier payouts
+  lines: PayoutStatementLine[];
+}
+
+interface PayoutStatementsCardProps {
+  statements: PayoutStatement[]; // getMemberPayoutStatements() - computed on the server
+}
+
+export function PayoutStatementsCard({ statements }: PayoutStatementsCardProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-green-400" />
+          Payout Statements
+        </CardTitle>
+        <p className="text-gray-400 text-sm">Every payout and the commissions it covered</p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {statements.map(statement => (
+          <div key={statement.id} className="rounded-lg bg-gray-800/50">
+            <button
+              onClick={() => setOpenId(openId === statement.id ? null : statement.id)}
+              className="w-full flex items-center justify-between p-3 text-sm"
+            >
+              <span className="text-gray-300">
+                {statement.paidAt ? new Date(statement.paidAt).toLocaleDateString() : '-'}
+                <span className="text-gray-500">
+                  {' · '}{statement.lines.length} commission{statement.lines.length === 1 ? '' : 's'}
+                </span>
+              </span>
+              <span className="flex items-center gap-2 text-green-400 font-semibold">
+                {formatCurrency(statement.amount, statement.currency)}
+                {openId === statement.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </span>
+            </button>
+
+            {openId === statement.id && (
+              <div className="px-3 pb-3 space-y-1 text-xs">
+                {statement.lines.map(line => (
+                  <div key={line.id} className="flex items-center justify-between">
+                    <span className="text-gray-400">
+                      {new Date(line.earnedAt).toLocaleDateString()} · {line.paymentType === 'initial' ? 'New referral' : 'Renewal'} ({formatCurrency(line.saleAmount, statement.currency)} sale)
+                    </span>
+                    <span className="text-gray-300">{formatCurrency(line.amount, statement.currency)}</span>
+                  </div>
+                ))}
+                {statement.balanceOffset > 0 && (
+                  <div className="flex items-center justify-between text-red-400">
+                    <span>Withheld for refunds on earlier payouts</span>
+                    <span>-{formatCurrency(statement.balanceOffset)}</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
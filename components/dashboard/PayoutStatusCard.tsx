@@ -0,0 +1,77 @@
+'use client';
+
+import { Clock } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { formatCurrency } from '../../lib/utils/commission';
+
+interface UnpaidCommission {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string; // pending | cleared | held | retrying | action_needed
+  clearsAt: Date | string | null;
+  daysRemaining: number;
+}
+
+interface PayoutStatusCardProps {
+  holdDescription: string; // describeCommissionHold() - computed on the server
+  scheduleDescription: string; // describePayoutSchedule() - computed on the server
+  commissions: UnpaidCommission[];
+  maxItems?: number;
+}
+
+function describeStatus(commission: UnpaidCommission): string {
+  if (commission.status === 'held') return 'Under review';
+  if (commission.status === 'action_needed') return 'Action needed - enable payouts on Whop';
+  if (commission.status === 'retrying') return 'Payout being retried';
+  if (commission.status === 'pending' && commission.clearsAt) {
+    const date = new Date(commission.clearsAt).toLocaleDateString();
+    return `Clears in ${commission.daysRemaining} day${commission.daysRemaining === 1 ? '' : 's'} (${date})`;
+  }
+  return 'Cleared - in the next payout run';
+}
+
+export function PayoutStatusCard({ holdDescription, scheduleDescription, commissions, maxItems = 5 }: PayoutStatusCardProps) {
+  const stages = [
+    { label: 'Clearing', value: commissions.filter(c => c.status === 'pending').length, color: 'text-yellow-400' },
+    { label: 'Ready for payout', value: commissions.filter(c => c.status === 'cleared').length, color: 'text-green-400' },
+    { label: 'Under review', value: commissions.filter(c => c.status === 'held').length, color: 'text-gray-300' },
+  ];
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Clock className="w-5 h-5 text-yellow-400" />
+          Payout Status
+        </CardTitle>
+        <p className="text-gray-400 text-sm">{holdDescription}</p>
+        <p className="text-gray-400 text-sm">{scheduleDescription}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3 text-center">
+          {stages.map(stage => (
+            <div key={stage.label} className="p-3 rounded-lg bg-gray-800/50">
+              <p className="text-xs text-gray-400">{stage.label}</p>
+              <p className={`text-2xl font-bold ${stage.color}`}>{stage.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {commissions.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">Next up</p>
+            {commissions.slice(0, maxItems).map(commission => (
+              <div key={commission.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-300">{formatCurrency(commission.amount, commission.currency)}</span>
+                <span className="text-gray-500">{describeStatus(commission)}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-sm text-gray-500">Nothing waiting - all your commissions have been paid out</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
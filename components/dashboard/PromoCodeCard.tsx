@@ -0,0 +1,116 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Check, Copy, Loader2, Tag } from 'lucide-react';
+import logger from '../../lib/logger';
+
+interface PromoCodeCardProps {
+  memberId: string;
+}
+
+export function PromoCodeCard({ memberId }: PromoCodeCardProps) {
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [percentOff, setPercentOff] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [issuing, setIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchPromoCode = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/member/promo-code?memberId=${memberId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load promo code');
+      }
+
+      setPromoCode(data.promoCode);
+      setPercentOff(data.percentOff);
+    } catch (err) {
+      logger.error('Failed to fetch promo code:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [memberId]);
+
+  useEffect(() => {
+    fetchPromoCode();
+  }, [fetchPromoCode]);
+
+  const handleIssue = async () => {
+    setIssuing(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/member/promo-code', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ memberId }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create promo code');
+      }
+
+      setPromoCode(data.promoCode);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create promo code');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!promoCode) return;
+
+    try {
+      await navigator.clipboard.writeText(promoCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      logger.error('Failed to copy:', err);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A] p-4">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Tag className="h-4 w-4 text-purple-400" />
+          <h3 className="font-semibold text-white text-sm">Your Promo Code</h3>
+        </div>
+        <p className="text-xs text-gray-400">
+          For referrals without a link (voice chats, word of mouth). Friends enter it at checkout
+          {percentOff ? ` for ${percentOff}% off their first month` : ''} and you get the credit.
+        </p>
+
+        {promoCode ? (
+          <div className="bg-[#0F0F0F] border border-[#333] rounded-lg p-3 flex items-center gap-2">
+            <code className="text-white font-mono text-lg flex-1 tracking-wider">{promoCode}</code>
+            <Button onClick={handleCopy} size="sm" className="bg-purple-600 hover:bg-purple-700 shrink-0 h-8 px-3">
+              {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+            </Button>
+          </div>
+        ) : (
+          <Button
+            onClick={handleIssue}
+            disabled={issuing}
+            size="sm"
+            className="bg-purple-600 hover:bg-purple-700 gap-2"
+          >
+            {issuing && <Loader2 className="h-4 w-4 animate-spin" />}
+            Get My Promo Code
+          </Button>
+        )}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { UserCheck, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import logger from '../../lib/logger';
+
+interface ReferralClaimQueueProps {
+  creatorId: string;
+}
+
+interface ClaimEvidence {
+  signedUpAt: string;
+  daysSinceSignup: number;
+  clicksBeforeSignup: number;
+  lastClickAt: string | null;
+  minutesFromLastClick: number | null;
+  signupJoinedToClaimant: boolean;
+  alreadyAttributed: boolean;
+  currentReferrer: { referralCode: string; username: string } | null;
+  memberOrigin: string;
+}
+
+interface Claim {
+  id: string;
+  status: 'pending' | 'approved' | 'rejected';
+  claimant: { id: string; username: string; referralCode: string };
+  referee: { id: string; username: string; whopUsername: string | null };
+  note: string | null;
+  rejectionReason: string | null;
+  backfilled: number;
+  createdAt: string;
+  evidence: ClaimEvidence | null;
+}
+
+function formatGap(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)} h`;
+  return `${Math.round(minutes / (60 * 24))} days`;
+}
+
+export function ReferralClaimQueue({ creatorId }: ReferralClaimQueueProps) {
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/creator/referral-claims?creatorId=${creatorId}`);
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load referral claims');
+
+      setClaims(data.data.claims);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load referral claims');
+      logger.error('Failed to fetch referral claims:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [creatorId]);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const handleReview = async (claim: Claim, action: 'approve' | 'reject') => {
+    setReviewingId(claim.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch('/api/creator/referral-claims', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ creatorId, claimId: claim.id, action, reason: reasons[claim.id] || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) throw new Error(data.error || 'Failed to review claim');
+
+      if (action === 'approve') {
+        setSuccess(
+          `${claim.referee.username} credited to ${claim.claimant.username} - past payments are backfilled in the background`
+        );
+      } else {
+        setSuccess(`Claim by ${claim.claimant.username} rejected`);
+      }
+      await fetchClaims();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review claim');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card className="bg-[#1A1A1A] border-[#2A2A2A] p-6">
+        <div className="flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-purple-500" />
+        </div>
+      </Card>
+    );
+  }
+
+  const pendingCount = claims.filter(claim => claim.status === 'pending').length;
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <UserCheck className="w-5 h-5 text-purple-400" />
+          Missed Referral Claims
+          {pendingCount > 0 && (
+            <span className="ml-2 text-xs bg-yellow-500/20 text-yellow-300 rounded-full px-2 py-0.5">
+              {pendingCount} to review
+            </span>
+          )}
+        </CardTitle>
+        <p className="text-gray-400 text-sm">
+          Members who say a signup came through them. Approving credits them and pays commission on past payments.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-sm text-red-400 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" /> {error}
+          </p>
+        )}
+        {success && (
+          <p className="text-sm text-green-400 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" /> {success}
+          </p>
+        )}
+
+        {claims.length === 0 ? (
+          <p className="text-center text-sm text-gray-500">No referral claims</p>
+        ) : (
+          <div className="space-y-2">
+            {claims.map(claim => (
+              <div key={claim.id} className="p-3 rounded-lg bg-gray-800/50 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white">
+                    {claim.claimant.username} <span className="text-gray-500">claims</span> {claim.referee.username}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {claim.status === 'pending' ? 'Needs review' : claim.status === 'approved' ? 'Approved' : 'Rejected'}
+                    {' · '}
+                    {new Date(claim.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+
+                {claim.note && <p className="text-xs text-gray-400 italic">&ldquo;{claim.note}&rdquo;</p>}
+
+                {claim.evidence && (
+                  <ul className="text-xs text-gray-400 space-y-0.5">
+                    <li>
+                      Joined {new Date(claim.evidence.signedUpAt).toLocaleString()} ({claim.evidence.daysSinceSignup} days ago)
+                    </li>
+                    <li>
+                      {claim.evidence.clicksBeforeSignup > 0
+                        ? `${claim.evidence.clicksBeforeSignup} clicks on ${claim.claimant.username}'s links before signup` +
+                          (claim.evidence.minutesFromLastClick !== null ? `, last one ${formatGap(claim.evidence.minutesFromLastClick)} before` : '')
+                        : `No clicks on ${claim.claimant.username}'s links before signup`}
+                    </li>
+                    {claim.evidence.signupJoinedToClaimant && (
+                      <li className="text-green-400">Signup was matched to one of the claimant&apos;s clicks</li>
+                    )}
+                    <li className={claim.evidence.alreadyAttributed ? 'text-yellow-300' : undefined}>
+                      {claim.evidence.currentReferrer
+                        ? `Currently credited to ${claim.evidence.currentReferrer.username} (${claim.evidence.memberOrigin}) - approving moves it`
+                        : 'Not attributed to anyone yet'}
+                    </li>
+                  </ul>
+                )}
+
+                {claim.status === 'pending' ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                      size="sm"
+                      disabled={reviewingId === claim.id}
+                      onClick={() => handleReview(claim, 'approve')}
+                      className="bg-purple-600 hover:bg-purple-700"
+                    >
+                      {reviewingId === claim.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      Approve
+                    </Button>
+                    <Input
+                      value={reasons[claim.id] ?? ''}
+                      onChange={(e) => setReasons({ ...reasons, [claim.id]: e.target.value })}
+                      placeholder="Reason (optional)"
+                      className="h-8 w-48 bg-[#0F0F0F] border-[#333] text-white text-xs"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={reviewingId === claim.id}
+                      onClick={() => handleReview(claim, 'reject')}
+                      className="border-gray-700 hover:bg-gray-800"
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                ) : claim.status === 'approved' ? (
+                  <p className="text-xs text-gray-500">{claim.backfilled} past payments backfilled</p>
+                ) : claim.rejectionReason ? (
+                  <p className="text-xs text-gray-500">Reason: {claim.rejectionReason}</p>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
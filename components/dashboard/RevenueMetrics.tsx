@@ -14,6 +14,8 @@ interface RevenueMetricsProps {
     totalMembers: number;
     totalActiveClicks: number;
     convertedActiveClicks: number;
+    reportingCurrency?: string; // Currency the totals are converted to
+    revenueByCurrency?: Array<{ currency: string; revenue: number }>;
   };
 }
 
@@ -23,6 +25,11 @@ export function RevenueMetrics({ revenueBreakdown }: RevenueMetricsProps) {
     ? (revenueBreakdown.convertedActiveClicks / revenueBreakdown.totalActiveClicks) * 100
     : 0;
 
+  // Sales in more than one currency: show the original amounts under the converted total
+  const currencyBreakdown = revenueBreakdown.revenueByCurrency && revenueBreakdown.revenueByCurrency.length > 1
+    ? revenueBreakdown.revenueByCurrency.map(r => formatCurrency(r.revenue, r.currency)).join(' + ')
+    : null;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-3">
@@ -34,8 +41,8 @@ export function RevenueMetrics({ revenueBreakdown }: RevenueMetricsProps) {
         <MetricCard
           icon={<DollarSign className="w-6 h-6" />}
           title="Total Revenue"
-          value={formatCurrency(revenueBreakdown.totalRevenue)}
-          subtitle="Since downloading this app"
+          value={formatCurrency(revenueBreakdown.totalRevenue, revenueBreakdown.reportingCurrency)}
+          subtitle={currencyBreakdown ?? 'Since downloading this app'}
           iconColor="text-purple-400"
           iconBg="bg-purple-500/20"
           bgGradient="from-purple-600/20 via-purple-900/30 to-transparent"
@@ -47,8 +54,8 @@ export function RevenueMetrics({ revenueBreakdown }: RevenueMetricsProps) {
         <MetricCard
           icon={<TrendingUp className="w-6 h-6" />}
           title="Monthly Revenue"
-          value={formatCurrency(revenueBreakdown.totalMonthlyRevenue)}
-          subtitle={`+${formatCurrency(revenueBreakdown.referralContribution)} from referrals`}
+          value={formatCurrency(revenueBreakdown.totalMonthlyRevenue, revenueBreakdown.reportingCurrency)}
+          subtitle={`+${formatCurrency(revenueBreakdown.referralContribution, revenueBreakdown.reportingCurrency)} from referrals`}
           iconColor="text-green-400"
           iconBg="bg-green-500/20"
           bgGradient="from-green-600/20 via-green-900/30 to-transparent"
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Archive, ArchiveRestore, Check, Copy, Link2, Loader2, Plus } from 'lucide-react';
+import logger from '../../lib/logger';
+import type { SubLinkStats } from '../../lib/analytics/sub-links';
+
+interface SubLinkManagerProps {
+  memberId: string;
+}
+
+interface SubLinkRow {
+  id: string;
+  slug: string;
+  label: string;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  archivedAt: string | null;
+  url: string;
+  stats: SubLinkStats;
+}
+
+interface SubLinksResponse {
+  mainLink: { url: string; stats: SubLinkStats };
+  subLinks: SubLinkRow[];
+  limits: { maxActive: number };
+}
+
+export function SubLinkManager({ memberId }: SubLinkManagerProps) {
+  const [data, setData] = useState<SubLinksResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [form, setForm] = useState({ label: '', slug: '', utmMedium: '', utmCampaign: '' });
+
+  const fetchSubLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/referral/sub-links?memberId=${memberId}&includeArchived=${showArchived}`);
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to load links');
+      }
+
+      setData(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load links');
+      logger.error('Failed to fetch sub-links:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [memberId, showArchived]);
+
+  useEffect(() => {
+    fetchSubLinks();
+  }, [fetchSubLinks]);
+
+  const handleCreate = async () => {
+    if (!form.label.trim()) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/referral/sub-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          memberId,
+          label: form.label,
+          slug: form.slug || undefined,
+          utmMedium: form.utmMedium || undefined,
+          utmCampaign: form.utmCampaign || undefined,
+        }),
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to create link');
+      }
+
+      setForm({ label: '', slug: '', utmMedium: '', utmCampaign: '' });
+      await fetchSubLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create link');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async (subLinkId: string, archived: boolean) => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/referral/sub-links', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ memberId, subLinkId, archived }),
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        throw new Error(json.error || 'Failed to update link');
+      }
+
+      await fetchSubLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update link');
+    }
+  };
+
+  const handleCopy = async (id: string, url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      logger.error('Failed to copy:', err);
+    }
+  };
+
+  const renderStats = (stats: SubLinkStats) => (
+    <span className="text-xs text-gray-500 whitespace-nowrap">
+      {stats.clicks} clicks · {stats.signups} signups ({stats.signupRate}%) · {stats.paid} paid ({stats.paidRate}%)
+    </span>
+  );
+
+  return (
+    <Card className="bg-[#1A1A1A] border-[#2A2A2A]">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Link2 className="w-5 h-5 text-purple-400" />
+          Tracking Links
+        </CardTitle>
+        <p className="text-gray-400 text-sm">
+          One link per channel so you can see which one converts. All of them credit you the same way.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Create form */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <Input
+            placeholder="Label (e.g. YouTube)"
+            value={form.label}
+            maxLength={48}
+            onChange={e => setForm({ ...form, label: e.target.value })}
+          />
+          <Input
+            placeholder="Slug (optional)"
+            value={form.slug}
+            maxLength={32}
+            onChange={e => setForm({ ...form, slug: e.target.value })}
+          />
+          <Input
+            placeholder="utm_medium (optional)"
+            value={form.utmMedium}
+            maxLength={64}
+            onChange={e => setForm({ ...form, utmMedium: e.target.value })}
+          />
+          <Input
+            placeholder="utm_campaign (optional)"
+            value={form.utmCampaign}
+            maxLength={64}
+            onChange={e => setForm({ ...form, utmCampaign: e.target.value })}
+          />
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={saving || !form.label.trim()}
+          size="sm"
+          className="bg-purple-600 hover:bg-purple-700 gap-2"
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          Create Link
+        </Button>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {/* Comparison list */}
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-purple-500" />
+          </div>
+        ) : data && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-gray-800/50">
+              <div className="min-w-0">
+                <p className="text-sm text-white">Main link</p>
+                <code className="text-xs text-gray-400 truncate block">{data.mainLink.url}</code>
+              </div>
+              {renderStats(data.mainLink.stats)}
+            </div>
+
+            {data.subLinks.map(subLink => (
+              <div
+                key={subLink.id}
+                className={`flex items-center justify-between gap-3 p-3 rounded-lg bg-gray-800/50 ${subLink.archivedAt ? 'opacity-60' : ''}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-white">
+                    {subLink.label}
+                    {subLink.archivedAt && <span className="ml-2 text-xs text-gray-500">archived</span>}
+                  </p>
+                  <code className="text-xs text-gray-400 truncate block">{subLink.url}</code>
+                  {renderStats(subLink.stats)}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" variant="ghost" onClick={() => handleCopy(subLink.id, subLink.url)}>
+                    {copiedId === subLink.id ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleArchive(subLink.id, !subLink.archivedAt)}
+                    title={subLink.archivedAt ? 'Restore' : 'Archive'}
+                  >
+                    {subLink.archivedAt ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {data.subLinks.length === 0 && (
+              <p className="text-center text-sm text-gray-500">No tracking links yet</p>
+            )}
+
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="text-xs text-gray-400 hover:text-white"
+            >
+              {showArchived ? 'Hide archived links' : 'Show archived links'}
+            </button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,28 +3,52 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ArrowUp, TrendingUp, Zap } from 'lucide-react';
+import { formatCurrency } from '@/lib/constants/metrics';
 import {
-  TIER_DISPLAY,
   COMMISSION_TIERS,
   formatRateAsPercent,
   getNextTierInfo,
-  type CommissionTierName,
+  getTierDisplay,
+  describeTierRequirements,
+  meetsTierRequirements,
+  type CommissionTierConfig,
+  type TierMetrics,
 } from '@/lib/utils/tiered-commission';
 
 interface TierProgressCardProps {
-  currentTier: CommissionTierName;
+  currentTier: string;
   currentRate: number;
   totalReferrals: number;
+  ladder?: CommissionTierConfig[];  // Creator's ladder (defaults to Starter/Ambassador/Elite)
+  metrics?: TierMetrics;            // Active referrals / referred revenue, if the ladder uses them
 }
 
 export function TierProgressCard({
   currentTier,
   currentRate,
   totalReferrals,
+  ladder = COMMISSION_TIERS,
+  metrics,
 }: TierProgressCardProps) {
-  const tierInfo = getNextTierInfo(totalReferrals);
-  const currentDisplay = TIER_DISPLAY[currentTier];
-  const nextDisplay = tierInfo.nextTier ? TIER_DISPLAY[tierInfo.nextTier.tierName] : null;
+  const memberMetrics: TierMetrics = { ...metrics, referrals: totalReferrals };
+  const tierInfo = getNextTierInfo(memberMetrics, ladder);
+  const currentIndex = Math.max(ladder.findIndex(t => t.tierName === currentTier), 0);
+  const currentDisplay = getTierDisplay(ladder[currentIndex], currentIndex);
+  const nextDisplay = tierInfo.nextTier
+    ? getTierDisplay(tierInfo.nextTier, ladder.indexOf(tierInfo.nextTier))
+    : null;
+
+  // What's still needed for the next tier (e.g. "12 more referrals, $300.00 more revenue")
+  const remainingParts: string[] = [];
+  if (tierInfo.remaining.referrals > 0) {
+    remainingParts.push(`${tierInfo.remaining.referrals} more referrals`);
+  }
+  if (tierInfo.remaining.activeReferrals) {
+    remainingParts.push(`${tierInfo.remaining.activeReferrals} more active`);
+  }
+  if (tierInfo.remaining.referredRevenue) {
+    remainingParts.push(`${formatCurrency(tierInfo.remaining.referredRevenue)} more revenue`);
+  }
 
   const isMaxTier = !tierInfo.nextTier;
 
@@ -95,7 +119,7 @@ export function TierProgressCard({
               </span>
               <span className="text-white text-sm font-medium flex items-center gap-1">
                 <ArrowUp className="w-4 h-4 text-green-400" />
-                {tierInfo.referralsToNextTier} more referrals to unlock
+                {remainingParts.join(', ')} to unlock
               </span>
             </div>
           </div>
@@ -117,10 +141,10 @@ export function TierProgressCard({
         <div className="pt-4 border-t border-gray-800">
           <p className="text-gray-400 text-xs mb-3">Commission Tiers (based on paid referrals)</p>
           <div className="grid grid-cols-3 gap-3">
-            {COMMISSION_TIERS.map((tier) => {
-              const display = TIER_DISPLAY[tier.tierName];
+            {ladder.map((tier, index) => {
+              const display = getTierDisplay(tier, index);
               const isCurrentTier = tier.tierName === currentTier;
-              const isUnlocked = totalReferrals >= tier.minReferrals;
+              const isUnlocked = meetsTierRequirements(memberMetrics, tier.requirements);
 
               return (
                 <div
@@ -140,7 +164,7 @@ export function TierProgressCard({
                   <div className="font-bold">{display.name}</div>
                   <div className="text-lg font-semibold">{formatRateAsPercent(tier.memberRate)}</div>
                   <div className="opacity-70 text-xs">
-                    {tier.minReferrals === 0 ? 'Start here' : `${tier.minReferrals}+ paid refs`}
+                    {describeTierRequirements(tier)}
                   </div>
                 </div>
               );
@@ -160,13 +184,16 @@ export function CommissionTierBadge({
   rate,
   showRate = true,
   size = 'md',
+  ladder = COMMISSION_TIERS,
 }: {
-  tier: CommissionTierName;
+  tier: string;
   rate: number;
   showRate?: boolean;
   size?: 'sm' | 'md' | 'lg';
+  ladder?: CommissionTierConfig[];
 }) {
-  const display = TIER_DISPLAY[tier];
+  const index = Math.max(ladder.findIndex(t => t.tierName === tier), 0);
+  const display = getTierDisplay(ladder[index], index);
 
   const sizeClasses = {
     sm: 'text-xs px-2 py-0.5',
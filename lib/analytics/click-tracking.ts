@@ -0,0 +1,259 @@
+/**
+ * First-Party Click Tracking
+ *
+ * Whop still does the actual attribution (?a= on the redirect, affiliate_username
+ * on the webhook). Alongside it, /r/[code] records a lightweight AttributionClick
+ * so we get click counts, per-channel data and a click → signup → paid funnel.
+ *
+ * Joins:
+ * - Signup: membership.went_valid marks the referrer's most recent open click
+ *   (Whop doesn't pass the click back, so this is a best-effort join)
+ * - Paid: the first commission on that membership marks the click converted
+ *
+ * Privacy: IPs are stored hashed (lib/utils/ip-hash.ts), never raw.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { extractRealIP, hashIP } from '../utils/ip-hash';
+import { generateFingerprint } from '../utils/fingerprint';
+import { getAttributionExpiryDate, SUB_LINK_PARAM } from '../constants/attribution';
+
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+const MAX_FIELD_LENGTH = 255;
+
+export type DeviceClass = 'desktop' | 'mobile' | 'tablet' | 'bot';
+
+export interface ClickSource {
+  referer: string | null;
+  channel: string;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  utmTerm: string | null;
+  utmContent: string | null;
+}
+
+export interface ClickFunnel {
+  clicks: number;
+  signups: number;
+  paid: number;
+  signupRate: number;   // signups / clicks (%)
+  paidRate: number;     // paid / signups (%)
+  byChannel: Array<{ channel: string; clicks: number; signups: number; paid: number }>;
+}
+
+// ========================================
+// CLICK CONTEXT
+// ========================================
+
+/**
+ * Classify a user agent (link-preview crawlers count as bots)
+ */
+export function classifyDevice(userAgent: string | null): DeviceClass {
+  if (!userAgent) return 'bot';
+
+  const ua = userAgent.toLowerCase();
+  if (/bot|crawler|spider|preview|facebookexternalhit|slurp|curl|wget|python-requests|headless/.test(ua)) return 'bot';
+  if (/ipad|tablet|kindle|silk|(android(?!.*mobile))/.test(ua)) return 'tablet';
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/.test(ua)) return 'mobile';
+  return 'desktop';
+}
+
+function clip(value: string | null): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, MAX_FIELD_LENGTH) : null;
+}
+
+/**
+ * Read UTM params and the referer, and derive a channel
+ * Channel = utm_source, else the referring host (www. stripped), else "direct"
+ */
+export function parseClickSource(url: URL, referer: string | null): ClickSource {
+  const [utmSource, utmMedium, utmCampaign, utmTerm, utmContent] = UTM_PARAMS.map(param =>
+    clip(url.searchParams.get(param))
+  );
+
+  let refererHost: string | null = null;
+  if (referer) {
+    try {
+      refererHost = new URL(referer).hostname.replace(/^www\./, '');
+    } catch {
+      refererHost = null;
+    }
+  }
+
+  return {
+    referer: clip(referer),
+    channel: (utmSource?.toLowerCase() || refererHost || 'direct').slice(0, 64),
+    utmSource,
+    utmMedium,
+    utmCampaign,
+    utmTerm,
+    utmContent,
+  };
+}
+
+// ========================================
+// RECORDING & JOINS
+// ========================================
+
+/**
+ * Record a referral link click (and the sub-link it came through, if any)
+ * Call without awaiting from the redirect route - tracking must never slow the redirect.
+ */
+export async function recordReferralClick(
+  request: Request,
+  member: { id: string; referralCode: string }
+): Promise<void> {
+  const url = new URL(request.url);
+  const userAgent = request.headers.get('user-agent');
+  const now = new Date();
+
+  // Sub-link: /r/{code}?l={slug} - its UTM tags fill in any the shared URL lost
+  const slug = url.searchParams.get(SUB_LINK_PARAM);
+  const subLink = slug
+    ? await prisma.referralSubLink.findUnique({
+        where: { memberId_slug: { memberId: member.id, slug: slug.toLowerCase() } },
+        select: { id: true, utmSource: true, utmMedium: true, utmCampaign: true },
+      })
+    : null;
+
+  if (subLink) {
+    const tags = { utm_source: subLink.utmSource, utm_medium: subLink.utmMedium, utm_campaign: subLink.utmCampaign };
+    for (const [param, value] of Object.entries(tags)) {
+      if (value && !url.searchParams.get(param)) url.searchParams.set(param, value);
+    }
+  }
+
+  const source = parseClickSource(url, request.headers.get('referer'));
+
+  await prisma.attributionClick.create({
+    data: {
+      referralCode: member.referralCode,
+      memberId: member.id,
+      fingerprint: generateFingerprint(request),
+      ipHash: hashIP(extractRealIP(request)),
+      userAgent: clip(userAgent),
+      deviceClass: classifyDevice(userAgent),
+      ...source,
+      subLinkId: subLink?.id ?? null,
+      expiresAt: getAttributionExpiryDate(now),
+    },
+  });
+}
+
+/**
+ * Join a new membership back to the referrer's most recent open click
+ * Keyed on the referrer's member ID - clicks on a since-retired code still count
+ *
+ * @returns The joined click ID, or null if no click was found
+ */
+export async function attachSignupToClick(
+  db: Prisma.TransactionClient,
+  { memberId, membershipId, at = new Date() }: { memberId: string; membershipId: string; at?: Date }
+): Promise<string | null> {
+  const click = await db.attributionClick.findFirst({
+    where: {
+      memberId,
+      signupMembershipId: null,
+      deviceClass: { not: 'bot' },
+      createdAt: { lte: at },
+      expiresAt: { gte: at },
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true },
+  });
+
+  if (!click) return null;
+
+  await db.attributionClick.update({
+    where: { id: click.id },
+    data: { signupMembershipId: membershipId, signedUpAt: at },
+  });
+
+  return click.id;
+}
+
+/**
+ * Mark the click behind a membership as converted on its first paid commission
+ */
+export async function markClickConverted(
+  db: Prisma.TransactionClient,
+  { membershipId, commissionId, saleAmount, at = new Date() }: {
+    membershipId: string;
+    commissionId: string;
+    saleAmount: number;
+    at?: Date;
+  }
+): Promise<void> {
+  const click = await db.attributionClick.findFirst({
+    where: { signupMembershipId: membershipId, converted: false },
+    select: { id: true },
+  });
+
+  if (!click) return;
+
+  await db.attributionClick.update({
+    where: { id: click.id },
+    data: { converted: true, convertedAt: at, conversionValue: saleAmount, commissionId },
+  });
+}
+
+// ========================================
+// FUNNEL
+// ========================================
+
+function toPercent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+/**
+ * Clicks → signups → paid for a member or a whole creator (bots excluded)
+ */
+export async function getClickFunnel(
+  scope: { memberId: string } | { creatorId: string },
+  since?: Date
+): Promise<ClickFunnel> {
+  const where: Prisma.AttributionClickWhereInput = {
+    ...('memberId' in scope ? { memberId: scope.memberId } : { member: { creatorId: scope.creatorId } }),
+    deviceClass: { not: 'bot' },
+    ...(since && { createdAt: { gte: since } }),
+  };
+
+  try {
+    const [clicks, signups, paid] = await Promise.all([
+      prisma.attributionClick.groupBy({ by: ['channel'], where, _count: { _all: true } }),
+      prisma.attributionClick.groupBy({ by: ['channel'], where: { ...where, signupMembershipId: { not: null } }, _count: { _all: true } }),
+      prisma.attributionClick.groupBy({ by: ['channel'], where: { ...where, converted: true }, _count: { _all: true } }),
+    ]);
+
+    const countFor = (rows: typeof clicks, channel: string | null) =>
+      rows.find(row => row.channel === channel)?._count._all ?? 0;
+
+    const byChannel = clicks
+      .map(row => ({
+        channel: row.channel ?? 'direct',
+        clicks: row._count._all,
+        signups: countFor(signups, row.channel),
+        paid: countFor(paid, row.channel),
+      }))
+      .sort((a, b) => b.clicks - a.clicks);
+
+    const totals = byChannel.reduce(
+      (sum, row) => ({ clicks: sum.clicks + row.clicks, signups: sum.signups + row.signups, paid: sum.paid + row.paid }),
+      { clicks: 0, signups: 0, paid: 0 }
+    );
+
+    return {
+      ...totals,
+      signupRate: toPercent(totals.signups, totals.clicks),
+      paidRate: toPercent(totals.paid, totals.signups),
+      byChannel,
+    };
+  } catch (error) {
+    logger.error('❌ Error fetching click funnel:', error);
+    return { clicks: 0, signups: 0, paid: 0, signupRate: 0, paidRate: 0, byChannel: [] };
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Referral Sub-Links
+ *
+ * Named per-channel links for power affiliates (YouTube, TikTok, newsletter...).
+ * Each sub-link is the member's normal vanity link plus ?l={slug} and UTM tags,
+ * so it still resolves through /r/[code] and the Whop ?a= redirect - attribution
+ * is unchanged, only the click is tagged with the sub-link.
+ */
+
+import type { ReferralSubLink } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { SUB_LINK_LIMITS, SUB_LINK_PARAM } from '../constants/attribution';
+
+export interface SubLinkStats {
+  clicks: number;
+  signups: number;
+  paid: number;
+  signupRate: number;   // signups / clicks (%)
+  paidRate: number;     // paid / signups (%)
+}
+
+export type SubLinkWithStats = ReferralSubLink & { url: string; stats: SubLinkStats };
+
+/**
+ * Turn a label into a slug ("My Newsletter!" → "my-newsletter")
+ */
+export function slugifySubLinkLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32)
+    .replace(/-+$/, '');
+}
+
+export function isValidSubLinkSlug(slug: string): boolean {
+  return SUB_LINK_LIMITS.SLUG_PATTERN.test(slug);
+}
+
+/**
+ * Shareable URL for a sub-link: /r/{code}?l={slug}&utm_...
+ */
+export function buildSubLinkUrl(
+  appUrl: string,
+  referralCode: string,
+  subLink: Pick<ReferralSubLink, 'slug' | 'utmSource' | 'utmMedium' | 'utmCampaign'>
+): string {
+  const url = new URL(`/r/${referralCode}`, appUrl);
+  url.searchParams.set(SUB_LINK_PARAM, subLink.slug);
+  if (subLink.utmSource) url.searchParams.set('utm_source', subLink.utmSource);
+  if (subLink.utmMedium) url.searchParams.set('utm_medium', subLink.utmMedium);
+  if (subLink.utmCampaign) url.searchParams.set('utm_campaign', subLink.utmCampaign);
+  return url.toString();
+}
+
+function toStats(clicks: number, signups: number, paid: number): SubLinkStats {
+  const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+  return { clicks, signups, paid, signupRate: percent(signups, clicks), paidRate: percent(paid, signups) };
+}
+
+/**
+ * Click → signup → paid per sub-link for a member (key null = main link)
+ */
+export async function getSubLinkStats(memberId: string): Promise<Map<string | null, SubLinkStats>> {
+  const where = { memberId, deviceClass: { not: 'bot' } };
+
+  const [clicks, signups, paid] = await Promise.all([
+    prisma.attributionClick.groupBy({ by: ['subLinkId'], where, _count: { _all: true } }),
+    prisma.attributionClick.groupBy({ by: ['subLinkId'], where: { ...where, signupMembershipId: { not: null } }, _count: { _all: true } }),
+    prisma.attributionClick.groupBy({ by: ['subLinkId'], where: { ...where, converted: true }, _count: { _all: true } }),
+  ]);
+
+  const countFor = (rows: typeof clicks, subLinkId: string | null) =>
+    rows.find(row => row.subLinkId === subLinkId)?._count._all ?? 0;
+
+  return new Map(clicks.map(row => [
+    row.subLinkId,
+    toStats(row._count._all, countFor(signups, row.subLinkId), countFor(paid, row.subLinkId)),
+  ]));
+}
+
+/**
+ * A member's sub-links with URLs and stats (active first, then archived)
+ */
+export async function listSubLinks(
+  member: { id: string; referralCode: string },
+  appUrl: string,
+  { includeArchived = false }: { includeArchived?: boolean } = {}
+): Promise<{ subLinks: SubLinkWithStats[]; mainLink: SubLinkStats }> {
+  const [subLinks, stats] = await Promise.all([
+    prisma.referralSubLink.findMany({
+      where: { memberId: member.id, ...(!includeArchived && { archivedAt: null }) },
+      orderBy: [{ archivedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'asc' }],
+    }),
+    getSubLinkStats(member.id),
+  ]);
+
+  return {
+    subLinks: subLinks.map(subLink => ({
+      ...subLink,
+      url: buildSubLinkUrl(appUrl, member.referralCode, subLink),
+      stats: stats.get(subLink.id) ?? toStats(0, 0, 0),
+    })),
+    mainLink: stats.get(null) ?? toStats(0, 0, 0),
+  };
+}
@@ -206,7 +206,7 @@ export async function getCachedReferrals(memberId: string, limit: number = 10) {
     key,
     async () => {
       const referredMembers = await prisma.member.findMany({
-        where: { referredBy: memberId },
+        where: { referrerId: memberId },
         select: {
           id: true,
           username: true,
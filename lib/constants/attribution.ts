@@ -37,6 +37,87 @@ export const REFERRAL_COOKIE_NAME = 'ref_code';
 /** Cookie name for fingerprint */
 export const FINGERPRINT_COOKIE_NAME = 'fp_hash';
 
+// ========================================
+// REFERRAL SUB-LINKS
+// Named per-channel links: /r/{code}?l={slug}
+// ========================================
+
+/** Query parameter carrying the sub-link slug */
+export const SUB_LINK_PARAM = 'l';
+
+export const SUB_LINK_LIMITS = {
+  /** Maximum active (non-archived) sub-links per member */
+  MAX_ACTIVE_PER_MEMBER: 20,
+  /** Maximum label length */
+  MAX_LABEL_LENGTH: 48,
+  /** Maximum UTM tag length */
+  MAX_UTM_LENGTH: 64,
+  /** Allowed slug format */
+  SLUG_PATTERN: /^[a-z0-9][a-z0-9-]{0,31}$/,
+} as const;
+
+// ========================================
+// ATTRIBUTION CONFLICT POLICY
+// Who gets credit when a signup carries signals for different referrers
+// ========================================
+
+export const ATTRIBUTION_POLICIES = ['first_touch', 'last_touch', 'whop_wins', 'manual_review'] as const;
+
+export type AttributionPolicy = (typeof ATTRIBUTION_POLICIES)[number];
+
+/** Default: the Whop affiliate (?a= link) wins */
+export const DEFAULT_ATTRIBUTION_POLICY: AttributionPolicy = 'whop_wins';
+
+// ========================================
+// REFERRAL LANDING PAGE
+// Optional referrer-branded page shown before the Whop redirect
+// ========================================
+
+/** Query parameter that skips the landing page (?skip=1) */
+export const LANDING_SKIP_PARAM = 'skip';
+
+/** Maximum length of a member's personal note on their landing page */
+export const LANDING_NOTE_MAX_LENGTH = 280;
+
+/**
+ * Double-sided bonus a referred member gets
+ * Mirrors the ReferralBonus model defaults in prisma/schema.prisma - keep in sync
+ */
+export const REFEREE_BONUS_DEFAULTS = {
+  bonusType: 'first_month_discount',
+  bonusPercent: 10,
+  bonusValue: 0,
+  expiresInDays: 30,
+} as const;
+
+// ========================================
+// MISSED-REFERRAL CLAIMS
+// Member-filed claims the creator reviews (lib/utils/referral-claims.ts)
+// ========================================
+
+export const REFERRAL_CLAIM_LIMITS = {
+  /** Maximum pending claims per member */
+  MAX_PENDING_PER_MEMBER: 5,
+  /** Referees who joined longer ago than this can't be claimed */
+  MAX_SIGNUP_AGE_DAYS: 90,
+  /** Maximum length of the claimant's note */
+  MAX_NOTE_LENGTH: 500,
+} as const;
+
+// ========================================
+// VANITY CODE CHANGES
+// Retired codes keep redirecting (lib/utils/referral-code-history.ts)
+// ========================================
+
+export const REFERRAL_CODE_CHANGE_LIMITS = {
+  /** Maximum code changes per member within the window */
+  MAX_CHANGES: 3,
+  /** Rolling window for MAX_CHANGES */
+  WINDOW_DAYS: 30,
+  /** Allowed vanity code format */
+  CODE_PATTERN: /^[A-Z0-9-]{3,20}$/,
+} as const;
+
 // ========================================
 // HELPER FUNCTIONS
 // ========================================
@@ -83,6 +83,112 @@ export const DEFAULT_TIER_THRESHOLDS = {
   ELITE_MIN_REFERRALS: 100,
 } as const;
 
+// ========================================
+// CREATOR TIER LADDER LIMITS
+// Bounds for creator-defined commission ladders
+// (see lib/utils/tiered-commission.ts)
+// ========================================
+
+export const TIER_LADDER_LIMITS = {
+  /** Minimum number of tiers in a ladder */
+  MIN_TIERS: 1,
+  /** Maximum number of tiers in a ladder */
+  MAX_TIERS: 6,
+  /** Lowest member rate a tier can pay (Starter rate) */
+  MIN_MEMBER_RATE: BASE_RATES.MEMBER,
+  /** Lowest platform rate a tier can leave (Elite rate) */
+  MIN_PLATFORM_RATE: COMMISSION_RATES.ELITE.platform,
+  /** Maximum tier display name length */
+  MAX_NAME_LENGTH: 32,
+} as const;
+
+// ========================================
+// TIER QUALIFICATION (Per-creator)
+// lifetime: tiers only go up (lifetime paid referrals)
+// rolling: metrics count only the last N days
+// paying: referrals count only while they're still paying
+// Non-lifetime modes are re-evaluated daily and can downgrade after a grace period
+// ========================================
+
+export const TIER_QUALIFICATION = {
+  /** Qualification modes a creator can choose */
+  MODES: ['lifetime', 'rolling', 'paying'] as const,
+  /** Default mode (matches the original upgrade-only behavior) */
+  DEFAULT_MODE: 'lifetime',
+  /** Default rolling window */
+  DEFAULT_WINDOW_DAYS: 90,
+  MIN_WINDOW_DAYS: 7,
+  MAX_WINDOW_DAYS: 365,
+  /** Default warning period before a downgrade applies */
+  DEFAULT_GRACE_DAYS: 7,
+  MIN_GRACE_DAYS: 1,
+  MAX_GRACE_DAYS: 30,
+} as const;
+
+// ========================================
+// RECURRING COMMISSION POLICY (Per-creator)
+// lifetime: every payment of a referred membership earns commission
+// months: only payments within N months of the first commission
+// payments: only the first N payments
+// initial_only: only the first payment
+// ========================================
+
+export const RECURRING_COMMISSION_POLICY = {
+  /** Policy modes a creator can choose */
+  MODES: ['lifetime', 'months', 'payments', 'initial_only'] as const,
+  /** Default mode (lifetime recurring) */
+  DEFAULT_MODE: 'lifetime',
+  MIN_MONTHS: 1,
+  MAX_MONTHS: 60,
+  MIN_PAYMENTS: 1,
+  MAX_PAYMENTS: 120,
+} as const;
+
+// ========================================
+// COMMISSION CLEARING PERIOD (Per-creator)
+// New commissions wait out the hold before payout, so refunds and
+// chargebacks inside it void the commission instead of clawing back a transfer
+// pending -> cleared (hold passed) -> paid
+// ========================================
+
+export const COMMISSION_CLEARING = {
+  /** Default hold (matches the common 14-day refund window) */
+  DEFAULT_HOLD_DAYS: 14,
+  /** 0 = cleared as soon as the commission is created (paid in the next payout run) */
+  MIN_HOLD_DAYS: 0,
+  MAX_HOLD_DAYS: 90,
+} as const;
+
+// ========================================
+// PAYOUT RUNS (Per-creator)
+// Cleared commissions are paid per member on the creator's schedule, one
+// transfer per member and currency. Members under the minimum roll over.
+// ========================================
+
+export const PAYOUT_RUNS = {
+  /** weekly = Mondays, monthly = 1st of the month */
+  DEFAULT_SCHEDULE: 'weekly',
+  /** Smallest member payout per run (reporting currency) */
+  DEFAULT_MINIMUM: 25,
+  MIN_MINIMUM: 0,
+  MAX_MINIMUM: 1000,
+} as const;
+
+// ========================================
+// PAYOUT RETRIES
+// Failed payout transfers are retried with the same idempotence key:
+// 30m, 1h, 2h ... capped at a day between attempts.
+// ========================================
+
+export const PAYOUT_RETRIES = {
+  BASE_DELAY_MINUTES: 30,
+  MAX_DELAY_MINUTES: 24 * 60,
+  /** Failed transfers before the payout needs an admin */
+  MAX_ATTEMPTS: 8,
+  /** How often a member who can't receive transfers is checked again */
+  ELIGIBILITY_RECHECK_HOURS: 24,
+} as const;
+
 // ========================================
 // COMMISSION LIMITS & VALIDATION
 // ========================================
@@ -96,7 +202,7 @@ export const COMMISSION_LIMITS = {
   MIN_COMMISSION: 0,
   /** Maximum commission payout (safety limit) */
   MAX_COMMISSION: 999_999.99,
-  /** Allowed rounding tolerance for validation */
+  /** Allowed rounding tolerance when validating legacy Float records (new splits are exact - see lib/utils/money.ts) */
   ROUNDING_TOLERANCE: 0.01,
 } as const;
 
@@ -112,6 +218,43 @@ export const CUSTOM_RATE_LIMITS = {
   MAX_RATE: 0.25,
 } as const;
 
+// ========================================
+// BOOST CAMPAIGN LIMITS
+// Time-boxed boosts stack on the tier rate up to CUSTOM_RATE_LIMITS.MAX_RATE
+// The boost comes from the creator's share (platform share is unchanged)
+// ========================================
+
+export const CAMPAIGN_LIMITS = {
+  /** Largest "+X%" boost */
+  MAX_ADDITIVE_BOOST: CUSTOM_RATE_LIMITS.MAX_RATE - BASE_RATES.MEMBER,
+  /** Largest multiplier ("3x commission") */
+  MAX_MULTIPLIER: 3,
+  /** Longest campaign */
+  MAX_DURATION_DAYS: 92,
+  /** Maximum campaign name length */
+  MAX_NAME_LENGTH: 64,
+  /** Maximum members a campaign can target individually */
+  MAX_TARGET_MEMBERS: 500,
+} as const;
+
+// ========================================
+// PRODUCT COMMISSION RULES
+// Per-product base member rates (see lib/utils/product-commission.ts)
+// ========================================
+
+export const PRODUCT_RULE_LIMITS = {
+  /** Lowest base member rate (0 = no commission on this product) */
+  MIN_MEMBER_RATE: 0,
+  /** Highest base member rate (tier bonuses are capped here too) */
+  MAX_MEMBER_RATE: CUSTOM_RATE_LIMITS.MAX_RATE,
+  /** Maximum rules per creator */
+  MAX_RULES: 50,
+  /** Maximum products per creator */
+  MAX_PRODUCTS: 50,
+  /** Maximum product display name length */
+  MAX_NAME_LENGTH: 64,
+} as const;
+
 // ========================================
 // HELPER FUNCTIONS
 // ========================================
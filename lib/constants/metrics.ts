@@ -49,6 +49,20 @@ export const DISPLAY_FORMATS = {
   DEFAULT_CURRENCY: 'USD',
 } as const;
 
+// ========================================
+// CURRENCY
+// ========================================
+
+/**
+ * Sales keep the currency they were paid in. Anything that adds up amounts
+ * across currencies (ledger, leaderboards, invoices) uses the reporting
+ * currency, converted with the stored FxRate table (lib/fx/rates.ts).
+ */
+export const CURRENCY_SETTINGS = {
+  REPORTING_CURRENCY: DISPLAY_FORMATS.DEFAULT_CURRENCY,
+  FX_RATE_MAX_AGE_DAYS: 7, // Older rates are refreshed from the provider before use
+} as const;
+
 // ========================================
 // EARNINGS POTENTIAL ASSUMPTIONS
 // ========================================
@@ -146,11 +160,16 @@ export function calculatePotentialEarnings(referralCount: number): number {
  *
  * NOTE: This is the SINGLE SOURCE OF TRUTH for currency formatting.
  * The duplicate in lib/utils/commission.ts re-exports this function.
+ *
+ * @param currency - ISO 4217 code (defaults to the reporting currency)
  */
-export function formatCurrency(amount: number): string {
+export function formatCurrency(
+  amount: number,
+  currency: string = DISPLAY_FORMATS.DEFAULT_CURRENCY
+): string {
   return new Intl.NumberFormat(DISPLAY_FORMATS.DEFAULT_LOCALE, {
     style: 'currency',
-    currency: DISPLAY_FORMATS.DEFAULT_CURRENCY,
+    currency: currency.toUpperCase(),
     minimumFractionDigits: DISPLAY_FORMATS.CURRENCY_DECIMALS,
     maximumFractionDigits: DISPLAY_FORMATS.CURRENCY_DECIMALS,
   }).format(amount);
@@ -13,12 +13,20 @@
  * - Calculate metrics inline
  *
  * ALL metrics are calculated from raw Commission and Member records.
+ * Money balances (earnings, revenue) come from the commission ledger.
  */
 
 import { prisma } from '../db/prisma';
 import { startOfMonth, subMonths } from 'date-fns';
+import {
+  getMemberLedgerBalance,
+  getCreatorLedgerBalance,
+  countMembersEarningAtLeast,
+} from '../ledger/commission-ledger';
 import { calculateMemberTier, type TierThresholds } from '../utils/tier-calculator';
 import logger from '../logger';
+import { CURRENCY_SETTINGS } from '../constants/metrics';
+import { getClickFunnel } from '../analytics/click-tracking';
 
 
 // ========================================
@@ -27,7 +35,7 @@ import logger from '../logger';
 
 /**
  * Get ALL member statistics from a SINGLE source
- * Calculates everything from Commission records (no cached fields)
+ * Earnings come from the ledger, counts from Commission records (no cached fields)
  */
 export async function getMemberStats(memberId: string) {
   try {
@@ -54,9 +62,13 @@ export async function getMemberStats(memberId: string) {
       throw new Error('Member not found');
     }
 
-    // Now fetch commissions and referrals in parallel using the referralCode
-    const [allCommissions, monthlyCommissions, lastMonthCommissions, referralCount] =
+    // Now fetch balances, commissions and referrals in parallel using the referralCode
+    const [lifetimeBalance, monthlyBalance, lastMonthBalance, allCommissions, monthlyCommissions, referralCount] =
       await Promise.all([
+        getMemberLedgerBalance(memberId),
+        getMemberLedgerBalance(memberId, { since: monthStart }),
+        getMemberLedgerBalance(memberId, { since: lastMonthStart, until: monthStart }),
+
         // All-time commissions (for lifetime earnings)
         prisma.commission.findMany({
           where: {
@@ -65,6 +77,7 @@ export async function getMemberStats(memberId: string) {
           },
           select: {
             memberShare: true,
+            reportingMemberShare: true,
             createdAt: true,
           },
           orderBy: { createdAt: 'asc' },
@@ -79,28 +92,14 @@ export async function getMemberStats(memberId: string) {
           },
           select: {
             memberShare: true,
+            reportingMemberShare: true,
           },
         }),
 
-        // Last month's commissions (for trend calculation)
-        prisma.commission.findMany({
-          where: {
-            memberId,
-            status: 'paid',
-            createdAt: {
-              gte: lastMonthStart,
-              lt: monthStart,
-            },
-          },
-          select: {
-            memberShare: true,
-          },
-        }),
-
-        // Get referrals made this month (using referralCode, not memberId)
+        // Get referrals made this month
         prisma.member.count({
           where: {
-            referredBy: member.referralCode,  // Use referral CODE, not member ID
+            referrerId: member.id,
             createdAt: { gte: monthStart },
           },
         }),
@@ -110,23 +109,14 @@ export async function getMemberStats(memberId: string) {
     // CALCULATE EARNINGS (SINGLE SOURCE)
     // ========================================
 
-    // Lifetime earnings: Sum ALL paid commissions
-    const lifetimeEarnings = allCommissions.reduce(
-      (sum, comm) => sum + comm.memberShare,
-      0
-    );
+    // Lifetime earnings: net ledger earnings (commissions + bonuses - refunds)
+    const lifetimeEarnings = lifetimeBalance.earnings;
 
-    // Monthly earnings: Sum this month's paid commissions
-    const monthlyEarnings = monthlyCommissions.reduce(
-      (sum, comm) => sum + comm.memberShare,
-      0
-    );
+    // Monthly earnings: ledger postings this month
+    const monthlyEarnings = monthlyBalance.earnings;
 
     // Last month's earnings: For trend calculation
-    const lastMonthEarnings = lastMonthCommissions.reduce(
-      (sum, comm) => sum + comm.memberShare,
-      0
-    );
+    const lastMonthEarnings = lastMonthBalance.earnings;
 
     // Calculate month-over-month trend
     const monthlyTrend = lastMonthEarnings > 0
@@ -162,10 +152,12 @@ export async function getMemberStats(memberId: string) {
       subscriptionPrice: member.subscriptionPrice, // For earnings calculator
       createdAt: member.createdAt,
 
-      // Earnings (calculated from commissions)
+      // Earnings (calculated from the ledger)
       lifetimeEarnings,
       monthlyEarnings,
       monthlyTrend, // Calculated, not hardcoded!
+      paidOutEarnings: lifetimeBalance.paidOut,
+      pendingPayout: lifetimeBalance.payable,
 
       // Referrals
       totalReferred,
@@ -175,7 +167,7 @@ export async function getMemberStats(memberId: string) {
       totalCommissions: allCommissions.length,
       monthlyCommissions: monthlyCommissions.length,
       earningsHistory: allCommissions.map(c => ({
-        amount: c.memberShare,
+        amount: c.reportingMemberShare ?? c.memberShare,
         date: c.createdAt,
       })),
     };
@@ -218,28 +210,11 @@ export async function getMemberRankings(memberId: string, creatorId: string) {
     // Round to 2 decimal places to avoid floating point precision issues
     const roundedEarnings = Math.round(stats.lifetimeEarnings * 100) / 100;
 
-    const higherEarners = await prisma.commission.groupBy({
-      by: ['memberId'],
-      where: {
-        // NO creatorId filter - true global!
-        status: 'paid',
-        NOT: {
-          memberId: memberId, // Exclude self to avoid floating point comparison issues
-        },
-      },
-      _sum: {
-        memberShare: true,
-      },
-      having: {
-        memberShare: {
-          _sum: {
-            gte: roundedEarnings + 0.01, // Must be at least 1 cent higher
-          },
-        },
-      },
-    });
+    // NO creatorId filter - true global!
+    // Exclude self to avoid floating point comparison issues; must be at least 1 cent higher
+    const higherEarners = await countMembersEarningAtLeast(roundedEarnings + 0.01, memberId);
 
-    const globalEarningsRank = higherEarners.length + 1;
+    const globalEarningsRank = higherEarners + 1;
 
     // ========================================
     // TRUE GLOBAL REFERRALS RANK
@@ -309,6 +284,7 @@ export async function getMemberEarningsHistory(memberId: string, days: number =
       },
       select: {
         memberShare: true,
+        reportingMemberShare: true,
         createdAt: true,
       },
       orderBy: { createdAt: 'asc' },
@@ -320,7 +296,7 @@ export async function getMemberEarningsHistory(memberId: string, days: number =
     commissions.forEach(comm => {
       const dateKey = comm.createdAt.toISOString().split('T')[0];
       const current = dailyEarnings.get(dateKey) || 0;
-      dailyEarnings.set(dateKey, current + comm.memberShare);
+      dailyEarnings.set(dateKey, current + (comm.reportingMemberShare ?? comm.memberShare));
     });
 
     // Convert to array format for chart
@@ -349,7 +325,7 @@ export async function getMemberReferrals(memberId: string, limit: number = 10) {
   try {
     const referrals = await prisma.member.findMany({
       where: {
-        referredBy: memberId,
+        referrerId: memberId,
       },
       select: {
         username: true,
@@ -360,6 +336,7 @@ export async function getMemberReferrals(memberId: string, limit: number = 10) {
           },
           select: {
             memberShare: true,
+            reportingMemberShare: true,
             createdAt: true,
           },
           orderBy: { createdAt: 'asc' },
@@ -374,7 +351,7 @@ export async function getMemberReferrals(memberId: string, limit: number = 10) {
       .filter(ref => ref.commissions.length > 0) // Only show referrals that have converted
       .map(ref => {
         const totalEarnings = ref.commissions.reduce(
-          (sum, comm) => sum + comm.memberShare,
+          (sum, comm) => sum + (comm.reportingMemberShare ?? comm.memberShare),
           0
         );
         const paymentCount = ref.commissions.length;
@@ -406,14 +383,17 @@ export async function getMemberReferrals(memberId: string, limit: number = 10) {
 
 /**
  * Get ALL creator revenue metrics from SINGLE source
- * Calculates everything from Commission records
+ * Revenue comes from the ledger, counts from Commission records
  */
 export async function getCreatorRevenueStats(creatorId: string) {
   try {
     const monthStart = startOfMonth(new Date());
 
     // Get all commissions and member data in parallel
-    const [allCommissions, monthlyCommissions, members, activeClicks, totalShares] = await Promise.all([
+    const [lifetimeBalance, monthlyBalance, allCommissions, monthlyCommissions, members, activeClicks, totalShares] = await Promise.all([
+      getCreatorLedgerBalance(creatorId),
+      getCreatorLedgerBalance(creatorId, { since: monthStart }),
+
       // All-time commissions
       prisma.commission.findMany({
         where: {
@@ -422,8 +402,10 @@ export async function getCreatorRevenueStats(creatorId: string) {
         },
         select: {
           saleAmount: true,
+          reportingSaleAmount: true,
           creatorShare: true,
           memberShare: true,
+          reportingMemberShare: true,
         },
       }),
 
@@ -436,6 +418,7 @@ export async function getCreatorRevenueStats(creatorId: string) {
         },
         select: {
           saleAmount: true,
+          reportingSaleAmount: true,
           creatorShare: true,
         },
       }),
@@ -475,28 +458,16 @@ export async function getCreatorRevenueStats(creatorId: string) {
     // CALCULATE REVENUE (SINGLE SOURCE)
     // ========================================
 
-    // Total revenue: Sum ALL paid commissions sale amounts
-    const totalRevenue = allCommissions.reduce(
-      (sum, comm) => sum + comm.saleAmount,
-      0
-    );
+    // Total revenue: referred sales net of refunds (ledger)
+    const totalRevenue = lifetimeBalance.referredRevenue;
 
-    // Monthly revenue: Sum this month's commissions
-    const monthlyRevenue = monthlyCommissions.reduce(
-      (sum, comm) => sum + comm.saleAmount,
-      0
-    );
+    // Monthly revenue: this month's ledger postings
+    const monthlyRevenue = monthlyBalance.referredRevenue;
 
     // Creator's share
-    const totalCreatorEarnings = allCommissions.reduce(
-      (sum, comm) => sum + comm.creatorShare,
-      0
-    );
+    const totalCreatorEarnings = lifetimeBalance.creatorEarnings;
 
-    const monthlyCreatorEarnings = monthlyCommissions.reduce(
-      (sum, comm) => sum + comm.creatorShare,
-      0
-    );
+    const monthlyCreatorEarnings = monthlyBalance.creatorEarnings;
 
     // Calculate projected monthly recurring revenue (MRR)
     // Use monthlyValue (handles annual/lifetime correctly)
@@ -590,6 +561,32 @@ export async function getCreatorRevenueStats(creatorId: string) {
       }
     });
 
+    // ========================================
+    // CURRENCY BREAKDOWN
+    // Totals above are in the reporting currency; this keeps the original amounts
+    // ========================================
+    const currencyTotals = await prisma.commission.groupBy({
+      by: ['currency'],
+      where: {
+        creatorId,
+        status: 'paid',
+      },
+      _sum: {
+        saleAmount: true,
+        reportingSaleAmount: true,
+      },
+      _count: {
+        id: true,
+      },
+    });
+
+    const revenueByCurrency = currencyTotals.map(row => ({
+      currency: row.currency,
+      revenue: row._sum.saleAmount || 0,
+      reportingRevenue: row._sum.reportingSaleAmount ?? row._sum.saleAmount ?? 0,
+      salesCount: row._count.id,
+    }));
+
     const monthlyGrowthRate = lastMonthReferrals > 0
       ? ((thisMonthReferrals - lastMonthReferrals) / lastMonthReferrals) * 100
       : thisMonthReferrals > 0 ? 100 : 0; // 100% if we have growth from 0, otherwise 0
@@ -646,9 +643,13 @@ export async function getCreatorRevenueStats(creatorId: string) {
       thisMonthReferrals, // Context for growth rate
       lastMonthReferrals, // Context for growth rate
 
+      // Currency
+      reportingCurrency: CURRENCY_SETTINGS.REPORTING_CURRENCY,
+      revenueByCurrency,
+
       // Average values
       avgSaleValue: allCommissions.length > 0
-        ? totalRevenue / allCommissions.length
+        ? allCommissions.reduce((sum, comm) => sum + (comm.reportingSaleAmount ?? comm.saleAmount), 0) / allCommissions.length
         : 0,
     };
   } catch (error) {
@@ -668,12 +669,12 @@ export async function getCreatorRevenueStats(creatorId: string) {
  * - This function returns $120,000
  */
 export async function getMemberReferralRevenue(
-  referralCode: string
+  memberId: string
 ): Promise<number> {
   try {
-    // Get all members referred by this member's code
+    // Get all members referred by this member
     const referredMembers = await prisma.member.findMany({
-      where: { referredBy: referralCode },
+      where: { referrerId: memberId },
       select: { membershipId: true },
     });
 
@@ -690,11 +691,11 @@ export async function getMemberReferralRevenue(
         whopMembershipId: { in: membershipIds },
         status: 'paid',
       },
-      select: { saleAmount: true },
+      select: { saleAmount: true, reportingSaleAmount: true },
     });
 
     // Sum up all the sales
-    const totalRevenue = commissions.reduce((sum, c) => sum + c.saleAmount, 0);
+    const totalRevenue = commissions.reduce((sum, c) => sum + (c.reportingSaleAmount ?? c.saleAmount), 0);
 
     return totalRevenue;
   } catch (error) {
@@ -748,11 +749,11 @@ export async function getCreatorTopPerformers(
           status: 'paid',
         },
         _sum: {
-          memberShare: true,
+          reportingMemberShare: true,
         },
         orderBy: {
           _sum: {
-            memberShare: 'desc',
+            reportingMemberShare: 'desc',
           },
         },
         take: limit,
@@ -778,6 +779,7 @@ export async function getCreatorTopPerformers(
             },
             select: {
               memberShare: true,
+              reportingMemberShare: true,
               createdAt: true,
             },
           },
@@ -787,13 +789,13 @@ export async function getCreatorTopPerformers(
       // ========================================
       // OPTIMIZATION: Batch query monthly referrals (avoid N+1)
       // ========================================
-      const referralCodes = members.map(m => m.referralCode);
+      const referrerIds = members.map(m => m.id);
 
       // Get all monthly referrals in a single query
       const monthlyReferralsData = await prisma.member.groupBy({
-        by: ['referredBy'],
+        by: ['referrerId'],
         where: {
-          referredBy: { in: referralCodes },
+          referrerId: { in: referrerIds },
           createdAt: { gte: monthStart },
         },
         _count: {
@@ -804,7 +806,7 @@ export async function getCreatorTopPerformers(
       // Create lookup map for O(1) access
       const monthlyReferralsMap = new Map(
         monthlyReferralsData.map(item => [
-          item.referredBy as string,
+          item.referrerId as string,
           item._count.id
         ])
       );
@@ -813,29 +815,29 @@ export async function getCreatorTopPerformers(
       // OPTIMIZATION: Batch calculate revenue generated by each performer's referrals
       // Avoids N+1 queries by doing all calculations in parallel
       // ========================================
-      // Reuse referralCodes from above (already mapped on line 786)
+      // Reuse referrerIds from above
 
       // Get all referred members for all top performers (filtered by creator)
       const allReferredMembers = await prisma.member.findMany({
         where: {
-          referredBy: { in: referralCodes },
+          referrerId: { in: referrerIds },
           creatorId, // ✅ Only count referrals to THIS creator
         },
         select: {
-          referredBy: true,
+          referrerId: true,
           membershipId: true,
         },
       });
 
-      // Group referred members by referrer code
+      // Group referred members by referrer
       const referredMembersMap = new Map<string, string[]>();
       allReferredMembers.forEach(member => {
-        if (!member.referredBy) return;
+        if (!member.referrerId) return;
 
-        if (!referredMembersMap.has(member.referredBy)) {
-          referredMembersMap.set(member.referredBy, []);
+        if (!referredMembersMap.has(member.referrerId)) {
+          referredMembersMap.set(member.referrerId, []);
         }
-        referredMembersMap.get(member.referredBy)!.push(member.membershipId);
+        referredMembersMap.get(member.referrerId)!.push(member.membershipId);
       });
 
       // Get all commission sales for referred members (filtered by creator)
@@ -849,6 +851,7 @@ export async function getCreatorTopPerformers(
         select: {
           whopMembershipId: true,
           saleAmount: true,
+          reportingSaleAmount: true,
         },
       });
 
@@ -856,16 +859,16 @@ export async function getCreatorTopPerformers(
       const membershipSalesMap = new Map<string, number>();
       allReferredCommissions.forEach(comm => {
         const current = membershipSalesMap.get(comm.whopMembershipId) || 0;
-        membershipSalesMap.set(comm.whopMembershipId, current + comm.saleAmount);
+        membershipSalesMap.set(comm.whopMembershipId, current + (comm.reportingSaleAmount ?? comm.saleAmount));
       });
 
       // Calculate revenue generated by each referrer
       const revenueGeneratedMap = new Map<string, number>();
-      referredMembersMap.forEach((membershipIds, referrerCode) => {
+      referredMembersMap.forEach((membershipIds, referrerId) => {
         const totalRevenue = membershipIds.reduce((sum, membershipId) => {
           return sum + (membershipSalesMap.get(membershipId) || 0);
         }, 0);
-        revenueGeneratedMap.set(referrerCode, totalRevenue);
+        revenueGeneratedMap.set(referrerId, totalRevenue);
       });
 
       // Combine earnings data with member info and calculate monthly data
@@ -877,12 +880,12 @@ export async function getCreatorTopPerformers(
         }
 
         // Get monthly referrals from map (O(1) lookup)
-        const monthlyReferred = monthlyReferralsMap.get(member.referralCode) || 0;
+        const monthlyReferred = monthlyReferralsMap.get(member.id) || 0;
 
         // Calculate monthly earnings from commissions
         const monthlyEarnings = member.commissions
           .filter(comm => comm.createdAt >= monthStart)
-          .reduce((sum, comm) => sum + comm.memberShare, 0);
+          .reduce((sum, comm) => sum + (comm.reportingMemberShare ?? comm.memberShare), 0);
 
         // ========================================
         // Calculate tier dynamically based on current referral count
@@ -890,7 +893,7 @@ export async function getCreatorTopPerformers(
         const calculatedTier = calculateMemberTier(member.totalReferred, tierThresholds);
 
         // Get revenue generated by this member's referrals
-        const revenueGenerated = revenueGeneratedMap.get(member.referralCode) || 0;
+        const revenueGenerated = revenueGeneratedMap.get(member.id) || 0;
 
         return {
           id: member.id,
@@ -899,7 +902,7 @@ export async function getCreatorTopPerformers(
           referralCode: member.referralCode,
           totalReferred: member.totalReferred,
           monthlyReferred,
-          lifetimeEarnings: earning._sum.memberShare || 0,
+          lifetimeEarnings: earning._sum.reportingMemberShare || 0,
           monthlyEarnings,
           currentTier: calculatedTier, // ✅ Dynamic tier calculation!
           revenueGenerated, // ✅ Total sales generated by referrals!
@@ -938,6 +941,7 @@ export async function getCreatorTopPerformers(
             },
             select: {
               memberShare: true,
+              reportingMemberShare: true,
               createdAt: true,
             },
           },
@@ -951,13 +955,13 @@ export async function getCreatorTopPerformers(
       // ========================================
       // OPTIMIZATION: Batch query monthly referrals (avoid N+1)
       // ========================================
-      const referralCodes = topByReferrals.map(m => m.referralCode);
+      const referrerIds = topByReferrals.map(m => m.id);
 
       // Get all monthly referrals in a single query
       const monthlyReferralsData = await prisma.member.groupBy({
-        by: ['referredBy'],
+        by: ['referrerId'],
         where: {
-          referredBy: { in: referralCodes },
+          referrerId: { in: referrerIds },
           createdAt: { gte: monthStart },
         },
         _count: {
@@ -968,7 +972,7 @@ export async function getCreatorTopPerformers(
       // Create lookup map for O(1) access
       const monthlyReferralsMap = new Map(
         monthlyReferralsData.map(item => [
-          item.referredBy as string,
+          item.referrerId as string,
           item._count.id
         ])
       );
@@ -977,29 +981,29 @@ export async function getCreatorTopPerformers(
       // OPTIMIZATION: Batch calculate revenue generated by each performer's referrals
       // Same logic as earnings branch to avoid N+1 queries
       // ========================================
-      // Reuse referralCodes from above (already mapped on line 950)
+      // Reuse referrerIds from above
 
       // Get all referred members for all top performers (filtered by creator)
       const allReferredMembers2 = await prisma.member.findMany({
         where: {
-          referredBy: { in: referralCodes },
+          referrerId: { in: referrerIds },
           creatorId, // ✅ Only count referrals to THIS creator
         },
         select: {
-          referredBy: true,
+          referrerId: true,
           membershipId: true,
         },
       });
 
-      // Group referred members by referrer code
+      // Group referred members by referrer
       const referredMembersMap2 = new Map<string, string[]>();
       allReferredMembers2.forEach(member => {
-        if (!member.referredBy) return;
+        if (!member.referrerId) return;
 
-        if (!referredMembersMap2.has(member.referredBy)) {
-          referredMembersMap2.set(member.referredBy, []);
+        if (!referredMembersMap2.has(member.referrerId)) {
+          referredMembersMap2.set(member.referrerId, []);
         }
-        referredMembersMap2.get(member.referredBy)!.push(member.membershipId);
+        referredMembersMap2.get(member.referrerId)!.push(member.membershipId);
       });
 
       // Get all commission sales for referred members (filtered by creator)
@@ -1013,6 +1017,7 @@ export async function getCreatorTopPerformers(
         select: {
           whopMembershipId: true,
           saleAmount: true,
+          reportingSaleAmount: true,
         },
       });
 
@@ -1020,32 +1025,32 @@ export async function getCreatorTopPerformers(
       const membershipSalesMap2 = new Map<string, number>();
       allReferredCommissions2.forEach(comm => {
         const current = membershipSalesMap2.get(comm.whopMembershipId) || 0;
-        membershipSalesMap2.set(comm.whopMembershipId, current + comm.saleAmount);
+        membershipSalesMap2.set(comm.whopMembershipId, current + (comm.reportingSaleAmount ?? comm.saleAmount));
       });
 
       // Calculate revenue generated by each referrer
       const revenueGeneratedMap2 = new Map<string, number>();
-      referredMembersMap2.forEach((membershipIds, referrerCode) => {
+      referredMembersMap2.forEach((membershipIds, referrerId) => {
         const totalRevenue = membershipIds.reduce((sum, membershipId) => {
           return sum + (membershipSalesMap2.get(membershipId) || 0);
         }, 0);
-        revenueGeneratedMap2.set(referrerCode, totalRevenue);
+        revenueGeneratedMap2.set(referrerId, totalRevenue);
       });
 
       // Calculate monthly referrals and earnings for each member
       const topWithMonthlyData = topByReferrals.map((member) => {
         // Get monthly referrals from map (O(1) lookup)
-        const monthlyReferred = monthlyReferralsMap.get(member.referralCode) || 0;
+        const monthlyReferred = monthlyReferralsMap.get(member.id) || 0;
 
         // Calculate lifetime and monthly earnings from commissions
         const lifetimeEarnings = member.commissions.reduce(
-          (sum, comm) => sum + comm.memberShare,
+          (sum, comm) => sum + (comm.reportingMemberShare ?? comm.memberShare),
           0
         );
 
         const monthlyEarnings = member.commissions
           .filter(comm => comm.createdAt >= monthStart)
-          .reduce((sum, comm) => sum + comm.memberShare, 0);
+          .reduce((sum, comm) => sum + (comm.reportingMemberShare ?? comm.memberShare), 0);
 
         // ========================================
         // Calculate tier dynamically based on current referral count
@@ -1053,7 +1058,7 @@ export async function getCreatorTopPerformers(
         const calculatedTier = calculateMemberTier(member.totalReferred, tierThresholds);
 
         // Get revenue generated by this member's referrals
-        const revenueGenerated = revenueGeneratedMap2.get(member.referralCode) || 0;
+        const revenueGenerated = revenueGeneratedMap2.get(member.id) || 0;
 
         return {
           id: member.id,
@@ -1149,6 +1154,10 @@ export async function getCompleteMemberDashboardData(membershipId: string) {
         currentStreak: true,
         longestStreak: true,
         lastReferralDate: true,
+        // Commission tier (stored tier + any pending downgrade)
+        commissionTier: true,
+        pendingCommissionTier: true,
+        tierDowngradeAt: true,
       },
     });
 
@@ -1157,11 +1166,12 @@ export async function getCompleteMemberDashboardData(membershipId: string) {
     }
 
     // Fetch all data in parallel
-    const [stats, rankings, earningsHistory, referrals] = await Promise.all([
+    const [stats, rankings, earningsHistory, referrals, clickFunnel] = await Promise.all([
       getMemberStats(member.id),
       getMemberRankings(member.id, member.creatorId),
       getMemberEarningsHistory(member.id, 30),
       getMemberReferrals(member.id, 10),
+      getClickFunnel({ memberId: member.id }),
     ]);
 
     console.log('Complete member dashboard data fetched:', {
@@ -1179,6 +1189,10 @@ export async function getCompleteMemberDashboardData(membershipId: string) {
       currentStreak: member.currentStreak || 0,
       longestStreak: member.longestStreak || 0,
       lastReferralDate: member.lastReferralDate,
+      commissionTier: member.commissionTier,
+      pendingCommissionTier: member.pendingCommissionTier,
+      tierDowngradeAt: member.tierDowngradeAt,
+      clickFunnel, // Link clicks → signups → paid (first-party tracking)
     };
   } catch (error) {
     logger.error('❌ Error fetching complete member dashboard data:', error);
@@ -175,12 +175,12 @@ export async function getOptimizedMemberStats(memberId: string, forceRefresh = f
 
         // Count referrals efficiently
         prisma.member.count({
-          where: { referredBy: memberId },
+          where: { referrerId: memberId },
         }),
 
         // Get recent referrals with limited fields
         prisma.member.findMany({
-          where: { referredBy: memberId },
+          where: { referrerId: memberId },
           select: {
             id: true,
             username: true,
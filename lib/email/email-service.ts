@@ -225,7 +225,7 @@ export async function sendWeeklyReport(memberId: string): Promise<void> {
   const weeklyEarnings = member.commissions.reduce((sum, c) => sum + c.memberShare, 0);
   const newReferrals = await prisma.member.count({
     where: {
-      referredBy: member.referralCode,
+      referrerId: member.id,
       createdAt: {
         gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
       },
@@ -273,7 +273,7 @@ export async function sendMonthlyReport(memberId: string): Promise<void> {
 
     prisma.member.count({
       where: {
-        referredBy: member.referralCode,
+        referrerId: member.id,
         createdAt: { gte: monthStart },
       },
     }),
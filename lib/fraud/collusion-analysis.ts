@@ -0,0 +1,244 @@
+// lib/fraud/collusion-analysis.ts
+/**
+ * Collusion Ring Analysis
+ *
+ * Daily job that builds each creator's referral graph (referrerId, signup
+ * click fingerprints/IP hashes, refunds and cancellations), clusters it with
+ * findCollusionClusters() and stores the medium/high risk clusters as
+ * FraudCluster rows for the admin dashboard.
+ *
+ * Open and confirmed clusters feed checkCollusionCluster(), so new commissions
+ * earned by their members are held for review. A cluster whose members changed
+ * is superseded by the new one; dismissed clusters stay dismissed on reruns.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { findCollusionClusters, type CollusionCluster, type GraphMember } from './collusion-graph';
+
+export const FRAUD_CLUSTER_STATUSES = ['open', 'confirmed', 'dismissed', 'superseded'] as const;
+
+export type FraudClusterStatus = (typeof FRAUD_CLUSTER_STATUSES)[number];
+
+export interface CollusionAnalysisResult {
+  creators: number;
+  clusters: number;    // Medium/high risk clusters found this run
+  created: number;     // Not seen before
+  superseded: number;  // Open clusters whose members changed
+  errors: number;
+}
+
+// Referee payments that were given back
+const REFUNDED_COMMISSION_STATUSES = ['refunded', 'partial_refund', 'voided'];
+
+// Lifecycle statuses of members who left
+const CHURNED_STATUSES = ['cancelled', 'refunded'];
+
+/**
+ * Load a creator's members as graph nodes
+ */
+export async function loadReferralGraph(creatorId: string): Promise<GraphMember[]> {
+  const [members, clicks, payments, refunded] = await Promise.all([
+    prisma.member.findMany({
+      where: { creatorId },
+      select: {
+        id: true,
+        username: true,
+        referrerId: true,
+        membershipId: true,
+        lifecycle: { select: { cancelledAt: true, currentStatus: true, totalRefunded: true } },
+      },
+    }),
+    prisma.attributionClick.findMany({
+      where: { member: { creatorId }, signupMembershipId: { not: null } },
+      select: { signupMembershipId: true, ipHash: true, fingerprint: true },
+    }),
+    prisma.commission.groupBy({
+      by: ['whopMembershipId'],
+      where: { creatorId },
+      _count: { _all: true },
+    }),
+    prisma.commission.findMany({
+      where: {
+        creatorId,
+        OR: [{ status: { in: REFUNDED_COMMISSION_STATUSES } }, { refunds: { some: {} } }],
+      },
+      select: { whopMembershipId: true },
+      distinct: ['whopMembershipId'],
+    }),
+  ]);
+
+  const clicksByMembership = new Map<string, typeof clicks>();
+  for (const click of clicks) {
+    const membershipId = click.signupMembershipId as string;
+    clicksByMembership.set(membershipId, [...(clicksByMembership.get(membershipId) ?? []), click]);
+  }
+
+  const paymentCounts = new Map(payments.map(payment => [payment.whopMembershipId, payment._count._all]));
+  const refundedMemberships = new Set(refunded.map(commission => commission.whopMembershipId));
+
+  return members.map(member => {
+    const signupClicks = clicksByMembership.get(member.membershipId) ?? [];
+
+    return {
+      id: member.id,
+      username: member.username,
+      referrerId: member.referrerId,
+      ipHashes: signupClicks.map(click => click.ipHash),
+      fingerprints: signupClicks.map(click => click.fingerprint),
+      refereePayments: paymentCounts.get(member.membershipId) ?? 0,
+      refunded: refundedMemberships.has(member.membershipId) || (member.lifecycle?.totalRefunded ?? 0) > 0,
+      churned: !!member.lifecycle?.cancelledAt || CHURNED_STATUSES.includes(member.lifecycle?.currentStatus ?? ''),
+    };
+  });
+}
+
+/**
+ * Store this run's clusters for a creator
+ */
+async function saveClusters(creatorId: string, clusters: CollusionCluster[], now: Date) {
+  let created = 0;
+
+  for (const cluster of clusters) {
+    const data = {
+      memberIds: cluster.memberIds,
+      riskScore: cluster.riskScore,
+      riskLevel: cluster.riskLevel,
+      flags: cluster.flags as unknown as Prisma.InputJsonValue,
+      graph: { nodes: cluster.nodes, edges: cluster.edges } as unknown as Prisma.InputJsonValue,
+      lastSeenAt: now,
+    };
+
+    const existing = await prisma.fraudCluster.findUnique({
+      where: { creatorId_signature: { creatorId, signature: cluster.signature } },
+      select: { id: true, status: true },
+    });
+
+    if (existing) {
+      await prisma.fraudCluster.update({
+        where: { id: existing.id },
+        // Same members came back together - reopen it
+        data: { ...data, ...(existing.status === 'superseded' && { status: 'open' }) },
+      });
+      continue;
+    }
+
+    await prisma.fraudCluster.create({
+      data: { ...data, creatorId, signature: cluster.signature, detectedAt: now },
+    });
+    created++;
+
+    logger.warn(
+      `⚠️ Collusion cluster found for creator ${creatorId}: ${cluster.memberIds.length} members, ` +
+      `risk ${cluster.riskScore} (${cluster.flags.map(flag => flag.type).join(', ')})`
+    );
+  }
+
+  const superseded = await prisma.fraudCluster.updateMany({
+    where: { creatorId, status: 'open', signature: { notIn: clusters.map(cluster => cluster.signature) } },
+    data: { status: 'superseded' },
+  });
+
+  return { created, superseded: superseded.count };
+}
+
+/**
+ * Analyze every creator's referral graph
+ */
+export async function analyzeCollusionRings(now: Date = new Date()): Promise<CollusionAnalysisResult> {
+  const result: CollusionAnalysisResult = { creators: 0, clusters: 0, created: 0, superseded: 0, errors: 0 };
+
+  const creators = await prisma.creator.findMany({
+    where: { members: { some: { referrerId: { not: null } } } },
+    select: { id: true },
+  });
+
+  for (const creator of creators) {
+    result.creators++;
+
+    try {
+      const clusters = findCollusionClusters(await loadReferralGraph(creator.id))
+        .filter(cluster => cluster.riskLevel !== 'low');
+      const saved = await saveClusters(creator.id, clusters, now);
+
+      result.clusters += clusters.length;
+      result.created += saved.created;
+      result.superseded += saved.superseded;
+    } catch (error) {
+      result.errors++;
+      logger.error(`Error analyzing referral graph for creator ${creator.id}:`, error);
+    }
+  }
+
+  logger.info(
+    `Collusion analysis: ${result.clusters} clusters across ${result.creators} creators ` +
+    `(${result.created} new, ${result.superseded} superseded, ${result.errors} errors)`
+  );
+
+  return result;
+}
+
+// ========================================
+// ADMIN REVIEW
+// ========================================
+
+/**
+ * Clusters for the admin dashboard, riskiest first
+ */
+export async function listFraudClusters({
+  status,
+  creatorId,
+  limit = 50,
+}: {
+  status?: FraudClusterStatus;
+  creatorId?: string;
+  limit?: number;
+} = {}) {
+  return prisma.fraudCluster.findMany({
+    where: {
+      status: status ?? { not: 'superseded' },
+      ...(creatorId && { creatorId }),
+    },
+    include: { creator: { select: { companyName: true } } },
+    orderBy: [{ riskScore: 'desc' }, { lastSeenAt: 'desc' }],
+    take: limit,
+  });
+}
+
+/**
+ * Confirm or dismiss a cluster (dismissed clusters stop flagging commissions)
+ *
+ * @returns null if the cluster doesn't exist
+ */
+export async function reviewFraudCluster({
+  clusterId,
+  status,
+  reviewedBy,
+}: {
+  clusterId: string;
+  status: 'confirmed' | 'dismissed';
+  reviewedBy: string;
+}) {
+  const cluster = await prisma.fraudCluster.findUnique({ where: { id: clusterId } });
+  if (!cluster) return null;
+
+  return prisma.$transaction(async (tx) => {
+    await tx.auditLog.create({
+      data: {
+        entity: 'FraudCluster',
+        entityId: cluster.id,
+        field: 'status',
+        oldValue: cluster.status,
+        newValue: status,
+        triggeredBy: 'manual',
+        metadata: { reviewedBy, memberIds: cluster.memberIds },
+      },
+    });
+
+    return tx.fraudCluster.update({
+      where: { id: cluster.id },
+      data: { status, reviewedBy, reviewedAt: new Date() },
+    });
+  });
+}
@@ -0,0 +1,217 @@
+// lib/fraud/collusion-graph.ts
+/**
+ * Referral Graph Clustering
+ *
+ * checkSelfReferral and checkMultipleAccounts look at one referrer/referee
+ * pair. Rings spread the same devices over several accounts instead:
+ * A refers B, B refers C, all three sign up from the same fingerprints and
+ * cancel after the first commission.
+ *
+ * Members are linked when their signup clicks share a device fingerprint or
+ * an IP hash. Each connected group of MIN_CLUSTER_SIZE or more is a cluster,
+ * scored from:
+ * - device_cluster: the shared devices/IPs themselves
+ * - referral_ring: referrals between members of the cluster
+ * - refund_pattern: referred members who refunded or cancelled after one payment
+ *
+ * Referral edges never join clusters on their own - an ordinary referral tree
+ * is not suspicious without shared devices.
+ *
+ * Pure helpers - no database access (the job is lib/fraud/collusion-analysis.ts).
+ */
+
+import { createHash } from 'crypto';
+import { getRiskLevel, RISK_POINTS, type FraudFlag } from './detector';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export interface GraphMember {
+  id: string;
+  username: string;
+  referrerId: string | null;
+  ipHashes: string[];       // From the member's signup clicks
+  fingerprints: string[];
+  refereePayments: number;  // Commissions earned on this member's payments
+  refunded: boolean;        // A payment of theirs was refunded or charged back
+  churned: boolean;         // Cancelled their membership
+}
+
+export type ClusterEdgeKind = 'referral' | 'shared_device' | 'shared_ip';
+
+export interface ClusterEdge {
+  from: string;
+  to: string;
+  kind: ClusterEdgeKind;
+}
+
+export interface ClusterNode {
+  id: string;
+  username: string;
+  lost: boolean; // Refunded, or cancelled after their first payment
+}
+
+export interface CollusionCluster {
+  signature: string;
+  memberIds: string[];
+  nodes: ClusterNode[];
+  edges: ClusterEdge[];
+  riskScore: number;
+  riskLevel: 'low' | 'medium' | 'high';
+  flags: FraudFlag[];
+}
+
+export const COLLUSION_GRAPH = {
+  /** Pairs are already covered by checkSelfReferral */
+  MIN_CLUSTER_SIZE: 3,
+  /** Referrals inside a cluster before it counts as a ring */
+  MIN_RING_REFERRALS: 2,
+  /** Signals shared by more members than this are treated as common (carrier NAT, office IPs) */
+  MAX_SIGNAL_SHARE: 25,
+  /** Lost referees (count and share of the cluster's referees) before refund_pattern is flagged */
+  MIN_LOST_REFEREES: 2,
+  LOST_REFEREE_RATIO: 0.5,
+} as const;
+
+// ========================================
+// CLUSTERING
+// ========================================
+
+/**
+ * Stable ID for a set of members, so reruns update the same cluster
+ */
+export function getClusterSignature(memberIds: string[]): string {
+  return createHash('sha256').update([...memberIds].sort().join(',')).digest('hex');
+}
+
+/**
+ * Whether a referred member dropped off the way ring accounts do
+ */
+export function isLostReferee(member: Pick<GraphMember, 'refunded' | 'churned' | 'refereePayments'>): boolean {
+  return member.refunded || (member.churned && member.refereePayments <= 1);
+}
+
+/**
+ * Find and score device/IP clusters, riskiest first
+ */
+export function findCollusionClusters(members: GraphMember[]): CollusionCluster[] {
+  const parent = new Map<string, string>(members.map(member => [member.id, member.id]));
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  // Link every member that shares a signal to the first member seen with it
+  const signalEdges: ClusterEdge[] = [];
+  const signals = new Map<string, { kind: ClusterEdgeKind; memberIds: string[] }>();
+
+  for (const member of members) {
+    const memberSignals = Array.from(new Set([
+      ...member.fingerprints.filter(Boolean).map(value => `fp:${value}`),
+      ...member.ipHashes.filter(Boolean).map(value => `ip:${value}`),
+    ]));
+
+    for (const key of memberSignals) {
+      const signal = signals.get(key) ?? { kind: key.startsWith('fp:') ? 'shared_device' : 'shared_ip', memberIds: [] };
+      signal.memberIds.push(member.id);
+      signals.set(key, signal);
+    }
+  }
+
+  const linked = new Set<string>();
+  for (const { kind, memberIds } of Array.from(signals.values())) {
+    if (memberIds.length < 2 || memberIds.length > COLLUSION_GRAPH.MAX_SIGNAL_SHARE) continue;
+
+    const [first, ...rest] = memberIds;
+    for (const id of rest) {
+      const pair = `${kind}:${[first, id].sort().join(':')}`;
+      if (!linked.has(pair)) {
+        linked.add(pair);
+        signalEdges.push({ from: first, to: id, kind });
+      }
+      parent.set(find(id), find(first));
+    }
+  }
+
+  const components = new Map<string, GraphMember[]>();
+  for (const member of members) {
+    const root = find(member.id);
+    components.set(root, [...(components.get(root) ?? []), member]);
+  }
+
+  return Array.from(components.values())
+    .filter(component => component.length >= COLLUSION_GRAPH.MIN_CLUSTER_SIZE)
+    .map(component => scoreCluster(component, signalEdges))
+    .sort((a, b) => b.riskScore - a.riskScore);
+}
+
+function scoreCluster(component: GraphMember[], signalEdges: ClusterEdge[]): CollusionCluster {
+  const memberIds = component.map(member => member.id);
+  const inCluster = new Set(memberIds);
+
+  const referees = component.filter(member => member.referrerId && inCluster.has(member.referrerId));
+  const lostReferees = referees.filter(isLostReferee);
+  const sharedEdges = signalEdges.filter(edge => inCluster.has(edge.from));
+  const referralEdges: ClusterEdge[] = referees.map(member => ({
+    from: member.referrerId!,
+    to: member.id,
+    kind: 'referral',
+  }));
+
+  const flags: FraudFlag[] = [
+    {
+      type: 'device_cluster',
+      severity: 'medium',
+      description: `${component.length} accounts share device fingerprints or IP addresses`,
+      evidence: {
+        memberIds,
+        sharedDevices: sharedEdges.filter(edge => edge.kind === 'shared_device').length,
+        sharedIps: sharedEdges.filter(edge => edge.kind === 'shared_ip').length,
+      },
+      points: RISK_POINTS.device_cluster,
+    },
+  ];
+
+  if (referralEdges.length >= COLLUSION_GRAPH.MIN_RING_REFERRALS) {
+    flags.push({
+      type: 'referral_ring',
+      severity: 'high',
+      description: `${referralEdges.length} referrals between accounts in a ${component.length}-account device/IP cluster`,
+      evidence: { memberIds, referrals: referralEdges.map(edge => [edge.from, edge.to]) },
+      points: RISK_POINTS.referral_ring,
+    });
+  }
+
+  if (
+    lostReferees.length >= COLLUSION_GRAPH.MIN_LOST_REFEREES &&
+    lostReferees.length / referees.length >= COLLUSION_GRAPH.LOST_REFEREE_RATIO
+  ) {
+    flags.push({
+      type: 'refund_pattern',
+      severity: 'high',
+      description: `${lostReferees.length} of ${referees.length} referred accounts in the cluster refunded or cancelled after their first payment`,
+      evidence: { memberIds: lostReferees.map(member => member.id) },
+      points: RISK_POINTS.refund_pattern,
+    });
+  }
+
+  const riskScore = Math.min(100, flags.reduce((sum, flag) => sum + flag.points, 0));
+
+  return {
+    signature: getClusterSignature(memberIds),
+    memberIds,
+    nodes: component.map(member => ({
+      id: member.id,
+      username: member.username,
+      lost: isLostReferee(member),
+    })),
+    edges: [...referralEdges, ...sharedEdges],
+    riskScore,
+    riskLevel: getRiskLevel(riskScore),
+    flags,
+  };
+}
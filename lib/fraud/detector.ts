@@ -6,6 +6,8 @@
  * - Click fraud (bot traffic, unusual velocity)
  * - Commission abuse (chargebacks, refunds, multiple accounts)
  * - Attribution manipulation
+ * - Collusion rings (members of a flagged referral graph cluster - see
+ *   lib/fraud/collusion-analysis.ts)
  *
  * Risk Scoring: 0-100
  * - 0-30: Low risk (auto-approve)
@@ -13,6 +15,7 @@
  * - 71-100: High risk (auto-block)
  */
 
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../db/prisma';
 import logger from '../logger';
 
@@ -45,10 +48,12 @@ export type FraudFlagType =
   | 'refund_pattern'
   | 'multiple_accounts'
   | 'suspicious_timing'
-  | 'vpn_detected';
+  | 'vpn_detected'
+  | 'referral_ring'
+  | 'device_cluster';
 
 // Risk point values
-const RISK_POINTS: Record<FraudFlagType, number> = {
+export const RISK_POINTS: Record<FraudFlagType, number> = {
   self_referral_ip: 40,
   self_referral_fingerprint: 50,
   self_referral_payment: 60,
@@ -60,37 +65,54 @@ const RISK_POINTS: Record<FraudFlagType, number> = {
   multiple_accounts: 45,
   suspicious_timing: 20,
   vpn_detected: 10,
+  referral_ring: 60,
+  device_cluster: 30,
 };
 
+// Clusters that still flag their members' commissions
+const ACTIVE_CLUSTER_STATUSES = ['open', 'confirmed'];
+
+/**
+ * Risk level for a score (0-30 low, 31-70 medium, 71-100 high)
+ */
+export function getRiskLevel(riskScore: number): 'low' | 'medium' | 'high' {
+  if (riskScore <= 30) return 'low';
+  if (riskScore <= 70) return 'medium';
+  return 'high';
+}
+
 /**
  * Check for self-referral fraud
- * Detects when a member tries to refer themselves
+ * Detects when a member tries to refer themselves. The referrer's own IP and
+ * device come from the click that brought them in (if they were referred).
  */
 export async function checkSelfReferral(
   referrerId: string,
   refereeUserId: string,
-  refereeIpHash: string,
-  refereeFingerprint: string
+  refereeIpHash?: string,
+  refereeFingerprint?: string,
+  db: Prisma.TransactionClient = prisma
 ): Promise<FraudFlag[]> {
   const flags: FraudFlag[] = [];
 
   try {
     // Get referrer data
-    const referrer = await prisma.member.findUnique({
+    const referrer = await db.member.findUnique({
       where: { id: referrerId },
-      include: {
-        attributions: {
-          select: { ipHash: true, fingerprint: true },
-          orderBy: { createdAt: 'desc' },
-          take: 10,
-        },
-      },
+      select: { userId: true, membershipId: true },
     });
 
     if (!referrer) return flags;
 
+    const referrerClicks = await db.attributionClick.findMany({
+      where: { signupMembershipId: referrer.membershipId },
+      select: { ipHash: true, fingerprint: true },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    });
+
     // Check 1: Same IP address
-    const sameIP = referrer.attributions.some((attr) => attr.ipHash === refereeIpHash);
+    const sameIP = !!refereeIpHash && referrerClicks.some((click) => click.ipHash === refereeIpHash);
     if (sameIP) {
       flags.push({
         type: 'self_referral_ip',
@@ -106,8 +128,8 @@ export async function checkSelfReferral(
     }
 
     // Check 2: Same device fingerprint
-    const sameFingerprint = referrer.attributions.some(
-      (attr) => attr.fingerprint === refereeFingerprint
+    const sameFingerprint = !!refereeFingerprint && referrerClicks.some(
+      (click) => click.fingerprint === refereeFingerprint
     );
     if (sameFingerprint) {
       flags.push({
@@ -149,14 +171,15 @@ export async function checkSelfReferral(
  */
 export async function checkClickFraud(
   referralCode: string,
-  fingerprint: string,
-  userAgent: string | null
+  fingerprint: string | undefined,
+  userAgent: string | null,
+  db: Prisma.TransactionClient = prisma
 ): Promise<FraudFlag[]> {
   const flags: FraudFlag[] = [];
 
   try {
     // Get recent clicks for this referral code
-    const recentClicks = await prisma.attributionClick.findMany({
+    const recentClicks = await db.attributionClick.findMany({
       where: {
         referralCode,
         createdAt: {
@@ -199,9 +222,9 @@ export async function checkClickFraud(
     }
 
     // Check 3: Same fingerprint clicking multiple times
-    const sameFingerprintClicks = recentClicks.filter(
-      (click) => click.fingerprint === fingerprint
-    );
+    const sameFingerprintClicks = fingerprint
+      ? recentClicks.filter((click) => click.fingerprint === fingerprint)
+      : [];
 
     if (sameFingerprintClicks.length > 5) {
       flags.push({
@@ -225,11 +248,14 @@ export async function checkClickFraud(
 /**
  * Check for commission abuse (chargebacks, refunds, patterns)
  */
-export async function checkCommissionAbuse(memberId: string): Promise<FraudFlag[]> {
+export async function checkCommissionAbuse(
+  memberId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<FraudFlag[]> {
   const flags: FraudFlag[] = [];
 
   try {
-    const member = await prisma.member.findUnique({
+    const member = await db.member.findUnique({
       where: { id: memberId },
       include: {
         commissions: {
@@ -298,30 +324,31 @@ export async function checkCommissionAbuse(memberId: string): Promise<FraudFlag[
 export async function checkMultipleAccounts(
   userId: string,
   ipHash: string,
-  fingerprint: string
+  fingerprint: string,
+  db: Prisma.TransactionClient = prisma
 ): Promise<FraudFlag[]> {
   const flags: FraudFlag[] = [];
 
   try {
-    // Find members with same IP or fingerprint
-    const suspiciousMembers = await prisma.member.findMany({
+    // Find other members who signed up from the same IP or fingerprint
+    const signupClicks = await db.attributionClick.findMany({
       where: {
-        OR: [
-          {
-            attributions: {
-              some: { ipHash },
-            },
-          },
-          {
-            attributions: {
-              some: { fingerprint },
-            },
-          },
-        ],
+        signupMembershipId: { not: null },
+        OR: [{ ipHash }, { fingerprint }],
+      },
+      select: { signupMembershipId: true },
+      distinct: ['signupMembershipId'],
+      take: 50,
+    });
+
+    const suspiciousMembers = await db.member.findMany({
+      where: {
+        membershipId: { in: signupClicks.map((click) => click.signupMembershipId as string) },
         NOT: {
           userId, // Exclude current user
         },
       },
+      select: { id: true },
     });
 
     if (suspiciousMembers.length > 0) {
@@ -345,6 +372,41 @@ export async function checkMultipleAccounts(
   return flags;
 }
 
+/**
+ * Check whether a member belongs to a collusion cluster
+ * Repeats the cluster's ring/cluster flags so their commissions are held like
+ * any other flagged one. Dismissed clusters no longer count.
+ */
+export async function checkCollusionCluster(
+  memberId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<FraudFlag[]> {
+  try {
+    const cluster = await db.fraudCluster.findFirst({
+      where: { memberIds: { has: memberId }, status: { in: ACTIVE_CLUSTER_STATUSES } },
+      orderBy: { riskScore: 'desc' },
+      select: { id: true, status: true, memberIds: true, flags: true },
+    });
+
+    if (!cluster) return [];
+
+    return (cluster.flags as unknown as FraudFlag[])
+      .filter((flag) => flag.type === 'referral_ring' || flag.type === 'device_cluster')
+      .map((flag) => ({
+        ...flag,
+        evidence: {
+          ...flag.evidence,
+          clusterId: cluster.id,
+          clusterStatus: cluster.status,
+          clusterSize: cluster.memberIds.length,
+        },
+      }));
+  } catch (error) {
+    logger.error('Error checking collusion clusters:', error);
+    return [];
+  }
+}
+
 /**
  * Comprehensive fraud check
  * Combines all fraud detection methods
@@ -354,35 +416,40 @@ export async function performFraudCheck(params: {
   refereeUserId?: string;
   memberId?: string;
   referralCode?: string;
-  ipHash: string;
-  fingerprint: string;
+  ipHash?: string; // From the click joined to the signup, if any
+  fingerprint?: string;
   userAgent?: string | null;
-}): Promise<FraudCheck> {
+}, db: Prisma.TransactionClient = prisma): Promise<FraudCheck> {
   const allFlags: FraudFlag[] = [];
 
   try {
     // Run all checks in parallel
-    const [selfReferralFlags, clickFraudFlags, commissionAbuseFlags, multipleAccountFlags] =
+    const [selfReferralFlags, clickFraudFlags, commissionAbuseFlags, multipleAccountFlags, clusterFlags] =
       await Promise.all([
         params.referrerId && params.refereeUserId
           ? checkSelfReferral(
               params.referrerId,
               params.refereeUserId,
               params.ipHash,
-              params.fingerprint
+              params.fingerprint,
+              db
             )
           : Promise.resolve([]),
 
         params.referralCode
-          ? checkClickFraud(params.referralCode, params.fingerprint, params.userAgent || null)
+          ? checkClickFraud(params.referralCode, params.fingerprint, params.userAgent || null, db)
           : Promise.resolve([]),
 
         params.memberId
-          ? checkCommissionAbuse(params.memberId)
+          ? checkCommissionAbuse(params.memberId, db)
+          : Promise.resolve([]),
+
+        params.refereeUserId && params.ipHash && params.fingerprint
+          ? checkMultipleAccounts(params.refereeUserId, params.ipHash, params.fingerprint, db)
           : Promise.resolve([]),
 
-        params.refereeUserId
-          ? checkMultipleAccounts(params.refereeUserId, params.ipHash, params.fingerprint)
+        params.memberId
+          ? checkCollusionCluster(params.memberId, db)
           : Promise.resolve([]),
       ]);
 
@@ -390,6 +457,7 @@ export async function performFraudCheck(params: {
     allFlags.push(...clickFraudFlags);
     allFlags.push(...commissionAbuseFlags);
     allFlags.push(...multipleAccountFlags);
+    allFlags.push(...clusterFlags);
 
     // Calculate total risk score
     const riskScore = Math.min(
@@ -397,11 +465,7 @@ export async function performFraudCheck(params: {
       allFlags.reduce((sum, flag) => sum + flag.points, 0)
     );
 
-    // Determine risk level
-    let riskLevel: 'low' | 'medium' | 'high';
-    if (riskScore <= 30) riskLevel = 'low';
-    else if (riskScore <= 70) riskLevel = 'medium';
-    else riskLevel = 'high';
+    const riskLevel = getRiskLevel(riskScore);
 
     return {
       riskScore,
@@ -428,7 +492,7 @@ export async function performFraudCheck(params: {
 
 /**
  * Get fraud statistics for a creator
- * Shows fraud detection metrics
+ * Shows fraud detection metrics from stored fraud cases
  */
 export async function getCreatorFraudStats(creatorId: string): Promise<{
   totalMembers: number;
@@ -438,14 +502,29 @@ export async function getCreatorFraudStats(creatorId: string): Promise<{
   savedFromFraud: number;
   topFraudTypes: Array<{ type: string; count: number }>;
 }> {
-  // TODO: Implement with FraudEvent model
-  // For now, return mock data
+  const [totalMembers, cases] = await Promise.all([
+    prisma.member.count({ where: { creatorId } }),
+    prisma.fraudCase.findMany({
+      where: { creatorId },
+      select: { memberId: true, status: true, flags: true, savedAmount: true },
+    }),
+  ]);
+
+  const typeCounts = new Map<string, number>();
+  for (const fraudCase of cases) {
+    for (const flag of fraudCase.flags as unknown as FraudFlag[]) {
+      typeCounts.set(flag.type, (typeCounts.get(flag.type) ?? 0) + 1);
+    }
+  }
+
   return {
-    totalMembers: 0,
-    flaggedMembers: 0,
-    blockedMembers: 0,
-    flaggedCommissions: 0,
-    savedFromFraud: 0,
-    topFraudTypes: [],
+    totalMembers,
+    flaggedMembers: new Set(cases.map(c => c.memberId)).size,
+    blockedMembers: new Set(cases.filter(c => c.status === 'rejected').map(c => c.memberId)).size,
+    flaggedCommissions: cases.length,
+    savedFromFraud: cases.reduce((sum, c) => sum + c.savedAmount, 0),
+    topFraudTypes: Array.from(typeCounts, ([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5),
   };
 }
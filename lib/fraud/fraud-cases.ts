@@ -0,0 +1,102 @@
+// lib/fraud/fraud-cases.ts
+
+/**
+ * Fraud Cases
+ *
+ * Every commission is run through performFraudCheck() before it is created.
+ * Flagged evaluations are stored as a FraudCase linked to the commission and
+ * the referrer. Medium and high risk hold the commission (status 'held') out
+ * of auto-payout until a creator or admin reviews it (lib/fraud/fraud-review.ts);
+ * low-risk flags are kept as 'cleared' for the stats.
+ *
+ * Members the creator whitelisted are not evaluated.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { performFraudCheck, type FraudCheck } from './detector';
+
+export const FRAUD_CASE_STATUSES = ['open', 'cleared', 'approved', 'rejected', 'whitelisted'] as const;
+
+export type FraudCaseStatus = (typeof FRAUD_CASE_STATUSES)[number];
+
+/**
+ * Medium and high risk both wait for a reviewer - nothing flagged is paid out automatically
+ */
+export function shouldHoldCommission(check: FraudCheck | null): boolean {
+  return !!check && (check.shouldReview || check.shouldBlock);
+}
+
+/**
+ * Initial case status for an evaluation, or null if nothing was flagged
+ */
+export function getInitialCaseStatus(check: FraudCheck | null): FraudCaseStatus | null {
+  if (!check || check.flags.length === 0) return null;
+  return shouldHoldCommission(check) ? 'open' : 'cleared';
+}
+
+/**
+ * Evaluate a commission before it is created
+ *
+ * Uses the referee's signup click (if any) for IP and device signals. Reads go
+ * through `db` so a dry-run or replay sees rows written earlier in its transaction.
+ *
+ * @returns null for whitelisted referrers
+ */
+export async function evaluateCommissionFraud(
+  referrer: { id: string; referralCode: string; fraudWhitelisted?: boolean },
+  membershipId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<FraudCheck | null> {
+  if (referrer.fraudWhitelisted) return null;
+
+  const [referee, click] = await Promise.all([
+    db.member.findUnique({ where: { membershipId }, select: { userId: true } }),
+    db.attributionClick.findFirst({
+      where: { signupMembershipId: membershipId },
+      select: { ipHash: true, fingerprint: true, userAgent: true },
+    }),
+  ]);
+
+  return performFraudCheck({
+    referrerId: referrer.id,
+    refereeUserId: referee?.userId,
+    memberId: referrer.id,
+    referralCode: referrer.referralCode,
+    ipHash: click?.ipHash,
+    fingerprint: click?.fingerprint,
+    userAgent: click?.userAgent,
+  }, db);
+}
+
+/**
+ * Store a flagged evaluation (no-op if nothing was flagged)
+ */
+export async function recordFraudCase(
+  db: Prisma.TransactionClient,
+  check: FraudCheck | null,
+  commission: { id: string; memberId: string; creatorId: string; whopMembershipId: string }
+) {
+  const status = getInitialCaseStatus(check);
+  if (!check || !status) return null;
+
+  const fraudCase = await db.fraudCase.create({
+    data: {
+      creatorId: commission.creatorId,
+      memberId: commission.memberId,
+      commissionId: commission.id,
+      refereeMembershipId: commission.whopMembershipId,
+      riskScore: check.riskScore,
+      riskLevel: check.riskLevel,
+      flags: check.flags as unknown as Prisma.InputJsonValue,
+      status,
+    },
+  });
+
+  if (status === 'open') {
+    logger.warn(`⚠️ Commission ${commission.id} held for fraud review (risk ${check.riskScore}: ${check.flags.map(f => f.type).join(', ')})`);
+  }
+
+  return fraudCase;
+}
@@ -0,0 +1,198 @@
+// lib/fraud/fraud-review.ts
+
+/**
+ * Fraud Review
+ *
+ * Creator/admin decisions on open fraud cases (lib/fraud/fraud-cases.ts):
+ * - approve:   release the held commission back into clearing (paid in the next payout run once cleared)
+ * - whitelist: approve, trust the member from now on and release their other open cases
+ * - reject:    reverse the commission through the ledger (it no longer counts
+ *              as referred revenue), undo its referral counters and revoke a
+ *              first referral bonus it triggered
+ *
+ * Every decision writes an AuditLog row.
+ */
+
+import type { FraudCase, Prisma } from '@prisma/client';
+import { startOfMonth } from 'date-fns';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { buildCommissionRejectionPosting, postLedgerTransaction } from '../ledger/commission-ledger';
+import { getNetMemberShare } from '../utils/referral-reassignment';
+import { revokeFirstReferralBonus } from '../utils/first-referral-bonus';
+import { getClearingStatus } from '../utils/commission-clearing';
+
+export class FraudReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FraudReviewError';
+  }
+}
+
+export type FraudReviewAction = 'approve' | 'reject' | 'whitelist';
+
+async function findOpenCase(db: Prisma.TransactionClient, caseId: string, creatorId: string): Promise<FraudCase> {
+  const fraudCase = await db.fraudCase.findUnique({ where: { id: caseId } });
+
+  if (!fraudCase || fraudCase.creatorId !== creatorId) throw new FraudReviewError('Fraud case not found');
+  if (fraudCase.status !== 'open') throw new FraudReviewError(`Case was already ${fraudCase.status}`);
+
+  return fraudCase;
+}
+
+function auditDecision(
+  db: Prisma.TransactionClient,
+  fraudCase: FraudCase,
+  status: string,
+  reviewedBy: string,
+  metadata: Prisma.InputJsonObject
+) {
+  return db.auditLog.create({
+    data: {
+      entity: 'FraudCase',
+      entityId: fraudCase.id,
+      field: 'status',
+      oldValue: fraudCase.status,
+      newValue: status,
+      triggeredBy: 'manual',
+      metadata: { reviewedBy, commissionId: fraudCase.commissionId, ...metadata },
+    },
+  });
+}
+
+/**
+ * Approve a case and release the held commission (whitelist: every open case of the member)
+ *
+ * @returns IDs of the commissions that already cleared (the rest are still clearing)
+ * @throws FraudReviewError if the case isn't open for this creator
+ */
+export async function approveFraudCase({
+  caseId,
+  creatorId,
+  reviewedBy,
+  note,
+  whitelist = false,
+}: {
+  caseId: string;
+  creatorId: string;
+  reviewedBy: string;
+  note?: string | null;
+  whitelist?: boolean;
+}): Promise<string[]> {
+  const status = whitelist ? 'whitelisted' : 'approved';
+
+  const released = await prisma.$transaction(async (tx) => {
+    const fraudCase = await findOpenCase(tx, caseId, creatorId);
+
+    const cases = whitelist
+      ? await tx.fraudCase.findMany({ where: { memberId: fraudCase.memberId, status: 'open' } })
+      : [fraudCase];
+
+    for (const open of cases) {
+      await tx.fraudCase.update({
+        where: { id: open.id },
+        data: { status, reviewedBy, reviewedAt: new Date(), reviewNote: note?.trim() || null },
+      });
+      await auditDecision(tx, open, status, reviewedBy, { note: note ?? null });
+    }
+
+    if (whitelist) {
+      await tx.member.update({ where: { id: fraudCase.memberId }, data: { fraudWhitelisted: true } });
+    }
+
+    const commissionIds = cases.map(c => c.commissionId).filter((id): id is string => !!id);
+    const held = await tx.commission.findMany({
+      where: { id: { in: commissionIds }, status: 'held' },
+      select: { id: true, clearsAt: true },
+    });
+
+    const cleared: string[] = [];
+    for (const commission of held) {
+      const status = getClearingStatus({ clearsAt: commission.clearsAt });
+      await tx.commission.update({ where: { id: commission.id }, data: { status } });
+      if (status === 'cleared') cleared.push(commission.id);
+    }
+
+    return cleared;
+  });
+
+  logger.info(`Fraud case ${caseId} ${status} by ${reviewedBy} - ${released.length} cleared commission(s) released to the next payout run`);
+
+  return released;
+}
+
+/**
+ * Reject a case: reverse the held commission and undo what it counted towards
+ *
+ * @returns The member share withheld (reporting currency)
+ * @throws FraudReviewError if the case isn't open for this creator
+ */
+export async function rejectFraudCase({
+  caseId,
+  creatorId,
+  reviewedBy,
+  note,
+}: {
+  caseId: string;
+  creatorId: string;
+  reviewedBy: string;
+  note?: string | null;
+}): Promise<number> {
+  const { commission, savedAmount } = await prisma.$transaction(async (tx) => {
+    const fraudCase = await findOpenCase(tx, caseId, creatorId);
+
+    const commission = fraudCase.commissionId
+      ? await tx.commission.findUnique({ where: { id: fraudCase.commissionId }, include: { refunds: true } })
+      : null;
+
+    if (commission && commission.status === 'paid') {
+      throw new FraudReviewError('Commission was already paid out - record a manual adjustment instead');
+    }
+
+    const savedAmount = commission ? getNetMemberShare(commission) : 0;
+
+    if (commission && commission.status !== 'rejected') {
+      await postLedgerTransaction(tx, buildCommissionRejectionPosting(commission, commission.refunds));
+      await tx.commission.update({
+        where: { id: commission.id },
+        data: { status: 'rejected', failureReason: 'Rejected in fraud review' },
+      });
+
+      // totalReferred / monthlyReferred were counted on the initial commission
+      if (commission.paymentType === 'initial') {
+        const thisMonth = commission.createdAt >= startOfMonth(new Date()) ? 1 : 0;
+
+        await tx.member.update({
+          where: { id: commission.memberId },
+          data: { totalReferred: { decrement: 1 }, monthlyReferred: { decrement: thisMonth } },
+        });
+        await tx.creator.update({
+          where: { id: commission.creatorId },
+          data: { totalReferrals: { decrement: 1 } },
+        });
+      }
+    }
+
+    await tx.fraudCase.update({
+      where: { id: fraudCase.id },
+      data: { status: 'rejected', reviewedBy, reviewedAt: new Date(), reviewNote: note?.trim() || null, savedAmount },
+    });
+    await auditDecision(tx, fraudCase, 'rejected', reviewedBy, { note: note ?? null, savedAmount });
+
+    return { commission, savedAmount };
+  });
+
+  if (commission) {
+    const bonus = await prisma.firstReferralBonus.findUnique({
+      where: { triggeringCommissionId: commission.id },
+      select: { memberId: true },
+    });
+    if (bonus) {
+      await revokeFirstReferralBonus(bonus.memberId, 'Triggering commission rejected in fraud review');
+    }
+  }
+
+  logger.warn(`Fraud case ${caseId} rejected by ${reviewedBy} - $${savedAmount.toFixed(2)} withheld`);
+
+  return savedAmount;
+}
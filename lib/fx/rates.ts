@@ -0,0 +1,163 @@
+// lib/fx/rates.ts
+/**
+ * FX Rates
+ *
+ * Stored daily rates used to normalize sales into the reporting currency.
+ * Rates are fetched from the provider by the update-fx-rates cron and kept in
+ * the FxRate table, so every conversion can be traced back to the exact rate
+ * that was applied. Commissions snapshot the rate they were converted at.
+ *
+ * Provider: ECB reference rates via Frankfurter (override with FX_RATES_API_URL).
+ */
+
+import { startOfDay, subDays } from 'date-fns';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { CURRENCY_SETTINGS } from '../constants/metrics';
+
+const FX_RATES_API_URL = process.env.FX_RATES_API_URL || 'https://api.frankfurter.app/latest';
+
+const REPORTING_CURRENCY = CURRENCY_SETTINGS.REPORTING_CURRENCY;
+
+interface ProviderRatesResponse {
+  base: string;
+  date: string; // YYYY-MM-DD
+  rates: Record<string, number>; // Units of currency per 1 unit of base
+}
+
+export class FxRateUnavailableError extends Error {
+  constructor(public currency: string, public at: Date) {
+    super(`No ${currency}/${REPORTING_CURRENCY} FX rate available for ${at.toISOString().slice(0, 10)}`);
+    this.name = 'FxRateUnavailableError';
+  }
+}
+
+/**
+ * Upper-case ISO 4217 code (missing currency = reporting currency)
+ */
+export function normalizeCurrency(currency?: string | null): string {
+  return currency ? currency.trim().toUpperCase() : REPORTING_CURRENCY;
+}
+
+export function isReportingCurrency(currency?: string | null): boolean {
+  return normalizeCurrency(currency) === REPORTING_CURRENCY;
+}
+
+/**
+ * Store a rate for a day (replaces any rate already stored for that day)
+ */
+export async function upsertFxRate(
+  {
+    currency,
+    rate,
+    effectiveDate,
+    source = 'provider',
+  }: {
+    currency: string;
+    rate: number;
+    effectiveDate: Date;
+    source?: 'provider' | 'manual';
+  },
+  db: Prisma.TransactionClient = prisma
+) {
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Invalid FX rate for ${currency}: ${rate}`);
+  }
+
+  const key = {
+    currency: normalizeCurrency(currency),
+    reportingCurrency: REPORTING_CURRENCY,
+    effectiveDate: startOfDay(effectiveDate),
+  };
+
+  return db.fxRate.upsert({
+    where: { currency_reportingCurrency_effectiveDate: key },
+    create: { ...key, rate, source },
+    update: { rate, source },
+  });
+}
+
+/**
+ * Fetch the latest rates from the provider and store them
+ *
+ * @param db - Where to store them (a dry run's transaction keeps them out of the table)
+ */
+export async function refreshFxRates(
+  db: Prisma.TransactionClient = prisma
+): Promise<{ effectiveDate: Date; updated: number }> {
+  const response = await fetch(`${FX_RATES_API_URL}?from=${REPORTING_CURRENCY}`);
+
+  if (!response.ok) {
+    throw new Error(`FX rate provider returned HTTP ${response.status}`);
+  }
+
+  const data: ProviderRatesResponse = await response.json();
+  const effectiveDate = new Date(`${data.date}T00:00:00Z`);
+  let updated = 0;
+
+  for (const [currency, quote] of Object.entries(data.rates)) {
+    // Provider quotes currency per reporting unit; we store reporting per currency unit
+    if (!quote) continue;
+    await upsertFxRate({ currency, rate: 1 / quote, effectiveDate }, db);
+    updated++;
+  }
+
+  logger.info(`FX rates refreshed: ${updated} currencies for ${data.date}`);
+  return { effectiveDate, updated };
+}
+
+/**
+ * Rate to convert `currency` into the reporting currency at a point in time
+ *
+ * Uses the latest stored rate on or before `at`. If none is fresh enough the
+ * provider is queried once and the rates are stored through `db` (so a
+ * dry run's rolled-back transaction writes nothing); throws
+ * FxRateUnavailableError if that fails too, which webhook handlers surface as
+ * a retryable failure.
+ */
+export async function getFxRate(
+  currency: string | null | undefined,
+  {
+    at = new Date(),
+    db = prisma,
+    refresh = true,
+  }: {
+    at?: Date;
+    db?: Prisma.TransactionClient;
+    refresh?: boolean;
+  } = {}
+): Promise<number> {
+  const code = normalizeCurrency(currency);
+  if (code === REPORTING_CURRENCY) return 1;
+
+  const findRate = () =>
+    db.fxRate.findFirst({
+      where: {
+        currency: code,
+        reportingCurrency: REPORTING_CURRENCY,
+        effectiveDate: {
+          lte: at,
+          gte: subDays(startOfDay(at), CURRENCY_SETTINGS.FX_RATE_MAX_AGE_DAYS),
+        },
+      },
+      orderBy: { effectiveDate: 'desc' },
+    });
+
+  let stored = await findRate();
+
+  if (!stored && refresh) {
+    try {
+      await refreshFxRates(db);
+      stored = await findRate();
+    } catch (error) {
+      logger.error(`Failed to refresh FX rates for ${code}:`, error);
+    }
+  }
+
+  if (!stored) {
+    throw new FxRateUnavailableError(code, at);
+  }
+
+  return stored.rate;
+}
@@ -0,0 +1,294 @@
+// lib/invoice/fee-reconciliation.ts
+/**
+ * Platform Fee Reconciliation
+ *
+ * The platform share of a sale reaches us one of two ways: a platform transfer
+ * from the payout run (Commission.platformCollected / platformTransferId) or a
+ * monthly Invoice (Commission.platformFeeInvoiced / invoiceId). Per creator and
+ * month, this compares the share owed (net of refunds) with both and flags:
+ *
+ * - collected_twice:     transferred and invoiced, or invoiced twice for a month
+ * - never_collected:     owed, past the grace period, and neither transferred nor invoiced
+ * - collected_on_refund: more was transferred than is owed after refunds
+ *
+ * All amounts are in the reporting currency. Pure helpers - no database access
+ * (the job is lib/invoice/reconcile-platform-fees.ts).
+ */
+
+import { addDays, endOfMonth, format, startOfMonth } from 'date-fns';
+import type { Prisma } from '@prisma/client';
+import { fromCents, sumCents, toCents } from '../utils/money';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export interface ReconciliationCommission {
+  id: string;
+  whopPaymentId: string;
+  status: string;
+  createdAt: Date;
+  clearsAt: Date | null;
+  platformShare: number;
+  reportingPlatformShare: number | null;
+  platformCollected: boolean;
+  platformTransferId: string | null;
+  reportingPlatformCollectedAmount: number | null;
+  platformFeeInvoiced: boolean;
+  invoiceId: string | null;
+  refunds: Array<{ platformShareReversed: number; reportingPlatformShareReversed: number | null }>;
+}
+
+export interface ReconciliationInvoice {
+  id: string;
+  periodStart: Date;
+  status: string;
+  totalAmount: number | string | Prisma.Decimal;
+  reportingTotalAmount: number | string | Prisma.Decimal | null;
+}
+
+export type ReconciliationIssueType = 'collected_twice' | 'never_collected' | 'collected_on_refund';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  commissionId: string | null; // null for invoice-level issues
+  whopPaymentId: string | null;
+  transferId: string | null;
+  invoiceIds: string[];
+  amount: number;
+  description: string;
+}
+
+export interface ReconciliationPeriod {
+  periodStart: Date;
+  periodEnd: Date;
+  owed: number;
+  collected: number;
+  invoiced: number;
+  difference: number;
+  commissionCount: number;
+  issues: ReconciliationIssue[];
+  balanced: boolean;
+}
+
+export const FEE_RECONCILIATION = {
+  /** Past clearing before an uncollected share is flagged (covers a monthly payout run) */
+  NEVER_COLLECTED_GRACE_DAYS: 35,
+  /** Months before the current one the daily job rebuilds */
+  LOOKBACK_MONTHS: 3,
+} as const;
+
+// Sales the platform share isn't owed on (yet)
+const NOT_OWED_STATUSES = ['pending', 'held', 'rejected'];
+
+// ========================================
+// PER COMMISSION
+// ========================================
+
+/**
+ * Platform share left after refunds, in both currencies - what the payout run
+ * collects and, once the sale has cleared, what is owed
+ */
+export function getPlatformShareAfterRefunds(commission: Pick<ReconciliationCommission, 'platformShare' | 'reportingPlatformShare' | 'refunds'>): {
+  amount: number;
+  reportingAmount: number;
+} {
+  const reversed = sumCents(commission.refunds.map(refund => toCents(refund.platformShareReversed)));
+  const reportingReversed = sumCents(commission.refunds.map(refund =>
+    toCents(refund.reportingPlatformShareReversed ?? refund.platformShareReversed)
+  ));
+
+  return {
+    amount: fromCents(Math.max(0, toCents(commission.platformShare) - reversed)),
+    reportingAmount: fromCents(Math.max(0, toCents(commission.reportingPlatformShare ?? commission.platformShare) - reportingReversed)),
+  };
+}
+
+/**
+ * Platform share still owed after refunds (0 while clearing, held or rejected)
+ */
+export function getPlatformFeeOwedCents(commission: ReconciliationCommission): number {
+  if (NOT_OWED_STATUSES.includes(commission.status)) return 0;
+
+  return toCents(getPlatformShareAfterRefunds(commission).reportingAmount);
+}
+
+/**
+ * Platform share taken by transfer - net of the refunds recorded before it was
+ * collected (shares collected before that was stored went out in full)
+ */
+export function getPlatformFeeCollectedCents(commission: ReconciliationCommission): number {
+  if (!commission.platformCollected) return 0;
+
+  return toCents(commission.reportingPlatformCollectedAmount ?? commission.reportingPlatformShare ?? commission.platformShare);
+}
+
+/**
+ * Gaps on a single commission
+ */
+export function findReconciliationIssues(commission: ReconciliationCommission, now: Date = new Date()): ReconciliationIssue[] {
+  const issues: ReconciliationIssue[] = [];
+  const owedCents = getPlatformFeeOwedCents(commission);
+  const collectedCents = getPlatformFeeCollectedCents(commission);
+  const base = {
+    commissionId: commission.id,
+    whopPaymentId: commission.whopPaymentId,
+    transferId: commission.platformTransferId,
+    invoiceIds: commission.invoiceId ? [commission.invoiceId] : [],
+  };
+
+  if (commission.platformCollected && commission.platformFeeInvoiced) {
+    issues.push({
+      ...base,
+      type: 'collected_twice',
+      amount: fromCents(collectedCents),
+      description: 'Platform share was transferred and also invoiced',
+    });
+  }
+
+  if (collectedCents > owedCents) {
+    issues.push({
+      ...base,
+      type: 'collected_on_refund',
+      amount: fromCents(collectedCents - owedCents),
+      description: owedCents === 0
+        ? 'Platform share was transferred on a sale that was fully refunded'
+        : 'Platform share was transferred before part of the sale was refunded',
+    });
+  }
+
+  const dueBy = addDays(commission.clearsAt ?? commission.createdAt, FEE_RECONCILIATION.NEVER_COLLECTED_GRACE_DAYS);
+  if (owedCents > 0 && !commission.platformCollected && !commission.platformFeeInvoiced && dueBy <= now) {
+    issues.push({
+      ...base,
+      type: 'never_collected',
+      amount: fromCents(owedCents),
+      description: `Platform share owed since ${format(commission.clearsAt ?? commission.createdAt, 'MMM d, yyyy')} was never transferred or invoiced`,
+    });
+  }
+
+  return issues;
+}
+
+// ========================================
+// PER PERIOD
+// ========================================
+
+function getInvoiceAmountCents(invoice: ReconciliationInvoice): number {
+  return toCents(invoice.reportingTotalAmount ?? invoice.totalAmount);
+}
+
+/**
+ * One row per month with sales or invoices, oldest first
+ * Cancelled invoices are ignored.
+ */
+export function buildReconciliationPeriods(
+  commissions: ReconciliationCommission[],
+  invoices: ReconciliationInvoice[],
+  now: Date = new Date()
+): ReconciliationPeriod[] {
+  const periods = new Map<number, { commissions: ReconciliationCommission[]; invoices: ReconciliationInvoice[] }>();
+  const periodOf = (date: Date) => {
+    const key = startOfMonth(date).getTime();
+    const period = periods.get(key) ?? { commissions: [], invoices: [] };
+    periods.set(key, period);
+    return period;
+  };
+
+  commissions.forEach(commission => periodOf(commission.createdAt).commissions.push(commission));
+  invoices
+    .filter(invoice => invoice.status !== 'cancelled')
+    .forEach(invoice => periodOf(invoice.periodStart).invoices.push(invoice));
+
+  return Array.from(periods.keys())
+    .sort((a, b) => a - b)
+    .map(key => {
+      const period = periods.get(key)!;
+      const periodStart = new Date(key);
+
+      const owedCents = sumCents(period.commissions.map(getPlatformFeeOwedCents));
+      const collectedCents = sumCents(period.commissions.map(getPlatformFeeCollectedCents));
+      const invoicedCents = sumCents(period.invoices.map(getInvoiceAmountCents));
+
+      const issues = period.commissions.flatMap(commission => findReconciliationIssues(commission, now));
+
+      if (period.invoices.length > 1) {
+        issues.push({
+          type: 'collected_twice',
+          commissionId: null,
+          whopPaymentId: null,
+          transferId: null,
+          invoiceIds: period.invoices.map(invoice => invoice.id),
+          amount: fromCents(invoicedCents - Math.max(...period.invoices.map(getInvoiceAmountCents))),
+          description: `${period.invoices.length} invoices issued for ${format(periodStart, 'MMM yyyy')}`,
+        });
+      }
+
+      const differenceCents = collectedCents + invoicedCents - owedCents;
+
+      return {
+        periodStart,
+        periodEnd: endOfMonth(periodStart),
+        owed: fromCents(owedCents),
+        collected: fromCents(collectedCents),
+        invoiced: fromCents(invoicedCents),
+        difference: fromCents(differenceCents),
+        commissionCount: period.commissions.length,
+        issues,
+        balanced: issues.length === 0 && differenceCents === 0,
+      };
+    });
+}
+
+// ========================================
+// EXPORT
+// ========================================
+
+function csvText(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Statement CSV: one summary row per creator and month, then one row per issue
+ */
+export function toReconciliationCsv(
+  statements: Array<{ creatorName: string; companyId: string } & Omit<ReconciliationPeriod, 'periodEnd' | 'commissionCount'>>
+): string {
+  const rows: string[] = [
+    ['Creator', 'Company ID', 'Period', 'Owed', 'Collected', 'Invoiced', 'Difference', 'Issues', 'Balanced'].join(','),
+  ];
+
+  for (const statement of statements) {
+    rows.push([
+      csvText(statement.creatorName),
+      statement.companyId,
+      format(statement.periodStart, 'yyyy-MM'),
+      statement.owed.toFixed(2),
+      statement.collected.toFixed(2),
+      statement.invoiced.toFixed(2),
+      statement.difference.toFixed(2),
+      statement.issues.length,
+      statement.balanced ? 'yes' : 'no',
+    ].join(','));
+  }
+
+  rows.push('');
+  rows.push(['Creator', 'Period', 'Issue', 'Payment ID', 'Amount', 'Transfer ID', 'Invoice IDs', 'Description'].join(','));
+
+  for (const statement of statements) {
+    for (const issue of statement.issues) {
+      rows.push([
+        csvText(statement.creatorName),
+        format(statement.periodStart, 'yyyy-MM'),
+        issue.type,
+        issue.whopPaymentId ?? '',
+        issue.amount.toFixed(2),
+        issue.transferId ?? '',
+        issue.invoiceIds.join(' '),
+        csvText(issue.description),
+      ].join(','));
+    }
+  }
+
+  return rows.join('\n');
+}
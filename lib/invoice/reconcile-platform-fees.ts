@@ -0,0 +1,182 @@
+// lib/invoice/reconcile-platform-fees.ts
+/**
+ * Platform Fee Reconciliation Job
+ *
+ * Daily job that rebuilds each creator's reconciliation for the current month
+ * and the FEE_RECONCILIATION.LOOKBACK_MONTHS before it (refunds and late
+ * collections keep changing recent months) and stores one
+ * PlatformFeeReconciliation row per creator and month.
+ *
+ * The admin report lists them and exports the statement as CSV
+ * (replaces reconciling scripts/export-invoices.ts output by hand).
+ */
+
+import type { Prisma } from '@prisma/client';
+import { startOfMonth, subMonths } from 'date-fns';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import {
+  buildReconciliationPeriods,
+  FEE_RECONCILIATION,
+  toReconciliationCsv,
+  type ReconciliationIssue,
+} from './fee-reconciliation';
+
+export interface FeeReconciliationResult {
+  creators: number;
+  periods: number;
+  issues: number;
+  errors: number;
+}
+
+/**
+ * Reconcile every creator with sales or invoices in the lookback window
+ */
+export async function reconcilePlatformFees(now: Date = new Date()): Promise<FeeReconciliationResult> {
+  const result: FeeReconciliationResult = { creators: 0, periods: 0, issues: 0, errors: 0 };
+  const since = startOfMonth(subMonths(now, FEE_RECONCILIATION.LOOKBACK_MONTHS));
+
+  const creators = await prisma.creator.findMany({
+    where: {
+      OR: [
+        { commissions: { some: { createdAt: { gte: since } } } },
+        { invoices: { some: { periodStart: { gte: since } } } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  for (const creator of creators) {
+    result.creators++;
+
+    try {
+      const saved = await reconcileCreator(creator.id, since, now);
+      result.periods += saved.periods;
+      result.issues += saved.issues;
+    } catch (error) {
+      result.errors++;
+      logger.error(`Error reconciling platform fees for creator ${creator.id}:`, error);
+    }
+  }
+
+  logger.info(
+    `Platform fee reconciliation: ${result.periods} periods across ${result.creators} creators, ` +
+    `${result.issues} issues, ${result.errors} errors`
+  );
+
+  return result;
+}
+
+async function reconcileCreator(creatorId: string, since: Date, now: Date) {
+  const [commissions, invoices] = await Promise.all([
+    prisma.commission.findMany({
+      where: { creatorId, createdAt: { gte: since } },
+      select: {
+        id: true,
+        whopPaymentId: true,
+        status: true,
+        createdAt: true,
+        clearsAt: true,
+        platformShare: true,
+        reportingPlatformShare: true,
+        platformCollected: true,
+        platformTransferId: true,
+        reportingPlatformCollectedAmount: true,
+        platformFeeInvoiced: true,
+        invoiceId: true,
+        refunds: { select: { platformShareReversed: true, reportingPlatformShareReversed: true } },
+      },
+    }),
+    prisma.invoice.findMany({
+      where: { creatorId, periodStart: { gte: since } },
+      select: { id: true, periodStart: true, status: true, totalAmount: true, reportingTotalAmount: true },
+    }),
+  ]);
+
+  const periods = buildReconciliationPeriods(commissions, invoices, now);
+
+  for (const period of periods) {
+    const data = {
+      periodEnd: period.periodEnd,
+      owed: period.owed,
+      collected: period.collected,
+      invoiced: period.invoiced,
+      difference: period.difference,
+      commissionCount: period.commissionCount,
+      issues: period.issues as unknown as Prisma.InputJsonValue,
+      issueCount: period.issues.length,
+      balanced: period.balanced,
+      reconciledAt: now,
+    };
+
+    await prisma.platformFeeReconciliation.upsert({
+      where: { creatorId_periodStart: { creatorId, periodStart: period.periodStart } },
+      create: { ...data, creatorId, periodStart: period.periodStart },
+      update: data,
+    });
+
+    if (period.issues.length > 0) {
+      logger.warn(
+        `⚠️ Platform fee gaps for creator ${creatorId} (${period.periodStart.toISOString().slice(0, 7)}): ` +
+        `${period.issues.map(issue => issue.type).join(', ')}`
+      );
+    }
+  }
+
+  return { periods: periods.length, issues: periods.reduce((sum, period) => sum + period.issues.length, 0) };
+}
+
+// ========================================
+// ADMIN REPORT
+// ========================================
+
+/**
+ * Stored reconciliations, newest month first
+ */
+export async function listFeeReconciliations({
+  creatorId,
+  issuesOnly = false,
+  limit = 200,
+}: {
+  creatorId?: string;
+  issuesOnly?: boolean;
+  limit?: number;
+} = {}) {
+  const rows = await prisma.platformFeeReconciliation.findMany({
+    where: {
+      ...(creatorId && { creatorId }),
+      ...(issuesOnly && { balanced: false }),
+    },
+    include: { creator: { select: { companyName: true, companyId: true } } },
+    orderBy: [{ periodStart: 'desc' }, { issueCount: 'desc' }],
+    take: limit,
+  });
+
+  return rows.map(row => ({ ...row, issues: row.issues as unknown as ReconciliationIssue[] }));
+}
+
+/**
+ * Per-creator statement as CSV (oldest month first, like an account statement)
+ */
+export async function exportFeeReconciliationCsv(options: { creatorId?: string; issuesOnly?: boolean } = {}) {
+  const rows = await listFeeReconciliations({ ...options, limit: 5000 });
+
+  return toReconciliationCsv(
+    rows
+      .sort((a, b) =>
+        a.creator.companyName.localeCompare(b.creator.companyName) ||
+        a.periodStart.getTime() - b.periodStart.getTime()
+      )
+      .map(row => ({
+        creatorName: row.creator.companyName,
+        companyId: row.creator.companyId,
+        periodStart: row.periodStart,
+        owed: row.owed,
+        collected: row.collected,
+        invoiced: row.invoiced,
+        difference: row.difference,
+        issues: row.issues,
+        balanced: row.balanced,
+      }))
+  );
+}
@@ -12,6 +12,8 @@ import { calculateValueMetrics } from './value-calculator';
 import { prisma } from '../db/prisma';
 import logger from '../logger';
 import { startOfMonth, endOfMonth, subMonths, format } from 'date-fns';
+import { toCents, toDecimal } from '../utils/money';
+import { formatCurrency } from '../constants/metrics';
 
 export interface SimpleInvoiceResult {
   creator: string;
@@ -92,7 +94,7 @@ export async function generateSimpleInvoices(): Promise<SimpleInvoiceResults> {
         console.log(`  Organic: ${metrics.organicSalesCount} sales → $${metrics.organicRevenue.toFixed(2)}`);
         console.log(`  Referred: ${metrics.referredSalesCount} sales → $${metrics.referredRevenue.toFixed(2)}`);
         console.log(`  Creator gained: $${metrics.additionalRevenueGenerated.toFixed(2)}`);
-        console.log(`  Platform fee: $${metrics.platformFeesOwed.toFixed(2)}`);
+        console.log(`  Platform fee: ${formatCurrency(metrics.platformFeesOwed, metrics.currency)}`);
         console.log(`  Net benefit: $${metrics.netBenefit.toFixed(2)}`);
         console.log(`  ROI: ${metrics.roiOnPlatformFee.toFixed(1)}x`);
         console.log(`  Should invoice: ${metrics.shouldInvoice}`);
@@ -102,7 +104,7 @@ export async function generateSimpleInvoices(): Promise<SimpleInvoiceResults> {
           const reason =
             metrics.referredSalesCount === 0
               ? 'No referred sales this month'
-              : `Amount below minimum ($${metrics.platformFeesOwed.toFixed(2)} < $10)`;
+              : `Amount below minimum ($${metrics.platformFeesOwedReporting.toFixed(2)} < $10)`;
 
           console.log(`  ⏭️  Skipping - ${reason}`);
 
@@ -125,15 +127,18 @@ export async function generateSimpleInvoices(): Promise<SimpleInvoiceResults> {
             periodStart: lastMonth.start,
             periodEnd: lastMonth.end,
             status: 'pending',
-            totalAmount: metrics.platformFeesOwed,
+            totalAmount: toDecimal(toCents(metrics.platformFeesOwed)),
             salesCount: metrics.referredSalesCount,
-            referredSalesTotal: metrics.referredRevenue,
-            organicSalesTotal: metrics.organicRevenue,
-            creatorGainFromReferrals: metrics.additionalRevenueGenerated,
-            totalRevenueWithApp: metrics.revenueWithApp,
-            totalRevenueWithoutApp: metrics.revenueWithoutApp,
-            additionalRevenue: metrics.additionalRevenueGenerated,
+            referredSalesTotal: toDecimal(toCents(metrics.referredRevenue)),
+            organicSalesTotal: toDecimal(toCents(metrics.organicRevenue)),
+            creatorGainFromReferrals: toDecimal(toCents(metrics.additionalRevenueGenerated)),
+            totalRevenueWithApp: toDecimal(toCents(metrics.revenueWithApp)),
+            totalRevenueWithoutApp: toDecimal(toCents(metrics.revenueWithoutApp)),
+            additionalRevenue: toDecimal(toCents(metrics.additionalRevenueGenerated)),
             percentageGrowth: metrics.percentageGrowth,
+            currency: metrics.currency,
+            fxRate: metrics.fxRate,
+            reportingTotalAmount: toDecimal(toCents(metrics.platformFeesOwedReporting)),
             // No Stripe fields - manual invoicing
             stripeInvoiceId: null,
             stripeInvoiceUrl: null,
@@ -7,12 +7,20 @@
 
 import { prisma } from '../db/prisma';
 import logger from '../logger';
+import { BASE_RATES } from '../constants/commission';
+import { CURRENCY_SETTINGS, formatCurrency } from '../constants/metrics';
+import { toCents, fromCents, sumCents, applyRate } from '../utils/money';
 
 export interface ValueMetrics {
   // Period
   periodStart: Date;
   periodEnd: Date;
 
+  // Currency the amounts below are in: the sales currency when every sale in
+  // the period used it, otherwise everything is converted to the reporting currency
+  currency: string;
+  fxRate: number; // Reporting currency per 1 unit of `currency` (blended over the period)
+
   // Sales breakdown (leveraging existing memberOrigin field!)
   organicSalesCount: number;
   organicRevenue: number;
@@ -34,6 +42,7 @@ export interface ValueMetrics {
 
   // Platform fees
   platformFeesOwed: number; // 20% of referred sales
+  platformFeesOwedReporting: number; // platformFeesOwed in the reporting currency
   platformFeeAsPercentOfGain: number; // What % of their GAIN we're taking
   netBenefit: number; // Their gain minus our fee
   roiOnPlatformFee: number; // How many X they make for every $1 they pay us
@@ -41,9 +50,17 @@ export interface ValueMetrics {
   // Additional context
   averageOrderValue: number;
   referralRate: number; // % of sales that are referred
-  shouldInvoice: boolean; // True if fees > $10
+  shouldInvoice: boolean; // True if fees >= $10 (in the reporting currency)
 }
 
+type CommissionAmounts = {
+  currency: string;
+  saleAmount: number;
+  platformShare: number;
+  reportingSaleAmount: number | null;
+  reportingPlatformShare: number | null;
+};
+
 /**
  * Calculate value metrics for a creator in a given period
  *
@@ -100,9 +117,24 @@ export async function calculateValueMetrics(
         saleAmount: true,
         platformShare: true,
         whopMembershipId: true,
+        currency: true,
+        reportingSaleAmount: true,
+        reportingPlatformShare: true,
       },
     });
 
+    // Keep the sales currency only when the whole period used one currency
+    const currencies = new Set(allCommissions.map((c) => c.currency));
+    const currency = currencies.size === 1
+      ? Array.from(currencies)[0]
+      : CURRENCY_SETTINGS.REPORTING_CURRENCY;
+    const inInvoiceCurrency = currencies.size === 1;
+
+    const saleOf = (c: CommissionAmounts) =>
+      toCents(inInvoiceCurrency ? c.saleAmount : c.reportingSaleAmount ?? c.saleAmount);
+    const platformShareOf = (c: CommissionAmounts) =>
+      toCents(inInvoiceCurrency ? c.platformShare : c.reportingPlatformShare ?? c.platformShare);
+
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // STEP 3: Separate commissions by member origin
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -123,15 +155,12 @@ export async function calculateValueMetrics(
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // STEP 4: Calculate revenue totals
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    const organicRevenue = organicCommissions.reduce(
-      (sum, c) => sum + Number(c.saleAmount),
-      0
-    );
-    const referredRevenue = referredCommissions.reduce(
-      (sum, c) => sum + Number(c.saleAmount),
-      0
-    );
-    const totalRevenue = organicRevenue + referredRevenue;
+    // Summed in cents so totals match the per-sale splits exactly
+    const organicRevenueCents = sumCents(organicCommissions.map(saleOf));
+    const referredRevenueCents = sumCents(referredCommissions.map(saleOf));
+    const organicRevenue = fromCents(organicRevenueCents);
+    const referredRevenue = fromCents(referredRevenueCents);
+    const totalRevenue = fromCents(organicRevenueCents + referredRevenueCents);
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // STEP 5: Calculate what creator keeps
@@ -140,9 +169,10 @@ export async function calculateValueMetrics(
     const organicRevenueKept = organicRevenue;
 
     // Referred: Creator keeps 70% (we take 20%, member gets 10%)
-    const referredRevenueKept = referredRevenue * 0.7;
+    const referredRevenueKeptCents = applyRate(referredRevenueCents, BASE_RATES.CREATOR);
+    const referredRevenueKept = fromCents(referredRevenueKeptCents);
 
-    const totalRevenueKept = organicRevenueKept + referredRevenueKept;
+    const totalRevenueKept = fromCents(organicRevenueCents + referredRevenueKeptCents);
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // STEP 6: Calculate value proposition
@@ -154,7 +184,7 @@ export async function calculateValueMetrics(
     const revenueWithApp = totalRevenueKept;
 
     // The ADDITIONAL revenue WE generated for them
-    const additionalRevenueGenerated = revenueWithApp - revenueWithoutApp;
+    const additionalRevenueGenerated = referredRevenueKept;
 
     // Percentage growth from using our app
     const percentageGrowth =
@@ -167,10 +197,14 @@ export async function calculateValueMetrics(
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // STEP 7: Calculate platform fees (20% of referred sales)
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-    const platformFeesOwed = referredCommissions.reduce(
-      (sum, c) => sum + Number(c.platformShare),
-      0
+    const platformFeesOwedCents = sumCents(referredCommissions.map(platformShareOf));
+    const platformFeesOwed = fromCents(platformFeesOwedCents);
+
+    const platformFeesOwedReportingCents = sumCents(
+      referredCommissions.map((c) => toCents(c.reportingPlatformShare ?? c.platformShare))
     );
+    const platformFeesOwedReporting = fromCents(platformFeesOwedReportingCents);
+    const fxRate = platformFeesOwedCents > 0 ? platformFeesOwedReportingCents / platformFeesOwedCents : 1;
 
     // What % of their GAIN are we taking?
     const platformFeeAsPercentOfGain =
@@ -182,7 +216,7 @@ export async function calculateValueMetrics(
     // STEP 8: Calculate ROI on our fee
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // How much value do they get for every $1 they pay us?
-    const netBenefit = additionalRevenueGenerated - platformFeesOwed;
+    const netBenefit = fromCents(referredRevenueKeptCents - platformFeesOwedCents);
     const roiOnPlatformFee =
       platformFeesOwed > 0 ? additionalRevenueGenerated / platformFeesOwed : 0;
 
@@ -190,7 +224,7 @@ export async function calculateValueMetrics(
     // STEP 9: Determine if should invoice
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     const MINIMUM_INVOICE_AMOUNT = 10;
-    const shouldInvoice = platformFeesOwed >= MINIMUM_INVOICE_AMOUNT;
+    const shouldInvoice = platformFeesOwedReporting >= MINIMUM_INVOICE_AMOUNT;
 
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // STEP 10: Additional metrics
@@ -207,6 +241,8 @@ export async function calculateValueMetrics(
     const metrics: ValueMetrics = {
       periodStart,
       periodEnd,
+      currency,
+      fxRate,
       organicSalesCount: organicCommissions.length,
       organicRevenue,
       referredSalesCount: referredCommissions.length,
@@ -221,6 +257,7 @@ export async function calculateValueMetrics(
       additionalRevenueGenerated,
       percentageGrowth,
       platformFeesOwed,
+      platformFeesOwedReporting,
       platformFeeAsPercentOfGain,
       netBenefit,
       roiOnPlatformFee,
@@ -235,9 +272,9 @@ export async function calculateValueMetrics(
         periodEnd.toISOString().split('T')[0]
       }`,
       referredSales: referredCommissions.length,
-      additionalRevenue: `$${additionalRevenueGenerated.toFixed(2)}`,
-      platformFees: `$${platformFeesOwed.toFixed(2)}`,
-      netBenefit: `$${netBenefit.toFixed(2)}`,
+      additionalRevenue: formatCurrency(additionalRevenueGenerated, currency),
+      platformFees: formatCurrency(platformFeesOwed, currency),
+      netBenefit: formatCurrency(netBenefit, currency),
       roi: `${roiOnPlatformFee.toFixed(1)}x`,
       shouldInvoice,
     });
@@ -0,0 +1,794 @@
+// lib/ledger/commission-ledger.ts
+/**
+ * Commission Ledger
+ *
+ * Append-only double-entry record of every money movement in the referral
+ * program. Each posting is a set of legs that share a transactionId and sum
+ * to zero, so money can only move between accounts - never appear or vanish.
+ *
+ * Accounts (amounts are signed, positive = credit):
+ * - referred_sales:   source of every referred sale (per creator)
+ * - member_payable:   earned by a member and not yet paid out
+ * - member_payouts:   sent to a member via Whop transfers
+ * - creator_revenue:  creator's share of referred sales
+ * - platform_revenue: platform's share (absorbs rounding, like calculateTieredCommission)
+ * - bonus_expense:    funds first referral bonuses
+ * - adjustments:      offset for manual corrections
+ * - reassignments:    clearing account for referral reassignments (nets to zero)
+ *
+ * All amounts are in the reporting currency (CURRENCY_SETTINGS.REPORTING_CURRENCY):
+ * commissions and refunds post their reporting* columns, falling back to the
+ * original amounts for rows that predate multi-currency (all USD).
+ *
+ * Member.lifetimeEarnings/monthlyEarnings and Creator.totalRevenue/monthlyRevenue
+ * are a cache of these balances. Only postLedgerTransaction() writes them, in
+ * the same transaction as the legs, and reconcileLedgerCaches() rebuilds them.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { startOfMonth } from 'date-fns';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { toCents, fromCents, roundDollars } from '../utils/money';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export enum LedgerEntryType {
+  EARNED = 'earned',
+  REVERSED = 'reversed',
+  PAID_OUT = 'paid_out',
+  BONUS = 'bonus',
+  ADJUSTMENT = 'adjustment',
+}
+
+export enum LedgerAccount {
+  REFERRED_SALES = 'referred_sales',
+  MEMBER_PAYABLE = 'member_payable',
+  MEMBER_PAYOUTS = 'member_payouts',
+  CREATOR_REVENUE = 'creator_revenue',
+  PLATFORM_REVENUE = 'platform_revenue',
+  BONUS_EXPENSE = 'bonus_expense',
+  ADJUSTMENTS = 'adjustments',
+  REASSIGNMENTS = 'reassignments',
+}
+
+export interface LedgerLeg {
+  account: LedgerAccount;
+  amount: number;
+  memberId?: string | null;
+  creatorId: string;
+}
+
+export interface LedgerPosting {
+  transactionId: string;
+  entryType: LedgerEntryType;
+  description?: string;
+  commissionId?: string;
+  refundId?: string;
+  firstReferralBonusId?: string;
+  createdAt?: Date; // Backfills keep the source record's timestamp
+  legs: LedgerLeg[];
+}
+
+export interface MemberLedgerBalance {
+  earnings: number; // Net earned: commissions + bonuses + adjustments - reversals
+  paidOut: number;
+  payable: number; // Earned but not yet paid out
+}
+
+export interface CreatorLedgerBalance {
+  referredRevenue: number; // Gross referred sales net of refunds
+  creatorEarnings: number;
+  platformFees: number;
+}
+
+export interface LedgerCacheDiscrepancy {
+  entity: 'Member' | 'Creator';
+  id: string;
+  field: 'lifetimeEarnings' | 'monthlyEarnings' | 'totalRevenue' | 'monthlyRevenue';
+  cached: number;
+  ledger: number;
+}
+
+export class LedgerImbalanceError extends Error {
+  constructor(public transactionId: string, public imbalance: number) {
+    super(`Ledger posting ${transactionId} is unbalanced by ${imbalance.toFixed(2)}`);
+    this.name = 'LedgerImbalanceError';
+  }
+}
+
+export class LedgerConflictError extends Error {
+  constructor(public transactionId: string, public inserted: number, public expected: number) {
+    super(`Ledger posting ${transactionId} was partly posted (${inserted} of ${expected} legs) - legs collide on (transactionId, account)`);
+    this.name = 'LedgerConflictError';
+  }
+}
+
+// Float sums in the database carry noise - half a cent or more is a real imbalance
+const BALANCE_TOLERANCE = 0.005;
+
+// Entry types that change what a member has earned (payouts only move it)
+const EARNING_ENTRY_TYPES = [
+  LedgerEntryType.EARNED,
+  LedgerEntryType.REVERSED,
+  LedgerEntryType.BONUS,
+  LedgerEntryType.ADJUSTMENT,
+];
+
+// ========================================
+// PURE HELPERS
+// ========================================
+
+/**
+ * Sum of all legs - zero for a valid posting
+ */
+export function getImbalance(legs: LedgerLeg[]): number {
+  return fromCents(legs.reduce((sum, leg) => sum + toCents(leg.amount), 0));
+}
+
+export function isBalanced(legs: LedgerLeg[]): boolean {
+  return getImbalance(legs) === 0;
+}
+
+/**
+ * How a posting moves the cached counters
+ * (member earnings per memberId, referred revenue per creatorId)
+ */
+export function getCacheDeltas(posting: LedgerPosting) {
+  const memberEarnings = new Map<string, number>();
+  const creatorRevenue = new Map<string, number>();
+
+  for (const leg of posting.legs) {
+    if (
+      leg.account === LedgerAccount.MEMBER_PAYABLE &&
+      leg.memberId &&
+      posting.entryType !== LedgerEntryType.PAID_OUT
+    ) {
+      memberEarnings.set(leg.memberId, roundDollars((memberEarnings.get(leg.memberId) || 0) + leg.amount));
+    }
+
+    if (leg.account === LedgerAccount.REFERRED_SALES) {
+      // referred_sales is debited when a sale comes in, so revenue is the negated balance
+      creatorRevenue.set(leg.creatorId, roundDollars((creatorRevenue.get(leg.creatorId) || 0) - leg.amount));
+    }
+  }
+
+  return { memberEarnings, creatorRevenue };
+}
+
+// ========================================
+// POSTING BUILDERS
+// ========================================
+
+type CommissionForLedger = {
+  id: string;
+  memberId: string;
+  creatorId: string;
+  saleAmount: number;
+  memberShare: number;
+  creatorShare: number;
+  platformShare: number;
+  reportingSaleAmount?: number | null;
+  reportingMemberShare?: number | null;
+  reportingCreatorShare?: number | null;
+  createdAt?: Date;
+  paidAt?: Date | null;
+  balanceOffset?: number;
+};
+
+type RefundForLedger = {
+  id: string;
+  refundAmount: number;
+  memberShareReversed: number;
+  creatorShareReversed: number;
+  reportingRefundAmount?: number | null;
+  reportingMemberShareReversed?: number | null;
+  reportingCreatorShareReversed?: number | null;
+  refundedAt?: Date;
+};
+
+type BonusForLedger = {
+  id: string;
+  memberId: string;
+  bonusAmount: number;
+  createdAt?: Date;
+};
+
+/**
+ * Referred sale: split the sale between member, creator and platform
+ */
+export function buildCommissionEarnedPosting(commission: CommissionForLedger): LedgerPosting {
+  const { id, memberId, creatorId } = commission;
+  const sale = toCents(commission.reportingSaleAmount ?? commission.saleAmount);
+  const memberShare = toCents(commission.reportingMemberShare ?? commission.memberShare);
+  const creatorShare = toCents(commission.reportingCreatorShare ?? commission.creatorShare);
+
+  return {
+    transactionId: `commission:${id}:earned`,
+    entryType: LedgerEntryType.EARNED,
+    commissionId: id,
+    createdAt: commission.createdAt,
+    legs: [
+      { account: LedgerAccount.REFERRED_SALES, amount: fromCents(-sale), creatorId },
+      { account: LedgerAccount.MEMBER_PAYABLE, amount: fromCents(memberShare), memberId, creatorId },
+      { account: LedgerAccount.CREATOR_REVENUE, amount: fromCents(creatorShare), creatorId },
+      { account: LedgerAccount.PLATFORM_REVENUE, amount: fromCents(sale - memberShare - creatorShare), creatorId },
+    ],
+  };
+}
+
+/**
+ * Refund: reverse the (possibly partial) split of the original sale
+ */
+export function buildRefundReversalPosting(
+  refund: RefundForLedger,
+  commission: Pick<CommissionForLedger, 'id' | 'memberId' | 'creatorId'>
+): LedgerPosting {
+  const { memberId, creatorId } = commission;
+  const refundAmount = toCents(refund.reportingRefundAmount ?? refund.refundAmount);
+  const memberShare = toCents(refund.reportingMemberShareReversed ?? refund.memberShareReversed);
+  const creatorShare = toCents(refund.reportingCreatorShareReversed ?? refund.creatorShareReversed);
+
+  return {
+    transactionId: `refund:${refund.id}:reversed`,
+    entryType: LedgerEntryType.REVERSED,
+    commissionId: commission.id,
+    refundId: refund.id,
+    createdAt: refund.refundedAt,
+    legs: [
+      { account: LedgerAccount.REFERRED_SALES, amount: fromCents(refundAmount), creatorId },
+      { account: LedgerAccount.MEMBER_PAYABLE, amount: fromCents(-memberShare), memberId, creatorId },
+      { account: LedgerAccount.CREATOR_REVENUE, amount: fromCents(-creatorShare), creatorId },
+      { account: LedgerAccount.PLATFORM_REVENUE, amount: fromCents(memberShare + creatorShare - refundAmount), creatorId },
+    ],
+  };
+}
+
+/**
+ * Commission rejected in fraud review: reverse what is left of the split
+ * after any refunds, so the sale no longer counts as referred
+ */
+export function buildCommissionRejectionPosting(
+  commission: CommissionForLedger,
+  refunds: RefundForLedger[] = []
+): LedgerPosting {
+  const { id, memberId, creatorId } = commission;
+  const refunded = (pick: (refund: RefundForLedger) => number) =>
+    refunds.reduce((sum, refund) => sum + toCents(pick(refund)), 0);
+
+  const sale = toCents(commission.reportingSaleAmount ?? commission.saleAmount)
+    - refunded(refund => refund.reportingRefundAmount ?? refund.refundAmount);
+  const memberShare = toCents(commission.reportingMemberShare ?? commission.memberShare)
+    - refunded(refund => refund.reportingMemberShareReversed ?? refund.memberShareReversed);
+  const creatorShare = toCents(commission.reportingCreatorShare ?? commission.creatorShare)
+    - refunded(refund => refund.reportingCreatorShareReversed ?? refund.creatorShareReversed);
+
+  return {
+    transactionId: `commission:${id}:rejected`,
+    entryType: LedgerEntryType.REVERSED,
+    description: 'Rejected in fraud review',
+    commissionId: id,
+    legs: [
+      { account: LedgerAccount.REFERRED_SALES, amount: fromCents(sale), creatorId },
+      { account: LedgerAccount.MEMBER_PAYABLE, amount: fromCents(-memberShare), memberId, creatorId },
+      { account: LedgerAccount.CREATOR_REVENUE, amount: fromCents(-creatorShare), creatorId },
+      { account: LedgerAccount.PLATFORM_REVENUE, amount: fromCents(memberShare + creatorShare - sale), creatorId },
+    ],
+  };
+}
+
+/**
+ * Member share transferred out to the member (net of refunds before payout,
+ * and of any balanceOffset kept to recover a negative balance)
+ */
+export function buildCommissionPayoutPosting(
+  commission: CommissionForLedger,
+  refunds: RefundForLedger[] = []
+): LedgerPosting {
+  const { id, memberId, creatorId } = commission;
+  const reversed = refunds.reduce(
+    (sum, refund) => sum + toCents(refund.reportingMemberShareReversed ?? refund.memberShareReversed),
+    0
+  );
+  const amount = fromCents(
+    toCents(commission.reportingMemberShare ?? commission.memberShare) - reversed - toCents(commission.balanceOffset ?? 0)
+  );
+
+  return {
+    transactionId: `commission:${id}:paid_out`,
+    entryType: LedgerEntryType.PAID_OUT,
+    commissionId: id,
+    createdAt: commission.paidAt ?? undefined,
+    legs: [
+      { account: LedgerAccount.MEMBER_PAYABLE, amount: -amount, memberId, creatorId },
+      { account: LedgerAccount.MEMBER_PAYOUTS, amount, memberId, creatorId },
+    ],
+  };
+}
+
+/**
+ * First referral bonus awarded (revoked by buildBonusRevocationPosting)
+ */
+export function buildBonusPosting(bonus: BonusForLedger, creatorId: string): LedgerPosting {
+  const amount = roundDollars(bonus.bonusAmount);
+
+  return {
+    transactionId: `bonus:${bonus.id}:bonus`,
+    entryType: LedgerEntryType.BONUS,
+    firstReferralBonusId: bonus.id,
+    createdAt: bonus.createdAt,
+    legs: [
+      { account: LedgerAccount.BONUS_EXPENSE, amount: -amount, creatorId },
+      { account: LedgerAccount.MEMBER_PAYABLE, amount, memberId: bonus.memberId, creatorId },
+    ],
+  };
+}
+
+export function buildBonusRevocationPosting(bonus: BonusForLedger, creatorId: string): LedgerPosting {
+  const amount = roundDollars(bonus.bonusAmount);
+
+  return {
+    transactionId: `bonus:${bonus.id}:reversed`,
+    entryType: LedgerEntryType.REVERSED,
+    firstReferralBonusId: bonus.id,
+    legs: [
+      { account: LedgerAccount.BONUS_EXPENSE, amount, creatorId },
+      { account: LedgerAccount.MEMBER_PAYABLE, amount: -amount, memberId: bonus.memberId, creatorId },
+    ],
+  };
+}
+
+export function buildBonusPayoutPosting(bonus: BonusForLedger, creatorId: string): LedgerPosting {
+  const amount = roundDollars(bonus.bonusAmount);
+
+  return {
+    transactionId: `bonus:${bonus.id}:paid_out`,
+    entryType: LedgerEntryType.PAID_OUT,
+    firstReferralBonusId: bonus.id,
+    legs: [
+      { account: LedgerAccount.MEMBER_PAYABLE, amount: -amount, memberId: bonus.memberId, creatorId },
+      { account: LedgerAccount.MEMBER_PAYOUTS, amount, memberId: bonus.memberId, creatorId },
+    ],
+  };
+}
+
+/**
+ * Manual correction to a member's earnings (positive credits the member)
+ *
+ * @param reference - Unique per correction so the same one is never applied twice
+ */
+export function buildAdjustmentPosting({
+  memberId,
+  creatorId,
+  amount,
+  reference,
+  description,
+}: {
+  memberId: string;
+  creatorId: string;
+  amount: number;
+  reference: string;
+  description?: string;
+}): LedgerPosting {
+  const rounded = roundDollars(amount);
+
+  return {
+    transactionId: `adjustment:${reference}`,
+    entryType: LedgerEntryType.ADJUSTMENT,
+    description,
+    legs: [
+      { account: LedgerAccount.ADJUSTMENTS, amount: -rounded, creatorId },
+      { account: LedgerAccount.MEMBER_PAYABLE, amount: rounded, memberId, creatorId },
+    ],
+  };
+}
+
+/**
+ * Commission moved to a different referrer: transfer its net member share
+ * (after refunds) from the old referrer's payable to the new one's
+ *
+ * Legs are unique per (transactionId, account), so the two member_payable
+ * legs can't share a posting: the share leaves through the reassignments
+ * clearing account in one posting and arrives from it in the other.
+ *
+ * @param reference - Unique per reassignment so replays are no-ops
+ */
+export function buildCommissionReassignmentPostings({
+  commission,
+  fromMemberId,
+  toMemberId,
+  amount,
+  reference,
+}: {
+  commission: Pick<CommissionForLedger, 'id' | 'creatorId'>;
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+  reference: string;
+}): [LedgerPosting, LedgerPosting] {
+  const rounded = roundDollars(amount);
+  const { id, creatorId } = commission;
+  const base = {
+    entryType: LedgerEntryType.ADJUSTMENT,
+    description: 'Referral reassigned',
+    commissionId: id,
+  };
+
+  return [
+    {
+      ...base,
+      transactionId: `commission:${id}:reassigned:${reference}:from`,
+      legs: [
+        { account: LedgerAccount.MEMBER_PAYABLE, amount: -rounded, memberId: fromMemberId, creatorId },
+        { account: LedgerAccount.REASSIGNMENTS, amount: rounded, creatorId },
+      ],
+    },
+    {
+      ...base,
+      transactionId: `commission:${id}:reassigned:${reference}:to`,
+      legs: [
+        { account: LedgerAccount.REASSIGNMENTS, amount: -rounded, creatorId },
+        { account: LedgerAccount.MEMBER_PAYABLE, amount: rounded, memberId: toMemberId, creatorId },
+      ],
+    },
+  ];
+}
+
+// ========================================
+// POSTING
+// ========================================
+
+/**
+ * Append a posting and apply it to the cached counters
+ *
+ * Must run inside the same transaction as the write it records. Postings are
+ * idempotent: re-posting an existing transactionId is a no-op and returns false.
+ *
+ * @throws LedgerConflictError if only some legs were inserted (never leaves
+ * a posting half-applied)
+ * @param options.updateCache - false for backfills (reconcile the cache afterwards)
+ */
+export async function postLedgerTransaction(
+  db: Prisma.TransactionClient,
+  posting: LedgerPosting,
+  { updateCache = true }: { updateCache?: boolean } = {}
+): Promise<boolean> {
+  const imbalance = getImbalance(posting.legs);
+  if (imbalance !== 0) {
+    throw new LedgerImbalanceError(posting.transactionId, imbalance);
+  }
+
+  const legs = posting.legs.filter(leg => leg.amount !== 0);
+  if (legs.length === 0) return false;
+
+  const result = await db.ledgerEntry.createMany({
+    data: legs.map(leg => ({
+      transactionId: posting.transactionId,
+      entryType: posting.entryType,
+      account: leg.account,
+      amount: leg.amount,
+      description: posting.description,
+      memberId: leg.memberId ?? null,
+      creatorId: leg.creatorId,
+      commissionId: posting.commissionId,
+      refundId: posting.refundId,
+      firstReferralBonusId: posting.firstReferralBonusId,
+      ...(posting.createdAt && { createdAt: posting.createdAt }),
+    })),
+    skipDuplicates: true,
+  });
+
+  if (result.count === 0) {
+    logger.debug(`[LEDGER] ${posting.transactionId} already posted`);
+    return false;
+  }
+
+  if (result.count !== legs.length) {
+    throw new LedgerConflictError(posting.transactionId, result.count, legs.length);
+  }
+
+  if (updateCache) {
+    const { memberEarnings, creatorRevenue } = getCacheDeltas(posting);
+
+    for (const [memberId, delta] of Array.from(memberEarnings)) {
+      if (delta === 0) continue;
+      await db.member.update({
+        where: { id: memberId },
+        data: {
+          lifetimeEarnings: { increment: delta },
+          monthlyEarnings: { increment: delta },
+        },
+      });
+    }
+
+    for (const [creatorId, delta] of Array.from(creatorRevenue)) {
+      if (delta === 0) continue;
+      await db.creator.update({
+        where: { id: creatorId },
+        data: {
+          totalRevenue: { increment: delta },
+          monthlyRevenue: { increment: delta },
+        },
+      });
+    }
+  }
+
+  return true;
+}
+
+export function postCommissionEarned(db: Prisma.TransactionClient, commission: CommissionForLedger) {
+  return postLedgerTransaction(db, buildCommissionEarnedPosting(commission));
+}
+
+export function postRefundReversal(
+  db: Prisma.TransactionClient,
+  refund: RefundForLedger,
+  commission: Pick<CommissionForLedger, 'id' | 'memberId' | 'creatorId'>
+) {
+  return postLedgerTransaction(db, buildRefundReversalPosting(refund, commission));
+}
+
+export function postCommissionPaidOut(
+  db: Prisma.TransactionClient,
+  commission: CommissionForLedger,
+  refunds: RefundForLedger[] = []
+) {
+  return postLedgerTransaction(db, buildCommissionPayoutPosting(commission, refunds));
+}
+
+/**
+ * Both halves of a reassignment (see buildCommissionReassignmentPostings)
+ */
+export async function postCommissionReassignment(
+  db: Prisma.TransactionClient,
+  reassignment: Parameters<typeof buildCommissionReassignmentPostings>[0]
+): Promise<boolean> {
+  const [from, to] = buildCommissionReassignmentPostings(reassignment);
+  const postedFrom = await postLedgerTransaction(db, from);
+  const postedTo = await postLedgerTransaction(db, to);
+  return postedFrom || postedTo;
+}
+
+// ========================================
+// BALANCES
+// ========================================
+
+function dateRange(since?: Date, until?: Date): Prisma.DateTimeFilter | undefined {
+  if (!since && !until) return undefined;
+  return {
+    ...(since && { gte: since }),
+    ...(until && { lt: until }),
+  };
+}
+
+/**
+ * Member balances, optionally limited to postings in [since, until)
+ */
+export async function getMemberLedgerBalance(
+  memberId: string,
+  { since, until }: { since?: Date; until?: Date } = {}
+): Promise<MemberLedgerBalance> {
+  const createdAt = dateRange(since, until);
+
+  const [earnings, paidOut] = await Promise.all([
+    prisma.ledgerEntry.aggregate({
+      where: {
+        memberId,
+        account: LedgerAccount.MEMBER_PAYABLE,
+        entryType: { in: EARNING_ENTRY_TYPES },
+        createdAt,
+      },
+      _sum: { amount: true },
+    }),
+    prisma.ledgerEntry.aggregate({
+      where: { memberId, account: LedgerAccount.MEMBER_PAYOUTS, createdAt },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const earned = roundDollars(earnings._sum.amount || 0);
+  const paid = roundDollars(paidOut._sum.amount || 0);
+
+  return {
+    earnings: earned,
+    paidOut: paid,
+    payable: roundDollars(earned - paid),
+  };
+}
+
+/**
+ * Net earnings per member, for rankings and bulk reconciliation
+ */
+export async function getMemberEarningsTotals(
+  where: { memberIds?: string[]; creatorId?: string; since?: Date } = {}
+): Promise<Map<string, number>> {
+  const rows = await prisma.ledgerEntry.groupBy({
+    by: ['memberId'],
+    where: {
+      account: LedgerAccount.MEMBER_PAYABLE,
+      entryType: { in: EARNING_ENTRY_TYPES },
+      ...(where.memberIds && { memberId: { in: where.memberIds } }),
+      ...(where.creatorId && { creatorId: where.creatorId }),
+      createdAt: dateRange(where.since),
+    },
+    _sum: { amount: true },
+  });
+
+  return new Map(
+    rows
+      .filter(row => row.memberId)
+      .map(row => [row.memberId as string, roundDollars(row._sum.amount || 0)])
+  );
+}
+
+/**
+ * Number of members (other than excludeMemberId) whose net earnings reach the threshold
+ */
+export async function countMembersEarningAtLeast(threshold: number, excludeMemberId?: string): Promise<number> {
+  const rows = await prisma.ledgerEntry.groupBy({
+    by: ['memberId'],
+    where: {
+      account: LedgerAccount.MEMBER_PAYABLE,
+      entryType: { in: EARNING_ENTRY_TYPES },
+      ...(excludeMemberId && { NOT: { memberId: excludeMemberId } }),
+    },
+    _sum: { amount: true },
+    having: { amount: { _sum: { gte: threshold } } },
+  });
+
+  return rows.length;
+}
+
+/**
+ * Creator balances, optionally limited to postings in [since, until)
+ */
+export async function getCreatorLedgerBalance(
+  creatorId: string,
+  { since, until }: { since?: Date; until?: Date } = {}
+): Promise<CreatorLedgerBalance> {
+  const rows = await prisma.ledgerEntry.groupBy({
+    by: ['account'],
+    where: {
+      creatorId,
+      account: {
+        in: [LedgerAccount.REFERRED_SALES, LedgerAccount.CREATOR_REVENUE, LedgerAccount.PLATFORM_REVENUE],
+      },
+      createdAt: dateRange(since, until),
+    },
+    _sum: { amount: true },
+  });
+
+  const sum = (account: LedgerAccount) =>
+    roundDollars(rows.find(row => row.account === account)?._sum.amount || 0);
+
+  return {
+    referredRevenue: roundDollars(-sum(LedgerAccount.REFERRED_SALES)),
+    creatorEarnings: sum(LedgerAccount.CREATOR_REVENUE),
+    platformFees: sum(LedgerAccount.PLATFORM_REVENUE),
+  };
+}
+
+/**
+ * Referred revenue per creator, for rankings and bulk reconciliation
+ */
+export async function getCreatorRevenueTotals(since?: Date): Promise<Map<string, number>> {
+  const rows = await prisma.ledgerEntry.groupBy({
+    by: ['creatorId'],
+    where: {
+      account: LedgerAccount.REFERRED_SALES,
+      createdAt: dateRange(since),
+    },
+    _sum: { amount: true },
+  });
+
+  return new Map(rows.map(row => [row.creatorId, roundDollars(-(row._sum.amount || 0))]));
+}
+
+// ========================================
+// INTEGRITY & RECONCILIATION
+// ========================================
+
+/**
+ * Postings whose legs do not sum to zero (should always be empty)
+ */
+export async function findUnbalancedTransactions(limit: number = 100) {
+  const rows = await prisma.ledgerEntry.groupBy({
+    by: ['transactionId'],
+    _sum: { amount: true },
+    having: {
+      OR: [
+        { amount: { _sum: { gt: BALANCE_TOLERANCE } } },
+        { amount: { _sum: { lt: -BALANCE_TOLERANCE } } },
+      ],
+    },
+    orderBy: { transactionId: 'asc' },
+    take: limit,
+  });
+
+  return rows.map(row => ({
+    transactionId: row.transactionId,
+    imbalance: roundDollars(row._sum.amount || 0),
+  }));
+}
+
+/**
+ * Compare cached earnings/revenue counters against the ledger
+ *
+ * @param fix - Overwrite drifted counters with the ledger value
+ */
+export async function reconcileLedgerCaches({ fix = false }: { fix?: boolean } = {}) {
+  const monthStart = startOfMonth(new Date());
+
+  const [members, creators, memberLifetime, memberMonthly, creatorLifetime, creatorMonthly] =
+    await Promise.all([
+      prisma.member.findMany({ select: { id: true, lifetimeEarnings: true, monthlyEarnings: true } }),
+      prisma.creator.findMany({ select: { id: true, totalRevenue: true, monthlyRevenue: true } }),
+      getMemberEarningsTotals(),
+      getMemberEarningsTotals({ since: monthStart }),
+      getCreatorRevenueTotals(),
+      getCreatorRevenueTotals(monthStart),
+    ]);
+
+  const discrepancies: LedgerCacheDiscrepancy[] = [];
+  const drifted = (cached: number, ledger: number) => Math.abs(cached - ledger) > 0.01;
+
+  for (const member of members) {
+    const lifetime = memberLifetime.get(member.id) || 0;
+    const monthly = memberMonthly.get(member.id) || 0;
+
+    if (drifted(member.lifetimeEarnings, lifetime)) {
+      discrepancies.push({ entity: 'Member', id: member.id, field: 'lifetimeEarnings', cached: member.lifetimeEarnings, ledger: lifetime });
+    }
+    if (drifted(member.monthlyEarnings, monthly)) {
+      discrepancies.push({ entity: 'Member', id: member.id, field: 'monthlyEarnings', cached: member.monthlyEarnings, ledger: monthly });
+    }
+  }
+
+  for (const creator of creators) {
+    const lifetime = creatorLifetime.get(creator.id) || 0;
+    const monthly = creatorMonthly.get(creator.id) || 0;
+
+    if (drifted(creator.totalRevenue, lifetime)) {
+      discrepancies.push({ entity: 'Creator', id: creator.id, field: 'totalRevenue', cached: creator.totalRevenue, ledger: lifetime });
+    }
+    if (drifted(creator.monthlyRevenue, monthly)) {
+      discrepancies.push({ entity: 'Creator', id: creator.id, field: 'monthlyRevenue', cached: creator.monthlyRevenue, ledger: monthly });
+    }
+  }
+
+  if (fix) {
+    for (const discrepancy of discrepancies) {
+      const data = { [discrepancy.field]: discrepancy.ledger };
+
+      if (discrepancy.entity === 'Member') {
+        await prisma.member.update({ where: { id: discrepancy.id }, data });
+      } else {
+        await prisma.creator.update({ where: { id: discrepancy.id }, data });
+      }
+    }
+
+    if (discrepancies.length > 0) {
+      await prisma.auditLog.createMany({
+        data: discrepancies.map(discrepancy => ({
+          entity: discrepancy.entity,
+          entityId: discrepancy.id,
+          field: discrepancy.field,
+          oldValue: discrepancy.cached.toString(),
+          newValue: discrepancy.ledger.toString(),
+          triggeredBy: 'recalculation',
+          metadata: { source: 'ledger' },
+        })),
+      });
+    }
+
+    logger.info(`[LEDGER] Reconciled ${discrepancies.length} cached balances`);
+  }
+
+  return {
+    membersChecked: members.length,
+    creatorsChecked: creators.length,
+    discrepancies,
+  };
+}
@@ -0,0 +1,258 @@
+// lib/ledger/member-balance.ts
+/**
+ * Member Balance Carry-Forward
+ *
+ * member_payable can go below what a member is still owed: a refund on a
+ * commission that was already transferred reverses the member's share after
+ * the money left (a clawback). The member keeps the transfer, so the shortfall
+ * is carried forward and recovered from their next payouts before any Whop
+ * transfer is created (lib/utils/payout-runs.ts).
+ *
+ * Settled balance = member_payable minus what is still owed on unpaid
+ * commissions and bonuses. Below zero it's what the member owes; each payout
+ * withholds up to that much (Commission.balanceOffset) and only posts what
+ * was actually transferred, which brings the balance back towards zero.
+ *
+ * All amounts are in the reporting currency, like the rest of the ledger.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { fromCents, prorate, roundDollars, toCents } from '../utils/money';
+import { UNPAID_COMMISSION_STATUSES } from '../utils/commission-clearing';
+import { LedgerAccount, LedgerEntryType } from './commission-ledger';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export interface CommissionPayoutPlan {
+  memberShare: number;      // To transfer, in the sale currency
+  reportingPayout: number;  // Same amount in the reporting currency (the paid_out posting)
+  balanceOffset: number;    // Withheld to recover a negative balance (reporting currency)
+}
+
+export interface PayoutLinePlan extends CommissionPayoutPlan {
+  commissionId: string;
+}
+
+type CommissionForPayout = {
+  memberShare: number;
+  reportingMemberShare: number | null;
+};
+
+type RefundForPayout = {
+  memberShareReversed: number;
+  reportingMemberShareReversed: number | null;
+};
+
+// Bonuses that were posted to member_payable but not transferred yet
+const UNPAID_BONUS_STATUSES = ['pending_confirmation', 'confirmed'];
+
+// ========================================
+// PURE HELPERS
+// ========================================
+
+/**
+ * Net a payout against the member's settled balance
+ * Nothing is withheld while the balance is zero or positive.
+ */
+export function applyCarryForward({
+  saleOwed,
+  reportingOwed,
+  settledBalance,
+}: {
+  saleOwed: number;
+  reportingOwed: number;
+  settledBalance: number;
+}): CommissionPayoutPlan {
+  const owedCents = toCents(reportingOwed);
+  const debt = Math.max(0, -toCents(settledBalance));
+  const offset = Math.min(debt, Math.max(0, owedCents));
+
+  if (offset === 0) {
+    return { memberShare: saleOwed, reportingPayout: reportingOwed, balanceOffset: 0 };
+  }
+
+  // Transfer the same fraction of the sale-currency share that is left in reporting currency
+  const transfer = prorate(toCents(saleOwed), owedCents - offset, owedCents);
+
+  // Less than a cent left to send: absorb it all rather than leave a cent payable
+  if (transfer <= 0) {
+    return { memberShare: 0, reportingPayout: 0, balanceOffset: fromCents(owedCents) };
+  }
+
+  return {
+    memberShare: fromCents(transfer),
+    reportingPayout: fromCents(owedCents - offset),
+    balanceOffset: fromCents(offset),
+  };
+}
+
+/**
+ * Net a member's payout lines against their settled balance, oldest first
+ * (each offset brings the balance back towards zero for the next line)
+ */
+export function applyCarryForwardToLines(
+  lines: Array<{ commissionId: string; saleOwed: number; reportingOwed: number }>,
+  settledBalance: number
+): PayoutLinePlan[] {
+  let balanceCents = toCents(settledBalance);
+
+  return lines.map(({ commissionId, saleOwed, reportingOwed }) => {
+    const plan = applyCarryForward({ saleOwed, reportingOwed, settledBalance: fromCents(balanceCents) });
+    balanceCents += toCents(plan.balanceOffset);
+    return { commissionId, ...plan };
+  });
+}
+
+/**
+ * What is still owed on a commission after refunds, in both currencies
+ */
+export function getCommissionOwed(
+  commission: CommissionForPayout,
+  refunds: RefundForPayout[]
+): { saleOwed: number; reportingOwed: number } {
+  const saleReversed = refunds.reduce((sum, refund) => sum + toCents(refund.memberShareReversed), 0);
+
+  return {
+    saleOwed: fromCents(Math.max(0, toCents(commission.memberShare) - saleReversed)),
+    reportingOwed: fromCents(Math.max(0, getReportingOwedCents(commission, refunds))),
+  };
+}
+
+// ========================================
+// BALANCES
+// ========================================
+
+/**
+ * member_payable minus everything still owed on unpaid commissions and bonuses
+ * (negative = clawbacks not recovered yet)
+ */
+export async function getMemberSettledBalance(
+  memberId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const [payable, unpaidCommissions, unpaidBonus] = await Promise.all([
+    db.ledgerEntry.aggregate({
+      where: { memberId, account: LedgerAccount.MEMBER_PAYABLE },
+      _sum: { amount: true },
+    }),
+    db.commission.findMany({
+      where: { memberId, status: { in: [...UNPAID_COMMISSION_STATUSES] } },
+      select: {
+        memberShare: true,
+        reportingMemberShare: true,
+        refunds: { select: { memberShareReversed: true, reportingMemberShareReversed: true } },
+      },
+    }),
+    db.firstReferralBonus.findFirst({
+      where: { memberId, status: { in: UNPAID_BONUS_STATUSES } },
+      select: { bonusAmount: true },
+    }),
+  ]);
+
+  const owedCents = unpaidCommissions.reduce((sum, commission) => sum + getReportingOwedCents(commission, commission.refunds), 0)
+    + toCents(unpaidBonus?.bonusAmount ?? 0);
+
+  return fromCents(toCents(payable._sum.amount || 0) - owedCents);
+}
+
+function getReportingOwedCents(
+  commission: { memberShare: number; reportingMemberShare: number | null },
+  refunds: RefundForPayout[]
+): number {
+  const reversed = refunds.reduce(
+    (sum, refund) => sum + toCents(refund.reportingMemberShareReversed ?? refund.memberShareReversed),
+    0
+  );
+  return toCents(commission.reportingMemberShare ?? commission.memberShare) - reversed;
+}
+
+// ========================================
+// STATEMENTS & REPORTS
+// ========================================
+
+/**
+ * Clawbacks and the payouts that recovered them, for the member dashboard
+ */
+export async function getMemberBalanceStatement(memberId: string) {
+  const [balance, clawbacks, offsets] = await Promise.all([
+    getMemberSettledBalance(memberId),
+    prisma.refund.findMany({
+      where: { commission: { memberId, paidAt: { not: null } } },
+      select: {
+        id: true,
+        refundedAt: true,
+        memberShareReversed: true,
+        reportingMemberShareReversed: true,
+        commission: { select: { paidAt: true } },
+      },
+      orderBy: { refundedAt: 'desc' },
+    }),
+    prisma.commission.findMany({
+      where: { memberId, balanceOffset: { gt: 0 } },
+      select: { id: true, paidAt: true, balanceOffset: true, memberShare: true, reportingMemberShare: true },
+      orderBy: { paidAt: 'desc' },
+    }),
+  ]);
+
+  return {
+    balance,
+    // Refunds after the transfer went out - the ones that were clawed back
+    clawbacks: clawbacks
+      .filter(refund => refund.commission.paidAt && refund.refundedAt >= refund.commission.paidAt)
+      .map(refund => ({
+        id: refund.id,
+        at: refund.refundedAt,
+        amount: refund.reportingMemberShareReversed ?? refund.memberShareReversed,
+      })),
+    offsets: offsets.map(commission => ({
+      id: commission.id,
+      at: commission.paidAt,
+      earned: commission.reportingMemberShare ?? commission.memberShare,
+      offset: commission.balanceOffset,
+    })),
+  };
+}
+
+/**
+ * Members whose settled balance is below zero, largest first
+ */
+export async function getNegativeBalanceReport({ creatorId }: { creatorId?: string } = {}) {
+  // Only clawbacks and manual adjustments can take the settled balance below zero
+  const candidates = await prisma.member.findMany({
+    where: {
+      ...(creatorId && { creatorId }),
+      OR: [
+        { commissions: { some: { paidAt: { not: null }, refunds: { some: {} } } } },
+        {
+          ledgerEntries: {
+            some: { entryType: LedgerEntryType.ADJUSTMENT, account: LedgerAccount.MEMBER_PAYABLE, amount: { lt: 0 } },
+          },
+        },
+      ],
+    },
+    select: {
+      id: true,
+      username: true,
+      referralCode: true,
+      creator: { select: { id: true, companyName: true } },
+      commissions: { where: { balanceOffset: { gt: 0 } }, select: { balanceOffset: true } },
+    },
+  });
+
+  const rows = await Promise.all(candidates.map(async member => ({
+    memberId: member.id,
+    username: member.username,
+    referralCode: member.referralCode,
+    creatorId: member.creator.id,
+    creatorName: member.creator.companyName,
+    balance: await getMemberSettledBalance(member.id),
+    recovered: roundDollars(member.commissions.reduce((sum, c) => sum + c.balanceOffset, 0)),
+  })));
+
+  return rows
+    .filter(row => row.balance < 0)
+    .sort((a, b) => a.balance - b.balance);
+}
@@ -34,8 +34,8 @@ export async function getCreatorRevenueMetrics(creatorId: string) {
           status: 'paid',
         },
         _sum: {
-          saleAmount: true,
-          creatorShare: true,
+          reportingSaleAmount: true,
+          reportingCreatorShare: true,
         },
         _count: true,
       }),
@@ -48,8 +48,8 @@ export async function getCreatorRevenueMetrics(creatorId: string) {
           createdAt: { gte: monthStart },
         },
         _sum: {
-          saleAmount: true,
-          creatorShare: true,
+          reportingSaleAmount: true,
+          reportingCreatorShare: true,
         },
         _count: true,
       }),
@@ -63,10 +63,10 @@ export async function getCreatorRevenueMetrics(creatorId: string) {
       }),
     ]);
 
-    const totalRevenue = allTimeResult._sum.saleAmount || 0;
-    const totalCreatorEarnings = allTimeResult._sum.creatorShare || 0;
-    const monthlyRevenue = monthlyResult._sum.saleAmount || 0;
-    const monthlyCreatorEarnings = monthlyResult._sum.creatorShare || 0;
+    const totalRevenue = allTimeResult._sum.reportingSaleAmount || 0;
+    const totalCreatorEarnings = allTimeResult._sum.reportingCreatorShare || 0;
+    const monthlyRevenue = monthlyResult._sum.reportingSaleAmount || 0;
+    const monthlyCreatorEarnings = monthlyResult._sum.reportingCreatorShare || 0;
 
     // Calculate average sale value
     const avgSaleValue =
@@ -292,7 +292,7 @@ export async function getMonthlyRevenueBreakdown(creatorId: string) {
           status: 'paid',
         },
         _sum: {
-          saleAmount: true,
+          reportingSaleAmount: true,
         },
       }),
 
@@ -304,7 +304,7 @@ export async function getMonthlyRevenueBreakdown(creatorId: string) {
           createdAt: { gte: monthStart },
         },
         _sum: {
-          saleAmount: true,
+          reportingSaleAmount: true,
         },
       }),
 
@@ -329,7 +329,7 @@ export async function getMonthlyRevenueBreakdown(creatorId: string) {
     const referralContribution = referredMembersData.reduce((sum, member) => sum + member.subscriptionPrice, 0);
 
     // Calculate total revenue all-time (from commission records + organic member subscriptions)
-    const totalRevenue = allTimeCommissions._sum.saleAmount || 0;
+    const totalRevenue = allTimeCommissions._sum.reportingSaleAmount || 0;
 
     // Active subscription count (all current members)
     const activeSubscriptions = allMembers.length;
@@ -442,7 +442,7 @@ export async function getTodayStats(creatorId: string) {
           status: 'paid',
           createdAt: { gte: todayStart },
         },
-        _sum: { saleAmount: true },
+        _sum: { reportingSaleAmount: true },
       }),
     ]);
 
@@ -450,13 +450,13 @@ export async function getTodayStats(creatorId: string) {
       creatorId,
       newReferrals,
       todayClicks,
-      todayRevenue: todayRevenue._sum.saleAmount || 0,
+      todayRevenue: todayRevenue._sum.reportingSaleAmount || 0,
     });
 
     return {
       newReferrals,
       todayClicks,
-      todayRevenue: todayRevenue._sum.saleAmount || 0,
+      todayRevenue: todayRevenue._sum.reportingSaleAmount || 0,
     };
   } catch (error) {
     logger.error('❌ Error fetching today stats:', error);
@@ -54,12 +54,7 @@ export async function getReferralList(memberId: string, limit: number = 10) {
   // Get referrals with their first commission (conversion) date
   const referrals = await prisma.member.findMany({
     where: {
-      referredBy: {
-        in: await prisma.member.findUnique({
-          where: { id: memberId },
-          select: { referralCode: true }
-        }).then(m => m?.referralCode ? [m.referralCode] : [])
-      },
+      referrerId: memberId,
       commissions: {
         some: {
           paymentType: 'initial',
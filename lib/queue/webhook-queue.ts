@@ -1,48 +1,35 @@
 // lib/queue/webhook-queue.ts
 import { prisma } from '../db/prisma';
-import { cache } from '../cache/redis';
+import { NonRetryableError } from '../utils/webhook-retry';
+import { handleWhopEvent, createLiveContext, REFERRAL_CLAIM_BACKFILL_EVENT } from '../webhook/whop-handlers';
 import logger from '../logger';
 
 
 /**
- * Webhook job status
+ * Webhook job status (stored in WebhookEvent.status)
  */
 export enum WebhookJobStatus {
-  PENDING = 'PENDING',
-  PROCESSING = 'PROCESSING',
-  COMPLETED = 'COMPLETED',
-  FAILED = 'FAILED',
-  RETRYING = 'RETRYING',
-  DEAD = 'DEAD', // Max retries exceeded
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  RETRYING = 'retrying',
+  COMPLETED = 'completed',
+  DEAD = 'dead', // Max retries exceeded
 }
 
 /**
- * Webhook job priority
- */
-export enum WebhookPriority {
-  LOW = 1,
-  NORMAL = 5,
-  HIGH = 10,
-  CRITICAL = 100,
-}
-
-/**
- * Webhook job interface
+ * Webhook job interface (a view over a WebhookEvent row)
  */
 export interface WebhookJob {
   id: string;
   type: string;
   payload: any;
   status: WebhookJobStatus;
-  priority: WebhookPriority;
   attempts: number;
   maxAttempts: number;
   lastError?: string;
   createdAt: Date;
-  updatedAt: Date;
   processedAt?: Date;
   nextRetryAt?: Date;
-  metadata?: Record<string, any>;
 }
 
 /**
@@ -66,23 +53,81 @@ export interface QueueConfig {
   backoffMultiplier: number;
   deadLetterAfter: number;
   batchSize: number;
+  lockTimeoutMs: number;
+}
+
+/**
+ * Result of a drain run
+ */
+export interface DrainResult {
+  completed: number;
+  retrying: number;
+  dead: number;
 }
 
 /**
  * Default configuration
  */
 const DEFAULT_CONFIG: QueueConfig = {
-  maxConcurrency: 10,
+  maxConcurrency: 5,
   pollInterval: 5000, // 5 seconds
-  retryDelayMs: 1000, // 1 second base retry
-  maxRetryDelay: 300000, // 5 minutes max
+  retryDelayMs: 60000, // 1 minute base retry
+  maxRetryDelay: 6 * 60 * 60 * 1000, // 6 hours max
   backoffMultiplier: 2, // Exponential backoff
-  deadLetterAfter: 5, // Max retries
+  deadLetterAfter: 8, // Max attempts
   batchSize: 20,
+  lockTimeoutMs: 5 * 60 * 1000, // Reclaim events a crashed worker left in processing
 };
 
+/**
+ * Every Whop action the business handlers understand
+ */
+const WHOP_EVENT_TYPES = [
+  'membership.went_valid',
+  'app_payment.succeeded',
+  'payment.succeeded',
+  'app_payment.failed',
+  'payment.failed',
+  'app_payment.refunded',
+  'payment.refunded',
+  'app_membership.created',
+  'membership.created',
+  'app_membership.deleted',
+  'membership.deleted',
+  'membership.cancelled',
+  'app_subscription.trial_started',
+  'subscription.trial_started',
+  'app_subscription.trial_ended',
+  'subscription.trial_ended',
+  'app_subscription.cancelled',
+  'subscription.cancelled',
+  REFERRAL_CLAIM_BACKFILL_EVENT,
+];
+
+/**
+ * Retry delay for the given attempt number (1-based)
+ */
+export function getRetryDelay(attempts: number, config: QueueConfig = DEFAULT_CONFIG): number {
+  return Math.min(
+    config.retryDelayMs * Math.pow(config.backoffMultiplier, Math.max(attempts - 1, 0)),
+    config.maxRetryDelay
+  );
+}
+
+/**
+ * Events touching the same membership or payment must run in order
+ * (e.g. membership.went_valid before the payment that follows it)
+ */
+function getOrderingKey(job: WebhookJob): string {
+  const data = job.payload?.data || {};
+  return data.membership_id || data.payment_id || data.id || job.id;
+}
+
 /**
  * Webhook Queue Manager
+ *
+ * Backed by the WebhookEvent table: the webhook route inserts rows in
+ * `pending`, and this worker claims, processes and retries them.
  */
 export class WebhookQueue {
   private processors: Map<string, WebhookProcessor> = new Map();
@@ -100,47 +145,22 @@ export class WebhookQueue {
    * Register default webhook processors
    */
   private registerDefaultProcessors() {
-    // Payment webhook processor
-    this.registerProcessor({
-      type: 'payment',
-      process: async (job) => {
-        const { paymentId, userId, amount, productId } = job.payload;
-
-        // Process payment webhook
-        logger.debug(`Processing payment webhook: ${paymentId}`);
-
-        // Your payment processing logic here
-        // This would include commission calculation, member updates, etc.
-      },
-      shouldRetry: (job, error) => {
-        // Retry on network errors, don't retry on validation errors
-        return !error.message.includes('validation');
-      },
-    });
-
-    // Member signup webhook processor
-    this.registerProcessor({
-      type: 'member.signup',
-      process: async (job) => {
-        const { memberId, email, referralCode } = job.payload;
-
-        logger.debug(`Processing member signup: ${memberId}`);
-
-        // Send welcome message, update stats, etc.
-      },
-    });
-
-    // Refund webhook processor
-    this.registerProcessor({
-      type: 'refund',
-      process: async (job) => {
-        const { refundId, paymentId, amount } = job.payload;
-
-        logger.debug(`Processing refund webhook: ${refundId}`);
-
-        // Handle refund logic, update commissions, etc.
-      },
-    });
+    for (const type of WHOP_EVENT_TYPES) {
+      this.registerProcessor({
+        type,
+        process: async (job) => {
+          // processedAt survives a re-drive, so it marks events completed before
+          const ctx = createLiveContext(job.id, Boolean(job.processedAt));
+          const result = await handleWhopEvent(job.type, job.payload?.data, ctx);
+
+          // Handler finished but rejected the event - record why, don't retry
+          if (!result.ok && result.error) {
+            job.lastError = result.error;
+          }
+        },
+        shouldRetry: (job, error) => !(error instanceof NonRetryableError),
+      });
+    }
   }
 
   /**
@@ -148,61 +168,19 @@ export class WebhookQueue {
    */
   registerProcessor(processor: WebhookProcessor) {
     this.processors.set(processor.type, processor);
-    logger.info('Registered webhook processor: ${processor.type}');
   }
 
   /**
-   * Add a job to the queue
-   */
-  async enqueue(
-    type: string,
-    payload: any,
-    options: {
-      priority?: WebhookPriority;
-      maxAttempts?: number;
-      metadata?: Record<string, any>;
-    } = {}
-  ): Promise<string> {
-    const jobId = `webhook_${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    const job: WebhookJob = {
-      id: jobId,
-      type,
-      payload,
-      status: WebhookJobStatus.PENDING,
-      priority: options.priority || WebhookPriority.NORMAL,
-      attempts: 0,
-      maxAttempts: options.maxAttempts || this.config.deadLetterAfter,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      metadata: options.metadata,
-    };
-
-    // Store job in cache/database
-    await this.saveJob(job);
-
-    logger.info(' Enqueued webhook job: ${jobId} (type: ${type})');
-
-    // If queue is running, it will pick up the job automatically
-    // Otherwise, you might want to trigger processing
-    if (!this.isRunning) {
-      this.processNext();
-    }
-
-    return jobId;
-  }
-
-  /**
-   * Start the queue processor
+   * Start the queue processor (long-running environments only)
    */
   start() {
     if (this.isRunning) {
-      logger.warn(' Webhook queue already running');
+      logger.warn('Webhook queue already running');
       return;
     }
 
     this.isRunning = true;
-    logger.info(' Starting webhook queue processor');
+    logger.info('Starting webhook queue processor');
 
     // Start polling for jobs
     this.poll();
@@ -212,7 +190,7 @@ export class WebhookQueue {
    * Stop the queue processor
    */
   async stop() {
-    logger.info(' Stopping webhook queue processor');
+    logger.info('Stopping webhook queue processor');
     this.isRunning = false;
 
     if (this.pollTimer) {
@@ -228,6 +206,26 @@ export class WebhookQueue {
     logger.webhook('Webhook queue stopped');
   }
 
+  /**
+   * Process batches until the queue is empty or the time budget runs out.
+   * Used by the serverless cron worker.
+   */
+  async drain(timeBudgetMs: number): Promise<DrainResult> {
+    const deadline = Date.now() + timeBudgetMs;
+    const totals: DrainResult = { completed: 0, retrying: 0, dead: 0 };
+
+    while (Date.now() < deadline) {
+      const result = await this.processNext();
+      totals.completed += result.completed;
+      totals.retrying += result.retrying;
+      totals.dead += result.dead;
+
+      if (result.completed + result.retrying + result.dead === 0) break;
+    }
+
+    return totals;
+  }
+
   /**
    * Poll for new jobs
    */
@@ -247,90 +245,91 @@ export class WebhookQueue {
   /**
    * Process next batch of jobs
    */
-  private async processNext() {
-    if (this.activeJobs.size >= this.config.maxConcurrency) {
-      return; // Already at max concurrency
-    }
+  private async processNext(): Promise<DrainResult> {
+    const result: DrainResult = { completed: 0, retrying: 0, dead: 0 };
+    const jobs = await this.claimNextJobs(this.config.batchSize);
 
-    const availableSlots = this.config.maxConcurrency - this.activeJobs.size;
-    const jobs = await this.getNextJobs(Math.min(availableSlots, this.config.batchSize));
+    if (jobs.length === 0) return result;
 
-    if (jobs.length === 0) return;
+    // Group by membership/payment so related events stay sequential
+    const groups = new Map<string, WebhookJob[]>();
+    for (const job of jobs) {
+      const key = getOrderingKey(job);
+      groups.set(key, [...(groups.get(key) || []), job]);
+    }
+
+    const lanes = Array.from(groups.values());
+    const runLane = async () => {
+      let lane: WebhookJob[] | undefined;
+      while ((lane = lanes.shift())) {
+        for (const job of lane) {
+          const status = await this.processJob(job);
+          if (status === WebhookJobStatus.COMPLETED) result.completed++;
+          else if (status === WebhookJobStatus.RETRYING) result.retrying++;
+          else result.dead++;
+        }
+      }
+    };
 
-    // Process jobs in parallel
     await Promise.all(
-      jobs.map(job => this.processJob(job).catch(err => {
-        logger.error(`Error processing job ${job.id}:`, err);
-      }))
+      Array.from({ length: Math.min(this.config.maxConcurrency, lanes.length) }, runLane)
     );
+
+    return result;
   }
 
   /**
-   * Process a single job
+   * Process a single (already claimed) job
    */
-  private async processJob(job: WebhookJob) {
-    if (this.activeJobs.has(job.id)) {
-      return; // Already processing
-    }
-
+  private async processJob(job: WebhookJob): Promise<WebhookJobStatus> {
     this.activeJobs.add(job.id);
+    job.attempts++;
+    job.lastError = undefined;
 
     try {
-      // Update job status
-      job.status = WebhookJobStatus.PROCESSING;
-      job.attempts++;
-      await this.saveJob(job);
-
-      logger.debug(`⚙️ Processing webhook job: ${job.id} (attempt ${job.attempts})`);
+      logger.debug(`⚙️ Processing webhook job: ${job.id} (${job.type}, attempt ${job.attempts})`);
 
-      // Get processor
       const processor = this.processors.get(job.type);
-      if (!processor) {
-        throw new Error(`No processor for webhook type: ${job.type}`);
+      if (processor) {
+        await processor.process(job);
+      } else {
+        logger.warn(`Unhandled webhook type: ${job.type}`);
       }
 
-      // Process the job
-      await processor.process(job);
-
       // Mark as completed
       job.status = WebhookJobStatus.COMPLETED;
       job.processedAt = new Date();
+      job.nextRetryAt = undefined;
       await this.saveJob(job);
 
-      logger.webhook('Webhook job completed: ${job.id}');
-    } catch (error: any) {
+      logger.webhook(`Webhook job completed: ${job.id}`);
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err));
       logger.error(`❌ Webhook job failed: ${job.id}`, error);
 
-      // Get processor for error handling
       const processor = this.processors.get(job.type);
+      const shouldRetry = processor?.shouldRetry ? processor.shouldRetry(job, error) : true;
 
-      // Check if should retry
-      const shouldRetry = processor?.shouldRetry
-        ? processor.shouldRetry(job, error)
-        : job.attempts < job.maxAttempts;
+      job.lastError = error.message;
 
       if (shouldRetry && job.attempts < job.maxAttempts) {
-        // Calculate retry delay with exponential backoff
-        const delay = Math.min(
-          this.config.retryDelayMs * Math.pow(this.config.backoffMultiplier, job.attempts - 1),
-          this.config.maxRetryDelay
-        );
+        const delay = getRetryDelay(job.attempts, this.config);
 
         job.status = WebhookJobStatus.RETRYING;
-        job.lastError = error.message;
         job.nextRetryAt = new Date(Date.now() + delay);
 
-        logger.info(' Scheduling retry for ${job.id} in ${delay}ms');
+        logger.info(`Scheduling retry for ${job.id} in ${Math.round(delay / 1000)}s`);
       } else {
-        // Move to dead letter queue
+        // Dead letter - stays in the table for inspection and manual re-drive
         job.status = WebhookJobStatus.DEAD;
-        job.lastError = error.message;
+        job.nextRetryAt = undefined;
 
-        logger.error(`💀 Job moved to dead letter: ${job.id}`);
+        logger.error(`💀 Webhook job moved to dead letter: ${job.id} (${job.type})`);
 
-        // Call error handler if provided
         if (processor?.onError) {
-          await processor.onError(job, error);
+          await processor.onError(job, error).catch(onErrorFailure =>
+            logger.error('Webhook onError handler failed:', onErrorFailure)
+          );
         }
       }
 
@@ -338,72 +337,105 @@ export class WebhookQueue {
     } finally {
       this.activeJobs.delete(job.id);
     }
+
+    return job.status;
   }
 
   /**
-   * Get next jobs to process
+   * Atomically claim due jobs so concurrent workers never process the same event
    */
-  private async getNextJobs(limit: number): Promise<WebhookJob[]> {
-    const cacheKey = 'webhook:queue:pending';
+  private async claimNextJobs(limit: number): Promise<WebhookJob[]> {
+    const now = new Date();
+    const dueWhere = {
+      OR: [
+        {
+          status: { in: [WebhookJobStatus.PENDING, WebhookJobStatus.RETRYING] },
+          nextAttemptAt: { lte: now },
+        },
+        {
+          status: WebhookJobStatus.PROCESSING,
+          lockedAt: { lt: new Date(now.getTime() - this.config.lockTimeoutMs) },
+        },
+      ],
+    };
+
+    const candidates = await prisma.webhookEvent.findMany({
+      where: dueWhere,
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
 
-    // In a real implementation, this would query a database
-    // For now, we'll use a simple cache-based approach
     const jobs: WebhookJob[] = [];
 
-    // Get pending and retry-ready jobs
-    const now = new Date();
+    for (const event of candidates) {
+      if (this.activeJobs.has(event.id)) continue;
 
-    // This is a simplified version - in production, use a proper job queue
-    // like Bull, BullMQ, or database-backed queue
-    const pendingJobs = await cache.get<WebhookJob[]>(cacheKey) || [];
+      const claimed = await prisma.webhookEvent.updateMany({
+        where: { id: event.id, ...dueWhere },
+        data: { status: WebhookJobStatus.PROCESSING, lockedAt: now },
+      });
 
-    const readyJobs = pendingJobs
-      .filter(job =>
-        (job.status === WebhookJobStatus.PENDING ||
-         (job.status === WebhookJobStatus.RETRYING && job.nextRetryAt && job.nextRetryAt <= now)) &&
-        !this.activeJobs.has(job.id)
-      )
-      .sort((a, b) => b.priority - a.priority) // Sort by priority
-      .slice(0, limit);
+      if (claimed.count === 1) {
+        jobs.push(this.toJob(event));
+      }
+    }
 
-    return readyJobs;
+    return jobs;
   }
 
   /**
-   * Save job state
+   * Persist job state back onto its WebhookEvent row
    */
   private async saveJob(job: WebhookJob) {
-    job.updatedAt = new Date();
-
-    // In production, save to database
-    // For now, we'll use cache
-    const cacheKey = `webhook:job:${job.id}`;
-    await cache.set(cacheKey, job, 86400); // 24 hour TTL
-
-    // Also update the queue list
-    const queueKey = 'webhook:queue:pending';
-    const queue = await cache.get<WebhookJob[]>(queueKey) || [];
-
-    const index = queue.findIndex(j => j.id === job.id);
-    if (index >= 0) {
-      queue[index] = job;
-    } else {
-      queue.push(job);
-    }
+    await prisma.webhookEvent.update({
+      where: { id: job.id },
+      data: {
+        status: job.status,
+        processed: job.status === WebhookJobStatus.COMPLETED,
+        processedAt: job.processedAt ?? null,
+        errorMessage: job.lastError ?? null,
+        retryCount: job.attempts,
+        nextAttemptAt: job.nextRetryAt ?? new Date(),
+        lockedAt: null,
+      },
+    });
+  }
 
-    await cache.set(queueKey, queue, 86400);
+  private toJob(event: {
+    id: string;
+    eventType: string;
+    payload: unknown;
+    status: string;
+    retryCount: number;
+    errorMessage: string | null;
+    createdAt: Date;
+    processedAt: Date | null;
+    nextAttemptAt: Date;
+  }): WebhookJob {
+    return {
+      id: event.id,
+      type: event.eventType,
+      payload: event.payload,
+      status: event.status as WebhookJobStatus,
+      attempts: event.retryCount,
+      maxAttempts: this.config.deadLetterAfter,
+      lastError: event.errorMessage ?? undefined,
+      createdAt: event.createdAt,
+      processedAt: event.processedAt ?? undefined,
+      nextRetryAt: event.nextAttemptAt,
+    };
   }
 
   /**
    * Get job status
    */
   async getJob(jobId: string): Promise<WebhookJob | null> {
-    const cacheKey = `webhook:job:${jobId}`;
-    return cache.get<WebhookJob>(cacheKey);
+    const event = await prisma.webhookEvent.findUnique({ where: { id: jobId } });
+    return event ? this.toJob(event) : null;
   }
 
   /**
-   * Retry a failed job
+   * Re-queue a dead job for another full round of attempts
    */
   async retryJob(jobId: string): Promise<void> {
     const job = await this.getJob(jobId);
@@ -411,78 +443,69 @@ export class WebhookQueue {
       throw new Error(`Job not found: ${jobId}`);
     }
 
-    if (job.status !== WebhookJobStatus.FAILED && job.status !== WebhookJobStatus.DEAD) {
+    if (job.status !== WebhookJobStatus.DEAD) {
       throw new Error(`Job cannot be retried in status: ${job.status}`);
     }
 
-    job.status = WebhookJobStatus.PENDING;
-    job.attempts = 0;
-    job.lastError = undefined;
-    job.nextRetryAt = undefined;
+    await prisma.webhookEvent.update({
+      where: { id: jobId },
+      data: {
+        status: WebhookJobStatus.PENDING,
+        retryCount: 0,
+        errorMessage: null,
+        nextAttemptAt: new Date(),
+      },
+    });
 
-    await this.saveJob(job);
-    logger.info(' Job queued for retry: ${jobId}');
+    logger.info(`Job queued for retry: ${jobId}`);
   }
 
   /**
-   * Get queue statistics
+   * Re-drive stored events through the handlers (admin replay).
+   * Events currently held by a worker are left alone.
    */
-  async getStats(): Promise<{
-    pending: number;
-    processing: number;
-    completed: number;
-    failed: number;
-    dead: number;
-  }> {
-    const queueKey = 'webhook:queue:pending';
-    const queue = await cache.get<WebhookJob[]>(queueKey) || [];
-
-    const stats = {
-      pending: 0,
-      processing: 0,
-      completed: 0,
-      failed: 0,
-      dead: 0,
-    };
-
-    for (const job of queue) {
-      switch (job.status) {
-        case WebhookJobStatus.PENDING:
-          stats.pending++;
-          break;
-        case WebhookJobStatus.PROCESSING:
-          stats.processing++;
-          break;
-        case WebhookJobStatus.COMPLETED:
-          stats.completed++;
-          break;
-        case WebhookJobStatus.FAILED:
-        case WebhookJobStatus.RETRYING:
-          stats.failed++;
-          break;
-        case WebhookJobStatus.DEAD:
-          stats.dead++;
-          break;
-      }
-    }
+  async requeue(jobIds: string[]): Promise<number> {
+    const result = await prisma.webhookEvent.updateMany({
+      where: {
+        id: { in: jobIds },
+        status: { not: WebhookJobStatus.PROCESSING },
+      },
+      data: {
+        status: WebhookJobStatus.PENDING,
+        retryCount: 0,
+        errorMessage: null,
+        nextAttemptAt: new Date(),
+      },
+    });
 
-    return stats;
+    logger.info(`Re-queued ${result.count} webhook events for replay`);
+    return result.count;
   }
 
   /**
-   * Clear dead letter queue
+   * Get queue statistics
    */
-  async clearDeadLetters(): Promise<number> {
-    const queueKey = 'webhook:queue:pending';
-    const queue = await cache.get<WebhookJob[]>(queueKey) || [];
+  async getStats(): Promise<Record<WebhookJobStatus, number>> {
+    const grouped = await prisma.webhookEvent.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
 
-    const deadJobs = queue.filter(j => j.status === WebhookJobStatus.DEAD);
-    const activeQueue = queue.filter(j => j.status !== WebhookJobStatus.DEAD);
+    const stats: Record<WebhookJobStatus, number> = {
+      [WebhookJobStatus.PENDING]: 0,
+      [WebhookJobStatus.PROCESSING]: 0,
+      [WebhookJobStatus.RETRYING]: 0,
+      [WebhookJobStatus.COMPLETED]: 0,
+      [WebhookJobStatus.DEAD]: 0,
+    };
 
-    await cache.set(queueKey, activeQueue, 86400);
+    for (const row of grouped) {
+      if (row.status in stats) {
+        stats[row.status as WebhookJobStatus] = row._count._all;
+      }
+    }
 
-    logger.info('️ Cleared ${deadJobs.length} dead letter jobs');
-    return deadJobs.length;
+    return stats;
   }
 }
 
@@ -490,7 +513,8 @@ export class WebhookQueue {
 export const webhookQueue = new WebhookQueue();
 
 /**
- * Initialize and start the webhook queue
+ * Initialize and start the webhook queue (long-running environments only;
+ * on Vercel the queue is drained by /api/cron/process-webhooks)
  */
 export function initWebhookQueue() {
   webhookQueue.start();
@@ -505,4 +529,4 @@ export function initWebhookQueue() {
     logger.debug('SIGINT received, stopping webhook queue');
     await webhookQueue.stop();
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,116 @@
+// lib/utils/attribution-conflicts.ts
+
+/**
+ * Attribution Conflict Queue
+ *
+ * Conflicting signups are recorded by the webhook handlers with the winner
+ * the creator's policy picked (lib/utils/attribution-policy.ts). Creators can
+ * resolve open conflicts - or override auto-resolved ones - from the
+ * dashboard; the referral and its commissions move atomically.
+ */
+
+import type { AttributionConflict, Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import type { AttributionPolicy } from '../constants/attribution';
+import type { AttributionCandidate } from './attribution-policy';
+import { reassignReferral, ReferralReassignmentError, type ReassignmentResult } from './referral-reassignment';
+
+export type AttributionConflictStatus = 'open' | 'auto_resolved' | 'resolved';
+
+/**
+ * Record (or refresh) the conflict for a referee
+ * A conflict the creator already resolved is left alone.
+ */
+export async function recordAttributionConflict(
+  db: Prisma.TransactionClient,
+  {
+    creatorId,
+    refereeId,
+    membershipId,
+    candidates,
+    policy,
+    assignedMemberId,
+    needsReview,
+  }: {
+    creatorId: string;
+    refereeId: string;
+    membershipId: string;
+    candidates: AttributionCandidate[];
+    policy: AttributionPolicy;
+    assignedMemberId: string | null;
+    needsReview: boolean;
+  }
+): Promise<AttributionConflict | null> {
+  const existing = await db.attributionConflict.findUnique({ where: { refereeId } });
+  if (existing?.status === 'resolved') return null;
+
+  const data = {
+    creatorId,
+    membershipId,
+    candidates: candidates as unknown as Prisma.InputJsonValue,
+    policy,
+    assignedMemberId,
+    status: needsReview ? 'open' : 'auto_resolved',
+    resolvedBy: needsReview ? null : 'policy',
+    resolvedAt: needsReview ? null : new Date(),
+  };
+
+  return db.attributionConflict.upsert({
+    where: { refereeId },
+    create: { refereeId, ...data },
+    update: data,
+  });
+}
+
+export function getConflictCandidates(conflict: Pick<AttributionConflict, 'candidates'>): AttributionCandidate[] {
+  return Array.isArray(conflict.candidates) ? (conflict.candidates as unknown as AttributionCandidate[]) : [];
+}
+
+/**
+ * Credit one of the conflict's candidates and close it
+ *
+ * @throws ReferralReassignmentError if the conflict or candidate is invalid
+ */
+export async function resolveAttributionConflict({
+  conflictId,
+  creatorId,
+  winnerMemberId,
+  resolvedBy,
+}: {
+  conflictId: string;
+  creatorId: string;
+  winnerMemberId: string;
+  resolvedBy: string;
+}): Promise<{ conflict: AttributionConflict; reassignment: ReassignmentResult }> {
+  return prisma.$transaction(async (tx) => {
+    const conflict = await tx.attributionConflict.findUnique({ where: { id: conflictId } });
+
+    if (!conflict || conflict.creatorId !== creatorId) {
+      throw new ReferralReassignmentError('Conflict not found');
+    }
+
+    if (!getConflictCandidates(conflict).some(candidate => candidate.memberId === winnerMemberId)) {
+      throw new ReferralReassignmentError('Winner must be one of the conflicting referrers');
+    }
+
+    const reassignment = await reassignReferral(tx, {
+      refereeId: conflict.refereeId,
+      toReferrerId: winnerMemberId,
+      reference: `conflict:${conflict.id}:${Date.now()}`,
+      triggeredBy: 'manual',
+      reason: 'Attribution conflict resolved by creator',
+    });
+
+    const updated = await tx.attributionConflict.update({
+      where: { id: conflict.id },
+      data: {
+        assignedMemberId: winnerMemberId,
+        status: 'resolved',
+        resolvedBy,
+        resolvedAt: new Date(),
+      },
+    });
+
+    return { conflict: updated, reassignment };
+  });
+}
@@ -0,0 +1,82 @@
+// lib/utils/attribution-policy.ts
+
+/**
+ * Attribution Conflict Policy
+ *
+ * A signup can carry signals for different referrers: a Whop affiliate (?a=)
+ * plus a promo code, or a legacy referredBy plus a later Whop affiliate.
+ * Each creator picks who gets the credit:
+ *
+ * - first_touch:   the earliest signal
+ * - last_touch:    the latest signal
+ * - whop_wins:     the Whop affiliate, else first touch (default)
+ * - manual_review: provisionally whop_wins, flagged for the creator to decide
+ *
+ * Candidates are always passed in touch order (earliest first). At a single
+ * checkout the link touch comes before the promo code typed at checkout.
+ */
+
+import {
+  ATTRIBUTION_POLICIES,
+  DEFAULT_ATTRIBUTION_POLICY,
+  type AttributionPolicy,
+} from '../constants/attribution';
+
+export type AttributionSource = 'whop_affiliate' | 'promo_code' | 'referral_code';
+
+/** Stored on AttributionConflict.candidates */
+export interface AttributionCandidate {
+  memberId: string;
+  referralCode: string;
+  source: AttributionSource;
+  at: string; // ISO timestamp the signal was recorded
+}
+
+export interface AttributionDecision<T> {
+  winner: T | null;
+  needsReview: boolean;
+}
+
+export function parseAttributionPolicy(value: string | null | undefined): AttributionPolicy {
+  return ATTRIBUTION_POLICIES.includes(value as AttributionPolicy)
+    ? (value as AttributionPolicy)
+    : DEFAULT_ATTRIBUTION_POLICY;
+}
+
+/**
+ * Pick the credited candidate under a policy (candidates in touch order)
+ */
+export function pickAttributionWinner<T extends { source: AttributionSource }>(
+  policy: AttributionPolicy,
+  candidates: T[]
+): AttributionDecision<T> {
+  if (candidates.length === 0) return { winner: null, needsReview: false };
+
+  const firstTouch = candidates[0];
+
+  switch (policy) {
+    case 'first_touch':
+      return { winner: firstTouch, needsReview: false };
+    case 'last_touch':
+      return { winner: candidates[candidates.length - 1], needsReview: false };
+    case 'whop_wins':
+    case 'manual_review':
+      return {
+        winner: candidates.find(candidate => candidate.source === 'whop_affiliate') ?? firstTouch,
+        needsReview: policy === 'manual_review' && candidates.length > 1,
+      };
+  }
+}
+
+export function describeAttributionPolicy(policy: AttributionPolicy): string {
+  switch (policy) {
+    case 'first_touch':
+      return 'The first referrer to reach the member gets the credit';
+    case 'last_touch':
+      return 'The last referrer before checkout gets the credit';
+    case 'whop_wins':
+      return 'The Whop affiliate link gets the credit';
+    case 'manual_review':
+      return 'Conflicts wait for your review (the Whop affiliate link is credited meanwhile)';
+  }
+}
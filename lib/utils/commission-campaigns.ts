@@ -0,0 +1,223 @@
+// lib/utils/commission-campaigns.ts
+/**
+ * Commission Boost Campaigns
+ *
+ * Time-boxed boosts creators run on top of the tier rate, e.g.
+ * "double commission this weekend" or "+5% on annual plans in November".
+ *
+ * BUSINESS RULES:
+ * - A campaign targets all members, specific tiers, or a list of members
+ * - Optional product / billing period filter (empty = everything)
+ * - The boosted rate is capped at CUSTOM_RATE_LIMITS.MAX_RATE (25%)
+ * - The boost comes FROM the creator's share - platform share is unchanged
+ * - When several campaigns match a sale, the one paying the member most wins
+ * - The applied campaign is snapshotted onto the Commission for auditing
+ */
+
+import type { CommissionCampaign, Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { CAMPAIGN_LIMITS, CUSTOM_RATE_LIMITS } from '../constants/commission';
+import type { CommissionTierConfig } from './tiered-commission';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export type CampaignBoostType = 'multiplier' | 'additive';
+export type CampaignTargetType = 'all' | 'tier' | 'members';
+export type CampaignStatus = 'scheduled' | 'active' | 'ended' | 'cancelled';
+
+export type CampaignRules = Pick<
+  CommissionCampaign,
+  | 'boostType'
+  | 'boostValue'
+  | 'startsAt'
+  | 'endsAt'
+  | 'cancelledAt'
+  | 'targetType'
+  | 'targetTiers'
+  | 'targetMemberIds'
+  | 'productIds'
+  | 'billingPeriods'
+>;
+
+/**
+ * The sale a campaign is matched against
+ */
+export interface CampaignSale {
+  memberId: string;
+  tierName: string;
+  productId?: string | null;
+  billingPeriod?: string | null;
+  at: Date;
+}
+
+export interface CampaignBoostResult {
+  tier: CommissionTierConfig;  // Tier with the boosted member rate and reduced creator rate
+  boostRate: number;           // Extra member rate the campaign added (0 if none)
+}
+
+// ========================================
+// MATCHING & BOOSTS
+// ========================================
+
+export function getCampaignStatus(campaign: Pick<CampaignRules, 'startsAt' | 'endsAt' | 'cancelledAt'>, at: Date = new Date()): CampaignStatus {
+  if (campaign.cancelledAt && campaign.cancelledAt <= at) return 'cancelled';
+  if (at < campaign.startsAt) return 'scheduled';
+  if (at >= campaign.endsAt) return 'ended';
+  return 'active';
+}
+
+/**
+ * Check whether a campaign applies to a sale
+ */
+export function campaignAppliesTo(campaign: CampaignRules, sale: CampaignSale): boolean {
+  if (getCampaignStatus(campaign, sale.at) !== 'active') return false;
+
+  if (campaign.targetType === 'tier' && !campaign.targetTiers.includes(sale.tierName)) return false;
+  if (campaign.targetType === 'members' && !campaign.targetMemberIds.includes(sale.memberId)) return false;
+
+  if (campaign.productIds.length > 0 && (!sale.productId || !campaign.productIds.includes(sale.productId))) {
+    return false;
+  }
+  if (campaign.billingPeriods.length > 0 && (!sale.billingPeriod || !campaign.billingPeriods.includes(sale.billingPeriod))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Member rate after a campaign boost (never above the custom rate cap, never below the base rate)
+ */
+export function getBoostedMemberRate(campaign: Pick<CampaignRules, 'boostType' | 'boostValue'>, baseRate: number): number {
+  const boosted = campaign.boostType === 'multiplier'
+    ? baseRate * campaign.boostValue
+    : baseRate + campaign.boostValue;
+
+  // Work in basis points so stacked rates don't drift
+  const capped = Math.min(Math.round(boosted * 10_000), Math.round(CUSTOM_RATE_LIMITS.MAX_RATE * 10_000));
+  return Math.max(capped, Math.round(baseRate * 10_000)) / 10_000;
+}
+
+/**
+ * Apply a campaign on top of a tier
+ * The extra member rate is taken from the creator's share; platform share is unchanged.
+ */
+export function applyCampaignBoost(
+  tier: CommissionTierConfig,
+  campaign: Pick<CampaignRules, 'boostType' | 'boostValue'> | null
+): CampaignBoostResult {
+  if (!campaign) {
+    return { tier, boostRate: 0 };
+  }
+
+  const memberRate = getBoostedMemberRate(campaign, tier.memberRate);
+  const boostRate = (Math.round(memberRate * 10_000) - Math.round(tier.memberRate * 10_000)) / 10_000;
+
+  return {
+    tier: {
+      ...tier,
+      memberRate,
+      creatorRate: (Math.round(tier.creatorRate * 10_000) - Math.round(boostRate * 10_000)) / 10_000,
+    },
+    boostRate,
+  };
+}
+
+/**
+ * Pick the campaign that pays the member most for a sale (earliest start wins ties)
+ */
+export function pickBestCampaign<T extends CampaignRules>(
+  campaigns: T[],
+  sale: CampaignSale,
+  baseRate: number
+): T | null {
+  let best: T | null = null;
+  let bestRate = baseRate;
+
+  for (const campaign of campaigns) {
+    if (!campaignAppliesTo(campaign, sale)) continue;
+
+    const rate = getBoostedMemberRate(campaign, baseRate);
+    if (
+      !best ||
+      rate > bestRate ||
+      (rate === bestRate && campaign.startsAt < best.startsAt)
+    ) {
+      best = campaign;
+      bestRate = rate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find the active campaign to apply to a sale
+ */
+export async function findActiveCampaign(
+  creatorId: string,
+  sale: CampaignSale,
+  baseRate: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<CommissionCampaign | null> {
+  const campaigns = await db.commissionCampaign.findMany({
+    where: {
+      creatorId,
+      startsAt: { lte: sale.at },
+      endsAt: { gt: sale.at },
+      cancelledAt: null,
+    },
+  });
+
+  return pickBestCampaign(campaigns, sale, baseRate);
+}
+
+// ========================================
+// VALIDATION
+// ========================================
+
+/**
+ * Validate campaign settings
+ *
+ * @returns Validation errors (empty when the campaign is valid)
+ */
+export function validateCampaign(campaign: Omit<CampaignRules, 'cancelledAt'>): string[] {
+  const errors: string[] = [];
+
+  if (campaign.boostType === 'multiplier') {
+    if (campaign.boostValue <= 1 || campaign.boostValue > CAMPAIGN_LIMITS.MAX_MULTIPLIER) {
+      errors.push(`Multiplier must be above 1 and at most ${CAMPAIGN_LIMITS.MAX_MULTIPLIER}x`);
+    }
+  } else if (campaign.boostType === 'additive') {
+    if (campaign.boostValue <= 0 || campaign.boostValue > CAMPAIGN_LIMITS.MAX_ADDITIVE_BOOST + 1e-9) {
+      errors.push(`Boost must be above 0% and at most +${Math.round(CAMPAIGN_LIMITS.MAX_ADDITIVE_BOOST * 100)}%`);
+    }
+  } else {
+    errors.push('Boost type must be "multiplier" or "additive"');
+  }
+
+  if (campaign.endsAt <= campaign.startsAt) {
+    errors.push('Campaign must end after it starts');
+  } else {
+    const durationDays = (campaign.endsAt.getTime() - campaign.startsAt.getTime()) / 86_400_000;
+    if (durationDays > CAMPAIGN_LIMITS.MAX_DURATION_DAYS) {
+      errors.push(`Campaigns can run for at most ${CAMPAIGN_LIMITS.MAX_DURATION_DAYS} days`);
+    }
+  }
+
+  if (campaign.targetType === 'tier' && campaign.targetTiers.length === 0) {
+    errors.push('Choose at least one tier to target');
+  }
+  if (campaign.targetType === 'members') {
+    if (campaign.targetMemberIds.length === 0) {
+      errors.push('Choose at least one member to target');
+    }
+    if (campaign.targetMemberIds.length > CAMPAIGN_LIMITS.MAX_TARGET_MEMBERS) {
+      errors.push(`Campaigns can target at most ${CAMPAIGN_LIMITS.MAX_TARGET_MEMBERS} members`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,125 @@
+// lib/utils/commission-clearing.ts
+/**
+ * Commission Clearing Period
+ *
+ * New commissions are held for the creator's clearing period (commissionHoldDays)
+ * before they are paid out, the same way first referral bonuses wait for confirmAt:
+ *
+ *   pending (clearsAt in the future) -> cleared -> paid
+ *
+ * A full refund before payout voids the commission - the ledger reversal is
+ * all that's needed because nothing was transferred. A partial refund keeps it
+ * clearing and the payout is net of what was reversed.
+ *
+ * The daily release job lives in lib/utils/commission-release.ts; cleared
+ * commissions are paid by the creator's payout run (lib/utils/payout-runs.ts).
+ *
+ * Pure helpers - no database access.
+ */
+
+import { addDays } from 'date-fns';
+import { COMMISSION_CLEARING } from '../constants/commission';
+import { fromCents, sumCents, toCents } from './money';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export type ClearingStatus = 'pending' | 'cleared' | 'held';
+
+/**
+ * Statuses a commission can have before its member share is transferred
+ * (pending_payout is the pre-clearing equivalent of cleared)
+ */
+export const UNPAID_COMMISSION_STATUSES = ['pending', 'cleared', 'held', 'pending_payout'] as const;
+
+/**
+ * Statuses the payout run pays out
+ */
+export const PAYABLE_COMMISSION_STATUSES = ['cleared', 'pending_payout'] as const;
+
+// ========================================
+// CLEARING
+// ========================================
+
+/**
+ * Read a creator's hold (missing or out-of-range settings fall back to the default)
+ */
+export function parseCommissionHoldDays(creator: { commissionHoldDays?: number | null }): number {
+  const days = creator.commissionHoldDays;
+
+  if (days === null || days === undefined || !Number.isInteger(days)) return COMMISSION_CLEARING.DEFAULT_HOLD_DAYS;
+  if (days < COMMISSION_CLEARING.MIN_HOLD_DAYS || days > COMMISSION_CLEARING.MAX_HOLD_DAYS) {
+    return COMMISSION_CLEARING.DEFAULT_HOLD_DAYS;
+  }
+
+  return days;
+}
+
+/**
+ * When a commission created at `from` clears
+ */
+export function getClearsAt(from: Date, holdDays: number): Date {
+  return addDays(from, holdDays);
+}
+
+/**
+ * Whether the clearing period is over (commissions without clearsAt predate clearing)
+ */
+export function hasCleared(clearsAt: Date | null, now: Date = new Date()): boolean {
+  return !clearsAt || clearsAt <= now;
+}
+
+/**
+ * Status a new (or fraud-approved) commission starts in
+ */
+export function getClearingStatus({
+  heldForReview = false,
+  clearsAt,
+  now = new Date(),
+}: {
+  heldForReview?: boolean;
+  clearsAt: Date | null;
+  now?: Date;
+}): ClearingStatus {
+  if (heldForReview) return 'held';
+  return hasCleared(clearsAt, now) ? 'cleared' : 'pending';
+}
+
+/**
+ * Whole days until a pending commission clears (0 once cleared)
+ */
+export function getClearingDaysRemaining(clearsAt: Date | null, now: Date = new Date()): number {
+  if (hasCleared(clearsAt, now)) return 0;
+  return Math.ceil((clearsAt!.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Commission status after a refund
+ * Unpaid commissions are voided by a full refund and keep clearing after a partial one
+ */
+export function getRefundedCommissionStatus(status: string, isFullRefund: boolean): string {
+  const unpaid = (UNPAID_COMMISSION_STATUSES as readonly string[]).includes(status);
+
+  if (unpaid) return isFullRefund ? 'voided' : status;
+  return isFullRefund ? 'refunded' : 'partial_refund';
+}
+
+/**
+ * Member share still owed after refunds, in the sale currency
+ */
+export function getPayableMemberShare(
+  commission: { memberShare: number },
+  refunds: Array<{ memberShareReversed: number }> = []
+): number {
+  const reversed = sumCents(refunds.map(refund => toCents(refund.memberShareReversed)));
+  return fromCents(Math.max(0, toCents(commission.memberShare) - reversed));
+}
+
+/**
+ * Human-readable hold, for settings and member copy
+ */
+export function describeCommissionHold(holdDays: number): string {
+  if (holdDays === 0) return 'Commissions clear as soon as the sale comes in';
+  return `Commissions clear ${holdDays} day${holdDays === 1 ? '' : 's'} after the sale - a sale refunded before then doesn't pay commission`;
+}
@@ -0,0 +1,95 @@
+// lib/utils/commission-release.ts
+/**
+ * Commission Release
+ *
+ * Daily job for the clearing period (lib/utils/commission-clearing.ts):
+ * pending commissions whose clearsAt has passed → cleared.
+ *
+ * Cleared commissions are paid by the creator's payout run (lib/utils/payout-runs.ts).
+ * getMemberClearingSummary() backs the payout status card on the member dashboard.
+ */
+
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import {
+  getClearingDaysRemaining,
+  getPayableMemberShare,
+  parseCommissionHoldDays,
+  UNPAID_COMMISSION_STATUSES,
+} from './commission-clearing';
+import { describePayoutSchedule, parsePayoutMinimum, parsePayoutSchedule } from './payout-schedule';
+import { OPEN_PAYOUT_STATUSES } from './payout-failures';
+
+export interface CommissionReleaseResult {
+  cleared: number;      // pending → cleared this run
+}
+
+/**
+ * Clear commissions past their hold
+ */
+export async function releaseClearedCommissions(now: Date = new Date()): Promise<CommissionReleaseResult> {
+  const cleared = await prisma.commission.updateMany({
+    where: { status: 'pending', clearsAt: { lte: now } },
+    data: { status: 'cleared' },
+  });
+
+  logger.info(`Commission release: ${cleared.count} cleared`);
+
+  return { cleared: cleared.count };
+}
+
+/**
+ * Status shown on the member dashboard
+ * Cleared commissions in a payout that didn't go through show the payout's state.
+ */
+function getDashboardStatus(status: string, payoutStatus?: string): string {
+  if (payoutStatus === 'action_needed') return 'action_needed';
+  if (payoutStatus && payoutStatus !== 'processing') return 'retrying';
+
+  // pending_payout predates clearing and is waiting for payout like cleared
+  return status === 'pending_payout' ? 'cleared' : status;
+}
+
+/**
+ * What a member has waiting for payout, for the member dashboard
+ */
+export async function getMemberClearingSummary(memberId: string, now: Date = new Date()) {
+  const member = await prisma.member.findUnique({
+    where: { id: memberId },
+    select: {
+      creator: { select: { commissionHoldDays: true, payoutSchedule: true, payoutMinimum: true } },
+      commissions: {
+        where: { status: { in: [...UNPAID_COMMISSION_STATUSES] } },
+        select: {
+          id: true,
+          memberShare: true,
+          currency: true,
+          status: true,
+          clearsAt: true,
+          refunds: { select: { memberShareReversed: true } },
+          payoutLines: {
+            where: { payout: { status: { in: OPEN_PAYOUT_STATUSES } } },
+            select: { payout: { select: { status: true } } },
+            take: 1,
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!member) return null;
+
+  return {
+    holdDays: parseCommissionHoldDays(member.creator),
+    schedule: describePayoutSchedule(parsePayoutSchedule(member.creator), parsePayoutMinimum(member.creator)),
+    commissions: member.commissions.map(commission => ({
+      id: commission.id,
+      amount: getPayableMemberShare(commission, commission.refunds),
+      currency: commission.currency,
+      status: getDashboardStatus(commission.status, commission.payoutLines[0]?.payout.status),
+      clearsAt: commission.clearsAt,
+      daysRemaining: getClearingDaysRemaining(commission.clearsAt, now),
+    })),
+  };
+}
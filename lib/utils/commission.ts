@@ -1,6 +1,7 @@
 // lib/utils/commission.ts
 
 import { BASE_RATES, COMMISSION_LIMITS } from '../constants/commission';
+import { toCents, fromCents, splitSale } from './money';
 
 // Re-export formatCurrency from the SINGLE SOURCE OF TRUTH
 // This maintains backwards compatibility for existing imports
@@ -37,19 +38,17 @@ export function calculateCommission(saleAmount: number) {
     throw new Error('Sale amount must be a valid number');
   }
 
-  // Member commission: 10% (lifetime recurring to referrer)
-  const memberShare = Number((saleAmount * BASE_RATES.MEMBER).toFixed(2));
-
-  // Creator keeps: 70%
-  const creatorShare = Number((saleAmount * BASE_RATES.CREATOR).toFixed(2));
-
-  // Platform fee: 20% (what we charge)
-  const platformShare = Number((saleAmount * BASE_RATES.PLATFORM).toFixed(2));
+  // Split in cents: member 10% and creator 70% are rounded,
+  // the platform's 20% takes the remainder so the total is exact
+  const split = splitSale(toCents(saleAmount), {
+    memberRate: BASE_RATES.MEMBER,
+    creatorRate: BASE_RATES.CREATOR,
+  });
 
   return {
-    memberShare,      // 10% to referring member
-    creatorShare,     // 70% to creator
-    platformShare,    // 20% to platform
-    total: memberShare + creatorShare + platformShare,
+    memberShare: fromCents(split.memberShare),      // 10% to referring member
+    creatorShare: fromCents(split.creatorShare),    // 70% to creator
+    platformShare: fromCents(split.platformShare),  // 20% to platform
+    total: fromCents(split.sale),
   };
 }
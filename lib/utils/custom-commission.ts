@@ -15,6 +15,7 @@
 
 import { prisma } from '../db/prisma';
 import { getCommissionTier, type CommissionTierConfig } from './tiered-commission';
+import { toCents, fromCents, splitSale } from './money';
 import logger from '../logger';
 import { sendCustomRateDM } from '../whop/graphql-messaging';
 import { notifyCustomRateSet } from '../whop/notifications';
@@ -144,49 +145,34 @@ export function calculateCustomCommission(
   creatorRateAfterCustom: number; // New: shows what creator actually gets
   extraGivenToMember: number; // New: shows cost to creator
 } {
-  // Member gets their custom/tier rate
-  const memberShare = Number((saleAmount * effectiveRate.rate).toFixed(2));
-
   // For CUSTOM rates: Platform ALWAYS gets 20%, creator absorbs the difference
-  // For TIER rates: Use the tier's platform rate (which may be less than 20%)
-  let platformShare: number;
-  let creatorShare: number;
+  // For TIER rates: Creator keeps the base 70%, platform gets the tier remainder
+  // Either way the split is done in cents and platform absorbs rounding
+  let creatorRate: number;
   let extraGivenToMember = 0;
 
   if (effectiveRate.source === 'custom') {
-    // CUSTOM RATE: Platform gets full 20%, creator absorbs custom rate cost
-    platformShare = Number((saleAmount * CUSTOM_RATE_LIMITS.PLATFORM_RATE).toFixed(2));
-
     // Creator gets: 70% base - (customRate - baseRate)
     // e.g., if custom rate is 20% and base is 10%, creator gives up 10%
     extraGivenToMember = Math.max(0, effectiveRate.rate - CUSTOM_RATE_LIMITS.BASE_RATE);
-    const creatorRate = CUSTOM_RATE_LIMITS.CREATOR_BASE - extraGivenToMember;
-    creatorShare = Number((saleAmount * creatorRate).toFixed(2));
+    creatorRate = CUSTOM_RATE_LIMITS.CREATOR_BASE - extraGivenToMember;
   } else {
-    // TIER RATE: Use the tier system's rates (platform may get less than 20%)
-    // Import tier config to get correct platform rate for this tier
-    const tierConfig = getCommissionTier(0); // Will be overridden by actual tier lookup
-    // For tier-based, we use the standard split from tiered-commission.ts
-    // This function is mainly for custom rate calculations
-    // When source is 'tier', we should use calculateTieredCommission instead
-    // But for compatibility, we'll calculate based on assumed tier rates
-    const tierPlatformRate = 1 - effectiveRate.rate - CUSTOM_RATE_LIMITS.CREATOR_BASE;
-    platformShare = Number((saleAmount * Math.max(0.12, tierPlatformRate)).toFixed(2));
-    creatorShare = Number((saleAmount * CUSTOM_RATE_LIMITS.CREATOR_BASE).toFixed(2));
+    // When source is 'tier', prefer calculateTieredCommission - kept for compatibility
+    creatorRate = CUSTOM_RATE_LIMITS.CREATOR_BASE;
   }
 
-  // Handle rounding - any difference goes to platform
-  const total = memberShare + creatorShare + platformShare;
-  const diff = Number((saleAmount - total).toFixed(2));
-  platformShare = Number((platformShare + diff).toFixed(2));
+  const split = splitSale(toCents(saleAmount), {
+    memberRate: effectiveRate.rate,
+    creatorRate,
+  });
 
   return {
-    memberShare,
-    creatorShare,
-    platformShare: Math.max(0, platformShare),
+    memberShare: fromCents(split.memberShare),
+    creatorShare: fromCents(split.creatorShare),
+    platformShare: fromCents(split.platformShare),
     appliedRate: effectiveRate.rate,
     source: effectiveRate.source,
-    creatorRateAfterCustom: creatorShare / saleAmount,
+    creatorRateAfterCustom: split.sale > 0 ? split.creatorShare / split.sale : 0,
     extraGivenToMember,
   };
 }
@@ -12,20 +12,30 @@
  * - Use concrete dollar amounts
  */
 
-import { COMMISSION_TIERS, getCommissionTier, CommissionTierName } from './tiered-commission';
+import { COMMISSION_TIERS, getCommissionTier } from './tiered-commission';
+import {
+  DEFAULT_RECURRING_POLICY,
+  getCommissionableMonths,
+  type RecurringCommissionPolicy,
+} from './recurring-commission';
+
+/** Average referral lifetime used for "lifetime value" projections */
+const AVG_LIFETIME_MONTHS = 24;
 
 export interface CalculatorInput {
   avgSubscriptionPrice: number;      // Average price in the community
   userSubscriptionPrice?: number;    // What the user pays (for break-even calc)
   retentionRate?: number;            // Assume 1.0 (100%) if not provided
+  recurringPolicy?: RecurringCommissionPolicy; // Creator's recurring cap (lifetime if not provided)
 }
 
 export interface EarningsProjection {
   referralCount: number;
-  tier: CommissionTierName;
+  tier: string;
   commissionRate: number;
   monthlyEarnings: number;
   yearlyEarnings: number;
+  lifetimeEarnings: number;          // Over an average referral lifetime, within the recurring cap
   paysForMembership: boolean;
   monthsToPayOff: number | null;
   surplusPerMonth: number;           // How much extra after membership is covered
@@ -41,7 +51,8 @@ export function calculateEarningsProjection(
   const {
     avgSubscriptionPrice,
     userSubscriptionPrice = avgSubscriptionPrice,
-    retentionRate = 1.0
+    retentionRate = 1.0,
+    recurringPolicy = DEFAULT_RECURRING_POLICY,
   } = input;
 
   // Get tier and commission rate for this referral count
@@ -52,8 +63,11 @@ export function calculateEarningsProjection(
     (referralCount * avgSubscriptionPrice * retentionRate * tier.memberRate).toFixed(2)
   );
 
-  // Yearly earnings (assuming stable referrals)
-  const yearlyEarnings = Number((monthlyEarnings * 12).toFixed(2));
+  // Yearly / lifetime earnings (assuming stable referrals, only commissionable months count)
+  const yearlyEarnings = Number((monthlyEarnings * getCommissionableMonths(recurringPolicy, 12)).toFixed(2));
+  const lifetimeEarnings = Number(
+    (monthlyEarnings * getCommissionableMonths(recurringPolicy, AVG_LIFETIME_MONTHS)).toFixed(2)
+  );
 
   // Does it pay for membership?
   const paysForMembership = monthlyEarnings >= userSubscriptionPrice;
@@ -74,6 +88,7 @@ export function calculateEarningsProjection(
     commissionRate: tier.memberRate,
     monthlyEarnings,
     yearlyEarnings,
+    lifetimeEarnings,
     paysForMembership,
     monthsToPayOff,
     surplusPerMonth,
@@ -165,15 +180,11 @@ export function formatEarningsDisplay(projection: EarningsProjection): {
     ? projection.monthlyEarnings / projection.referralCount
     : 0;
 
-  // Assume 2-year average lifetime for "lifetime value" display
-  const avgLifetimeMonths = 24;
-  const lifetimeValue = projection.monthlyEarnings * avgLifetimeMonths;
-
   return {
     monthly: `$${projection.monthlyEarnings.toFixed(0)}/mo`,
     yearly: `$${projection.yearlyEarnings.toFixed(0)}/yr`,
     perReferral: `$${perReferral.toFixed(2)}/mo per referral`,
-    lifetimeValue: `$${lifetimeValue.toFixed(0)} potential lifetime earnings`,
+    lifetimeValue: `$${projection.lifetimeEarnings.toFixed(0)} potential lifetime earnings`,
   };
 }
 
@@ -17,6 +17,12 @@
 import { prisma } from '../db/prisma';
 import logger from '../logger';
 import { addDays } from 'date-fns';
+import {
+  postLedgerTransaction,
+  buildBonusPosting,
+  buildBonusRevocationPosting,
+  buildBonusPayoutPosting,
+} from '../ledger/commission-ledger';
 
 // ============================================
 // TYPES & INTERFACES
@@ -224,23 +230,28 @@ export async function processFirstReferralBonus(
     const now = new Date();
     const confirmAt = addDays(now, BONUS_HOLD_PERIOD_DAYS);
 
-    // Create the bonus record
-    const bonus = await prisma.firstReferralBonus.create({
-      data: {
-        memberId,
-        triggeringCommissionId,
-        bonusAmount,
-        bonusType: config.bonusType,
-        status: 'pending_confirmation',
-        eligibleAt: now,
-        confirmAt,
-      },
-    });
+    // Create the bonus record, credit it on the ledger and set the member's flag
+    const bonus = await prisma.$transaction(async (tx) => {
+      const created = await tx.firstReferralBonus.create({
+        data: {
+          memberId,
+          triggeringCommissionId,
+          bonusAmount,
+          bonusType: config.bonusType,
+          status: 'pending_confirmation',
+          eligibleAt: now,
+          confirmAt,
+        },
+      });
 
-    // Update member's flag
-    await prisma.member.update({
-      where: { id: memberId },
-      data: { firstReferralBonusEarned: true },
+      const member = await tx.member.update({
+        where: { id: memberId },
+        data: { firstReferralBonusEarned: true },
+        select: { creatorId: true },
+      });
+
+      await postLedgerTransaction(tx, buildBonusPosting(created, member.creatorId));
+      return created;
     });
 
     logger.info(`First referral bonus awarded to ${memberId}: $${bonusAmount} (confirms: ${confirmAt.toISOString()})`);
@@ -307,6 +318,7 @@ export async function revokeFirstReferralBonus(
   try {
     const bonus = await prisma.firstReferralBonus.findUnique({
       where: { memberId },
+      include: { member: { select: { creatorId: true } } },
     });
 
     if (!bonus) {
@@ -320,19 +332,23 @@ export async function revokeFirstReferralBonus(
       return false;
     }
 
-    await prisma.firstReferralBonus.update({
-      where: { memberId },
-      data: {
-        status: 'revoked',
-        revokedAt: new Date(),
-        revokeReason: reason,
-      },
-    });
+    await prisma.$transaction(async (tx) => {
+      await tx.firstReferralBonus.update({
+        where: { memberId },
+        data: {
+          status: 'revoked',
+          revokedAt: new Date(),
+          revokeReason: reason,
+        },
+      });
 
-    // Update member flag
-    await prisma.member.update({
-      where: { id: memberId },
-      data: { firstReferralBonusEarned: false },
+      // Update member flag
+      await tx.member.update({
+        where: { id: memberId },
+        data: { firstReferralBonusEarned: false },
+      });
+
+      await postLedgerTransaction(tx, buildBonusRevocationPosting(bonus, bonus.member.creatorId));
     });
 
     logger.info(`Revoked first referral bonus for ${memberId}: ${reason}`);
@@ -353,6 +369,7 @@ export async function markBonusPaid(memberId: string): Promise<boolean> {
   try {
     const bonus = await prisma.firstReferralBonus.findUnique({
       where: { memberId },
+      include: { member: { select: { creatorId: true } } },
     });
 
     if (!bonus || bonus.status !== 'confirmed') {
@@ -360,12 +377,16 @@ export async function markBonusPaid(memberId: string): Promise<boolean> {
       return false;
     }
 
-    await prisma.firstReferralBonus.update({
-      where: { memberId },
-      data: {
-        status: 'paid',
-        paidAt: new Date(),
-      },
+    await prisma.$transaction(async (tx) => {
+      await tx.firstReferralBonus.update({
+        where: { memberId },
+        data: {
+          status: 'paid',
+          paidAt: new Date(),
+        },
+      });
+
+      await postLedgerTransaction(tx, buildBonusPayoutPosting(bonus, bonus.member.creatorId));
     });
 
     logger.info(`Marked first referral bonus as paid for ${memberId}`);
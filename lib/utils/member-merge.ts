@@ -0,0 +1,427 @@
+// lib/utils/member-merge.ts
+
+/**
+ * Member Merge
+ *
+ * Folds a duplicate Member (typically created when a membership was
+ * re-purchased - membershipId and userId are unique) into the record that
+ * stays. Everything owned by the duplicate moves over: commissions, ledger
+ * legs, payouts, fraud cases, clicks, sub-links, share events, snapshots,
+ * tier history, bonuses, claims and the members it referred. Its referral codes (current and
+ * retired) are retired onto the kept member so old links keep working.
+ * Counters are summed (earnings stay a cache of the re-owned ledger legs),
+ * the tier is re-evaluated, an AuditLog row is written and the duplicate is
+ * deleted.
+ *
+ * Runs inside the caller's transaction; previewInTransaction() shows the
+ * outcome without committing.
+ */
+
+import type { Member, Prisma } from '@prisma/client';
+import logger from '../logger';
+import { getCreatorTierSettings, getMemberTierMetrics, recordTierChange } from './tier-ladder';
+import { getHeldTier } from './tiered-commission';
+import { roundDollars } from './money';
+import { SUB_LINK_LIMITS } from '../constants/attribution';
+import { ReferralReassignmentError } from './referral-reassignment';
+import { OPEN_PAYOUT_STATUSES } from './payout-failures';
+
+/** Merges touch many tables - allow longer than Prisma's default interactive transaction */
+export const MERGE_TIMEOUT_MS = 30000;
+
+export interface MemberMergeResult {
+  sourceId: string;
+  targetId: string;
+  sourceReferralCode: string;
+  adoptedMembership: boolean; // Target took over the (newer) duplicate's Whop membership
+  droppedFraudWhitelist: boolean; // Only one record was whitelisted - the merged member isn't
+  moved: {
+    commissions: number;
+    ledgerEntries: number;
+    payouts: number; // Statements and their attempts - paid commissions stay paid
+    fraudCases: number; // Held commissions stay reviewable
+    clicks: number;
+    subLinks: number;
+    shareEvents: number;
+    snapshots: number;
+    tierHistory: number;
+    paymentFailures: number;
+    referrals: number; // Members the duplicate referred
+    claims: number;
+    bonuses: number;
+  };
+  totals: {
+    totalReferred: number;
+    monthlyReferred: number;
+    lifetimeEarnings: number;
+    monthlyEarnings: number;
+    commissionTier: string;
+  };
+}
+
+/**
+ * First free slug for a moved sub-link ("youtube" → "youtube-2")
+ */
+export function pickFreeSlug(slug: string, taken: Set<string>): string {
+  if (!taken.has(slug)) return slug;
+
+  for (let n = 2; ; n++) {
+    const suffix = `-${n}`;
+    const candidate = slug.slice(0, 32 - suffix.length) + suffix;
+    if (!taken.has(candidate) && SUB_LINK_LIMITS.SLUG_PATTERN.test(candidate)) return candidate;
+  }
+}
+
+export type MergeStrategy =
+  | 'move'          // Re-pointed at the kept member
+  | 'move_renamed'  // Re-pointed, colliding slugs get a suffix
+  | 'move_combined' // Re-pointed, or added into the kept member's row where both have one
+  | 'move_if_free'  // One per member - the kept member's wins, the duplicate's is dropped
+  | 'move_unique'   // One per member - the merge is refused if both have one
+  | 'retire';       // Codes keep redirecting, now to the kept member
+
+/**
+ * What happens to every relation pointing at the duplicate ("Model.field")
+ *
+ * Whatever still points at it when it is deleted goes with it
+ * (onDelete: Cascade), so every relation to Member must be listed here.
+ */
+export const MEMBER_MERGE_PLAN = {
+  'Commission.memberId': 'move',
+  'LedgerEntry.memberId': 'move', // Legs change owner, never amount - postings stay balanced
+  'Payout.memberId': 'move', // Line items and attempts follow their payout
+  'FraudCase.memberId': 'move', // Held commissions stay reviewable
+  'AttributionClick.memberId': 'move',
+  'ShareEvent.memberId': 'move',
+  'MemberTierHistory.memberId': 'move',
+  'PaymentFailure.memberId': 'move',
+  'ReferralClaim.claimantId': 'move',
+  'ReferralClaim.refereeId': 'move',
+  'Member.referrerId': 'move', // Members the duplicate referred
+  'ReferralSubLink.memberId': 'move_renamed',
+  'MonthlySnapshot.memberId': 'move_combined',
+  'MemberLifecycle.memberId': 'move_combined',
+  'ReferralBonus.memberId': 'move_if_free',
+  'AttributionConflict.refereeId': 'move_if_free',
+  'FirstReferralBonus.memberId': 'move_unique',
+  'ReferralCodeHistory.memberId': 'retire',
+} as const satisfies Record<string, MergeStrategy>;
+
+type MergePlan = typeof MEMBER_MERGE_PLAN;
+
+/** Relations moved as they are, with a single updateMany */
+export type SimpleMergeMove = { [K in keyof MergePlan]: MergePlan[K] extends 'move' ? K : never }[keyof MergePlan];
+
+type MergeCandidate = Pick<Member, 'id' | 'creatorId' | 'referrerId'> & { firstReferralBonus: object | null };
+
+/**
+ * Why two members can't be merged (null if they can)
+ *
+ * @param openPayouts - The duplicate's payouts in OPEN_PAYOUT_STATUSES
+ */
+export function getMergeBlocker(source: MergeCandidate, target: MergeCandidate, openPayouts: number): string | null {
+  if (source.id === target.id) return 'Cannot merge a member into itself';
+  if (source.creatorId !== target.creatorId) return 'Members belong to different communities';
+  if (source.firstReferralBonus && target.firstReferralBonus) {
+    return 'Both members received a first referral bonus - revoke one before merging';
+  }
+  if (target.referrerId === source.id || source.referrerId === target.id) {
+    return 'One member referred the other - reassign that referral first';
+  }
+  // An open payout's retries are keyed to the duplicate's transfer
+  if (openPayouts > 0) {
+    return `The duplicate has ${openPayouts} unfinished payout(s) - wait until they are paid or cancelled before merging`;
+  }
+  return null;
+}
+
+/**
+ * The kept member's fields after the merge: its own values win, the
+ * duplicate fills the gaps and counters are summed
+ */
+export function buildMergedMember(source: Member, target: Member) {
+  // The newer record holds the live Whop membership - future payments must find the target
+  const adoptedMembership = source.createdAt > target.createdAt;
+
+  // Whitelisting trusts one record's history - it doesn't extend to a merge with an untrusted one
+  const droppedFraudWhitelist = source.fraudWhitelisted !== target.fraudWhitelisted;
+
+  const data = {
+    ...(adoptedMembership && {
+      userId: source.userId,
+      membershipId: source.membershipId,
+      subscriptionPrice: source.subscriptionPrice,
+      billingPeriod: source.billingPeriod,
+      monthlyValue: source.monthlyValue,
+    }),
+    whopUsername: target.whopUsername ?? source.whopUsername,
+    promoCode: target.promoCode ?? source.promoCode,
+    promoCodeWhopId: target.promoCode ? target.promoCodeWhopId : source.promoCodeWhopId,
+    referredBy: target.referrerId ? target.referredBy : source.referredBy,
+    referrerId: target.referrerId ?? source.referrerId,
+    whopAffiliateUsername: target.whopAffiliateUsername ?? source.whopAffiliateUsername,
+    memberOrigin: target.referrerId ? target.memberOrigin : source.memberOrigin,
+    landingNote: target.landingNote ?? source.landingNote,
+    fraudWhitelisted: target.fraudWhitelisted && source.fraudWhitelisted,
+    lifetimeEarnings: { increment: source.lifetimeEarnings },
+    monthlyEarnings: { increment: source.monthlyEarnings },
+    totalReferred: { increment: source.totalReferred },
+    monthlyReferred: { increment: source.monthlyReferred },
+    currentStreak: Math.max(target.currentStreak, source.currentStreak),
+    longestStreak: Math.max(target.longestStreak, source.longestStreak),
+    firstReferralBonusEarned: target.firstReferralBonusEarned || source.firstReferralBonusEarned,
+    customCommissionRate: target.customCommissionRate ?? source.customCommissionRate,
+    customRateSetBy: target.customCommissionRate !== null ? target.customRateSetBy : source.customRateSetBy,
+    customRateSetAt: target.customCommissionRate !== null ? target.customRateSetAt : source.customRateSetAt,
+    customRateReason: target.customCommissionRate !== null ? target.customRateReason : source.customRateReason,
+  } satisfies Prisma.MemberUncheckedUpdateInput;
+
+  return { data, adoptedMembership, droppedFraudWhitelist };
+}
+
+/**
+ * Merge the duplicate `sourceId` into `targetId`
+ *
+ * @throws ReferralReassignmentError if the members can't be merged
+ */
+export async function mergeMembers(
+  db: Prisma.TransactionClient,
+  {
+    sourceId,
+    targetId,
+    triggeredBy,
+    reason,
+  }: {
+    sourceId: string;
+    targetId: string;
+    triggeredBy: string;
+    reason?: string;
+  }
+): Promise<MemberMergeResult> {
+  const [source, target] = await Promise.all([
+    db.member.findUnique({ where: { id: sourceId }, include: { firstReferralBonus: true, referralBonusReceived: true, lifecycle: true } }),
+    db.member.findUnique({ where: { id: targetId }, include: { firstReferralBonus: true, referralBonusReceived: true, lifecycle: true } }),
+  ]);
+
+  if (!source || !target) throw new ReferralReassignmentError('Member not found');
+
+  const openPayouts = await db.payout.count({
+    where: { memberId: source.id, status: { in: [...OPEN_PAYOUT_STATUSES] } },
+  });
+
+  const blocker = getMergeBlocker(source, target, openPayouts);
+  if (blocker) throw new ReferralReassignmentError(blocker);
+
+  // Owned records (MEMBER_MERGE_PLAN 'move')
+  const byMember = { where: { memberId: source.id }, data: { memberId: target.id } };
+  const moves: Record<SimpleMergeMove, () => Promise<Prisma.BatchPayload>> = {
+    'Commission.memberId': () => db.commission.updateMany(byMember),
+    'LedgerEntry.memberId': () => db.ledgerEntry.updateMany(byMember),
+    'Payout.memberId': () => db.payout.updateMany(byMember),
+    'FraudCase.memberId': () => db.fraudCase.updateMany(byMember),
+    'AttributionClick.memberId': () => db.attributionClick.updateMany(byMember),
+    'ShareEvent.memberId': () => db.shareEvent.updateMany(byMember),
+    'MemberTierHistory.memberId': () => db.memberTierHistory.updateMany(byMember),
+    'PaymentFailure.memberId': () => db.paymentFailure.updateMany(byMember),
+    'ReferralClaim.claimantId': () =>
+      db.referralClaim.updateMany({ where: { claimantId: source.id }, data: { claimantId: target.id } }),
+    'ReferralClaim.refereeId': () =>
+      db.referralClaim.updateMany({ where: { refereeId: source.id }, data: { refereeId: target.id } }),
+    'Member.referrerId': () =>
+      db.member.updateMany({ where: { referrerId: source.id }, data: { referrerId: target.id, referredBy: target.referralCode } }),
+  };
+
+  const moveKeys = Object.keys(moves) as SimpleMergeMove[];
+  const counts = await Promise.all(moveKeys.map(key => moves[key]()));
+  const moved = (key: SimpleMergeMove) => counts[moveKeys.indexOf(key)].count;
+
+  // Sub-links: slugs are unique per member
+  const [sourceLinks, targetLinks] = await Promise.all([
+    db.referralSubLink.findMany({ where: { memberId: source.id }, select: { id: true, slug: true } }),
+    db.referralSubLink.findMany({ where: { memberId: target.id }, select: { slug: true } }),
+  ]);
+  const takenSlugs = new Set(targetLinks.map(link => link.slug));
+
+  for (const link of sourceLinks) {
+    const slug = pickFreeSlug(link.slug, takenSlugs);
+    takenSlugs.add(slug);
+    await db.referralSubLink.update({ where: { id: link.id }, data: { memberId: target.id, slug } });
+  }
+
+  // Snapshots: one per member per month - overlapping months are added together
+  const sourceSnapshots = await db.monthlySnapshot.findMany({ where: { memberId: source.id } });
+
+  for (const snapshot of sourceSnapshots) {
+    const existing = await db.monthlySnapshot.findUnique({
+      where: { month_creatorId_memberId: { month: snapshot.month, creatorId: snapshot.creatorId, memberId: target.id } },
+    });
+
+    if (existing) {
+      await db.monthlySnapshot.update({
+        where: { id: existing.id },
+        data: {
+          monthlyReferrals: { increment: snapshot.monthlyReferrals },
+          monthlyEarnings: { increment: snapshot.monthlyEarnings },
+        },
+      });
+      await db.monthlySnapshot.delete({ where: { id: snapshot.id } });
+    } else {
+      await db.monthlySnapshot.update({ where: { id: snapshot.id }, data: { memberId: target.id } });
+    }
+  }
+
+  // Bonuses (one of each per member)
+  let bonuses = 0;
+
+  if (source.firstReferralBonus) {
+    await db.firstReferralBonus.update({ where: { id: source.firstReferralBonus.id }, data: { memberId: target.id } });
+    bonuses++;
+  }
+
+  if (source.referralBonusReceived && !target.referralBonusReceived) {
+    await db.referralBonus.update({ where: { id: source.referralBonusReceived.id }, data: { memberId: target.id } });
+    bonuses++;
+  }
+
+  // Lifecycle: keep the target's, folding in what the duplicate paid
+  if (source.lifecycle && target.lifecycle) {
+    await db.memberLifecycle.update({
+      where: { id: target.lifecycle.id },
+      data: {
+        lifetimeValue: { increment: source.lifecycle.lifetimeValue },
+        totalRefunded: { increment: source.lifecycle.totalRefunded },
+        netValue: { increment: source.lifecycle.netValue },
+      },
+    });
+  } else if (source.lifecycle) {
+    await db.memberLifecycle.update({ where: { id: source.lifecycle.id }, data: { memberId: target.id } });
+  }
+
+  // Attribution conflicts and claims
+  const targetConflict = await db.attributionConflict.findUnique({ where: { refereeId: target.id }, select: { id: true } });
+  if (targetConflict) {
+    await db.attributionConflict.deleteMany({ where: { refereeId: source.id } });
+  } else {
+    await db.attributionConflict.updateMany({ where: { refereeId: source.id }, data: { refereeId: target.id } });
+  }
+
+  const candidateConflicts = await db.attributionConflict.findMany({
+    where: {
+      creatorId: source.creatorId,
+      OR: [
+        { assignedMemberId: source.id },
+        { candidates: { array_contains: [{ memberId: source.id }] } },
+      ],
+    },
+  });
+
+  for (const conflict of candidateConflicts) {
+    const candidates = Array.isArray(conflict.candidates) ? (conflict.candidates as Prisma.JsonObject[]) : [];
+    await db.attributionConflict.update({
+      where: { id: conflict.id },
+      data: {
+        assignedMemberId: conflict.assignedMemberId === source.id ? target.id : conflict.assignedMemberId,
+        candidates: candidates.map(candidate => (
+          candidate.memberId === source.id
+            ? { ...candidate, memberId: target.id, referralCode: target.referralCode }
+            : candidate
+        )) as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  // The duplicate's codes stay reserved and keep redirecting - now to the kept member
+  await db.referralCodeHistory.updateMany({ where: { memberId: source.id }, data: { memberId: target.id } });
+  await db.referralCodeHistory.create({
+    data: { code: source.referralCode, memberId: target.id, replacedBy: target.referralCode },
+  });
+
+  const { data, adoptedMembership, droppedFraudWhitelist } = buildMergedMember(source, target);
+
+  // Free the duplicate's unique identifiers before handing them over
+  await db.member.update({
+    where: { id: source.id },
+    data: {
+      userId: `merged:${source.id}`,
+      membershipId: `merged:${source.id}`,
+      whopUsername: null,
+      promoCode: null,
+    },
+  });
+
+  const updated = await db.member.update({ where: { id: target.id }, data });
+
+  // Re-evaluate the tier on the combined history
+  const tierSettings = await getCreatorTierSettings(updated.creatorId, db);
+  const metrics = await getMemberTierMetrics(updated, tierSettings, db);
+  const tier = getHeldTier(metrics, tierSettings.ladder, tierSettings.qualification, updated.commissionTier);
+
+  if (tier.tierName !== updated.commissionTier) {
+    await recordTierChange(db, {
+      member: updated,
+      ladder: tierSettings.ladder,
+      newTier: tier,
+      triggerType: 'recalculation',
+      referralCount: metrics.referrals,
+    });
+  }
+
+  const result: MemberMergeResult = {
+    sourceId: source.id,
+    targetId: target.id,
+    sourceReferralCode: source.referralCode,
+    adoptedMembership,
+    droppedFraudWhitelist,
+    moved: {
+      commissions: moved('Commission.memberId'),
+      ledgerEntries: moved('LedgerEntry.memberId'),
+      payouts: moved('Payout.memberId'),
+      fraudCases: moved('FraudCase.memberId'),
+      clicks: moved('AttributionClick.memberId'),
+      subLinks: sourceLinks.length,
+      shareEvents: moved('ShareEvent.memberId'),
+      snapshots: sourceSnapshots.length,
+      tierHistory: moved('MemberTierHistory.memberId'),
+      paymentFailures: moved('PaymentFailure.memberId'),
+      referrals: moved('Member.referrerId'),
+      claims: moved('ReferralClaim.claimantId') + moved('ReferralClaim.refereeId'),
+      bonuses,
+    },
+    totals: {
+      totalReferred: updated.totalReferred,
+      monthlyReferred: updated.monthlyReferred,
+      lifetimeEarnings: roundDollars(updated.lifetimeEarnings),
+      monthlyEarnings: roundDollars(updated.monthlyEarnings),
+      commissionTier: tier.tierName,
+    },
+  };
+
+  await db.member.delete({ where: { id: source.id } });
+
+  await db.auditLog.create({
+    data: {
+      entity: 'Member',
+      entityId: target.id,
+      field: 'mergedFrom',
+      oldValue: source.id,
+      newValue: target.id,
+      triggeredBy,
+      metadata: {
+        reason,
+        sourceReferralCode: source.referralCode,
+        sourceMembershipId: source.membershipId,
+        sourceUserId: source.userId,
+        adoptedMembership,
+        droppedFraudWhitelist,
+        moved: result.moved,
+      },
+    },
+  });
+
+  logger.info(
+    `Member ${source.referralCode} merged into ${target.referralCode} ` +
+    `(${result.moved.commissions} commissions, ${result.moved.referrals} referrals)`
+  );
+
+  return result;
+}
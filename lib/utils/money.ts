@@ -0,0 +1,207 @@
+// lib/utils/money.ts
+/**
+ * Money in Integer Cents
+ *
+ * All commission math runs in minor units (cents) so splits and refunds are
+ * exact. Dollars only appear at the edges: Whop amounts come in as cents,
+ * Float columns store whole-cent dollar values written via fromCents(), and
+ * Decimal columns (Invoice) are written via toDecimal().
+ *
+ * ROUNDING RULES (deterministic):
+ * - Rates round half away from zero to the nearest cent
+ * - Member and creator shares are rounded; the platform takes the remainder,
+ *   so member + creator + platform === sale, always
+ * - Partial refunds are pro-rated cumulatively against the original split, so
+ *   a series of refunds that adds up to the sale reverses it exactly
+ * - FX conversion converts the sale once and pro-rates the shares, so a
+ *   converted split sums exactly too (two-decimal currencies only)
+ */
+
+import { Prisma } from '@prisma/client';
+
+/** Integer number of cents */
+export type Cents = number;
+
+export interface CentsSplit {
+  memberShare: Cents;
+  creatorShare: Cents;
+  platformShare: Cents;
+}
+
+export interface SaleSplit extends CentsSplit {
+  sale: Cents;
+}
+
+export interface RefundSplit extends CentsSplit {
+  refund: Cents;
+}
+
+// Absorbs float noise like 1.005 * 100 = 100.49999999999999
+const ROUNDING_EPSILON = 1e-6;
+
+function roundHalfAwayFromZero(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value) + ROUNDING_EPSILON) || 0;
+}
+
+// ========================================
+// CONVERSION
+// ========================================
+
+/**
+ * Dollars (number, Decimal or numeric string) -> cents
+ */
+export function toCents(amount: number | string | Prisma.Decimal | null | undefined): Cents {
+  if (amount === null || amount === undefined) return 0;
+  const value = typeof amount === 'number' ? amount : Number(amount.toString());
+
+  if (!Number.isFinite(value)) {
+    throw new Error('Amount must be a valid number');
+  }
+
+  return roundHalfAwayFromZero(value * 100);
+}
+
+/**
+ * Cents -> dollars (for Float columns and API responses)
+ */
+export function fromCents(cents: Cents): number {
+  return cents / 100;
+}
+
+/**
+ * Cents -> Prisma.Decimal (for Decimal columns)
+ */
+export function toDecimal(cents: Cents): Prisma.Decimal {
+  return new Prisma.Decimal(cents).div(100);
+}
+
+/**
+ * Round a dollar amount to whole cents
+ */
+export function roundDollars(amount: number): number {
+  return fromCents(toCents(amount));
+}
+
+// ========================================
+// ARITHMETIC
+// ========================================
+
+export function sumCents(values: Cents[]): Cents {
+  return values.reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Sum a list of dollar amounts exactly (converts each to cents first)
+ */
+export function sumDollars(values: Array<number | string | Prisma.Decimal | null | undefined>): number {
+  return fromCents(sumCents(values.map(toCents)));
+}
+
+/**
+ * cents * rate, rounded half away from zero
+ */
+export function applyRate(cents: Cents, rate: number): Cents {
+  return roundHalfAwayFromZero(cents * rate);
+}
+
+/**
+ * cents * numerator / denominator in integer math, rounded half away from zero
+ */
+export function prorate(cents: Cents, numerator: Cents, denominator: Cents): Cents {
+  if (denominator === 0) return 0;
+  const sign = Math.sign(cents) * Math.sign(numerator) * Math.sign(denominator);
+  const product = Math.abs(cents * numerator);
+  const divisor = Math.abs(denominator);
+  return sign * Math.floor((2 * product + divisor) / (2 * divisor));
+}
+
+// ========================================
+// SPLITS
+// ========================================
+
+/**
+ * Split a sale between member, creator and platform
+ * The platform share is the remainder, so the split always sums to the sale.
+ */
+export function splitSale(sale: Cents, rates: { memberRate: number; creatorRate: number }): SaleSplit {
+  const memberShare = applyRate(sale, rates.memberRate);
+  const creatorShare = applyRate(sale, rates.creatorRate);
+  const platformShare = sale - memberShare - creatorShare;
+
+  if (platformShare < 0) {
+    throw new Error('Member and creator rates exceed 100% of the sale');
+  }
+
+  return { sale, memberShare, creatorShare, platformShare };
+}
+
+/**
+ * Portion of the original split reversed by a refund
+ *
+ * @param original - The commission's split
+ * @param refund - Amount refunded now
+ * @param alreadyRefunded - Totals of earlier refunds against the same sale
+ */
+export function splitRefund(
+  original: SaleSplit,
+  refund: Cents,
+  alreadyRefunded: RefundSplit = { refund: 0, memberShare: 0, creatorShare: 0, platformShare: 0 }
+): RefundSplit {
+  // Never reverse more than was sold
+  const cumulativeRefund = Math.min(original.sale, alreadyRefunded.refund + refund);
+  const thisRefund = cumulativeRefund - alreadyRefunded.refund;
+
+  // Pro-rate the cumulative total, then subtract what was already reversed
+  const cumulativeMember = prorate(original.memberShare, cumulativeRefund, original.sale);
+  const cumulativeCreator = prorate(original.creatorShare, cumulativeRefund, original.sale);
+
+  const memberShare = cumulativeMember - alreadyRefunded.memberShare;
+  const creatorShare = cumulativeCreator - alreadyRefunded.creatorShare;
+
+  return {
+    refund: thisRefund,
+    memberShare,
+    creatorShare,
+    platformShare: thisRefund - memberShare - creatorShare,
+  };
+}
+
+// ========================================
+// CURRENCY CONVERSION
+// ========================================
+
+/**
+ * Convert a sale split at an FX rate (target units per 1 source unit)
+ * The sale is converted once and each share is pro-rated against it, so the
+ * converted split still sums exactly - the platform takes the remainder.
+ */
+export function convertSplit(split: SaleSplit, rate: number): SaleSplit {
+  const sale = applyRate(split.sale, rate);
+  const memberShare = prorate(split.memberShare, sale, split.sale);
+  const creatorShare = prorate(split.creatorShare, sale, split.sale);
+
+  return { sale, memberShare, creatorShare, platformShare: sale - memberShare - creatorShare };
+}
+
+/**
+ * Converted portion of a refund, pro-rated cumulatively like splitRefund()
+ * so the converted refunds of a fully refunded sale reverse its converted split.
+ *
+ * @param original - The commission's split in the sale currency
+ * @param converted - The same split after convertSplit()
+ * @param refund - Amount refunded now, in the sale currency
+ * @param alreadyRefunded - Earlier refunds in the sale currency
+ * @param alreadyConverted - Earlier refunds after conversion
+ */
+export function convertRefund(
+  original: SaleSplit,
+  converted: SaleSplit,
+  refund: Cents,
+  alreadyRefunded: Cents,
+  alreadyConverted: RefundSplit = { refund: 0, memberShare: 0, creatorShare: 0, platformShare: 0 }
+): RefundSplit {
+  const cumulativeRefund = Math.min(original.sale, alreadyRefunded + refund);
+  const cumulativeConverted = prorate(converted.sale, cumulativeRefund, original.sale);
+
+  return splitRefund(converted, cumulativeConverted - alreadyConverted.refund, alreadyConverted);
+}
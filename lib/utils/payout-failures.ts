@@ -0,0 +1,183 @@
+// lib/utils/payout-failures.ts
+/**
+ * Payout Failures
+ *
+ * A payout whose transfer fails keeps its commissions (they are not picked up
+ * by the next run) and is retried with the same idempotence key, so a transfer
+ * that actually went through can't be sent twice. Failures are classified by
+ * who can fix them:
+ *
+ * - transient:      network errors, rate limits, Whop outages - retried with backoff
+ * - creator_action: the creator's balance can't cover it - retried with backoff
+ * - member_action:  the member can't receive transfers - rechecked daily until they can
+ * - admin_action:   configuration errors, rejected or duplicate transfers - not retried
+ *
+ * Pure helpers - no database access (the retry job is lib/utils/payout-recovery.ts).
+ */
+
+import { addMinutes } from 'date-fns';
+import { PAYOUT_RETRIES } from '../constants/commission';
+import type { PayoutEligibility, TransferResult } from '../whop/transfers';
+
+export const PAYOUT_STATUSES = ['processing', 'paid', 'retrying', 'action_needed', 'failed', 'cancelled'] as const;
+
+export type PayoutStatus = (typeof PAYOUT_STATUSES)[number];
+
+/** Payouts that still own their commissions (excluded from new payout runs) */
+export const OPEN_PAYOUT_STATUSES: PayoutStatus[] = ['processing', 'retrying', 'action_needed', 'failed'];
+
+export const PAYOUT_FAILURE_REASONS = [
+  'network',
+  'rate_limited',
+  'whop_unavailable',
+  'insufficient_funds',
+  'payouts_not_enabled',
+  'recipient_not_found',
+  'configuration',
+  'duplicate',
+  'rejected',
+  'unknown',
+] as const;
+
+export type PayoutFailureReason = (typeof PAYOUT_FAILURE_REASONS)[number];
+
+export type PayoutFailureCategory = 'transient' | 'creator_action' | 'member_action' | 'admin_action';
+
+export interface PayoutFailure {
+  reason: PayoutFailureReason;
+  category: PayoutFailureCategory;
+  message: string;
+}
+
+const FAILURE_CATEGORIES: Record<PayoutFailureReason, PayoutFailureCategory> = {
+  network: 'transient',
+  rate_limited: 'transient',
+  whop_unavailable: 'transient',
+  unknown: 'transient',
+  insufficient_funds: 'creator_action',
+  payouts_not_enabled: 'member_action',
+  recipient_not_found: 'admin_action',
+  configuration: 'admin_action',
+  duplicate: 'admin_action',
+  rejected: 'admin_action',
+};
+
+const FAILURE_LABELS: Record<PayoutFailureReason, string> = {
+  network: 'Network error',
+  rate_limited: 'Rate limited by Whop',
+  whop_unavailable: 'Whop unavailable',
+  unknown: 'Unknown error',
+  insufficient_funds: 'Insufficient creator balance',
+  payouts_not_enabled: 'Payouts not enabled',
+  recipient_not_found: 'Recipient not found',
+  configuration: 'Configuration error',
+  duplicate: 'Possible duplicate transfer',
+  rejected: 'Rejected by Whop',
+};
+
+// transfers.ts validation and auth errors
+const CONFIGURATION_ERROR_CODES = ['CONFIG_ERROR', 'MISSING_IDS', 'INVALID_AMOUNT', 'UNAUTHORIZED', 'FORBIDDEN'];
+
+// Provider error codes/messages that name the cause directly
+const INSUFFICIENT_FUNDS_PATTERN = /insufficient|not enough (funds|balance)|balance too low/i;
+const PAYOUTS_NOT_ENABLED_PATTERN = /payouts? (method|account|details)|payouts? (are |is )?not enabled|cannot receive (payouts|transfers)|kyc/i;
+
+function failure(reason: PayoutFailureReason, message?: string): PayoutFailure {
+  return { reason, category: FAILURE_CATEGORIES[reason], message: message || FAILURE_LABELS[reason] };
+}
+
+export function getPayoutFailureLabel(reason: string | null): string {
+  return FAILURE_LABELS[reason as PayoutFailureReason] ?? FAILURE_LABELS.unknown;
+}
+
+export function getPayoutFailureCategory(reason: string | null): PayoutFailureCategory {
+  return FAILURE_CATEGORIES[reason as PayoutFailureReason] ?? FAILURE_CATEGORIES.unknown;
+}
+
+/**
+ * Classify a failed transfer from its errorCode (mapHttpErrorCode) and message
+ */
+export function classifyTransferFailure(result: Pick<TransferResult, 'error' | 'errorCode'>): PayoutFailure {
+  const code = (result.errorCode ?? '').toUpperCase();
+  const text = `${code} ${result.error ?? ''}`;
+
+  // Raised before or regardless of the recipient
+  if (CONFIGURATION_ERROR_CODES.includes(code)) return failure('configuration', result.error);
+  if (INSUFFICIENT_FUNDS_PATTERN.test(text)) return failure('insufficient_funds', result.error);
+  if (PAYOUTS_NOT_ENABLED_PATTERN.test(text)) return failure('payouts_not_enabled', result.error);
+
+  switch (code) {
+    case 'NETWORK_ERROR':
+      return failure('network', result.error);
+    case 'RATE_LIMITED':
+      return failure('rate_limited', result.error);
+    case 'SERVER_ERROR':
+      return failure('whop_unavailable', result.error);
+    case 'NOT_FOUND':
+      return failure('recipient_not_found', result.error);
+    case 'DUPLICATE_TRANSFER':
+      // Same key seen before - the transfer may have gone through
+      return failure('duplicate', result.error);
+    case 'BAD_REQUEST':
+    case 'VALIDATION_ERROR':
+      return failure('rejected', result.error);
+  }
+
+  return /^HTTP_5\d\d$/.test(code) ? failure('whop_unavailable', result.error) : failure('unknown', result.error);
+}
+
+/**
+ * Why a member can't be paid, from checkPayoutEligibility()
+ * Returns null when they can - or when the check itself failed, in which case
+ * the transfer is attempted anyway and classified on its own.
+ */
+export function classifyPayoutEligibility(eligibility: PayoutEligibility): PayoutFailure | null {
+  if (eligibility.eligible) return null;
+  if (eligibility.payoutMethodConfigured === false) return failure('payouts_not_enabled', eligibility.reason);
+  if (eligibility.reason === 'User not found') return failure('recipient_not_found', eligibility.reason);
+
+  return null;
+}
+
+/**
+ * Delay before retry number `attempt` (1 = after the first failed transfer)
+ */
+export function getPayoutRetryDelayMinutes(attempt: number): number {
+  const delay = PAYOUT_RETRIES.BASE_DELAY_MINUTES * Math.pow(2, Math.max(0, attempt - 1));
+  return Math.min(delay, PAYOUT_RETRIES.MAX_DELAY_MINUTES);
+}
+
+/**
+ * Where a payout goes after a failure
+ *
+ * @param attempts - failed transfers so far, including this one
+ */
+export function planPayoutRetry(
+  failure: PayoutFailure,
+  attempts: number,
+  now: Date = new Date()
+): { status: PayoutStatus; nextRetryAt: Date | null } {
+  if (failure.category === 'member_action') {
+    return { status: 'action_needed', nextRetryAt: addMinutes(now, PAYOUT_RETRIES.ELIGIBILITY_RECHECK_HOURS * 60) };
+  }
+
+  if (failure.category === 'admin_action' || attempts >= PAYOUT_RETRIES.MAX_ATTEMPTS) {
+    return { status: 'failed', nextRetryAt: null };
+  }
+
+  return { status: 'retrying', nextRetryAt: addMinutes(now, getPayoutRetryDelayMinutes(attempts)) };
+}
+
+/**
+ * What the member sees on their dashboard for a payout that didn't go through
+ */
+export function describeMemberPayoutIssue(status: string, reason: string | null): string {
+  if (status === 'action_needed' && reason === 'payouts_not_enabled') {
+    return 'Action needed: payouts are not enabled on your Whop account. Set up your payout details in Whop and we will send it automatically.';
+  }
+  if (status === 'action_needed' || status === 'failed') {
+    return 'This payout could not be sent. Our team has been notified and will follow up.';
+  }
+
+  return 'This payout did not go through and will be retried automatically.';
+}
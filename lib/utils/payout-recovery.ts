@@ -0,0 +1,265 @@
+// lib/utils/payout-recovery.ts
+/**
+ * Payout Recovery
+ *
+ * Payouts that didn't go through keep their commissions until they do
+ * (lib/utils/payout-failures.ts):
+ * - retryDuePayouts() resends retrying payouts and rechecks members who
+ *   couldn't receive transfers, with the same idempotence key
+ * - a payout whose commissions were refunded since it was planned is
+ *   cancelled instead, and the next payout run replans them
+ * - getStuckPayoutReport() backs the admin report of money stuck per creator,
+ *   where failed payouts can be retried or cancelled
+ */
+
+import { subHours } from 'date-fns';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { fromCents, sumCents, toCents } from './money';
+import { PAYABLE_COMMISSION_STATUSES } from './commission-clearing';
+import { sendPayouts } from './payout-runs';
+import {
+  describeMemberPayoutIssue,
+  getPayoutFailureCategory,
+  getPayoutFailureLabel,
+  OPEN_PAYOUT_STATUSES,
+  type PayoutStatus,
+} from './payout-failures';
+
+export interface PayoutRecoveryResult {
+  due: number;
+  paid: number;
+  failed: number;
+  cancelled: number;  // Commissions changed since the payout was planned
+  errors: number;
+}
+
+// Payouts left in processing this long were interrupted mid-run
+const INTERRUPTED_AFTER_HOURS = 1;
+
+const RETRY_BATCH_SIZE = 100;
+
+/**
+ * Resend every payout whose retry is due
+ */
+export async function retryDuePayouts(now: Date = new Date()): Promise<PayoutRecoveryResult> {
+  const result: PayoutRecoveryResult = { due: 0, paid: 0, failed: 0, cancelled: 0, errors: 0 };
+
+  const payouts = await prisma.payout.findMany({
+    where: {
+      OR: [
+        { status: { in: ['retrying', 'action_needed'] }, nextRetryAt: { lte: now } },
+        { status: 'processing', updatedAt: { lte: subHours(now, INTERRUPTED_AFTER_HOURS) } },
+      ],
+    },
+    select: {
+      id: true,
+      createdAt: true,
+      creator: { select: { id: true, companyId: true } },
+      lineItems: {
+        select: {
+          commission: {
+            select: { status: true, refunds: { select: { createdAt: true } } },
+          },
+        },
+      },
+    },
+    orderBy: { nextRetryAt: 'asc' },
+    take: RETRY_BATCH_SIZE,
+  });
+
+  result.due = payouts.length;
+
+  const byCreator = new Map<string, { creator: (typeof payouts)[number]['creator']; payoutIds: string[] }>();
+
+  for (const payout of payouts) {
+    const changed = payout.lineItems.some(({ commission }) =>
+      !(PAYABLE_COMMISSION_STATUSES as readonly string[]).includes(commission.status) ||
+      commission.refunds.some(refund => refund.createdAt > payout.createdAt)
+    );
+
+    if (changed) {
+      await prisma.payout.update({
+        where: { id: payout.id },
+        data: {
+          status: 'cancelled',
+          nextRetryAt: null,
+          errorMessage: 'Commissions were refunded or changed since the payout was planned - replanned in the next payout run',
+        },
+      });
+      result.cancelled++;
+      continue;
+    }
+
+    const entry = byCreator.get(payout.creator.id) ?? { creator: payout.creator, payoutIds: [] };
+    entry.payoutIds.push(payout.id);
+    byCreator.set(payout.creator.id, entry);
+  }
+
+  for (const { creator, payoutIds } of Array.from(byCreator.values())) {
+    try {
+      const sent = await sendPayouts(creator, payoutIds, now);
+      result.paid += sent.paid;
+      result.failed += sent.failed;
+    } catch (error) {
+      result.errors++;
+      logger.error(`Error retrying payouts for creator ${creator.id}:`, error);
+    }
+  }
+
+  logger.info(
+    `Payout retries: ${result.paid}/${result.due} paid, ${result.failed} failed again, ` +
+    `${result.cancelled} cancelled, ${result.errors} errors`
+  );
+
+  return result;
+}
+
+// ========================================
+// ADMIN
+// ========================================
+
+/**
+ * Money held in payouts that didn't go through, per creator (most stuck first)
+ */
+export async function getStuckPayoutReport({ creatorId }: { creatorId?: string } = {}) {
+  const payouts = await prisma.payout.findMany({
+    where: {
+      status: { in: OPEN_PAYOUT_STATUSES.filter(status => status !== 'processing') },
+      ...(creatorId && { creatorId }),
+    },
+    include: {
+      creator: { select: { companyName: true } },
+      member: { select: { username: true } },
+      attempts: { orderBy: { createdAt: 'desc' }, take: 5 },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const toRow = (payout: (typeof payouts)[number]) => ({
+    id: payout.id,
+    username: payout.member.username,
+    currency: payout.currency,
+    amount: payout.amount,
+    reportingAmount: payout.reportingAmount,
+    commissionCount: payout.commissionCount,
+    status: payout.status,
+    reason: getPayoutFailureLabel(payout.failureReason),
+    category: getPayoutFailureCategory(payout.failureReason),
+    errorMessage: payout.errorMessage,
+    attemptCount: payout.attemptCount,
+    nextRetryAt: payout.nextRetryAt,
+    createdAt: payout.createdAt,
+    attempts: payout.attempts,
+  });
+
+  const creators = new Map<string, {
+    creatorId: string;
+    creatorName: string;
+    stuckAmount: number;
+    byStatus: Record<string, number>;
+    byReason: Record<string, number>;
+    oldestAt: Date;
+    payouts: Array<ReturnType<typeof toRow>>;
+  }>();
+
+  for (const payout of payouts) {
+    const row = creators.get(payout.creatorId) ?? {
+      creatorId: payout.creatorId,
+      creatorName: payout.creator.companyName,
+      stuckAmount: 0,
+      byStatus: {},
+      byReason: {},
+      oldestAt: payout.createdAt,
+      payouts: [],
+    };
+    const payoutRow = toRow(payout);
+    const amountCents = toCents(payout.reportingAmount);
+
+    row.stuckAmount = fromCents(toCents(row.stuckAmount) + amountCents);
+    row.byStatus[payout.status] = fromCents(toCents(row.byStatus[payout.status] ?? 0) + amountCents);
+    row.byReason[payoutRow.reason] = fromCents(toCents(row.byReason[payoutRow.reason] ?? 0) + amountCents);
+    row.payouts.push(payoutRow);
+    creators.set(payout.creatorId, row);
+  }
+
+  const rows = Array.from(creators.values()).sort((a, b) => b.stuckAmount - a.stuckAmount);
+
+  return {
+    creators: rows,
+    totalStuck: fromCents(sumCents(rows.map(row => toCents(row.stuckAmount)))),
+  };
+}
+
+/**
+ * Retry a payout on the next recovery run, or cancel it so the next payout
+ * run replans its commissions
+ *
+ * @returns null if the payout isn't open
+ */
+export async function resolveStuckPayout({
+  payoutId,
+  action,
+  resolvedBy,
+}: {
+  payoutId: string;
+  action: 'retry' | 'cancel';
+  resolvedBy: string;
+}) {
+  const payout = await prisma.payout.findUnique({ where: { id: payoutId } });
+  if (!payout || !OPEN_PAYOUT_STATUSES.includes(payout.status as PayoutStatus)) return null;
+
+  const status = action === 'retry' ? 'retrying' : 'cancelled';
+
+  return prisma.$transaction(async (tx) => {
+    await tx.auditLog.create({
+      data: {
+        entity: 'Payout',
+        entityId: payout.id,
+        field: 'status',
+        oldValue: payout.status,
+        newValue: status,
+        triggeredBy: 'manual',
+        metadata: { resolvedBy, failureReason: payout.failureReason, attemptCount: payout.attemptCount },
+      },
+    });
+
+    return tx.payout.update({
+      where: { id: payout.id },
+      data: { status, nextRetryAt: action === 'retry' ? new Date() : null },
+    });
+  });
+}
+
+// ========================================
+// MEMBER DASHBOARD
+// ========================================
+
+/**
+ * Payouts that didn't reach the member yet, and what (if anything) they need to do
+ */
+export async function getMemberPayoutIssues(memberId: string) {
+  const payouts = await prisma.payout.findMany({
+    where: { memberId, status: { in: ['retrying', 'action_needed', 'failed'] } },
+    select: {
+      id: true,
+      amount: true,
+      currency: true,
+      status: true,
+      failureReason: true,
+      commissionCount: true,
+      nextRetryAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return payouts.map(payout => ({
+    id: payout.id,
+    amount: payout.amount,
+    currency: payout.currency,
+    commissionCount: payout.commissionCount,
+    actionNeeded: payout.status === 'action_needed' && getPayoutFailureCategory(payout.failureReason) === 'member_action',
+    message: describeMemberPayoutIssue(payout.status, payout.failureReason),
+    nextRetryAt: payout.status === 'retrying' ? payout.nextRetryAt : null,
+  }));
+}
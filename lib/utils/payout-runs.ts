@@ -0,0 +1,490 @@
+// lib/utils/payout-runs.ts
+/**
+ * Payout Runs
+ *
+ * Daily job that pays creators whose schedule is due (lib/utils/payout-schedule.ts):
+ * 1. Group the creator's cleared commissions (and legacy pending_payout ones)
+ *    per member and currency
+ * 2. Net each group against the member's negative balance (lib/ledger/member-balance.ts)
+ * 3. Skip members under the creator's minimum - their commissions roll over
+ * 4. Store a Payout with a line item per commission and send one transfer per
+ *    payout through sendPayouts() - after checking the member can receive one
+ * 5. Collect the platform share of cleared commissions in one transfer per currency
+ *
+ * Every transfer is recorded as a PayoutAttempt. A payout that fails keeps its
+ * commissions and is retried by lib/utils/payout-recovery.ts (see
+ * lib/utils/payout-failures.ts). getMemberPayoutStatements() backs the
+ * statement on the member dashboard.
+ */
+
+import { createHash } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { batchPayCommissions, checkPayoutEligibility } from '../whop/transfers';
+import { notifyPaymentProcessed, notifyPayoutActionNeeded } from '../whop/notifications';
+import { sendPaymentProcessedDM } from '../whop/graphql-messaging';
+import { postCommissionPaidOut } from '../ledger/commission-ledger';
+import {
+  applyCarryForwardToLines,
+  getCommissionOwed,
+  getMemberSettledBalance,
+} from '../ledger/member-balance';
+import { formatCurrency } from '../constants/metrics';
+import { getPlatformShareAfterRefunds } from '../invoice/fee-reconciliation';
+import { fromCents, sumCents, toCents } from './money';
+import { PAYABLE_COMMISSION_STATUSES } from './commission-clearing';
+import {
+  classifyPayoutEligibility,
+  classifyTransferFailure,
+  OPEN_PAYOUT_STATUSES,
+  planPayoutRetry,
+  type PayoutFailure,
+} from './payout-failures';
+import {
+  groupPayoutCommissions,
+  isPayoutRunDue,
+  meetsPayoutMinimum,
+  parsePayoutMinimum,
+  parsePayoutSchedule,
+} from './payout-schedule';
+
+export interface PayoutRunResult {
+  creators: number;     // Creators whose run was due
+  payouts: number;      // Payouts created
+  paid: number;
+  failed: number;       // Retrying, waiting on the member, or needing an admin
+  skipped: number;      // Members under the minimum (rolled over)
+  platformTransfers: number;
+  errors: number;
+}
+
+type PayoutCreator = {
+  id: string;
+  companyId: string;
+  payoutSchedule: string;
+  payoutMinimum: number;
+  lastPayoutRunAt: Date | null;
+};
+
+// Commissions whose platform share is owed (cleared, whether or not the member was paid yet)
+const PLATFORM_COLLECTABLE_STATUSES = [...PAYABLE_COMMISSION_STATUSES, 'paid'];
+
+const PAYOUT_INCLUDE = {
+  member: { select: { userId: true, username: true } },
+  lineItems: { include: { commission: { include: { refunds: true } } } },
+} satisfies Prisma.PayoutInclude;
+
+export type PayoutWithLines = Prisma.PayoutGetPayload<{ include: typeof PAYOUT_INCLUDE }>;
+
+/**
+ * Run every creator whose payout schedule is due
+ */
+export async function runDuePayouts(now: Date = new Date()): Promise<PayoutRunResult> {
+  const result: PayoutRunResult = { creators: 0, payouts: 0, paid: 0, failed: 0, skipped: 0, platformTransfers: 0, errors: 0 };
+
+  const creators = await prisma.creator.findMany({
+    where: { commissions: { some: { status: { in: [...PAYABLE_COMMISSION_STATUSES] } } } },
+    select: { id: true, companyId: true, payoutSchedule: true, payoutMinimum: true, lastPayoutRunAt: true },
+  });
+
+  for (const creator of creators) {
+    if (!isPayoutRunDue(parsePayoutSchedule(creator), creator.lastPayoutRunAt, now)) continue;
+
+    result.creators++;
+
+    try {
+      const run = await runCreatorPayouts(creator, now);
+
+      result.payouts += run.payouts;
+      result.paid += run.paid;
+      result.failed += run.failed;
+      result.skipped += run.skipped;
+      result.platformTransfers += run.platformTransfers;
+    } catch (error) {
+      result.errors++;
+      logger.error(`Error running payouts for creator ${creator.id}:`, error);
+    }
+  }
+
+  logger.info(
+    `Payout runs: ${result.creators} creators, ${result.paid}/${result.payouts} payouts sent, ` +
+    `${result.failed} failed, ${result.skipped} under minimum, ${result.errors} errors`
+  );
+
+  return result;
+}
+
+/**
+ * Pay one creator's cleared commissions
+ */
+export async function runCreatorPayouts(creator: PayoutCreator, now: Date = new Date()) {
+  const run = { payouts: 0, paid: 0, failed: 0, skipped: 0, platformTransfers: 0 };
+  const minimum = parsePayoutMinimum(creator);
+
+  const commissions = await prisma.commission.findMany({
+    where: {
+      creatorId: creator.id,
+      status: { in: [...PAYABLE_COMMISSION_STATUSES] },
+      // Commissions in a failed payout wait for its retry
+      payoutLines: { none: { payout: { status: { in: OPEN_PAYOUT_STATUSES } } } },
+    },
+    include: {
+      member: { select: { userId: true, username: true } },
+      refunds: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PLAN: one payout per member and currency
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  const planned: string[] = [];
+
+  // Offsets already planned - this run (members paid in more than one currency)
+  // or by earlier payouts still waiting for a retry
+  const openOffsets = await prisma.payout.groupBy({
+    by: ['memberId'],
+    where: { creatorId: creator.id, status: { in: OPEN_PAYOUT_STATUSES }, balanceOffset: { gt: 0 } },
+    _sum: { balanceOffset: true },
+  });
+  const recoveredCents = new Map<string, number>(
+    openOffsets.map(open => [open.memberId, toCents(open._sum.balanceOffset ?? 0)])
+  );
+
+  for (const group of groupPayoutCommissions(commissions)) {
+    const [first] = group;
+
+    if (!first.member.userId) {
+      logger.warn(`Cannot pay out member ${first.memberId}: Missing user ID`);
+      continue;
+    }
+
+    const settledBalance = await getMemberSettledBalance(first.memberId);
+    const lines = applyCarryForwardToLines(
+      group.map(commission => ({ commissionId: commission.id, ...getCommissionOwed(commission, commission.refunds) })),
+      fromCents(toCents(settledBalance) + (recoveredCents.get(first.memberId) ?? 0))
+    );
+
+    const amount = fromCents(sumCents(lines.map(line => toCents(line.memberShare))));
+    const reportingAmount = fromCents(sumCents(lines.map(line => toCents(line.reportingPayout))));
+    const balanceOffset = fromCents(sumCents(lines.map(line => toCents(line.balanceOffset))));
+
+    if (!meetsPayoutMinimum(reportingAmount, minimum)) {
+      run.skipped++;
+      logger.info(`Payout for ${first.member.username} rolled over: ${formatCurrency(reportingAmount)} is under the ${formatCurrency(minimum)} minimum`);
+      continue;
+    }
+
+    const payout = await prisma.payout.create({
+      data: {
+        creatorId: creator.id,
+        memberId: first.memberId,
+        currency: first.currency,
+        amount,
+        reportingAmount,
+        balanceOffset,
+        commissionCount: group.length,
+        lineItems: {
+          create: lines.map(line => ({
+            commissionId: line.commissionId,
+            amount: line.memberShare,
+            reportingAmount: line.reportingPayout,
+            balanceOffset: line.balanceOffset,
+          })),
+        },
+      },
+    });
+
+    run.payouts++;
+    planned.push(payout.id);
+    recoveredCents.set(first.memberId, (recoveredCents.get(first.memberId) ?? 0) + toCents(balanceOffset));
+  }
+
+  const sent = await sendPayouts(creator, planned, now);
+  run.paid = sent.paid;
+  run.failed = sent.failed;
+
+  run.platformTransfers = await collectPlatformShares(creator);
+
+  await prisma.creator.update({
+    where: { id: creator.id },
+    data: { lastPayoutRunAt: now },
+  });
+
+  logger.info(`Payout run for creator ${creator.id}: ${run.paid}/${run.payouts} paid, ${run.failed} failed, ${run.skipped} under minimum`);
+
+  return run;
+}
+
+/**
+ * Send payouts (new, or due for a retry) and record each attempt
+ * Fully offset payouts settle without a transfer.
+ */
+export async function sendPayouts(
+  creator: Pick<PayoutCreator, 'id' | 'companyId'>,
+  payoutIds: string[],
+  now: Date = new Date()
+): Promise<{ paid: number; failed: number }> {
+  const sent = { paid: 0, failed: 0 };
+  const payouts = await prisma.payout.findMany({
+    where: { id: { in: payoutIds } },
+    include: PAYOUT_INCLUDE,
+  });
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ELIGIBILITY: don't send transfers the member can't receive
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  const sendable: PayoutWithLines[] = [];
+
+  for (const payout of payouts) {
+    const blocked = payout.amount > 0
+      ? classifyPayoutEligibility(await checkPayoutEligibility(payout.member.userId))
+      : null;
+
+    if (blocked) {
+      await recordPayoutFailure(creator, payout, blocked, 'ineligible', now);
+      sent.failed++;
+      continue;
+    }
+
+    sendable.push(payout);
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // TRANSFER: the key is per payout, so a retry can't pay it twice
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  const transfers = await batchPayCommissions(
+    sendable
+      .filter(payout => payout.amount > 0)
+      .map(payout => ({
+        commissionId: payout.id,
+        amount: payout.amount,
+        recipientUserId: payout.member.userId,
+        companyId: creator.companyId,
+        currency: payout.currency,
+        idempotenceKey: `payout_${payout.id}`,
+        notes: `Referral commission payout - ${payout.commissionCount} commission(s) (Payout ID: ${payout.id})`,
+      }))
+  );
+
+  for (const payout of sendable) {
+    const transfer = transfers.find(t => t.commissionId === payout.id)?.result;
+
+    if (transfer && !transfer.success) {
+      await recordPayoutFailure(creator, payout, classifyTransferFailure(transfer), 'failed', now, transfer.errorCode);
+      sent.failed++;
+      continue;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.payout.update({
+        where: { id: payout.id },
+        data: {
+          status: 'paid',
+          transferId: transfer?.transferId ?? null,
+          paidAt: now,
+          nextRetryAt: null,
+          ...(transfer && {
+            attempts: { create: { outcome: 'paid', transferId: transfer.transferId ?? null, createdAt: now } },
+          }),
+        },
+      });
+
+      for (const line of payout.lineItems) {
+        const paid = await tx.commission.update({
+          where: { id: line.commissionId },
+          data: { status: 'paid', paidAt: now, balanceOffset: line.balanceOffset },
+        });
+        await postCommissionPaidOut(tx, paid, line.commission.refunds);
+      }
+    });
+    sent.paid++;
+
+    const { userId, username } = payout.member;
+
+    if (payout.amount > 0) {
+      const paymentAmount = formatCurrency(payout.amount, payout.currency);
+
+      notifyPaymentProcessed(creator.companyId, userId, paymentAmount, 'Whop Balance').catch(err =>
+        logger.error('Failed to send payment processed notification:', err)
+      );
+      sendPaymentProcessedDM(userId, username, paymentAmount, 'Whop Balance').catch(err =>
+        logger.error('Failed to send payment processed DM:', err)
+      );
+    } else {
+      logger.info(`Payout ${payout.id} offset against ${username}'s negative balance (${formatCurrency(payout.balanceOffset)}) - no transfer`);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Record a failed attempt and schedule what happens next (planPayoutRetry)
+ */
+async function recordPayoutFailure(
+  creator: Pick<PayoutCreator, 'companyId'>,
+  payout: PayoutWithLines,
+  failure: PayoutFailure,
+  outcome: 'failed' | 'ineligible',
+  now: Date,
+  errorCode?: string
+) {
+  const attemptCount = payout.attemptCount + (outcome === 'failed' ? 1 : 0);
+  const next = planPayoutRetry(failure, attemptCount, now);
+  // A daily recheck that still finds payouts disabled isn't a new attempt
+  const unchanged = outcome === 'ineligible' && payout.status === next.status && payout.failureReason === failure.reason;
+
+  await prisma.payout.update({
+    where: { id: payout.id },
+    data: {
+      status: next.status,
+      nextRetryAt: next.nextRetryAt,
+      attemptCount,
+      failureReason: failure.reason,
+      errorCode: errorCode ?? null,
+      errorMessage: failure.message,
+      ...(!unchanged && {
+        attempts: {
+          create: {
+            outcome,
+            errorCode: errorCode ?? null,
+            errorMessage: failure.message,
+            failureReason: failure.reason,
+            createdAt: now,
+          },
+        },
+      }),
+    },
+  });
+
+  logger.warn(
+    `Payout ${payout.id} for ${payout.member.username} not sent (${failure.reason}): ${failure.message} - ` +
+    (next.nextRetryAt ? `${next.status}, next try ${next.nextRetryAt.toISOString()}` : 'needs an admin')
+  );
+
+  if (next.status === 'action_needed' && payout.status !== 'action_needed') {
+    notifyPayoutActionNeeded(creator.companyId, payout.member.userId, formatCurrency(payout.amount, payout.currency)).catch(err =>
+      logger.error('Failed to send payout action needed notification:', err)
+    );
+  }
+}
+
+/**
+ * Collect the platform share of cleared commissions, net of refunds - one
+ * transfer per currency (the key covers the exact commission set, so a rerun
+ * can't collect it twice)
+ */
+async function collectPlatformShares(creator: PayoutCreator): Promise<number> {
+  const PLATFORM_USER_ID = process.env.PLATFORM_WHOP_USER_ID;
+
+  if (!PLATFORM_USER_ID) {
+    logger.warn(`Cannot collect platform share: PLATFORM_WHOP_USER_ID not configured`);
+    return 0;
+  }
+
+  const commissions = await prisma.commission.findMany({
+    where: {
+      creatorId: creator.id,
+      status: { in: PLATFORM_COLLECTABLE_STATUSES },
+      platformCollected: false,
+      platformShare: { gt: 0 },
+    },
+    select: {
+      id: true,
+      currency: true,
+      platformShare: true,
+      reportingPlatformShare: true,
+      refunds: { select: { platformShareReversed: true, reportingPlatformShareReversed: true } },
+    },
+    orderBy: { id: 'asc' },
+  });
+
+  // A partial refund while clearing leaves the sale collectable - only take what wasn't reversed
+  const uncollected = commissions
+    .map(commission => ({ id: commission.id, currency: commission.currency, ...getPlatformShareAfterRefunds(commission) }))
+    .filter(commission => commission.amount > 0);
+
+  const byCurrency = Array.from(
+    uncollected.reduce((groups, commission) => {
+      groups.set(commission.currency, [...(groups.get(commission.currency) ?? []), commission]);
+      return groups;
+    }, new Map<string, typeof uncollected>()).values()
+  );
+
+  const transfers = await batchPayCommissions(
+    byCurrency.map(group => {
+      const key = createHash('sha256').update(group.map(c => c.id).join(',')).digest('hex').slice(0, 32);
+
+      return {
+        commissionId: `${creator.id}:${group[0].currency}`,
+        amount: fromCents(sumCents(group.map(c => toCents(c.amount)))),
+        recipientUserId: PLATFORM_USER_ID,
+        companyId: creator.companyId,
+        currency: group[0].currency,
+        idempotenceKey: `platform_${key}`,
+        notes: `Platform share for ${group.length} commission(s)`,
+      };
+    })
+  );
+
+  let collected = 0;
+  for (let index = 0; index < transfers.length; index++) {
+    const { result } = transfers[index];
+    const group = byCurrency[index];
+
+    if (!result.success) {
+      // Left uncollected - the next run retries with the same commissions
+      logger.warn(`Platform share collection failed for creator ${creator.id} (${group[0].currency}): ${result.error}`);
+      continue;
+    }
+
+    const collectedAt = new Date();
+    await prisma.$transaction(group.map(c => prisma.commission.update({
+      where: { id: c.id },
+      data: {
+        platformCollected: true,
+        platformTransferId: result.transferId,
+        platformCollectedAt: collectedAt,
+        platformCollectedAmount: c.amount,
+        reportingPlatformCollectedAmount: c.reportingAmount,
+      },
+    })));
+    collected++;
+  }
+
+  return collected;
+}
+
+/**
+ * Paid payouts with their line items, for the member dashboard statement
+ */
+export async function getMemberPayoutStatements(memberId: string, limit: number = 12) {
+  const payouts = await prisma.payout.findMany({
+    where: { memberId, status: 'paid' },
+    include: {
+      lineItems: {
+        include: { commission: { select: { saleAmount: true, paymentType: true, createdAt: true } } },
+      },
+    },
+    orderBy: { paidAt: 'desc' },
+    take: limit,
+  });
+
+  return payouts.map(payout => ({
+    id: payout.id,
+    paidAt: payout.paidAt,
+    currency: payout.currency,
+    amount: payout.amount,
+    balanceOffset: payout.balanceOffset,
+    lines: payout.lineItems.map(line => ({
+      id: line.id,
+      saleAmount: line.commission.saleAmount,
+      paymentType: line.commission.paymentType,
+      earnedAt: line.commission.createdAt,
+      amount: line.amount,
+      balanceOffset: line.balanceOffset,
+    })),
+  }));
+}
@@ -0,0 +1,90 @@
+// lib/utils/payout-schedule.ts
+/**
+ * Payout Schedule
+ *
+ * Cleared commissions are no longer transferred one by one. Each creator picks
+ * a schedule and a minimum, and the payout run (lib/utils/payout-runs.ts) pays
+ * each member's cleared commissions in one transfer per currency:
+ *
+ * - weekly:  the first run on or after Monday
+ * - monthly: the first run on or after the 1st
+ *
+ * Members whose payout would be under the minimum roll over to the next run.
+ *
+ * Pure helpers - no database access.
+ */
+
+import { addMonths, addWeeks, startOfMonth, startOfWeek } from 'date-fns';
+import { PAYOUT_RUNS } from '../constants/commission';
+import { formatCurrency } from '../constants/metrics';
+
+export const PAYOUT_SCHEDULES = ['weekly', 'monthly'] as const;
+
+export type PayoutSchedule = (typeof PAYOUT_SCHEDULES)[number];
+
+/**
+ * Read a creator's schedule (unknown values fall back to the default)
+ */
+export function parsePayoutSchedule(creator: { payoutSchedule?: string | null }): PayoutSchedule {
+  return (PAYOUT_SCHEDULES as readonly string[]).includes(creator.payoutSchedule ?? '')
+    ? (creator.payoutSchedule as PayoutSchedule)
+    : PAYOUT_RUNS.DEFAULT_SCHEDULE;
+}
+
+/**
+ * Read a creator's minimum payout (missing or out-of-range settings fall back to the default)
+ */
+export function parsePayoutMinimum(creator: { payoutMinimum?: number | null }): number {
+  const minimum = creator.payoutMinimum;
+
+  if (minimum === null || minimum === undefined || !Number.isFinite(minimum)) return PAYOUT_RUNS.DEFAULT_MINIMUM;
+  if (minimum < PAYOUT_RUNS.MIN_MINIMUM || minimum > PAYOUT_RUNS.MAX_MINIMUM) return PAYOUT_RUNS.DEFAULT_MINIMUM;
+
+  return minimum;
+}
+
+/**
+ * When the next run is due (right away for a creator that never had one)
+ */
+export function getNextPayoutRunAt(schedule: PayoutSchedule, lastRunAt: Date | null, now: Date = new Date()): Date {
+  if (!lastRunAt) return now;
+
+  return schedule === 'monthly'
+    ? startOfMonth(addMonths(lastRunAt, 1))
+    : startOfWeek(addWeeks(lastRunAt, 1), { weekStartsOn: 1 });
+}
+
+export function isPayoutRunDue(schedule: PayoutSchedule, lastRunAt: Date | null, now: Date = new Date()): boolean {
+  return getNextPayoutRunAt(schedule, lastRunAt, now) <= now;
+}
+
+/**
+ * Group commissions into payouts - one per member and currency, oldest first
+ */
+export function groupPayoutCommissions<T extends { memberId: string; currency: string }>(commissions: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+
+  for (const commission of commissions) {
+    const key = `${commission.memberId}:${commission.currency}`;
+    groups.set(key, [...(groups.get(key) ?? []), commission]);
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Whether a payout clears the creator's minimum (a fully offset payout has
+ * nothing to transfer and always settles)
+ */
+export function meetsPayoutMinimum(reportingAmount: number, minimum: number): boolean {
+  return reportingAmount === 0 || reportingAmount >= minimum;
+}
+
+/**
+ * Human-readable schedule, for settings and member copy
+ */
+export function describePayoutSchedule(schedule: PayoutSchedule, minimum: number): string {
+  const when = schedule === 'monthly' ? 'on the 1st of each month' : 'every Monday';
+  if (minimum === 0) return `Cleared commissions are paid out ${when}`;
+  return `Cleared commissions are paid out ${when} once they add up to at least ${formatCurrency(minimum)}`;
+}
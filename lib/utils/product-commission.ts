@@ -0,0 +1,182 @@
+// lib/utils/product-commission.ts
+/**
+ * Per-Product Commission Rules
+ *
+ * Multi-product creators (course + monthly community + lifetime tier) can set a
+ * base member rate per product, billing period and product type, e.g.
+ * "10% recurring on monthly, 5% one-time on lifetime", and exclude products
+ * from the program entirely.
+ *
+ * BUSINESS RULES:
+ * - Excluded products never earn commission
+ * - The most specific matching rule wins (product > billing period > product type)
+ * - A rule replaces the entry tier's member rate; tier bonuses still stack on top
+ * - The difference comes from the creator share - platform share is unchanged
+ * - Non-recurring rules only pay on the first payment of a membership
+ * - No matching rule = tier rates as before
+ */
+
+import type { Prisma, ProductCommissionRule } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { PRODUCT_RULE_LIMITS } from '../constants/commission';
+import type { CommissionTierConfig } from './tiered-commission';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export type ProductRuleMatch = Pick<ProductCommissionRule, 'whopProductId' | 'billingPeriod' | 'productType'>;
+export type ProductRuleInput = ProductRuleMatch & Pick<ProductCommissionRule, 'memberRate' | 'recurring'>;
+
+/**
+ * The sale a rule is matched against
+ */
+export interface ProductSale {
+  productId?: string | null;
+  billingPeriod?: string | null;
+  productType?: string | null;
+}
+
+export interface ProductCommissionPolicy {
+  excluded: boolean;                      // Product is excluded from the program
+  rule: ProductCommissionRule | null;     // Most specific matching rule (null = tier rates)
+}
+
+// ========================================
+// MATCHING
+// ========================================
+
+/**
+ * How specific a rule is (higher wins), or -1 if it doesn't match the sale
+ */
+export function getRuleSpecificity(rule: ProductRuleMatch, sale: ProductSale): number {
+  let score = 0;
+
+  if (rule.whopProductId) {
+    if (rule.whopProductId !== sale.productId) return -1;
+    score += 4;
+  }
+  if (rule.billingPeriod) {
+    if (rule.billingPeriod !== sale.billingPeriod) return -1;
+    score += 2;
+  }
+  if (rule.productType) {
+    if (rule.productType !== sale.productType) return -1;
+    score += 1;
+  }
+
+  return score;
+}
+
+/**
+ * Pick the most specific rule matching a sale
+ */
+export function matchProductRule<T extends ProductRuleMatch>(rules: T[], sale: ProductSale): T | null {
+  let best: T | null = null;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    const score = getRuleSpecificity(rule, sale);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether a rule pays on this payment (non-recurring rules only pay the first one)
+ */
+export function ruleCoversPayment(rule: Pick<ProductCommissionRule, 'recurring'> | null, paymentType: 'initial' | 'recurring'): boolean {
+  return !rule || rule.recurring || paymentType === 'initial';
+}
+
+/**
+ * Apply a product rule to the member's tier
+ * The rule replaces the entry tier's member rate, keeping the tier's bonus over the entry tier.
+ * The difference is taken from (or returned to) the creator share; platform share is unchanged.
+ */
+export function applyProductRule(
+  tier: CommissionTierConfig,
+  entryTier: CommissionTierConfig,
+  rule: Pick<ProductCommissionRule, 'memberRate'> | null
+): CommissionTierConfig {
+  if (!rule) return tier;
+
+  // Work in basis points so the rates still sum to exactly 100%
+  const tierBonus = Math.round(tier.memberRate * 10_000) - Math.round(entryTier.memberRate * 10_000);
+  const member = Math.min(
+    Math.round(rule.memberRate * 10_000) + Math.max(tierBonus, 0),
+    Math.round(PRODUCT_RULE_LIMITS.MAX_MEMBER_RATE * 10_000)
+  );
+  const platform = Math.round(tier.platformRate * 10_000);
+
+  return {
+    ...tier,
+    memberRate: member / 10_000,
+    creatorRate: (10_000 - member - platform) / 10_000,
+  };
+}
+
+/**
+ * Look up a creator's product exclusions and the rule for a sale
+ */
+export async function getProductCommissionPolicy(
+  creatorId: string,
+  sale: ProductSale,
+  db: Prisma.TransactionClient = prisma
+): Promise<ProductCommissionPolicy> {
+  if (sale.productId) {
+    const product = await db.creatorProduct.findUnique({
+      where: { creatorId_whopProductId: { creatorId, whopProductId: sale.productId } },
+      select: { excluded: true },
+    });
+
+    if (product?.excluded) {
+      return { excluded: true, rule: null };
+    }
+  }
+
+  const rules = await db.productCommissionRule.findMany({
+    where: { creatorId },
+  });
+
+  return { excluded: false, rule: matchProductRule(rules, sale) };
+}
+
+// ========================================
+// VALIDATION
+// ========================================
+
+/**
+ * Validate a creator's full rule set
+ *
+ * @returns Validation errors (empty when the rules are valid)
+ */
+export function validateProductRules(rules: ProductRuleInput[]): string[] {
+  const errors: string[] = [];
+
+  if (rules.length > PRODUCT_RULE_LIMITS.MAX_RULES) {
+    errors.push(`A creator can have at most ${PRODUCT_RULE_LIMITS.MAX_RULES} product rules`);
+  }
+
+  const seen = new Set<string>();
+
+  rules.forEach((rule, index) => {
+    const label = `Rule ${index + 1}`;
+
+    if (rule.memberRate < PRODUCT_RULE_LIMITS.MIN_MEMBER_RATE || rule.memberRate > PRODUCT_RULE_LIMITS.MAX_MEMBER_RATE) {
+      errors.push(`${label}: member rate must be between ${PRODUCT_RULE_LIMITS.MIN_MEMBER_RATE * 100}% and ${PRODUCT_RULE_LIMITS.MAX_MEMBER_RATE * 100}%`);
+    }
+
+    const key = [rule.whopProductId ?? '*', rule.billingPeriod ?? '*', rule.productType ?? '*'].join('|');
+    if (seen.has(key)) {
+      errors.push(`${label}: another rule already matches the same product, billing period and product type`);
+    }
+    seen.add(key);
+  });
+
+  return errors;
+}
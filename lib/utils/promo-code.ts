@@ -0,0 +1,120 @@
+// lib/utils/promo-code.ts
+
+/**
+ * Personal promo codes (link-less referrals)
+ *
+ * Word-of-mouth, voice chats and link-stripping platforms never carry ?a= to
+ * Whop, so each member can also hand out a personal promo code. Redeeming it
+ * at checkout shows up on payment.succeeded and attributes the buyer.
+ *
+ * Precedence follows the creator's attribution policy (lib/utils/attribution-policy.ts).
+ * The default, whop_wins, credits the link over a promo code - codes leak to
+ * coupon sites, links don't take credit from them.
+ */
+
+import { DEFAULT_ATTRIBUTION_POLICY, type AttributionPolicy } from '../constants/attribution';
+import { pickAttributionWinner } from './attribution-policy';
+
+export type ReferralAttributionSource = 'whop_affiliate' | 'promo_code';
+
+interface AttributionCandidate {
+  id: string;
+  referralCode: string;
+}
+
+export interface ReferralAttribution<T extends AttributionCandidate> {
+  referrer: T | null;
+  source: ReferralAttributionSource | null;
+  /** Link and promo code pointed at different members (the policy picked one) */
+  conflict: boolean;
+  /** The creator's policy wants the conflict reviewed */
+  needsReview: boolean;
+}
+
+/**
+ * Personal promo code for a member, derived from their referral code
+ * ("A7B2-K9X4" → "A7B2K9X4") - checkouts reject punctuation in codes
+ */
+export function generatePromoCode(referralCode: string, suffix = ''): string {
+  return normalizePromoCode(`${referralCode}${suffix}`);
+}
+
+/**
+ * Normalize a code as typed at checkout (case and punctuation insensitive)
+ */
+export function normalizePromoCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Read the redeemed promo code from a payment webhook
+ * Whop sends either the code string or a promo code object
+ */
+export function extractPromoCode(
+  data: { promo_code?: string | { id?: string; code?: string } | null }
+): string | null {
+  const raw = typeof data.promo_code === 'string' ? data.promo_code : data.promo_code?.code;
+  const code = raw ? normalizePromoCode(raw) : '';
+  return code || null;
+}
+
+/**
+ * Decide who gets credit when a link and/or a promo code are present
+ * Self-referral codes are ignored; a conflict is settled by the creator's policy.
+ */
+export function resolveReferralAttribution<T extends AttributionCandidate>({
+  linkReferrer,
+  promoReferrer,
+  buyerMemberId,
+  policy = DEFAULT_ATTRIBUTION_POLICY,
+}: {
+  linkReferrer: T | null;
+  promoReferrer: T | null;
+  buyerMemberId?: string | null;
+  policy?: AttributionPolicy;
+}): ReferralAttribution<T> {
+  const promo = promoReferrer && promoReferrer.id !== buyerMemberId ? promoReferrer : null;
+
+  if (linkReferrer && promo && promo.id !== linkReferrer.id) {
+    // Touch order at checkout: link first, then the code typed at checkout
+    const { winner, needsReview } = pickAttributionWinner(policy, [
+      { referrer: linkReferrer, source: 'whop_affiliate' as const },
+      { referrer: promo, source: 'promo_code' as const },
+    ]);
+
+    return { referrer: winner!.referrer, source: winner!.source, conflict: true, needsReview };
+  }
+
+  if (linkReferrer) {
+    return { referrer: linkReferrer, source: 'whop_affiliate', conflict: false, needsReview: false };
+  }
+
+  if (promo) {
+    return { referrer: promo, source: 'promo_code', conflict: false, needsReview: false };
+  }
+
+  return { referrer: null, source: null, conflict: false, needsReview: false };
+}
+
+/**
+ * First payment of an existing member: the promo code redeemed at checkout
+ * is weighed against whoever they are credited to already (usually the Whop
+ * affiliate link from went_valid) under the creator's policy, like a signup
+ *
+ * @returns The attribution, and whether it moves the member to another referrer
+ */
+export function resolveFirstPaymentAttribution<T extends AttributionCandidate>({
+  currentReferrer,
+  promoReferrer,
+  buyerMemberId,
+  policy = DEFAULT_ATTRIBUTION_POLICY,
+}: {
+  currentReferrer: T | null;
+  promoReferrer: T | null;
+  buyerMemberId: string;
+  policy?: AttributionPolicy;
+}): ReferralAttribution<T> & { changed: boolean } {
+  const attribution = resolveReferralAttribution({ linkReferrer: currentReferrer, promoReferrer, buyerMemberId, policy });
+
+  return { ...attribution, changed: (attribution.referrer?.id ?? null) !== (currentReferrer?.id ?? null) };
+}
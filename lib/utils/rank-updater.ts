@@ -282,10 +282,10 @@ async function calculateGlobalEarningsRank(memberId: string, createdAt: Date): P
       status: 'paid'
     },
     _sum: {
-      memberShare: true
+      reportingMemberShare: true
     }
   });
-  const myEarnings = memberEarnings._sum.memberShare || 0;
+  const myEarnings = memberEarnings._sum.reportingMemberShare || 0;
 
   // Get all real members (exclude test data)
   const realMembers = await prisma.member.findMany({
@@ -312,14 +312,14 @@ async function calculateGlobalEarningsRank(memberId: string, createdAt: Date): P
       }
     },
     having: {
-      memberShare: {
+      reportingMemberShare: {
         _sum: {
           gt: myEarnings
         }
       }
     },
     _sum: {
-      memberShare: true
+      reportingMemberShare: true
     }
   });
 
@@ -332,7 +332,7 @@ async function calculateGlobalEarningsRank(memberId: string, createdAt: Date): P
       FROM "Commission" c
       WHERE c.status = 'paid'
       GROUP BY c."memberId"
-      HAVING SUM(c."memberShare") = ${myEarnings}
+      HAVING SUM(COALESCE(c."reportingMemberShare", c."memberShare")) = ${myEarnings}
     )
     AND m."createdAt" < ${createdAt}
   `;
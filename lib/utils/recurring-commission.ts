@@ -0,0 +1,120 @@
+// lib/utils/recurring-commission.ts
+/**
+ * Recurring Commission Policy
+ *
+ * Member commissions are lifetime recurring by default. Creators can cap how long
+ * a referred membership keeps earning:
+ * - months: payments within the first N months (from the first commission)
+ * - payments: the first N payments
+ * - initial_only: the first payment only
+ *
+ * Enforced in processCommission by counting prior commissions for the same
+ * whopMembershipId. Earnings projections follow the same policy.
+ *
+ * Client-safe: no database imports.
+ */
+
+import { addMonths } from 'date-fns';
+import { RECURRING_COMMISSION_POLICY } from '../constants/commission';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export type RecurringCommissionMode = typeof RECURRING_COMMISSION_POLICY.MODES[number];
+
+export interface RecurringCommissionPolicy {
+  mode: RecurringCommissionMode;
+  limit: number | null;   // Months or payments (null for lifetime / initial_only)
+}
+
+/**
+ * Prior commissions on the membership being paid
+ */
+export interface MembershipCommissionHistory {
+  priorCommissions: number;        // Commissions already recorded for this whopMembershipId
+  firstCommissionAt: Date | null;  // When the first one was recorded
+}
+
+export const DEFAULT_RECURRING_POLICY: RecurringCommissionPolicy = {
+  mode: RECURRING_COMMISSION_POLICY.DEFAULT_MODE,
+  limit: null,
+};
+
+// ========================================
+// POLICY
+// ========================================
+
+function isRecurringMode(mode: unknown): mode is RecurringCommissionMode {
+  return RECURRING_COMMISSION_POLICY.MODES.includes(mode as RecurringCommissionMode);
+}
+
+/**
+ * Read a creator's recurring policy (unknown or incomplete settings fall back to lifetime)
+ */
+export function parseRecurringPolicy(creator: {
+  recurringCommissionMode?: string | null;
+  recurringCommissionLimit?: number | null;
+}): RecurringCommissionPolicy {
+  const mode = creator.recurringCommissionMode;
+
+  if (!isRecurringMode(mode)) return DEFAULT_RECURRING_POLICY;
+  if (mode === 'lifetime' || mode === 'initial_only') return { mode, limit: null };
+
+  const limit = creator.recurringCommissionLimit;
+  if (!limit || limit < 1) return DEFAULT_RECURRING_POLICY;
+
+  return { mode, limit };
+}
+
+/**
+ * Whether a payment still earns commission under the policy
+ */
+export function isPaymentCommissionable(
+  policy: RecurringCommissionPolicy,
+  history: MembershipCommissionHistory,
+  at: Date = new Date()
+): boolean {
+  switch (policy.mode) {
+    case 'initial_only':
+      return history.priorCommissions === 0;
+    case 'payments':
+      return history.priorCommissions < (policy.limit ?? Infinity);
+    case 'months':
+      return !history.firstCommissionAt || at < addMonths(history.firstCommissionAt, policy.limit ?? 0);
+    default:
+      return true;
+  }
+}
+
+/**
+ * How many monthly payments of a referral earn commission within a horizon
+ * Projections assume monthly billing, so N payments = N months.
+ */
+export function getCommissionableMonths(policy: RecurringCommissionPolicy, horizonMonths: number): number {
+  switch (policy.mode) {
+    case 'initial_only':
+      return Math.min(1, horizonMonths);
+    case 'payments':
+    case 'months':
+      return Math.min(policy.limit ?? horizonMonths, horizonMonths);
+    default:
+      return horizonMonths;
+  }
+}
+
+/**
+ * Human-readable policy, e.g. "Recurring for 12 months"
+ */
+export function describeRecurringPolicy(policy: RecurringCommissionPolicy): string {
+  switch (policy.mode) {
+    case 'initial_only':
+      return 'First payment only';
+    case 'payments':
+      return `First ${policy.limit} payment${policy.limit === 1 ? '' : 's'}`;
+    case 'months':
+      return `Recurring for ${policy.limit} month${policy.limit === 1 ? '' : 's'}`;
+    default:
+      return 'Lifetime recurring';
+  }
+}
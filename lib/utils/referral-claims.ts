@@ -0,0 +1,353 @@
+// lib/utils/referral-claims.ts
+
+/**
+ * Missed-Referral Claims
+ *
+ * A member names someone who joined "through them" but wasn't attributed
+ * (stripped link, mobile checkout...). The creator reviews the claim against
+ * the evidence we have - signup time, the claimant's link clicks before it and
+ * the referee's current attribution. Approval credits the claimant
+ * (lib/utils/referral-reassignment.ts) and queues a backfill of commissions
+ * for the referee's past payments from the stored webhook events.
+ */
+
+import type { Prisma, ReferralClaim } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { ATTRIBUTION_WINDOW_MS, REFERRAL_CLAIM_LIMITS } from '../constants/attribution';
+import { REFERRAL_CLAIM_BACKFILL_EVENT } from '../webhook/whop-handlers';
+import { reassignReferral, type ReassignmentResult } from './referral-reassignment';
+
+export type ReferralClaimStatus = 'pending' | 'approved' | 'rejected';
+
+export class ReferralClaimError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferralClaimError';
+  }
+}
+
+export interface ClaimEvidence {
+  signedUpAt: string;
+  daysSinceSignup: number;
+  clicksBeforeSignup: number; // Claimant's link clicks in the attribution window before signup
+  lastClickAt: string | null;
+  minutesFromLastClick: number | null; // Gap between the last click and the signup
+  signupJoinedToClaimant: boolean; // A claimant click was already joined to this signup
+  alreadyAttributed: boolean;
+  currentReferrer: { referralCode: string; username: string } | null;
+  memberOrigin: string;
+}
+
+/**
+ * Strip the decoration members tend to type ("@alex ", whop.com/@alex)
+ */
+export function normalizeRefereeHandle(input: string): string {
+  return input.trim().replace(/^.*\//, '').replace(/^@+/, '');
+}
+
+/**
+ * Why a referee can't be claimed, or null if the claim may be filed
+ */
+export function getClaimIneligibility(
+  claimant: { id: string; creatorId: string },
+  referee: { id: string; referrerId: string | null; creatorId: string; createdAt: Date },
+  now: Date = new Date()
+): string | null {
+  if (referee.id === claimant.id) return 'You cannot claim yourself as a referral';
+  if (referee.creatorId !== claimant.creatorId) return 'That member belongs to a different community';
+  if (referee.referrerId === claimant.id) return 'That member is already credited to you';
+
+  const ageDays = (now.getTime() - referee.createdAt.getTime()) / (24 * 60 * 60 * 1000);
+  if (ageDays > REFERRAL_CLAIM_LIMITS.MAX_SIGNUP_AGE_DAYS) {
+    return `Members who joined more than ${REFERRAL_CLAIM_LIMITS.MAX_SIGNUP_AGE_DAYS} days ago can't be claimed`;
+  }
+
+  return null;
+}
+
+/**
+ * Summarize the claimant's clicks around the referee's signup
+ * Clicks after the signup don't count as evidence.
+ */
+export function summarizeClaimEvidence({
+  signedUpAt,
+  membershipId,
+  clicks,
+  currentReferrer,
+  memberOrigin,
+  now = new Date(),
+}: {
+  signedUpAt: Date;
+  membershipId: string;
+  clicks: Array<{ createdAt: Date; signupMembershipId: string | null }>;
+  currentReferrer: { referralCode: string; username: string } | null;
+  memberOrigin: string;
+  now?: Date;
+}): ClaimEvidence {
+  const windowStart = signedUpAt.getTime() - ATTRIBUTION_WINDOW_MS;
+  const before = clicks
+    .filter(click => click.createdAt.getTime() >= windowStart && click.createdAt <= signedUpAt)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const lastClick = before[0] ?? null;
+
+  return {
+    signedUpAt: signedUpAt.toISOString(),
+    daysSinceSignup: Math.floor((now.getTime() - signedUpAt.getTime()) / (24 * 60 * 60 * 1000)),
+    clicksBeforeSignup: before.length,
+    lastClickAt: lastClick?.createdAt.toISOString() ?? null,
+    minutesFromLastClick: lastClick
+      ? Math.round((signedUpAt.getTime() - lastClick.createdAt.getTime()) / 60000)
+      : null,
+    signupJoinedToClaimant: clicks.some(click => click.signupMembershipId === membershipId),
+    alreadyAttributed: currentReferrer !== null,
+    currentReferrer,
+    memberOrigin,
+  };
+}
+
+/**
+ * Gather the review evidence for a claim
+ */
+export async function getReferralClaimEvidence(
+  db: Prisma.TransactionClient,
+  claim: Pick<ReferralClaim, 'claimantId' | 'refereeId'>
+): Promise<ClaimEvidence | null> {
+  const [claimant, referee] = await Promise.all([
+    db.member.findUnique({ where: { id: claim.claimantId }, select: { id: true } }),
+    db.member.findUnique({
+      where: { id: claim.refereeId },
+      select: { membershipId: true, referrerId: true, memberOrigin: true, createdAt: true },
+    }),
+  ]);
+
+  if (!claimant || !referee) return null;
+
+  const [clicks, currentReferrer] = await Promise.all([
+    db.attributionClick.findMany({
+      where: {
+        memberId: claimant.id,
+        OR: [
+          { createdAt: { gte: new Date(referee.createdAt.getTime() - ATTRIBUTION_WINDOW_MS), lte: referee.createdAt } },
+          { signupMembershipId: referee.membershipId },
+        ],
+      },
+      select: { createdAt: true, signupMembershipId: true },
+      take: 500,
+    }),
+    referee.referrerId
+      ? db.member.findUnique({ where: { id: referee.referrerId }, select: { referralCode: true, username: true } })
+      : null,
+  ]);
+
+  return summarizeClaimEvidence({
+    signedUpAt: referee.createdAt,
+    membershipId: referee.membershipId,
+    clicks,
+    currentReferrer,
+    memberOrigin: referee.memberOrigin,
+  });
+}
+
+/**
+ * File a claim for a member the claimant says they referred
+ *
+ * @throws ReferralClaimError if the referee can't be found or claimed
+ */
+export async function fileReferralClaim({
+  claimantId,
+  refereeHandle,
+  note,
+}: {
+  claimantId: string;
+  refereeHandle: string;
+  note?: string | null;
+}): Promise<ReferralClaim> {
+  const claimant = await prisma.member.findUnique({
+    where: { id: claimantId },
+    select: { id: true, referralCode: true, creatorId: true },
+  });
+
+  if (!claimant) throw new ReferralClaimError('Member not found');
+
+  const handle = normalizeRefereeHandle(refereeHandle);
+  const referee = handle
+    ? await prisma.member.findFirst({
+        where: {
+          creatorId: claimant.creatorId,
+          OR: [
+            { whopUsername: { equals: handle, mode: 'insensitive' } },
+            { username: { equals: handle, mode: 'insensitive' } },
+          ],
+        },
+        select: { id: true, referrerId: true, creatorId: true, createdAt: true },
+      })
+    : null;
+
+  if (!referee) throw new ReferralClaimError(`No member named "${handle}" found in this community`);
+
+  const ineligible = getClaimIneligibility(claimant, referee);
+  if (ineligible) throw new ReferralClaimError(ineligible);
+
+  const [duplicate, pendingCount] = await Promise.all([
+    prisma.referralClaim.findFirst({
+      where: { claimantId: claimant.id, refereeId: referee.id, status: { in: ['pending', 'rejected'] } },
+      select: { status: true },
+    }),
+    prisma.referralClaim.count({ where: { claimantId: claimant.id, status: 'pending' } }),
+  ]);
+
+  if (duplicate) {
+    throw new ReferralClaimError(
+      duplicate.status === 'pending' ? 'You already have a pending claim for this member' : 'Your claim for this member was rejected'
+    );
+  }
+
+  if (pendingCount >= REFERRAL_CLAIM_LIMITS.MAX_PENDING_PER_MEMBER) {
+    throw new ReferralClaimError(`You can have at most ${REFERRAL_CLAIM_LIMITS.MAX_PENDING_PER_MEMBER} pending claims`);
+  }
+
+  const claim = await prisma.referralClaim.create({
+    data: {
+      creatorId: claimant.creatorId,
+      claimantId: claimant.id,
+      refereeId: referee.id,
+      refereeHandle: handle,
+      note: note?.trim() || null,
+    },
+  });
+
+  logger.info(`Referral claim ${claim.id}: ${claimant.referralCode} claims ${handle}`);
+
+  return claim;
+}
+
+async function findPendingClaim(db: Prisma.TransactionClient, claimId: string, creatorId: string): Promise<ReferralClaim> {
+  const claim = await db.referralClaim.findUnique({ where: { id: claimId } });
+
+  if (!claim || claim.creatorId !== creatorId) throw new ReferralClaimError('Claim not found');
+  if (claim.status !== 'pending') throw new ReferralClaimError(`Claim was already ${claim.status}`);
+
+  return claim;
+}
+
+/**
+ * Approve a claim: credit the claimant and queue the backfill of commissions
+ * for the referee's past payments (the webhook queue retries it; the claim's
+ * `backfilled` count fills in as it runs). Other pending claims for the same
+ * referee close.
+ *
+ * @throws ReferralClaimError / ReferralReassignmentError if the claim can't be approved
+ */
+export async function approveReferralClaim({
+  claimId,
+  creatorId,
+  reviewedBy,
+}: {
+  claimId: string;
+  creatorId: string;
+  reviewedBy: string;
+}): Promise<{ claim: ReferralClaim; reassignment: ReassignmentResult }> {
+  return prisma.$transaction(async (tx) => {
+    const pending = await findPendingClaim(tx, claimId, creatorId);
+
+    const reassignment = await reassignReferral(tx, {
+      refereeId: pending.refereeId,
+      toReferrerId: pending.claimantId,
+      reference: `claim:${pending.id}`,
+      triggeredBy: 'manual',
+      reason: 'Missed-referral claim approved by creator',
+    });
+
+    const referee = await tx.member.update({
+      where: { id: pending.refereeId },
+      data: { memberOrigin: 'referral_claim' },
+      select: { membershipId: true },
+    });
+
+    const approved = await tx.referralClaim.update({
+      where: { id: pending.id },
+      data: { status: 'approved', reviewedBy, reviewedAt: new Date() },
+    });
+
+    await tx.referralClaim.updateMany({
+      where: { refereeId: pending.refereeId, status: 'pending', id: { not: pending.id } },
+      data: {
+        status: 'rejected',
+        reviewedBy,
+        reviewedAt: new Date(),
+        rejectionReason: 'Another claim for this member was approved',
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        entity: 'ReferralClaim',
+        entityId: pending.id,
+        field: 'status',
+        oldValue: 'pending',
+        newValue: 'approved',
+        triggeredBy: 'manual',
+        metadata: {
+          reviewedBy,
+          refereeId: pending.refereeId,
+          claimantId: pending.claimantId,
+          movedCommissions: reassignment.movedCommissions,
+        },
+      },
+    });
+
+    await tx.webhookEvent.create({
+      data: {
+        eventType: REFERRAL_CLAIM_BACKFILL_EVENT,
+        payload: {
+          action: REFERRAL_CLAIM_BACKFILL_EVENT,
+          data: { claim_id: pending.id, membership_id: referee.membershipId },
+        },
+        processed: false,
+      },
+    });
+
+    return { claim: approved, reassignment };
+  });
+}
+
+/**
+ * Reject a claim (the claimant can't refile for the same member)
+ *
+ * @throws ReferralClaimError if the claim isn't pending
+ */
+export async function rejectReferralClaim({
+  claimId,
+  creatorId,
+  reviewedBy,
+  reason,
+}: {
+  claimId: string;
+  creatorId: string;
+  reviewedBy: string;
+  reason?: string | null;
+}): Promise<ReferralClaim> {
+  return prisma.$transaction(async (tx) => {
+    const pending = await findPendingClaim(tx, claimId, creatorId);
+
+    const rejected = await tx.referralClaim.update({
+      where: { id: pending.id },
+      data: { status: 'rejected', reviewedBy, reviewedAt: new Date(), rejectionReason: reason?.trim() || null },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        entity: 'ReferralClaim',
+        entityId: pending.id,
+        field: 'status',
+        oldValue: 'pending',
+        newValue: 'rejected',
+        triggeredBy: 'manual',
+        metadata: { reviewedBy, reason: rejected.rejectionReason },
+      },
+    });
+
+    return rejected;
+  });
+}
@@ -0,0 +1,137 @@
+// lib/utils/referral-code-history.ts
+
+/**
+ * Referral Code History
+ *
+ * Members can swap their generated code for a vanity one. The old code is
+ * retired into ReferralCodeHistory instead of disappearing: it stays reserved
+ * for its owner (nobody else can claim it) and /r/[old] redirects to the
+ * owner's current code, so links already posted keep working.
+ *
+ * Referees are keyed on Member.referrerId; the denormalized Member.referredBy
+ * code is rewritten in the same transaction so exports and displays follow.
+ */
+
+import { subDays } from 'date-fns';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { REFERRAL_CODE_CHANGE_LIMITS } from '../constants/attribution';
+
+export class ReferralCodeChangeError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ReferralCodeChangeError';
+  }
+}
+
+/**
+ * Changes left in the rolling window, given when earlier changes happened
+ */
+export function getRemainingCodeChanges(changedAt: Date[], now: Date = new Date()): number {
+  const windowStart = subDays(now, REFERRAL_CODE_CHANGE_LIMITS.WINDOW_DAYS);
+  const recent = changedAt.filter(at => at >= windowStart).length;
+  return Math.max(0, REFERRAL_CODE_CHANGE_LIMITS.MAX_CHANGES - recent);
+}
+
+/**
+ * Find the member behind a code - current or retired
+ *
+ * @returns The owner and, for a retired code, the code it now redirects to
+ */
+export async function resolveReferralCode(
+  code: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ memberId: string; currentCode: string; retired: boolean } | null> {
+  const member = await db.member.findUnique({ where: { referralCode: code }, select: { id: true, referralCode: true } });
+  if (member) return { memberId: member.id, currentCode: member.referralCode, retired: false };
+
+  const retired = await db.referralCodeHistory.findUnique({
+    where: { code },
+    select: { member: { select: { id: true, referralCode: true } } },
+  });
+
+  return retired ? { memberId: retired.member.id, currentCode: retired.member.referralCode, retired: true } : null;
+}
+
+/**
+ * Switch a member to a new vanity code, retiring the current one
+ *
+ * @throws ReferralCodeChangeError if the code is invalid, taken or the member changed too often
+ */
+export async function changeReferralCode(memberId: string, newCode: string) {
+  return prisma.$transaction((tx) => switchReferralCode(tx, { memberId, newCode }));
+}
+
+/**
+ * changeReferralCode() inside the caller's transaction
+ *
+ * A member may switch back to one of their own retired codes: its history
+ * row is released and the code becomes current again.
+ */
+export async function switchReferralCode(
+  db: Prisma.TransactionClient,
+  { memberId, newCode, now = new Date() }: { memberId: string; newCode: string; now?: Date }
+) {
+  if (!REFERRAL_CODE_CHANGE_LIMITS.CODE_PATTERN.test(newCode)) {
+    throw new ReferralCodeChangeError('Invalid code format. Use 3-20 characters (A-Z, 0-9, hyphens only)');
+  }
+
+  const member = await db.member.findUnique({
+    where: { id: memberId },
+    select: { id: true, referralCode: true },
+  });
+
+  if (!member) throw new ReferralCodeChangeError('Member not found', 404);
+
+  // Counted from the audit trail - switching back to an old code removes its history row
+  const recentChanges = await db.auditLog.findMany({
+    where: {
+      entity: 'Member',
+      entityId: member.id,
+      field: 'referralCode',
+      createdAt: { gte: subDays(now, REFERRAL_CODE_CHANGE_LIMITS.WINDOW_DAYS) },
+    },
+    select: { createdAt: true },
+  });
+
+  const remaining = getRemainingCodeChanges(recentChanges.map(change => change.createdAt), now);
+  if (member.referralCode === newCode) {
+    return { referralCode: newCode, oldCode: null, remainingChanges: remaining };
+  }
+  if (remaining === 0) {
+    throw new ReferralCodeChangeError(
+      `You can change your code ${REFERRAL_CODE_CHANGE_LIMITS.MAX_CHANGES} times every ${REFERRAL_CODE_CHANGE_LIMITS.WINDOW_DAYS} days`,
+      429
+    );
+  }
+
+  // Taken by another member, now or in the past (a member may switch back to their own old code)
+  const owner = await resolveReferralCode(newCode, db);
+  if (owner && owner.memberId !== member.id) {
+    throw new ReferralCodeChangeError('This code is already taken. Please choose another.', 409);
+  }
+
+  await db.referralCodeHistory.deleteMany({ where: { code: newCode, memberId: member.id } });
+  await db.referralCodeHistory.create({
+    data: { code: member.referralCode, memberId: member.id, replacedBy: newCode },
+  });
+
+  await db.member.update({ where: { id: member.id }, data: { referralCode: newCode } });
+  await db.member.updateMany({ where: { referrerId: member.id }, data: { referredBy: newCode } });
+
+  await db.auditLog.create({
+    data: {
+      entity: 'Member',
+      entityId: member.id,
+      field: 'referralCode',
+      oldValue: member.referralCode,
+      newValue: newCode,
+      triggeredBy: 'manual',
+    },
+  });
+
+  logger.info(`Referral code changed: ${member.referralCode} → ${newCode}`);
+
+  return { referralCode: newCode, oldCode: member.referralCode, remainingChanges: remaining - 1 };
+}
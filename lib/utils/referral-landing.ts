@@ -0,0 +1,46 @@
+/**
+ * Referral Landing Page
+ *
+ * When a creator enables it, /r/[code] sends cold traffic to /r/[code]/welcome
+ * first: community logo + description, who sent them (and their note), and the
+ * double-sided bonus. The "Continue" button goes to the same Whop ?a= URL the
+ * redirect would have used, so attribution is unchanged.
+ */
+
+import { LANDING_SKIP_PARAM, REFEREE_BONUS_DEFAULTS } from '../constants/attribution';
+
+export interface RefereeBonus {
+  bonusType: string;
+  bonusPercent: number;
+  bonusValue: number;
+}
+
+/**
+ * Whop product page with the ?a= affiliate parameter
+ */
+export function buildWhopProductUrl(productId: string, whopUsername: string | null): string {
+  const baseUrl = `https://whop.com/products/${productId}`;
+  return whopUsername ? `${baseUrl}?a=${encodeURIComponent(whopUsername)}` : baseUrl;
+}
+
+/**
+ * Show the landing page? Only if the creator enabled it and the link doesn't carry ?skip
+ * (?skip=0 / ?skip=false still show it)
+ */
+export function shouldShowReferralLanding(enabled: boolean, url: URL): boolean {
+  if (!enabled) return false;
+
+  const skip = url.searchParams.get(LANDING_SKIP_PARAM);
+  return skip === null || skip === '0' || skip.toLowerCase() === 'false';
+}
+
+/**
+ * One-line description of the referee's bonus ("10% off your first month")
+ */
+export function describeRefereeBonus(bonus: RefereeBonus = REFEREE_BONUS_DEFAULTS): string | null {
+  if (bonus.bonusType === 'credit') {
+    return bonus.bonusValue > 0 ? `$${bonus.bonusValue.toFixed(2)} account credit` : null;
+  }
+
+  return bonus.bonusPercent > 0 ? `${bonus.bonusPercent}% off your first month` : null;
+}
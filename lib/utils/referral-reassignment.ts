@@ -0,0 +1,197 @@
+// lib/utils/referral-reassignment.ts
+
+/**
+ * Referral Reassignment
+ *
+ * Moves a referee to a different referrer: re-points Member.referrerId (and
+ * the referredBy code), moves the referee's Commission rows, transfers their
+ * net member share through the ledger (so cached earnings follow) and shifts
+ * the referral counters.
+ * Always runs inside the caller's transaction, and writes an AuditLog row.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { startOfMonth } from 'date-fns';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import { postCommissionReassignment } from '../ledger/commission-ledger';
+import { roundDollars } from './money';
+
+export class ReferralReassignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferralReassignmentError';
+  }
+}
+
+class PreviewRollback extends Error {
+  constructor() {
+    super('Preview rollback');
+    this.name = 'PreviewRollback';
+  }
+}
+
+export interface ReassignmentResult {
+  changed: boolean;
+  fromReferrerId: string | null;
+  toReferrerId: string;
+  movedCommissions: number;
+  movedEarnings: number; // Net member share moved (reporting currency)
+}
+
+/**
+ * Net member share of a commission after refunds (reporting currency)
+ */
+export function getNetMemberShare(commission: {
+  memberShare: number;
+  reportingMemberShare: number | null;
+  refunds: Array<{ memberShareReversed: number; reportingMemberShareReversed: number | null }>;
+}): number {
+  const reversed = commission.refunds.reduce(
+    (sum, refund) => sum + (refund.reportingMemberShareReversed ?? refund.memberShareReversed),
+    0
+  );
+  return roundDollars((commission.reportingMemberShare ?? commission.memberShare) - reversed);
+}
+
+/**
+ * Credit a referee (and their past commissions) to a different referrer
+ *
+ * @param reference - Unique per reassignment (e.g. the conflict ID) - makes ledger postings idempotent
+ */
+export async function reassignReferral(
+  db: Prisma.TransactionClient,
+  {
+    refereeId,
+    toReferrerId,
+    reference,
+    triggeredBy,
+    reason,
+  }: {
+    refereeId: string;
+    toReferrerId: string;
+    reference: string;
+    triggeredBy: string;
+    reason?: string;
+  }
+): Promise<ReassignmentResult> {
+  const referee = await db.member.findUnique({
+    where: { id: refereeId },
+    select: { id: true, referralCode: true, referredBy: true, referrerId: true, membershipId: true, creatorId: true },
+  });
+
+  if (!referee) throw new ReferralReassignmentError('Referee not found');
+
+  const toReferrer = await db.member.findUnique({
+    where: { id: toReferrerId },
+    select: { id: true, referralCode: true, creatorId: true },
+  });
+
+  if (!toReferrer) throw new ReferralReassignmentError('New referrer not found');
+  if (toReferrer.id === referee.id) throw new ReferralReassignmentError('A member cannot refer themselves');
+  if (toReferrer.creatorId !== referee.creatorId) {
+    throw new ReferralReassignmentError('New referrer belongs to a different community');
+  }
+
+  const fromReferrer = referee.referrerId
+    ? await db.member.findUnique({ where: { id: referee.referrerId }, select: { id: true } })
+    : null;
+
+  if (fromReferrer?.id === toReferrer.id) {
+    return { changed: false, fromReferrerId: fromReferrer.id, toReferrerId: toReferrer.id, movedCommissions: 0, movedEarnings: 0 };
+  }
+
+  // Commissions earned on this referee by anyone other than the new referrer
+  const commissions = await db.commission.findMany({
+    where: { whopMembershipId: referee.membershipId, memberId: { not: toReferrer.id } },
+    include: { refunds: { select: { memberShareReversed: true, reportingMemberShareReversed: true } } },
+  });
+
+  let movedEarnings = 0;
+  const monthStart = startOfMonth(new Date());
+
+  for (const commission of commissions) {
+    const amount = getNetMemberShare(commission);
+
+    await db.commission.update({
+      where: { id: commission.id },
+      data: { memberId: toReferrer.id },
+    });
+
+    await postCommissionReassignment(db, {
+      commission,
+      fromMemberId: commission.memberId,
+      toMemberId: toReferrer.id,
+      amount,
+      reference,
+    });
+
+    movedEarnings = roundDollars(movedEarnings + amount);
+
+    // totalReferred / monthlyReferred were counted on the initial commission
+    if (commission.paymentType === 'initial') {
+      const thisMonth = commission.createdAt >= monthStart ? 1 : 0;
+
+      await db.member.update({
+        where: { id: commission.memberId },
+        data: { totalReferred: { decrement: 1 }, monthlyReferred: { decrement: thisMonth } },
+      });
+      await db.member.update({
+        where: { id: toReferrer.id },
+        data: { totalReferred: { increment: 1 }, monthlyReferred: { increment: thisMonth } },
+      });
+    }
+  }
+
+  await db.member.update({
+    where: { id: referee.id },
+    data: { referredBy: toReferrer.referralCode, referrerId: toReferrer.id },
+  });
+
+  await db.auditLog.create({
+    data: {
+      entity: 'Member',
+      entityId: referee.id,
+      field: 'referredBy',
+      oldValue: referee.referredBy ?? '',
+      newValue: toReferrer.referralCode,
+      triggeredBy,
+      metadata: { reference, reason, movedCommissions: commissions.length, movedEarnings },
+    },
+  });
+
+  logger.info(
+    `Referral ${referee.referralCode} reassigned ${referee.referredBy ?? '(none)'} → ${toReferrer.referralCode} ` +
+    `(${commissions.length} commissions, $${movedEarnings.toFixed(2)})`
+  );
+
+  return {
+    changed: true,
+    fromReferrerId: fromReferrer?.id ?? null,
+    toReferrerId: toReferrer.id,
+    movedCommissions: commissions.length,
+    movedEarnings,
+  };
+}
+
+/**
+ * Run a change in a transaction that is always rolled back and return its
+ * result - support tools show exactly what committing would do
+ */
+export async function previewInTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options?: { timeout?: number }
+): Promise<T> {
+  let result: T | undefined;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      result = await fn(tx);
+      throw new PreviewRollback();
+    }, options);
+  } catch (error) {
+    if (!(error instanceof PreviewRollback)) throw error;
+  }
+
+  return result as T;
+}
@@ -0,0 +1,177 @@
+// lib/utils/tier-ladder.ts
+/**
+ * Creator Tier Ladders (server-side)
+ *
+ * Loads a creator's commission tier ladder and qualification settings, and the
+ * member metrics they need. Ladder rules and tier lookup live in
+ * tiered-commission.ts (shared with the UI); this module only does the
+ * database work.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { prisma } from '../db/prisma';
+import {
+  getLadderMetrics,
+  parseTierLadder,
+  parseTierQualification,
+  type CommissionTierConfig,
+  type TierMetrics,
+  type TierQualification,
+} from './tiered-commission';
+
+export interface CreatorTierSettings {
+  ladder: CommissionTierConfig[];
+  qualification: TierQualification;
+}
+
+/**
+ * Get a creator's commission tier ladder and qualification settings
+ * (default ladder and lifetime qualification if none are configured)
+ */
+export async function getCreatorTierSettings(
+  creatorId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<CreatorTierSettings> {
+  const creator = await db.creator.findUnique({
+    where: { id: creatorId },
+    select: {
+      commissionTierLadder: true,
+      tierQualificationMode: true,
+      tierQualificationDays: true,
+      tierDowngradeGraceDays: true,
+    },
+  });
+
+  return {
+    ladder: parseTierLadder(creator?.commissionTierLadder),
+    qualification: parseTierQualification(creator ?? {}),
+  };
+}
+
+/**
+ * Get a member's standing against a ladder
+ * Only queries the metrics the ladder actually requires
+ *
+ * lifetime:
+ * - referrals: lifetime paid referrals (Member.totalReferred)
+ * - activeReferrals: referred members whose membership is still active
+ * - referredRevenue: lifetime non-refunded sales they referred (reporting currency)
+ *
+ * rolling (last windowDays only):
+ * - referrals: new paid referrals in the window
+ * - activeReferrals: referred memberships that paid in the window
+ * - referredRevenue: non-refunded referred sales in the window
+ *
+ * paying:
+ * - referrals / activeReferrals: referred members still paying
+ * - referredRevenue: lifetime, as above
+ */
+export async function getMemberTierMetrics(
+  member: { id: string; totalReferred: number },
+  { ladder, qualification }: CreatorTierSettings,
+  db: Prisma.TransactionClient = prisma,
+  now: Date = new Date()
+): Promise<TierMetrics> {
+  const required = getLadderMetrics(ladder);
+  const referredCommissions: Prisma.CommissionWhereInput = {
+    memberId: member.id,
+    status: { notIn: ['refunded', 'voided', 'rejected'] },
+  };
+
+  const countStillPaying = () => db.member.count({
+    where: {
+      referrerId: member.id,
+      lifecycle: { is: { currentStatus: 'active' } },
+    },
+  });
+
+  if (qualification.mode === 'rolling') {
+    referredCommissions.createdAt = { gte: subDays(now, qualification.windowDays) };
+  }
+
+  const metrics: TierMetrics = { referrals: member.totalReferred || 0 };
+
+  if (qualification.mode === 'rolling') {
+    metrics.referrals = await db.commission.count({
+      where: { ...referredCommissions, paymentType: 'initial' },
+    });
+  } else if (qualification.mode === 'paying') {
+    metrics.referrals = await countStillPaying();
+  }
+
+  if (required.includes('activeReferrals')) {
+    if (qualification.mode === 'rolling') {
+      const payingMemberships = await db.commission.findMany({
+        where: referredCommissions,
+        distinct: ['whopMembershipId'],
+        select: { whopMembershipId: true },
+      });
+      metrics.activeReferrals = payingMemberships.length;
+    } else if (qualification.mode === 'paying') {
+      metrics.activeReferrals = metrics.referrals;
+    } else {
+      metrics.activeReferrals = await countStillPaying();
+    }
+  }
+
+  if (required.includes('referredRevenue')) {
+    const revenue = await db.commission.aggregate({
+      where: referredCommissions,
+      _sum: { reportingSaleAmount: true },
+    });
+    metrics.referredRevenue = revenue._sum.reportingSaleAmount || 0;
+  }
+
+  return metrics;
+}
+
+/**
+ * Move a member to a new commission tier and record it in MemberTierHistory
+ * Clears any pending downgrade
+ */
+export async function recordTierChange(
+  db: Prisma.TransactionClient,
+  {
+    member,
+    ladder,
+    newTier,
+    triggerType,
+    referralCount,
+    at = new Date(),
+  }: {
+    member: { id: string; commissionTier: string; commissionRate: number };
+    ladder: CommissionTierConfig[];
+    newTier: CommissionTierConfig;
+    triggerType: 'referral' | 'manual' | 'recalculation';
+    referralCount: number;
+    at?: Date;
+  }
+) {
+  // A stored tier that isn't on the ladder (legacy default or an edited ladder) counts as a first assignment
+  const onLadder = ladder.some(t => t.tierName === member.commissionTier);
+
+  await db.member.update({
+    where: { id: member.id },
+    data: {
+      commissionTier: newTier.tierName,
+      commissionRate: newTier.memberRate,
+      tierUpdatedAt: at,
+      pendingCommissionTier: null,
+      tierDowngradeAt: null,
+    },
+  });
+
+  await db.memberTierHistory.create({
+    data: {
+      memberId: member.id,
+      previousTier: onLadder ? member.commissionTier : null,
+      newTier: newTier.tierName,
+      previousRate: onLadder ? member.commissionRate : null,
+      newRate: newTier.memberRate,
+      triggerType,
+      referralCount,
+      createdAt: at,
+    },
+  });
+}
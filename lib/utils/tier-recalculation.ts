@@ -0,0 +1,226 @@
+// lib/utils/tier-recalculation.ts
+/**
+ * Commission Tier Recalculation
+ *
+ * Daily re-evaluation of members whose creator uses rolling or still-paying
+ * qualification (lifetime tiers never go down, so they're skipped).
+ *
+ * - Qualifies for a higher tier  → upgraded right away
+ * - Qualifies for a lower tier   → warned, then downgraded once the grace period ends
+ * - Requalifies during the grace → pending downgrade is cancelled
+ *
+ * Every change is written to MemberTierHistory with triggerType 'recalculation'.
+ */
+
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { prisma } from '../db/prisma';
+import logger from '../logger';
+import {
+  formatRateAsPercent,
+  getCommissionTier,
+  getTierIndex,
+  parseTierLadder,
+  parseTierQualification,
+} from './tiered-commission';
+import { getMemberTierMetrics, recordTierChange, type CreatorTierSettings } from './tier-ladder';
+import {
+  notifyTierUpgrade,
+  notifyTierDowngrade,
+  notifyTierDowngradeWarning,
+} from '../whop/notifications';
+
+export interface TierRecalculationResult {
+  creatorsProcessed: number;
+  membersEvaluated: number;
+  upgraded: number;
+  warned: number;
+  downgraded: number;
+  restored: number;     // Pending downgrades cancelled after requalifying
+  errors: number;
+}
+
+/**
+ * Re-evaluate every member of creators using non-lifetime qualification
+ */
+export async function recalculateMemberTiers(now: Date = new Date()): Promise<TierRecalculationResult> {
+  const result: TierRecalculationResult = {
+    creatorsProcessed: 0,
+    membersEvaluated: 0,
+    upgraded: 0,
+    warned: 0,
+    downgraded: 0,
+    restored: 0,
+    errors: 0,
+  };
+
+  // Creators who switched back to lifetime drop any downgrades still pending
+  const cleared = await prisma.member.updateMany({
+    where: {
+      tierDowngradeAt: { not: null },
+      creator: { tierQualificationMode: 'lifetime' },
+    },
+    data: { pendingCommissionTier: null, tierDowngradeAt: null },
+  });
+  result.restored += cleared.count;
+
+  const creators = await prisma.creator.findMany({
+    where: {
+      isActive: true,
+      tierQualificationMode: { not: 'lifetime' },
+    },
+    select: {
+      id: true,
+      companyId: true,
+      commissionTierLadder: true,
+      tierQualificationMode: true,
+      tierQualificationDays: true,
+      tierDowngradeGraceDays: true,
+    },
+  });
+
+  for (const creator of creators) {
+    const settings: CreatorTierSettings = {
+      ladder: parseTierLadder(creator.commissionTierLadder),
+      qualification: parseTierQualification(creator),
+    };
+
+    await recalculateCreatorTiers(creator.id, creator.companyId, settings, now, result);
+    result.creatorsProcessed++;
+  }
+
+  logger.info(
+    `Tier recalculation: ${result.membersEvaluated} members across ${result.creatorsProcessed} creators ` +
+    `(${result.upgraded} up, ${result.warned} warned, ${result.downgraded} down, ${result.restored} restored, ${result.errors} errors)`
+  );
+
+  return result;
+}
+
+async function recalculateCreatorTiers(
+  creatorId: string,
+  companyId: string,
+  settings: CreatorTierSettings,
+  now: Date,
+  result: TierRecalculationResult
+) {
+  const { ladder, qualification } = settings;
+
+  // Members without referrals can't be above the entry tier unless a downgrade is pending
+  const members = await prisma.member.findMany({
+    where: {
+      creatorId,
+      OR: [
+        { totalReferred: { gt: 0 } },
+        { tierDowngradeAt: { not: null } },
+      ],
+    },
+    select: {
+      id: true,
+      userId: true,
+      referralCode: true,
+      totalReferred: true,
+      commissionTier: true,
+      commissionRate: true,
+      pendingCommissionTier: true,
+      tierDowngradeAt: true,
+    },
+  });
+
+  for (const member of members) {
+    result.membersEvaluated++;
+
+    try {
+      const metrics = await getMemberTierMetrics(member, settings, prisma, now);
+      const liveTier = getCommissionTier(metrics, ladder);
+      const liveIndex = ladder.indexOf(liveTier);
+      const storedIndex = getTierIndex(member.commissionTier, ladder);
+      const storedTier = storedIndex >= 0 ? ladder[storedIndex] : null;
+
+      // Qualifies for more (or has a stored tier that's no longer on the ladder) - apply now
+      if (liveIndex > storedIndex) {
+        await prisma.$transaction(tx => recordTierChange(tx, {
+          member,
+          ladder,
+          newTier: liveTier,
+          triggerType: 'recalculation',
+          referralCount: metrics.referrals,
+          at: now,
+        }));
+        result.upgraded++;
+
+        if (storedTier) {
+          notifyTierUpgrade(companyId, member.userId, liveTier.displayName, formatRateAsPercent(liveTier.memberRate)).catch(err =>
+            logger.error('Failed to send tier upgrade notification:', err)
+          );
+        }
+        continue;
+      }
+
+      // Still qualifies - cancel any pending downgrade
+      if (liveIndex === storedIndex) {
+        if (member.tierDowngradeAt) {
+          await prisma.member.update({
+            where: { id: member.id },
+            data: { pendingCommissionTier: null, tierDowngradeAt: null },
+          });
+          result.restored++;
+        }
+        continue;
+      }
+
+      // No longer qualifies - warn first, downgrade once the grace period ends
+      if (!member.tierDowngradeAt) {
+        const downgradeAt = addDays(now, qualification.graceDays);
+        await prisma.member.update({
+          where: { id: member.id },
+          data: { pendingCommissionTier: liveTier.tierName, tierDowngradeAt: downgradeAt },
+        });
+        result.warned++;
+
+        notifyTierDowngradeWarning(
+          companyId,
+          member.userId,
+          ladder[storedIndex].displayName,
+          liveTier.displayName,
+          qualification.graceDays
+        ).catch(err =>
+          logger.error('Failed to send tier downgrade warning:', err)
+        );
+        continue;
+      }
+
+      if (member.tierDowngradeAt <= now) {
+        await prisma.$transaction(tx => recordTierChange(tx, {
+          member,
+          ladder,
+          newTier: liveTier,
+          triggerType: 'recalculation',
+          referralCount: metrics.referrals,
+          at: now,
+        }));
+        result.downgraded++;
+
+        notifyTierDowngrade(companyId, member.userId, liveTier.displayName, formatRateAsPercent(liveTier.memberRate)).catch(err =>
+          logger.error('Failed to send tier downgrade notification:', err)
+        );
+        continue;
+      }
+
+      // Still in the grace period - track where they'd land (deadline stays the same)
+      if (member.pendingCommissionTier !== liveTier.tierName) {
+        await prisma.member.update({
+          where: { id: member.id },
+          data: { pendingCommissionTier: liveTier.tierName },
+        });
+      }
+
+      logger.debug(
+        `Tier downgrade pending for ${member.referralCode}: ${member.commissionTier} → ${liveTier.tierName} ` +
+        `in ${differenceInCalendarDays(member.tierDowngradeAt, now)} days`
+      );
+    } catch (error) {
+      result.errors++;
+      logger.error(`Tier recalculation failed for member ${member.id}:`, error);
+    }
+  }
+}
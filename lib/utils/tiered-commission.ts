@@ -17,6 +17,19 @@
  * Creator manually upgrades affiliate rate in Whop when notified.
  * Platform fee is reduced to compensate for higher affiliate payout.
  *
+ * CREATOR LADDERS:
+ * Creators can replace the default ladder with their own (Creator.commissionTierLadder):
+ * 1-6 tiers with their own names, thresholds and member rates. Thresholds can also
+ * require active referrals or referred revenue. Ladders are validated by
+ * validateTierLadder() - rates must still sum to 100% with the creator's 70% intact.
+ *
+ * QUALIFICATION MODES:
+ * - lifetime (default): lifetime paid referrals, tiers only go up
+ * - rolling: only the last N days count (e.g. active referrals in the last 90 days)
+ * - paying: only referrals that are still paying count
+ * Non-lifetime tiers are re-evaluated daily (lib/utils/tier-recalculation.ts) and
+ * downgrade after a warning grace period.
+ *
  * NOTE: Commission rates are imported from lib/constants/commission.ts (SSOT)
  */
 
@@ -25,19 +38,70 @@ import {
   BASE_RATES,
   DEFAULT_TIER_THRESHOLDS,
   COMMISSION_LIMITS,
+  TIER_LADDER_LIMITS,
+  TIER_QUALIFICATION,
 } from '../constants/commission';
+import { formatCurrency } from '../constants/metrics';
+import { toCents, fromCents, splitSale } from './money';
 
+/** Tier keys of the default ladder (creator ladders define their own keys) */
 export type CommissionTierName = 'starter' | 'ambassador' | 'elite';
 
+/**
+ * What a member must reach to qualify for a tier (all set requirements must be met)
+ */
+export interface TierRequirements {
+  referrals: number;           // Minimum PAID referrals (1+ billing cycle)
+  activeReferrals?: number;    // Minimum referred members with an active membership
+  referredRevenue?: number;    // Minimum lifetime referred revenue (reporting currency)
+}
+
+export type TierMetric = keyof TierRequirements;
+
+/**
+ * A member's standing against tier requirements
+ * Metrics the ladder doesn't use can be omitted
+ */
+export interface TierMetrics {
+  referrals: number;
+  activeReferrals?: number;
+  referredRevenue?: number;
+}
+
 export interface CommissionTierConfig {
-  tierName: CommissionTierName;
-  minReferrals: number;           // Minimum PAID referrals (1+ billing cycle)
+  tierName: string;                // Stable tier key (starter/ambassador/elite for the default ladder)
+  displayName: string;             // Name shown to members
+  minReferrals: number;            // Minimum PAID referrals (1+ billing cycle)
+  requirements: TierRequirements;  // Full qualification rules (includes minReferrals)
   memberRate: number;              // What member earns (increases with tier)
   platformRate: number;            // What platform keeps (decreases with tier)
   creatorRate: number;             // ALWAYS 0.70 (70%)
   requiresPaidReferrals: boolean;  // Whether referrals must have paid 1+ month
 }
 
+export type TierQualificationMode = typeof TIER_QUALIFICATION.MODES[number];
+
+/**
+ * How a creator's members qualify for tiers
+ */
+export interface TierQualification {
+  mode: TierQualificationMode;
+  windowDays: number;  // Rolling window (rolling mode only)
+  graceDays: number;   // Warning period before a downgrade applies
+}
+
+/**
+ * A tier as stored in Creator.commissionTierLadder
+ */
+export interface TierLadderEntry {
+  key: string;
+  name: string;
+  memberRate: number;
+  platformRate: number;
+  creatorRate: number;
+  requirements: TierRequirements;
+}
+
 /**
  * Creator-customizable tier thresholds
  * Can be stored in Creator model and passed to getCommissionTier()
@@ -53,7 +117,9 @@ export interface CreatorTierThresholds {
 export const COMMISSION_TIERS: CommissionTierConfig[] = [
   {
     tierName: 'starter',
+    displayName: 'Starter',
     minReferrals: 0,
+    requirements: { referrals: 0 },
     memberRate: COMMISSION_RATES.STARTER.member,
     platformRate: COMMISSION_RATES.STARTER.platform,
     creatorRate: COMMISSION_RATES.STARTER.creator,
@@ -61,7 +127,9 @@ export const COMMISSION_TIERS: CommissionTierConfig[] = [
   },
   {
     tierName: 'ambassador',
+    displayName: 'Ambassador',
     minReferrals: DEFAULT_TIER_THRESHOLDS.AMBASSADOR_MIN_REFERRALS,
+    requirements: { referrals: DEFAULT_TIER_THRESHOLDS.AMBASSADOR_MIN_REFERRALS },
     memberRate: COMMISSION_RATES.AMBASSADOR.member,
     platformRate: COMMISSION_RATES.AMBASSADOR.platform,
     creatorRate: COMMISSION_RATES.AMBASSADOR.creator,
@@ -69,7 +137,9 @@ export const COMMISSION_TIERS: CommissionTierConfig[] = [
   },
   {
     tierName: 'elite',
+    displayName: 'Elite',
     minReferrals: DEFAULT_TIER_THRESHOLDS.ELITE_MIN_REFERRALS,
+    requirements: { referrals: DEFAULT_TIER_THRESHOLDS.ELITE_MIN_REFERRALS },
     memberRate: COMMISSION_RATES.ELITE.member,
     platformRate: COMMISSION_RATES.ELITE.platform,
     creatorRate: COMMISSION_RATES.ELITE.creator,
@@ -92,7 +162,9 @@ function buildTierConfigs(creatorConfig?: CreatorTierThresholds): CommissionTier
   return [
     {
       tierName: 'starter',
+      displayName: 'Starter',
       minReferrals: 0,
+      requirements: { referrals: 0 },
       memberRate: COMMISSION_RATES.STARTER.member,
       platformRate: COMMISSION_RATES.STARTER.platform,
       creatorRate: COMMISSION_RATES.STARTER.creator,
@@ -100,7 +172,9 @@ function buildTierConfigs(creatorConfig?: CreatorTierThresholds): CommissionTier
     },
     {
       tierName: 'ambassador',
+      displayName: 'Ambassador',
       minReferrals: ambassadorMin,
+      requirements: { referrals: ambassadorMin },
       memberRate: COMMISSION_RATES.AMBASSADOR.member,
       platformRate: COMMISSION_RATES.AMBASSADOR.platform,
       creatorRate: COMMISSION_RATES.AMBASSADOR.creator,
@@ -108,7 +182,9 @@ function buildTierConfigs(creatorConfig?: CreatorTierThresholds): CommissionTier
     },
     {
       tierName: 'elite',
+      displayName: 'Elite',
       minReferrals: eliteMin,
+      requirements: { referrals: eliteMin },
       memberRate: COMMISSION_RATES.ELITE.member,
       platformRate: COMMISSION_RATES.ELITE.platform,
       creatorRate: COMMISSION_RATES.ELITE.creator,
@@ -117,81 +193,311 @@ function buildTierConfigs(creatorConfig?: CreatorTierThresholds): CommissionTier
   ];
 }
 
+/**
+ * Creator-specific ladder, or the legacy Ambassador/Elite threshold overrides
+ */
+export type TierLadderInput = CommissionTierConfig[] | CreatorTierThresholds;
+
+function resolveTiers(creatorConfig?: TierLadderInput): CommissionTierConfig[] {
+  if (!creatorConfig) return COMMISSION_TIERS;
+  if (Array.isArray(creatorConfig)) {
+    return creatorConfig.length > 0 ? creatorConfig : COMMISSION_TIERS;
+  }
+  return buildTierConfigs(creatorConfig);
+}
+
+function toMetrics(totalReferrals: number | TierMetrics): TierMetrics {
+  return typeof totalReferrals === 'number' ? { referrals: totalReferrals } : totalReferrals;
+}
+
+/**
+ * Check whether a member's metrics meet every requirement of a tier
+ * (a metric the caller didn't supply counts as 0)
+ */
+export function meetsTierRequirements(metrics: TierMetrics, requirements: TierRequirements): boolean {
+  return (
+    metrics.referrals >= requirements.referrals &&
+    (metrics.activeReferrals ?? 0) >= (requirements.activeReferrals ?? 0) &&
+    (metrics.referredRevenue ?? 0) >= (requirements.referredRevenue ?? 0)
+  );
+}
+
 /**
  * Get commission tier based on total referral count
  * Returns the highest tier the member qualifies for
  *
- * @param totalReferrals - Total paid referrals by the member
- * @param creatorConfig - Optional creator-specific tier thresholds
+ * @param totalReferrals - Total paid referrals by the member (or full metrics for creator ladders)
+ * @param creatorConfig - Optional creator ladder or tier thresholds
  * @returns The commission tier configuration
  */
 export function getCommissionTier(
-  totalReferrals: number,
-  creatorConfig?: CreatorTierThresholds
+  totalReferrals: number | TierMetrics,
+  creatorConfig?: TierLadderInput
 ): CommissionTierConfig {
-  // Use custom thresholds if provided, otherwise use defaults
-  const tiers = creatorConfig ? buildTierConfigs(creatorConfig) : COMMISSION_TIERS;
-
-  // Sort descending by minReferrals to find highest qualifying tier
-  const sortedTiers = [...tiers].sort(
-    (a, b) => b.minReferrals - a.minReferrals
-  );
-
-  for (const tier of sortedTiers) {
-    if (totalReferrals >= tier.minReferrals) {
-      return tier;
+  // Use the creator's ladder if provided, otherwise use defaults
+  const tiers = resolveTiers(creatorConfig);
+  const metrics = toMetrics(totalReferrals);
+
+  // Walk down from the top tier to find the highest qualifying tier
+  for (let i = tiers.length - 1; i >= 0; i--) {
+    if (meetsTierRequirements(metrics, tiers[i].requirements)) {
+      return tiers[i];
     }
   }
 
-  // Default to starter (should never reach here since starter minReferrals is 0)
+  // Default to the entry tier (should never reach here since its requirements are 0)
   return tiers[0];
 }
 
 /**
  * Get tier by name
  */
-export function getTierByName(tierName: CommissionTierName): CommissionTierConfig {
-  return COMMISSION_TIERS.find(t => t.tierName === tierName) || COMMISSION_TIERS[0];
+export function getTierByName(
+  tierName: string,
+  creatorConfig?: TierLadderInput
+): CommissionTierConfig {
+  const tiers = resolveTiers(creatorConfig);
+  return tiers.find(t => t.tierName === tierName) || tiers[0];
 }
 
 /**
  * Get next tier info for progress display
+ *
+ * progressPercent follows the requirement the member is furthest from.
  */
-export function getNextTierInfo(totalReferrals: number): {
+export function getNextTierInfo(
+  totalReferrals: number | TierMetrics,
+  creatorConfig?: TierLadderInput
+): {
   currentTier: CommissionTierConfig;
   nextTier: CommissionTierConfig | null;
   referralsToNextTier: number;
+  remaining: TierRequirements;
   progressPercent: number;
 } {
-  const currentTier = getCommissionTier(totalReferrals);
-  const currentIndex = COMMISSION_TIERS.findIndex(
+  const tiers = resolveTiers(creatorConfig);
+  const metrics = toMetrics(totalReferrals);
+  const currentTier = getCommissionTier(metrics, tiers);
+  const currentIndex = tiers.findIndex(
     t => t.tierName === currentTier.tierName
   );
 
-  const nextTier = COMMISSION_TIERS[currentIndex + 1] || null;
+  const nextTier = tiers[currentIndex + 1] || null;
 
   if (!nextTier) {
     return {
       currentTier,
       nextTier: null,
       referralsToNextTier: 0,
+      remaining: { referrals: 0 },
       progressPercent: 100,
     };
   }
 
-  const referralsToNextTier = nextTier.minReferrals - totalReferrals;
-  const rangeSize = nextTier.minReferrals - currentTier.minReferrals;
-  const progressInRange = totalReferrals - currentTier.minReferrals;
-  const progressPercent = Math.round((progressInRange / rangeSize) * 100);
+  const remaining: TierRequirements = { referrals: 0 };
+  let progress = 1;
+
+  for (const metric of TIER_METRICS) {
+    const target = nextTier.requirements[metric];
+    if (target === undefined) continue;
+
+    const value = metrics[metric] ?? 0;
+    const floor = Math.min(currentTier.requirements[metric] ?? 0, target);
+    remaining[metric] = Math.max(0, target - value);
+
+    const rangeSize = target - floor;
+    const fraction = rangeSize > 0 ? (value - floor) / rangeSize : (value >= target ? 1 : 0);
+    progress = Math.min(progress, fraction);
+  }
+
+  const progressPercent = Math.round(progress * 100);
 
   return {
     currentTier,
     nextTier,
-    referralsToNextTier,
+    referralsToNextTier: remaining.referrals,
+    remaining,
     progressPercent: Math.max(0, Math.min(100, progressPercent)),
   };
 }
 
+// ========================================
+// CREATOR TIER LADDERS
+// ========================================
+
+/** Every metric a tier can require, in display order */
+export const TIER_METRICS: TierMetric[] = ['referrals', 'activeReferrals', 'referredRevenue'];
+
+function toBasisPoints(rate: number): number {
+  return Math.round(rate * 10_000);
+}
+
+/**
+ * Validate a creator-defined ladder
+ *
+ * Rules:
+ * - 1-6 tiers with unique keys and non-empty names
+ * - The first tier has no requirements (everyone starts there)
+ * - Each tier requires at least as much as the one below it, and more of something
+ * - Member rates never decrease up the ladder and stay above the Starter rate
+ * - Creator keeps 70%, platform keeps at least the Elite rate, and all three sum to 100%
+ *
+ * @returns Validation errors (empty when the ladder is valid)
+ */
+export function validateTierLadder(entries: TierLadderEntry[]): string[] {
+  const errors: string[] = [];
+
+  if (entries.length < TIER_LADDER_LIMITS.MIN_TIERS || entries.length > TIER_LADDER_LIMITS.MAX_TIERS) {
+    errors.push(`Ladder must have between ${TIER_LADDER_LIMITS.MIN_TIERS} and ${TIER_LADDER_LIMITS.MAX_TIERS} tiers`);
+    return errors;
+  }
+
+  const seenKeys = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const label = entry.name || `Tier ${index + 1}`;
+
+    if (seenKeys.has(entry.key)) {
+      errors.push(`Duplicate tier key "${entry.key}"`);
+    }
+    seenKeys.add(entry.key);
+
+    if (!entry.name.trim() || entry.name.length > TIER_LADDER_LIMITS.MAX_NAME_LENGTH) {
+      errors.push(`${label}: name must be 1-${TIER_LADDER_LIMITS.MAX_NAME_LENGTH} characters`);
+    }
+
+    for (const metric of TIER_METRICS) {
+      const value = entry.requirements[metric];
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        errors.push(`${label}: ${metric} requirement must be a non-negative number`);
+      }
+    }
+
+    // Rates must still sum to 100% (compared in basis points to avoid float drift)
+    const member = toBasisPoints(entry.memberRate);
+    const creator = toBasisPoints(entry.creatorRate);
+    const platform = toBasisPoints(entry.platformRate);
+
+    if (member + creator + platform !== 10_000) {
+      errors.push(`${label}: rates must sum to 100%, got ${(member + creator + platform) / 100}%`);
+    }
+    if (creator !== toBasisPoints(BASE_RATES.CREATOR)) {
+      errors.push(`${label}: creator rate must be ${formatRateAsPercent(BASE_RATES.CREATOR)}`);
+    }
+    if (member < toBasisPoints(TIER_LADDER_LIMITS.MIN_MEMBER_RATE)) {
+      errors.push(`${label}: member rate must be at least ${formatRateAsPercent(TIER_LADDER_LIMITS.MIN_MEMBER_RATE)}`);
+    }
+    if (platform < toBasisPoints(TIER_LADDER_LIMITS.MIN_PLATFORM_RATE)) {
+      errors.push(`${label}: platform rate must be at least ${formatRateAsPercent(TIER_LADDER_LIMITS.MIN_PLATFORM_RATE)}`);
+    }
+
+    if (index === 0) {
+      if (TIER_METRICS.some(metric => (entry.requirements[metric] ?? 0) > 0)) {
+        errors.push(`${label}: the first tier cannot have requirements`);
+      }
+      return;
+    }
+
+    const previous = entries[index - 1];
+    let raisesRequirement = false;
+
+    for (const metric of TIER_METRICS) {
+      const current = entry.requirements[metric] ?? 0;
+      const below = previous.requirements[metric] ?? 0;
+      if (current < below) {
+        errors.push(`${label}: ${metric} requirement cannot be lower than ${previous.name}`);
+      }
+      if (current > below) raisesRequirement = true;
+    }
+
+    if (!raisesRequirement) {
+      errors.push(`${label}: must require more than ${previous.name}`);
+    }
+    if (member < toBasisPoints(previous.memberRate)) {
+      errors.push(`${label}: member rate cannot be lower than ${previous.name}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Build tier configs from ladder entries (entries must already be validated)
+ */
+export function buildTierLadder(entries: TierLadderEntry[]): CommissionTierConfig[] {
+  return entries.map(entry => ({
+    tierName: entry.key,
+    displayName: entry.name,
+    minReferrals: entry.requirements.referrals,
+    requirements: { ...entry.requirements },
+    memberRate: entry.memberRate,
+    platformRate: entry.platformRate,
+    creatorRate: entry.creatorRate,
+    requiresPaidReferrals: entry.requirements.referrals > 0,
+  }));
+}
+
+/**
+ * Convert tier configs back into storable ladder entries
+ */
+export function toTierLadderEntries(tiers: CommissionTierConfig[]): TierLadderEntry[] {
+  return tiers.map(tier => ({
+    key: tier.tierName,
+    name: tier.displayName,
+    memberRate: tier.memberRate,
+    platformRate: tier.platformRate,
+    creatorRate: tier.creatorRate,
+    requirements: { ...tier.requirements },
+  }));
+}
+
+/**
+ * Read a ladder stored on Creator.commissionTierLadder
+ * Falls back to the default ladder when none is set or the stored value is invalid
+ */
+export function parseTierLadder(value: unknown): CommissionTierConfig[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return COMMISSION_TIERS;
+  }
+
+  const entries = value as TierLadderEntry[];
+  const wellFormed = entries.every(entry =>
+    entry && typeof entry.key === 'string' && typeof entry.name === 'string' &&
+    typeof entry.memberRate === 'number' && typeof entry.platformRate === 'number' &&
+    typeof entry.creatorRate === 'number' && typeof entry.requirements?.referrals === 'number'
+  );
+
+  if (!wellFormed || validateTierLadder(entries).length > 0) {
+    return COMMISSION_TIERS;
+  }
+
+  return buildTierLadder(entries);
+}
+
+/**
+ * Metrics beyond paid referrals that a ladder requires
+ * (lets callers skip queries for metrics nobody uses)
+ */
+export function getLadderMetrics(tiers: CommissionTierConfig[]): TierMetric[] {
+  return TIER_METRICS.filter(metric =>
+    tiers.some(tier => (tier.requirements[metric] ?? 0) > 0)
+  );
+}
+
+/**
+ * Describe a tier's requirements for display (e.g. "50+ paid refs · $1,000+ revenue")
+ */
+export function describeTierRequirements(tier: Pick<CommissionTierConfig, 'requirements'>): string {
+  const parts: string[] = [];
+  const { referrals, activeReferrals, referredRevenue } = tier.requirements;
+
+  if (referrals > 0) parts.push(`${referrals}+ paid refs`);
+  if (activeReferrals) parts.push(`${activeReferrals}+ active`);
+  if (referredRevenue) parts.push(`${formatCurrency(referredRevenue)}+ revenue`);
+
+  return parts.length > 0 ? parts.join(' · ') : 'Start here';
+}
+
 // ========================================
 // COMMISSION CALCULATION
 // ========================================
@@ -201,7 +507,7 @@ export interface TieredCommissionResult {
   memberShare: number;
   creatorShare: number;
   platformShare: number;
-  appliedTier: CommissionTierName;
+  appliedTier: string;
   appliedMemberRate: number;
   appliedPlatformRate: number;
   appliedCreatorRate: number;
@@ -212,14 +518,14 @@ export interface TieredCommissionResult {
  * Calculate commission with tiered rates
  *
  * @param saleAmount - Total sale amount
- * @param memberReferralCount - Total referrals by the REFERRER (determines their tier)
- * @param creatorConfig - Optional creator-specific tier thresholds
+ * @param memberReferralCount - Total referrals by the REFERRER, or their full tier metrics (determines their tier)
+ * @param creatorConfig - Optional creator ladder or tier thresholds
  * @returns Commission split with tier info
  */
 export function calculateTieredCommission(
   saleAmount: number,
-  memberReferralCount: number,
-  creatorConfig?: CreatorTierThresholds
+  memberReferralCount: number | TierMetrics,
+  creatorConfig?: TierLadderInput
 ): TieredCommissionResult {
   // Input validation using constants from SSOT
   if (saleAmount < 0) {
@@ -232,34 +538,100 @@ export function calculateTieredCommission(
     throw new Error('Sale amount must be a valid number');
   }
 
-  // Get tier based on referrer's total referrals (with optional custom thresholds)
-  const tier = getCommissionTier(memberReferralCount, creatorConfig);
-
-  // Calculate shares
-  const memberShare = Number((saleAmount * tier.memberRate).toFixed(2));
-  const creatorShare = Number((saleAmount * tier.creatorRate).toFixed(2));
-  const platformShare = Number((saleAmount * tier.platformRate).toFixed(2));
-
-  // Ensure no cents are lost due to rounding
-  const total = memberShare + creatorShare + platformShare;
-  const diff = Number((saleAmount - total).toFixed(2));
+  // Get tier based on referrer's standing (with the creator's ladder if provided)
+  return calculateTierSplit(saleAmount, getCommissionTier(memberReferralCount, creatorConfig));
+}
 
-  // Adjust platform share for any rounding difference (platform absorbs rounding)
-  const adjustedPlatformShare = Number((platformShare + diff).toFixed(2));
+/**
+ * Split a sale at a specific tier's rates
+ * Use when the tier is already known (e.g. a held tier in rolling qualification)
+ */
+export function calculateTierSplit(
+  saleAmount: number,
+  tier: CommissionTierConfig
+): TieredCommissionResult {
+  // Calculate shares in cents (platform absorbs rounding, so the split sums exactly)
+  const split = splitSale(toCents(saleAmount), {
+    memberRate: tier.memberRate,
+    creatorRate: tier.creatorRate,
+  });
 
   return {
-    saleAmount,
-    memberShare,
-    creatorShare,
-    platformShare: adjustedPlatformShare,
+    saleAmount: fromCents(split.sale),
+    memberShare: fromCents(split.memberShare),
+    creatorShare: fromCents(split.creatorShare),
+    platformShare: fromCents(split.platformShare),
     appliedTier: tier.tierName,
     appliedMemberRate: tier.memberRate,
     appliedPlatformRate: tier.platformRate,
     appliedCreatorRate: tier.creatorRate,
-    total: memberShare + creatorShare + adjustedPlatformShare,
+    total: fromCents(split.sale),
+  };
+}
+
+// ========================================
+// TIER QUALIFICATION
+// ========================================
+
+export const DEFAULT_TIER_QUALIFICATION: TierQualification = {
+  mode: TIER_QUALIFICATION.DEFAULT_MODE,
+  windowDays: TIER_QUALIFICATION.DEFAULT_WINDOW_DAYS,
+  graceDays: TIER_QUALIFICATION.DEFAULT_GRACE_DAYS,
+};
+
+function isQualificationMode(mode: unknown): mode is TierQualificationMode {
+  return TIER_QUALIFICATION.MODES.includes(mode as TierQualificationMode);
+}
+
+/**
+ * Read a creator's qualification settings (unknown values fall back to defaults)
+ */
+export function parseTierQualification(creator: {
+  tierQualificationMode?: string | null;
+  tierQualificationDays?: number | null;
+  tierDowngradeGraceDays?: number | null;
+}): TierQualification {
+  return {
+    mode: isQualificationMode(creator.tierQualificationMode)
+      ? creator.tierQualificationMode
+      : DEFAULT_TIER_QUALIFICATION.mode,
+    windowDays: creator.tierQualificationDays ?? DEFAULT_TIER_QUALIFICATION.windowDays,
+    graceDays: creator.tierDowngradeGraceDays ?? DEFAULT_TIER_QUALIFICATION.graceDays,
   };
 }
 
+/**
+ * Position of a tier on a ladder (-1 if the ladder doesn't have it)
+ */
+export function getTierIndex(tierName: string | null | undefined, creatorConfig?: TierLadderInput): number {
+  if (!tierName) return -1;
+  return resolveTiers(creatorConfig).findIndex(t => t.tierName === tierName);
+}
+
+/**
+ * Get the tier a member currently holds
+ *
+ * Lifetime qualification applies the live tier (lifetime counts only grow).
+ * Other modes keep the member's stored tier as a floor: downgrades only happen
+ * through the recalculation job once the grace period has passed.
+ */
+export function getHeldTier(
+  metrics: TierMetrics,
+  creatorConfig: TierLadderInput | undefined,
+  qualification: TierQualification,
+  storedTierName?: string | null
+): CommissionTierConfig {
+  const tiers = resolveTiers(creatorConfig);
+  const liveTier = getCommissionTier(metrics, tiers);
+
+  if (qualification.mode === 'lifetime') {
+    return liveTier;
+  }
+
+  const storedIndex = getTierIndex(storedTierName, tiers);
+  return storedIndex > tiers.indexOf(liveTier) ? tiers[storedIndex] : liveTier;
+}
+
 // ========================================
 // TIER UPGRADE DETECTION
 // ========================================
@@ -269,14 +641,16 @@ export function calculateTieredCommission(
  * Returns upgrade info if applicable
  */
 export function checkTierUpgrade(
-  currentTierName: CommissionTierName,
-  totalReferrals: number
+  currentTierName: string,
+  totalReferrals: number | TierMetrics,
+  creatorConfig?: TierLadderInput
 ): {
   shouldUpgrade: boolean;
   newTier: CommissionTierConfig | null;
   rateIncrease: number;
 } {
-  const newTierConfig = getCommissionTier(totalReferrals);
+  const tiers = resolveTiers(creatorConfig);
+  const newTierConfig = getCommissionTier(totalReferrals, tiers);
 
   if (newTierConfig.tierName === currentTierName) {
     return {
@@ -286,8 +660,8 @@ export function checkTierUpgrade(
     };
   }
 
-  const currentTierConfig = COMMISSION_TIERS.find(t => t.tierName === currentTierName);
-  const rateIncrease = newTierConfig.memberRate - (currentTierConfig?.memberRate || 0.10);
+  const currentTierConfig = tiers.find(t => t.tierName === currentTierName);
+  const rateIncrease = newTierConfig.memberRate - (currentTierConfig?.memberRate || BASE_RATES.MEMBER);
 
   return {
     shouldUpgrade: true,
@@ -336,6 +710,53 @@ export const TIER_DISPLAY = {
   },
 } as const;
 
+export type TierDisplay = {
+  name: string;
+  icon: string;
+  color: string;
+  bgClass: string;
+  textClass: string;
+  borderClass: string;
+  gradientFrom: string;
+  gradientTo: string;
+  description: string;
+};
+
+/**
+ * Styles for creator-defined tiers, assigned by position on the ladder
+ */
+const LADDER_DISPLAY_PALETTE: Omit<TierDisplay, 'name' | 'description'>[] = [
+  { icon: '🚀', color: 'blue', bgClass: 'bg-blue-500/20', textClass: 'text-blue-300', borderClass: 'border-blue-500', gradientFrom: 'from-blue-600', gradientTo: 'to-blue-400' },
+  { icon: '🔥', color: 'emerald', bgClass: 'bg-emerald-500/20', textClass: 'text-emerald-300', borderClass: 'border-emerald-500', gradientFrom: 'from-emerald-600', gradientTo: 'to-emerald-400' },
+  { icon: '⭐', color: 'yellow', bgClass: 'bg-yellow-500/20', textClass: 'text-yellow-300', borderClass: 'border-yellow-500', gradientFrom: 'from-yellow-600', gradientTo: 'to-yellow-400' },
+  { icon: '💫', color: 'orange', bgClass: 'bg-orange-500/20', textClass: 'text-orange-300', borderClass: 'border-orange-500', gradientFrom: 'from-orange-600', gradientTo: 'to-orange-400' },
+  { icon: '👑', color: 'purple', bgClass: 'bg-purple-500/20', textClass: 'text-purple-300', borderClass: 'border-purple-500', gradientFrom: 'from-purple-600', gradientTo: 'to-purple-400' },
+  { icon: '💎', color: 'pink', bgClass: 'bg-pink-500/20', textClass: 'text-pink-300', borderClass: 'border-pink-500', gradientFrom: 'from-pink-600', gradientTo: 'to-pink-400' },
+];
+
+/**
+ * Get display styling for any tier
+ * Default tiers keep their TIER_DISPLAY styling; creator tiers are styled by ladder position
+ */
+export function getTierDisplay(
+  tier: Pick<CommissionTierConfig, 'tierName' | 'displayName'> & Partial<Pick<CommissionTierConfig, 'requirements'>>,
+  position: number = 0
+): TierDisplay {
+  if (tier.tierName in TIER_DISPLAY) {
+    return {
+      ...TIER_DISPLAY[tier.tierName as CommissionTierName],
+      name: tier.displayName,
+    };
+  }
+
+  const palette = LADDER_DISPLAY_PALETTE[Math.min(position, LADDER_DISPLAY_PALETTE.length - 1)];
+  return {
+    ...palette,
+    name: tier.displayName,
+    description: tier.requirements ? describeTierRequirements({ requirements: tier.requirements }) : tier.displayName,
+  };
+}
+
 /**
  * Format rate as percentage for display
  */
@@ -406,15 +827,19 @@ export function getTierRequirements(tierName: CommissionTierName): {
 /**
  * Get comprehensive tier info for display and notifications
  */
-export function getTierInfo(totalReferrals: number): {
-  tierName: CommissionTierName;
+export function getTierInfo(
+  totalReferrals: number | TierMetrics,
+  creatorConfig?: TierLadderInput
+): {
+  tierName: string;
   displayName: string;
   icon: string;
   rate: number;
   rateFormatted: string;
 } {
-  const tier = getCommissionTier(totalReferrals);
-  const display = TIER_DISPLAY[tier.tierName];
+  const tiers = resolveTiers(creatorConfig);
+  const tier = getCommissionTier(totalReferrals, tiers);
+  const display = getTierDisplay(tier, tiers.indexOf(tier));
 
   return {
     tierName: tier.tierName,
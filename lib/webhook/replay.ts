@@ -0,0 +1,261 @@
+// lib/webhook/replay.ts
+// Admin replay / re-drive of stored Whop webhook events.
+//
+// Live re-drives go back through the webhook queue so they get the same
+// locking, retry and dead-letter handling as fresh deliveries. Dry-runs run
+// the real handlers inside a transaction that is always rolled back, recording
+// every write so admins can see what a replay would create or change.
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { webhookQueue, WebhookJobStatus } from '../queue/webhook-queue';
+import { handleWhopEvent } from './whop-handlers';
+import logger from '../logger';
+import type { WebhookHandlerResult } from '../../types/whop-webhooks';
+
+/** Max events per live re-drive request */
+export const MAX_REDRIVE_EVENTS = 500;
+
+/** Max events per dry-run request (each one holds a transaction open) */
+export const MAX_DRY_RUN_EVENTS = 25;
+
+const DRY_RUN_TIMEOUT_MS = 30000;
+
+const WRITE_OPERATIONS = new Set([
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+/**
+ * Selection criteria for stored events
+ */
+export interface WebhookEventFilter {
+  eventIds?: string[];
+  eventTypes?: string[];
+  statuses?: string[];
+  from?: Date;
+  to?: Date;
+  hasError?: boolean;
+  errorContains?: string;
+}
+
+/**
+ * A single write the handler attempted during a dry-run
+ */
+export interface RecordedChange {
+  model: string;
+  operation: string;
+  id?: string;
+  where?: unknown;
+  data?: unknown;
+}
+
+/**
+ * Dry-run outcome for one event
+ */
+export interface DryRunReport {
+  eventId: string;
+  eventType: string;
+  ok: boolean;
+  result?: WebhookHandlerResult;
+  error?: string;
+  changes: RecordedChange[];
+}
+
+class DryRunRollback extends Error {
+  constructor() {
+    super('Dry-run rollback');
+    this.name = 'DryRunRollback';
+  }
+}
+
+/**
+ * Build the Prisma filter for a selection
+ */
+export function buildWebhookEventWhere(filter: WebhookEventFilter): Prisma.WebhookEventWhereInput {
+  const where: Prisma.WebhookEventWhereInput = {};
+
+  if (filter.eventIds?.length) where.id = { in: filter.eventIds };
+  if (filter.eventTypes?.length) where.eventType = { in: filter.eventTypes };
+  if (filter.statuses?.length) where.status = { in: filter.statuses };
+
+  if (filter.from || filter.to) {
+    where.createdAt = {
+      ...(filter.from && { gte: filter.from }),
+      ...(filter.to && { lte: filter.to }),
+    };
+  }
+
+  if (filter.errorContains) {
+    where.errorMessage = { contains: filter.errorContains, mode: 'insensitive' };
+  } else if (filter.hasError === true) {
+    where.errorMessage = { not: null };
+  } else if (filter.hasError === false) {
+    where.errorMessage = null;
+  }
+
+  return where;
+}
+
+/**
+ * List stored events matching a selection (newest first)
+ */
+export async function findWebhookEvents(filter: WebhookEventFilter, limit: number = 100) {
+  return prisma.webhookEvent.findMany({
+    where: buildWebhookEventWhere(filter),
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      eventType: true,
+      whopEventId: true,
+      status: true,
+      processed: true,
+      processedAt: true,
+      errorMessage: true,
+      retryCount: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Wrap a transaction client so every model write is recorded
+ */
+function recordWrites(tx: Prisma.TransactionClient, changes: RecordedChange[]): Prisma.TransactionClient {
+  return new Proxy(tx, {
+    get(target, modelName, receiver) {
+      const delegate = Reflect.get(target, modelName, receiver);
+
+      if (typeof modelName !== 'string' || modelName.startsWith('$') || !delegate || typeof delegate !== 'object') {
+        return delegate;
+      }
+
+      return new Proxy(delegate, {
+        get(model, operation) {
+          const method = Reflect.get(model, operation);
+
+          if (typeof method !== 'function') return method;
+          if (typeof operation !== 'string' || !WRITE_OPERATIONS.has(operation)) {
+            return method.bind(model);
+          }
+
+          return async (args: any) => {
+            const result = await method.call(model, args);
+            changes.push({
+              model: modelName,
+              operation,
+              id: result?.id,
+              where: args?.where,
+              // JSON round-trip turns Dates/Decimals into something serializable
+              data: JSON.parse(JSON.stringify(args?.data ?? args?.create ?? null)),
+            });
+            return result;
+          };
+        },
+      });
+    },
+  });
+}
+
+/**
+ * Run one stored event through the handlers without committing anything
+ */
+async function dryRunEvent(event: {
+  id: string;
+  eventType: string;
+  payload: Prisma.JsonValue;
+  processedAt: Date | null;
+}): Promise<DryRunReport> {
+  const changes: RecordedChange[] = [];
+  const payload = event.payload as { data?: unknown } | null;
+  let result: WebhookHandlerResult | undefined;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      result = await handleWhopEvent(event.eventType, payload?.data, {
+        webhookEventId: event.id,
+        db: recordWrites(tx, changes),
+        dryRun: true,
+        replay: event.processedAt !== null,
+      });
+
+      // Always roll back
+      throw new DryRunRollback();
+    }, { timeout: DRY_RUN_TIMEOUT_MS });
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) {
+      return {
+        eventId: event.id,
+        eventType: event.eventType,
+        ok: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        changes,
+      };
+    }
+  }
+
+  return {
+    eventId: event.id,
+    eventType: event.eventType,
+    ok: result?.ok ?? false,
+    result,
+    changes,
+  };
+}
+
+/**
+ * Preview what replaying the given events would create or change
+ */
+export async function dryRunWebhookEvents(eventIds: string[]): Promise<DryRunReport[]> {
+  const events = await prisma.webhookEvent.findMany({
+    where: { id: { in: eventIds.slice(0, MAX_DRY_RUN_EVENTS) } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, eventType: true, payload: true, processedAt: true },
+  });
+
+  // Sequential so each preview sees the same committed state as a real replay would
+  const reports: DryRunReport[] = [];
+  for (const event of events) {
+    reports.push(await dryRunEvent(event));
+  }
+
+  logger.info(`[REPLAY] Dry-run of ${reports.length} webhook events`);
+  return reports;
+}
+
+/**
+ * Re-queue events for real processing and leave an audit trail
+ */
+export async function redriveWebhookEvents(eventIds: string[]): Promise<number> {
+  const events = await prisma.webhookEvent.findMany({
+    where: {
+      id: { in: eventIds.slice(0, MAX_REDRIVE_EVENTS) },
+      status: { not: WebhookJobStatus.PROCESSING },
+    },
+    select: { id: true, eventType: true, status: true },
+  });
+
+  if (events.length === 0) return 0;
+
+  const requeued = await webhookQueue.requeue(events.map(event => event.id));
+
+  await prisma.auditLog.createMany({
+    data: events.map(event => ({
+      entity: 'WebhookEvent',
+      entityId: event.id,
+      field: 'status',
+      oldValue: event.status,
+      newValue: WebhookJobStatus.PENDING,
+      triggeredBy: 'manual',
+      metadata: { action: 'replay', eventType: event.eventType },
+    })),
+  });
+
+  logger.info(`[REPLAY] Re-drove ${requeued} webhook events`);
+  return requeued;
+}
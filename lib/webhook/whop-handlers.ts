@@ -0,0 +1,1586 @@
+// lib/webhook/whop-handlers.ts
+// Strategy B: Whop-Native Attribution
+//
+// Business handlers for stored Whop webhook events. The HTTP route only
+// verifies and persists events; the webhook queue worker dispatches them here.
+import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db/prisma';
+import { generateReferralCode } from '../utils/referral-code';
+import { calculateTierSplit, formatRateAsPercent, getHeldTier } from '../utils/tiered-commission';
+import { getCreatorTierSettings, getMemberTierMetrics, recordTierChange } from '../utils/tier-ladder';
+import { applyCampaignBoost, findActiveCampaign } from '../utils/commission-campaigns';
+import { applyProductRule, getProductCommissionPolicy, ruleCoversPayment } from '../utils/product-commission';
+import { describeRecurringPolicy, isPaymentCommissionable, parseRecurringPolicy } from '../utils/recurring-commission';
+import { getClearingStatus, getClearsAt, getRefundedCommissionStatus, parseCommissionHoldDays } from '../utils/commission-clearing';
+import { sendWelcomeMessage } from '../whop/messaging';
+import { updateMemberRankings } from '../utils/rank-updater';
+import logger from '../logger';
+import {
+  isSubscriptionPayment,
+  normalizeBillingPeriod,
+  calculateMonthlyValue,
+} from '../utils/billing';
+import type {
+  WhopPaymentData,
+  WhopMembershipData,
+  WhopRefundData,
+  WebhookHandlerResult,
+} from '../../types/whop-webhooks';
+// Push notifications for key events
+import {
+  notifyWelcome,
+  notifyCommissionEarned,
+  notifyTierUpgrade,
+  notifyFirstReferral,
+  notifyMilestone,
+} from '../whop/notifications';
+// GraphQL DMs for personal messages
+import {
+  sendTierUpgradeDM,
+  sendFirstReferralBonusDM,
+  sendCommissionEarnedDM,
+  sendMilestoneDM,
+} from '../whop/graphql-messaging';
+import { postCommissionEarned, postRefundReversal } from '../ledger/commission-ledger';
+import { toCents, fromCents, splitRefund, sumCents, convertSplit, convertRefund } from '../utils/money';
+import { getFxRate, normalizeCurrency } from '../fx/rates';
+import { formatCurrency } from '../constants/metrics';
+import { attachSignupToClick, markClickConverted } from '../analytics/click-tracking';
+import { extractPromoCode, resolveFirstPaymentAttribution, resolveReferralAttribution } from '../utils/promo-code';
+import { parseAttributionPolicy, pickAttributionWinner, type AttributionCandidate } from '../utils/attribution-policy';
+import { recordAttributionConflict } from '../utils/attribution-conflicts';
+import { reassignReferral } from '../utils/referral-reassignment';
+import { evaluateCommissionFraud, recordFraudCase, shouldHoldCommission } from '../fraud/fraud-cases';
+import { RetryableError } from '../utils/webhook-retry';
+
+// Type for member with creator relation
+interface MemberWithCreator {
+  id: string;
+  userId: string;
+  username: string;
+  referralCode: string;
+  referredBy: string | null;
+  referrerId: string | null;
+  whopAffiliateUsername: string | null;
+  memberOrigin: string;
+  creatorId: string;
+  subscriptionPrice: number;
+  totalReferred: number;
+  welcomeMessageSent: boolean;
+  createdAt: Date;
+  creator: {
+    id: string;
+    companyId: string;
+    companyName: string;
+    defaultSubscriptionPrice: number;
+    attributionPolicy: string;
+  } | null;
+}
+
+/**
+ * Per-event execution context
+ *
+ * Live processing writes through the shared client. Admin dry-runs pass a
+ * transaction client that is rolled back afterwards, so every write must go
+ * through `ctx.db` and external side effects are skipped when `dryRun` is set.
+ */
+export interface WebhookHandlerContext {
+  webhookEventId: string;
+  db: Prisma.TransactionClient;
+  dryRun: boolean; // Skip payouts, DMs, notifications and ranking updates
+  replay: boolean; // Event completed before - skip counters that aren't idempotent
+}
+
+export function createLiveContext(webhookEventId: string, replay: boolean = false): WebhookHandlerContext {
+  return { webhookEventId, db: prisma, dryRun: false, replay };
+}
+
+/**
+ * Run writes atomically. Inside a dry-run the caller's transaction already
+ * wraps everything, so nested work runs on that client directly.
+ */
+async function runInTransaction<T>(
+  ctx: WebhookHandlerContext,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  if (ctx.db !== prisma) {
+    return fn(ctx.db);
+  }
+  return prisma.$transaction(fn);
+}
+
+// Whop API configuration
+const WHOP_API_KEY = process.env.WHOP_API_KEY;
+const WHOP_API_BASE = 'https://api.whop.com/api/v2';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ROUTE A STORED EVENT TO ITS HANDLER
+// Throwing signals a retryable failure to the queue worker; handlers that
+// return { ok: false } have finished and will not be retried.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+export async function handleWhopEvent(
+  action: string,
+  data: any,
+  ctx: WebhookHandlerContext
+): Promise<WebhookHandlerResult> {
+  switch (action) {
+    case 'membership.went_valid':
+      // This is the key event for Strategy B
+      return handleMembershipWentValid(data, ctx);
+
+    case 'app_payment.succeeded':
+    case 'payment.succeeded':
+      return handlePaymentSucceeded(data, ctx);
+
+    case 'app_payment.failed':
+    case 'payment.failed':
+      return handlePaymentFailed(data, ctx);
+
+    case 'app_payment.refunded':
+    case 'payment.refunded':
+      return handlePaymentRefunded(data, ctx);
+
+    case 'app_membership.created':
+    case 'membership.created':
+      return handleMembershipCreated(data, ctx);
+
+    case 'app_membership.deleted':
+    case 'membership.deleted':
+    case 'membership.cancelled':
+      return handleMembershipDeleted(data, ctx);
+
+    case 'app_subscription.trial_started':
+    case 'subscription.trial_started':
+      return handleTrialStarted(data, ctx);
+
+    case 'app_subscription.trial_ended':
+    case 'subscription.trial_ended':
+      return handleTrialEnded(data, ctx);
+
+    case 'app_subscription.cancelled':
+    case 'subscription.cancelled':
+      return handleSubscriptionCancelled(data, ctx);
+
+    case REFERRAL_CLAIM_BACKFILL_EVENT:
+      return handleReferralClaimBackfill(data, ctx);
+
+    default:
+      logger.warn(`Unhandled webhook type: ${action}`);
+      return { ok: true, message: 'Event logged but not processed' };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// STRATEGY B: Fetch membership details from Whop API
+// Returns: { affiliateUsername, memberUsername } - both auto-fetched!
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+interface MembershipDetails {
+  affiliateUsername: string | null;
+  memberUsername: string | null;
+  memberEmail: string | null;
+}
+
+async function fetchMembershipDetails(membershipId: string): Promise<MembershipDetails> {
+  const result: MembershipDetails = {
+    affiliateUsername: null,
+    memberUsername: null,
+    memberEmail: null,
+  };
+
+  if (!WHOP_API_KEY) {
+    logger.error('WHOP_API_KEY not configured');
+    return result;
+  }
+
+  try {
+    const response = await fetch(
+      `${WHOP_API_BASE}/memberships/${membershipId}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${WHOP_API_KEY}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      logger.error(`Failed to fetch membership ${membershipId}: ${response.status}`);
+      return result;
+    }
+
+    const data = await response.json();
+
+    // Get affiliate who referred this member
+    result.affiliateUsername = data.affiliate_username || null;
+
+    // Get the member's OWN Whop username (for their future affiliate links)
+    // Whop API returns user object with username
+    result.memberUsername = data.user?.username || data.username || null;
+    result.memberEmail = data.user?.email || data.email || null;
+
+    if (result.affiliateUsername) {
+      logger.info(`Found affiliate: ${result.affiliateUsername} for membership ${membershipId}`);
+    }
+    if (result.memberUsername) {
+      logger.info(`Found member username: ${result.memberUsername} (auto-fetched from Whop API)`);
+    }
+
+    return result;
+
+  } catch (error) {
+    logger.error('Error fetching membership details:', error);
+    return result;
+  }
+}
+
+// Legacy function for backward compatibility
+async function fetchAffiliateUsername(membershipId: string): Promise<string | null> {
+  const details = await fetchMembershipDetails(membershipId);
+  return details.affiliateUsername;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// NEW HANDLER: membership.went_valid (Strategy B key event)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handleMembershipWentValid(data: WhopMembershipData, ctx: WebhookHandlerContext): Promise<WebhookHandlerResult> {
+  logger.info('Processing membership.went_valid (Strategy B)...');
+
+  const membershipId = data.id || data.membership_id;
+
+  if (!membershipId) {
+    logger.error('Missing membership_id in webhook data');
+    return { ok: false, error: 'Missing membership_id' };
+  }
+
+  // Check if member already exists
+  let member = await ctx.db.member.findUnique({
+    where: { membershipId },
+  });
+
+  if (member) {
+    // Member exists - might need to update affiliate info
+    logger.info(`Member already exists: ${member.referralCode}`);
+
+    // If member doesn't have affiliate attribution yet, try to fetch it
+    if (!member.whopAffiliateUsername) {
+      const affiliateUsername = await fetchAffiliateUsername(membershipId);
+      if (affiliateUsername) {
+        // Find the referrer by their whopUsername
+        const referrer = await ctx.db.member.findUnique({
+          where: { whopUsername: affiliateUsername },
+        });
+
+        if (referrer && member.referrerId && member.referrerId !== referrer.id) {
+          // Already credited to someone else (legacy code or promo code) - the creator's policy decides
+          await resolveLateAffiliateConflict(ctx, member, referrer, affiliateUsername);
+        } else if (referrer) {
+          await ctx.db.member.update({
+            where: { id: member.id },
+            data: {
+              whopAffiliateUsername: affiliateUsername,
+              referredBy: referrer.referralCode,
+              referrerId: referrer.id,
+              memberOrigin: 'whop_affiliate',
+            },
+          });
+          await attachSignupToClick(ctx.db, { memberId: referrer.id, membershipId });
+          logger.info(`Updated member ${member.referralCode} with affiliate: ${affiliateUsername}`);
+        }
+      }
+    }
+
+    return { ok: true, message: 'Member already exists' };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // NEW MEMBER - Auto-fetch ALL details from Whop API
+  // This gets both: who referred them AND their own Whop username
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  const membershipDetails = await fetchMembershipDetails(membershipId);
+  const affiliateUsername = membershipDetails.affiliateUsername;
+  const autoFetchedWhopUsername = membershipDetails.memberUsername;
+
+  // Find referrer if affiliate exists
+  let referrer = null;
+  let referredByCode = null;
+  let memberOrigin = 'organic';
+
+  if (affiliateUsername) {
+    referrer = await ctx.db.member.findUnique({
+      where: { whopUsername: affiliateUsername },
+    });
+
+    if (referrer) {
+      referredByCode = referrer.referralCode;
+      memberOrigin = 'whop_affiliate';
+      logger.info(`Attribution found: ${affiliateUsername} -> ${referredByCode}`);
+    } else {
+      // Affiliate username found but no matching member
+      // This could be a direct Whop affiliate (not through our app)
+      memberOrigin = 'whop_affiliate';
+      logger.warn(`Affiliate ${affiliateUsername} not found in our system`);
+    }
+  }
+
+  // Get or create creator
+  const rawCompanyId = data.company_id || data.company;
+
+  if (!rawCompanyId) {
+    logger.error('Missing company_id in webhook data');
+    return { ok: false, error: 'Missing company_id' };
+  }
+
+  // TypeScript narrowing: companyId is now guaranteed to be string
+  const companyId: string = rawCompanyId;
+
+  let creator = await ctx.db.creator.findUnique({
+    where: { companyId },
+  });
+
+  if (!creator) {
+    creator = await ctx.db.creator.create({
+      data: {
+        companyId,
+        companyName: data.company_name || 'Community',
+        productId: data.product_id || data.product || 'unknown',
+      },
+    });
+  }
+
+  // Generate referral code
+  const referralCode = generateReferralCode();
+
+  // Extract user info - prefer auto-fetched from API over webhook data
+  const userId = data.user_id || data.user || `user_${membershipId}`;
+  // SECURITY FIX (M4-SEC): Use crypto-random temp email instead of predictable pattern
+  const tempEmailId = crypto.randomBytes(16).toString('hex');
+  const email = membershipDetails.memberEmail || data.email || `pending-${tempEmailId}@temp.referralflywheel.com`;
+  const username = autoFetchedWhopUsername || data.username || email.split('@')[0];
+
+  // whopUsername is CRITICAL for Strategy B - auto-fetched from Whop API!
+  const whopUsername = autoFetchedWhopUsername || data.username || null;
+
+  if (whopUsername) {
+    logger.info(`✅ Auto-captured Whop username: ${whopUsername} (no manual entry needed!)`);
+  } else {
+    logger.warn(`⚠️ Could not auto-fetch Whop username for ${membershipId}`);
+  }
+
+  // Create member
+  member = await ctx.db.member.create({
+    data: {
+      userId,
+      membershipId,
+      email,
+      username,
+      whopUsername, // AUTO-FETCHED from Whop API - no manual entry needed!
+      referralCode,
+      referredBy: referredByCode,
+      referrerId: referrer?.id ?? null,
+      whopAffiliateUsername: affiliateUsername,
+      creatorId: creator.id,
+      memberOrigin,
+      subscriptionPrice: 49.99, // Will be updated on payment
+    },
+  });
+
+  logger.info(`Member created: ${referralCode} (${memberOrigin})`);
+
+  // Join the signup back to the referrer's link click (first-party funnel)
+  if (referrer) {
+    await attachSignupToClick(ctx.db, { memberId: referrer.id, membershipId });
+  }
+
+  // Create lifecycle record
+  await ctx.db.memberLifecycle.create({
+    data: {
+      memberId: member.id,
+      convertedAt: new Date(),
+      currentStatus: 'active',
+    },
+  });
+
+  if (!ctx.dryRun) {
+    // Send welcome message via DM
+    await sendWelcomeMessage(member, creator);
+    await ctx.db.member.update({
+      where: { id: member.id },
+      data: { welcomeMessageSent: true },
+    });
+
+    // NEW: Send push notification for welcome (non-blocking)
+    notifyWelcome(companyId, userId, member.username).catch(err =>
+      logger.error('Failed to send welcome push notification:', err)
+    );
+  }
+
+  return {
+    ok: true,
+    memberId: member.id,
+    referralCode,
+    memberOrigin,
+    affiliateUsername,
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Payment Succeeded
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handlePaymentSucceeded(data: WhopPaymentData, ctx: WebhookHandlerContext): Promise<WebhookHandlerResult> {
+  logger.info('Processing payment.succeeded...');
+
+  if (!data || !data.membership_id || !data.company_id || !data.id) {
+    logger.error('Missing required webhook data:', { data });
+    return { ok: false, error: 'Missing required webhook data' };
+  }
+
+  // TypeScript narrowing: Extract validated fields
+  const validatedCompanyId: string = data.company_id;
+  const validatedPaymentId: string = data.id;
+  const validatedMembershipId: string = data.membership_id;
+
+  // Subscription filter
+  const isSubscription = isSubscriptionPayment(
+    data.plan_type,
+    data.membership_id,
+    data.billing_period
+  );
+
+  if (!isSubscription) {
+    logger.debug('Skipping non-subscription payment');
+    return { ok: true, skipped: true, reason: 'Not a subscription payment' };
+  }
+
+  const billingPeriod = normalizeBillingPeriod(data.billing_period);
+
+  // Idempotency check
+  const existingCommission = await ctx.db.commission.findUnique({
+    where: { whopPaymentId: data.id },
+  });
+
+  if (existingCommission) {
+    logger.debug(`Payment ${data.id} already processed (idempotent)`);
+    return { ok: true, message: 'Payment already processed', commissionId: existingCommission.id };
+  }
+
+  // Find existing member
+  const existingMember = await ctx.db.member.findUnique({
+    where: { membershipId: data.membership_id },
+    include: { creator: true },
+  });
+
+  if (existingMember) {
+    // Existing member - process recurring or update initial payment
+    await handleMemberPayment(existingMember, data, billingPeriod, ctx);
+    return { ok: true };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // NEW MEMBER from payment (fallback if membership.went_valid didn't fire)
+  // Auto-fetch ALL details from Whop API (Strategy B)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  logger.info('Creating member from payment webhook (fallback)...');
+
+  // Fetch FULL membership details from Whop API (Strategy B)
+  // This gets both: who referred them AND their own Whop username
+  const membershipDetails = await fetchMembershipDetails(data.membership_id);
+  const affiliateUsername = membershipDetails.affiliateUsername;
+  const autoFetchedWhopUsername = membershipDetails.memberUsername;
+
+  // Find referrer (link first)
+  let linkReferrer = null;
+  let memberOrigin = 'organic';
+
+  if (affiliateUsername) {
+    linkReferrer = await ctx.db.member.findUnique({
+      where: { whopUsername: affiliateUsername },
+    });
+    memberOrigin = 'whop_affiliate';
+  }
+
+  // Get or create creator
+  let creator = await ctx.db.creator.findUnique({
+    where: { companyId: validatedCompanyId },
+  });
+
+  if (!creator) {
+    creator = await ctx.db.creator.create({
+      data: {
+        companyId: validatedCompanyId,
+        companyName: data.company_name || 'Community',
+        productId: data.product_id || 'unknown',
+      },
+    });
+  }
+
+  // Promo code redeemed at checkout (link-less referrals) - if it names someone other than
+  // the link referrer, the creator's attribution policy decides
+  const policy = parseAttributionPolicy(creator.attributionPolicy);
+  const promoReferrer = await findPromoCodeReferrer(ctx, extractPromoCode(data), creator.id);
+  const attribution = resolveReferralAttribution({ linkReferrer, promoReferrer, policy });
+  const referrer = attribution.referrer;
+  const referredByCode = referrer?.referralCode ?? null;
+
+  if (attribution.source) {
+    memberOrigin = attribution.source;
+  }
+
+  const referralCode = generateReferralCode();
+  const subscriptionPrice = data.final_amount ? fromCents(data.final_amount) : 49.99;
+  const memberMonthlyValue = calculateMonthlyValue(subscriptionPrice, billingPeriod as any);
+
+  // Prefer auto-fetched username from API over webhook data
+  let username = 'user';
+  if (autoFetchedWhopUsername) {
+    username = autoFetchedWhopUsername;
+  } else if (data.username) {
+    username = data.username;
+  } else if (data.email) {
+    username = data.email.split('@')[0];
+  }
+
+  // whopUsername is CRITICAL for Strategy B - auto-fetched from Whop API!
+  const whopUsername = autoFetchedWhopUsername || data.username || null;
+
+  if (whopUsername) {
+    logger.info(`Auto-captured Whop username (fallback): ${whopUsername}`);
+  } else {
+    logger.warn(`Could not auto-fetch Whop username for ${data.membership_id}`);
+  }
+
+  // SECURITY FIX (M4-SEC): Use crypto-random temp email instead of predictable pattern
+  const fallbackTempEmailId = crypto.randomBytes(16).toString('hex');
+  const fallbackEmail = membershipDetails.memberEmail || data.email || `pending-${fallbackTempEmailId}@temp.referralflywheel.com`;
+
+  const newMember = await ctx.db.member.create({
+    data: {
+      userId: data.user_id || `user_${Date.now()}`,
+      membershipId: data.membership_id,
+      email: fallbackEmail,
+      username,
+      whopUsername, // AUTO-FETCHED from Whop API - no manual entry needed!
+      referralCode,
+      referredBy: referredByCode,
+      referrerId: referrer?.id ?? null,
+      whopAffiliateUsername: affiliateUsername,
+      creatorId: creator.id,
+      subscriptionPrice,
+      memberOrigin,
+      billingPeriod,
+      monthlyValue: memberMonthlyValue,
+      welcomeMessageSent: false, // Sent last - a retry of this payment sends it from the existing-member path
+    },
+  });
+
+  // Create lifecycle and count this payment into it
+  await ctx.db.memberLifecycle.create({
+    data: {
+      memberId: newMember.id,
+      convertedAt: new Date(),
+      currentStatus: 'active',
+    },
+  });
+  await countLifecyclePayment(ctx, { memberId: newMember.id, paymentId: validatedPaymentId, amount: subscriptionPrice });
+
+  logger.info(`Member created from payment: ${referralCode} (${memberOrigin})`);
+
+  if (attribution.conflict && linkReferrer && promoReferrer) {
+    const at = new Date().toISOString();
+    await recordAttributionConflict(ctx.db, {
+      creatorId: creator.id,
+      refereeId: newMember.id,
+      membershipId: validatedMembershipId,
+      candidates: [
+        { memberId: linkReferrer.id, referralCode: linkReferrer.referralCode, source: 'whop_affiliate', at },
+        { memberId: promoReferrer.id, referralCode: promoReferrer.referralCode, source: 'promo_code', at },
+      ],
+      policy,
+      assignedMemberId: referrer?.id ?? null,
+      needsReview: attribution.needsReview,
+    });
+    logger.warn(`Attribution conflict on ${referralCode}: link ${linkReferrer.referralCode} vs promo code ${promoReferrer.referralCode} → ${referredByCode} (${policy})`);
+  }
+
+  // Join the signup back to the referrer's link click (first-party funnel)
+  if (referrer) {
+    await attachSignupToClick(ctx.db, { memberId: referrer.id, membershipId: validatedMembershipId });
+  }
+
+  // Process commission if referred
+  if (referrer && data.final_amount) {
+    await processCommission(ctx, {
+      referrer,
+      saleAmount: fromCents(data.final_amount),
+      currency: data.currency,
+      paymentId: data.id,
+      membershipId: data.membership_id,
+      creatorId: creator.id,
+      billingPeriod,
+      productId: data.product_id,
+      productType: data.plan_type || 'subscription',
+      paymentType: 'initial',
+    });
+  }
+
+  await sendPendingWelcome(ctx, newMember);
+
+  return { ok: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HELPER: Process member payment (initial or recurring)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handleMemberPayment(
+  member: MemberWithCreator,
+  data: WhopPaymentData,
+  billingPeriod: string | null,
+  ctx: WebhookHandlerContext
+): Promise<void> {
+  // Validate data
+  if (!data.final_amount || !data.id) {
+    logger.error('Missing required data in payment webhook');
+    return;
+  }
+
+  const saleAmount = fromCents(data.final_amount);
+
+  // Update member's subscription price if different
+  if (member.subscriptionPrice !== saleAmount) {
+    await ctx.db.member.update({
+      where: { id: member.id },
+      data: {
+        subscriptionPrice: saleAmount,
+        billingPeriod,
+      },
+    });
+  }
+
+  // Auto-update creator's default subscription price (from first payment or if changed)
+  if (member.creator && member.creator.defaultSubscriptionPrice !== saleAmount) {
+    await ctx.db.creator.update({
+      where: { id: member.creator.id },
+      data: {
+        defaultSubscriptionPrice: saleAmount,
+      },
+    });
+    logger.info(`Updated creator ${member.creator.companyName} default price to $${saleAmount}`);
+  }
+
+  // Update lifecycle (a replayed payment was already counted)
+  const lifecycle = await ctx.db.memberLifecycle.findUnique({
+    where: { memberId: member.id },
+  });
+
+  if (lifecycle && !ctx.replay) {
+    await countLifecyclePayment(ctx, { memberId: member.id, paymentId: data.id, amount: saleAmount });
+  }
+
+  const priorCommissions = await ctx.db.commission.count({
+    where: { whopMembershipId: data.membership_id },
+  });
+
+  // First payment: a personal promo code redeemed at checkout competes with the
+  // current credit (the went_valid link, if any) under the creator's policy
+  let referrerId = member.referrerId;
+  const promoReferrer = priorCommissions === 0
+    ? await findPromoCodeReferrer(ctx, extractPromoCode(data), member.creatorId)
+    : null;
+
+  if (promoReferrer) {
+    const currentReferrer = member.referrerId
+      ? await ctx.db.member.findUnique({ where: { id: member.referrerId } })
+      : null;
+    const policy = parseAttributionPolicy(member.creator?.attributionPolicy);
+    const attribution = resolveFirstPaymentAttribution({
+      currentReferrer,
+      promoReferrer,
+      buyerMemberId: member.id,
+      policy,
+    });
+
+    const winner = attribution.referrer;
+
+    const applied = await runInTransaction(ctx, async (tx) => {
+      // Link and code disagree: queue the conflict (a creator's earlier resolution stands)
+      if (attribution.conflict && currentReferrer) {
+        const at = new Date().toISOString();
+        const conflict = await recordAttributionConflict(tx, {
+          creatorId: member.creatorId,
+          refereeId: member.id,
+          membershipId: data.membership_id,
+          candidates: [
+            { memberId: currentReferrer.id, referralCode: currentReferrer.referralCode, source: 'whop_affiliate', at: member.createdAt.toISOString() },
+            { memberId: promoReferrer.id, referralCode: promoReferrer.referralCode, source: 'promo_code', at },
+          ],
+          policy,
+          assignedMemberId: winner?.id ?? null,
+          needsReview: attribution.needsReview,
+        });
+        if (!conflict) return false;
+      }
+
+      if (attribution.changed && winner) {
+        await tx.member.update({
+          where: { id: member.id },
+          data: { referredBy: winner.referralCode, referrerId: winner.id, memberOrigin: 'promo_code' },
+        });
+      }
+
+      return true;
+    });
+
+    if (applied && attribution.changed && winner) {
+      referrerId = winner.id;
+      logger.info(`Member ${member.referralCode} attributed to ${winner.referralCode} via promo code (${policy})`);
+    }
+    if (attribution.conflict && currentReferrer) {
+      logger.warn(`Attribution conflict on ${member.referralCode}: link ${currentReferrer.referralCode} vs promo code ${promoReferrer.referralCode} → ${applied ? winner?.referralCode : 'creator decision'} (${policy})`);
+    }
+  }
+
+  // Process commission if referred
+  if (referrerId) {
+    const referrer = await ctx.db.member.findUnique({
+      where: { id: referrerId },
+    });
+
+    if (referrer) {
+      await processCommission(ctx, {
+        referrer,
+        saleAmount,
+        currency: data.currency,
+        paymentId: data.id,
+        membershipId: data.membership_id,
+        creatorId: member.creatorId,
+        billingPeriod,
+        productId: data.product_id,
+        productType: data.plan_type || 'subscription',
+        paymentType: priorCommissions === 0 ? 'initial' : 'recurring',
+      });
+    }
+  } else {
+    logger.debug('Organic member payment - no commission to process');
+  }
+
+  // Created by an earlier attempt of this payment that failed before the welcome went out
+  await sendPendingWelcome(ctx, member);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HELPER: Add a payment to the member's lifetime value once
+// The LifecyclePayment row and the increment commit together, so a retried
+// payment (processCommission can throw after this) is not counted again.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function countLifecyclePayment(
+  ctx: WebhookHandlerContext,
+  { memberId, paymentId, amount }: { memberId: string; paymentId: string; amount: number }
+): Promise<boolean> {
+  return runInTransaction(ctx, async (tx) => {
+    const counted = await tx.lifecyclePayment.createMany({
+      data: [{ whopPaymentId: paymentId, amount }],
+      skipDuplicates: true,
+    });
+
+    if (counted.count === 0) {
+      logger.debug(`Payment ${paymentId} already counted in the lifecycle`);
+      return false;
+    }
+
+    await tx.memberLifecycle.update({
+      where: { memberId },
+      data: {
+        lifetimeValue: { increment: amount },
+        netValue: { increment: amount },
+      },
+    });
+    return true;
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HELPER: Send the welcome DM if the member hasn't had it yet
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function sendPendingWelcome(
+  ctx: WebhookHandlerContext,
+  member: { id: string; userId: string; username: string; referralCode: string; creatorId: string; welcomeMessageSent: boolean }
+): Promise<void> {
+  if (ctx.dryRun || member.welcomeMessageSent) return;
+
+  const creator = await ctx.db.creator.findUnique({ where: { id: member.creatorId } });
+  if (!creator) return;
+
+  await sendWelcomeMessage(member, creator);
+  await ctx.db.member.update({
+    where: { id: member.id },
+    data: { welcomeMessageSent: true },
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HELPER: A Whop affiliate shows up for a member already credited to someone else
+// The existing credit is the earlier touch; a winning affiliate takes the
+// referral and any commissions already paid on it.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function resolveLateAffiliateConflict(
+  ctx: WebhookHandlerContext,
+  member: { id: string; referralCode: string; referredBy: string | null; referrerId: string | null; memberOrigin: string; membershipId: string; creatorId: string; createdAt: Date },
+  whopReferrer: { id: string; referralCode: string },
+  affiliateUsername: string
+): Promise<void> {
+  const [currentReferrer, creator] = await Promise.all([
+    member.referrerId
+      ? ctx.db.member.findUnique({ where: { id: member.referrerId }, select: { id: true, referralCode: true } })
+      : null,
+    ctx.db.creator.findUnique({ where: { id: member.creatorId }, select: { attributionPolicy: true } }),
+  ]);
+
+  const policy = parseAttributionPolicy(creator?.attributionPolicy);
+  const candidates: AttributionCandidate[] = [
+    ...(currentReferrer ? [{
+      memberId: currentReferrer.id,
+      referralCode: currentReferrer.referralCode,
+      source: member.memberOrigin === 'promo_code' ? 'promo_code' as const : 'referral_code' as const,
+      at: member.createdAt.toISOString(),
+    }] : []),
+    { memberId: whopReferrer.id, referralCode: whopReferrer.referralCode, source: 'whop_affiliate', at: new Date().toISOString() },
+  ];
+  const { winner, needsReview } = pickAttributionWinner(policy, candidates);
+
+  await runInTransaction(ctx, async (tx) => {
+    await tx.member.update({
+      where: { id: member.id },
+      data: { whopAffiliateUsername: affiliateUsername },
+    });
+
+    if (winner?.memberId === whopReferrer.id) {
+      await reassignReferral(tx, {
+        refereeId: member.id,
+        toReferrerId: whopReferrer.id,
+        reference: `webhook:${ctx.webhookEventId}`,
+        triggeredBy: 'webhook',
+        reason: `Attribution policy: ${policy}`,
+      });
+      await tx.member.update({
+        where: { id: member.id },
+        data: { memberOrigin: 'whop_affiliate' },
+      });
+    }
+
+    await recordAttributionConflict(tx, {
+      creatorId: member.creatorId,
+      refereeId: member.id,
+      membershipId: member.membershipId,
+      candidates,
+      policy,
+      assignedMemberId: winner?.memberId ?? null,
+      needsReview,
+    });
+  });
+
+  logger.warn(`Attribution conflict on ${member.referralCode}: ${member.referredBy} vs affiliate ${whopReferrer.referralCode} → ${winner?.referralCode} (${policy})`);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BACKFILL: Commissions for past payments of a newly attributed membership
+// Replays the stored payment.succeeded events (oldest first) for payments that
+// never earned a commission; refunded payments are skipped.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+const PAYMENT_SUCCEEDED_EVENTS = ['payment.succeeded', 'app_payment.succeeded'];
+const PAYMENT_REFUNDED_EVENTS = ['payment.refunded', 'app_payment.refunded'];
+
+// Internal event queued when a missed-referral claim is approved (lib/utils/referral-claims.ts),
+// so the backfill gets the queue's retries and dead-letter monitor
+export const REFERRAL_CLAIM_BACKFILL_EVENT = 'referral_claim.backfill';
+
+export async function backfillMembershipCommissions(
+  membershipId: string,
+  ctx: WebhookHandlerContext = createLiveContext(`backfill:${membershipId}`)
+): Promise<string[]> {
+  const member = await ctx.db.member.findUnique({
+    where: { membershipId },
+    select: { referrerId: true, creatorId: true },
+  });
+
+  const referrer = member?.referrerId
+    ? await ctx.db.member.findUnique({ where: { id: member.referrerId } })
+    : null;
+
+  if (!member || !referrer) return [];
+
+  const events = await ctx.db.webhookEvent.findMany({
+    where: {
+      eventType: { in: PAYMENT_SUCCEEDED_EVENTS },
+      payload: { path: ['data', 'membership_id'], equals: membershipId },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const backfilled: string[] = [];
+
+  for (const event of events) {
+    const data = (event.payload as { data?: WhopPaymentData } | null)?.data;
+
+    if (!data?.id || !data.final_amount) continue;
+    if (!isSubscriptionPayment(data.plan_type, data.membership_id, data.billing_period)) continue;
+
+    const [existingCommission, refundEvents] = await Promise.all([
+      ctx.db.commission.findUnique({ where: { whopPaymentId: data.id }, select: { id: true } }),
+      ctx.db.webhookEvent.count({
+        where: {
+          eventType: { in: PAYMENT_REFUNDED_EVENTS },
+          payload: { path: ['data', 'payment_id'], equals: data.id },
+        },
+      }),
+    ]);
+
+    if (existingCommission || refundEvents > 0) continue;
+
+    const priorCommissions = await ctx.db.commission.count({ where: { whopMembershipId: membershipId } });
+
+    await processCommission(ctx, {
+      referrer,
+      saleAmount: fromCents(data.final_amount),
+      currency: data.currency,
+      paymentId: data.id,
+      membershipId,
+      creatorId: member.creatorId,
+      billingPeriod: normalizeBillingPeriod(data.billing_period),
+      productId: data.product_id,
+      productType: data.plan_type || 'subscription',
+      paymentType: priorCommissions === 0 ? 'initial' : 'recurring',
+    });
+
+    // Product rules / recurring caps can still decline the payment
+    const created = await ctx.db.commission.findUnique({ where: { whopPaymentId: data.id }, select: { id: true } });
+    if (created) backfilled.push(data.id);
+  }
+
+  logger.info(`Backfilled ${backfilled.length} commissions for membership ${membershipId} -> ${referrer.referralCode}`);
+
+  return backfilled;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Referral claim backfill
+// Payments that already earned a commission are skipped, so a retry only
+// adds what the failed attempt didn't get to.
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handleReferralClaimBackfill(
+  data: { claim_id?: string; membership_id?: string },
+  ctx: WebhookHandlerContext
+): Promise<WebhookHandlerResult> {
+  if (!data?.claim_id || !data.membership_id) {
+    logger.error('Missing claim_id or membership_id in referral claim backfill');
+    return { ok: false, error: 'Missing claim_id or membership_id' };
+  }
+
+  const backfilled = await backfillMembershipCommissions(data.membership_id, ctx);
+
+  if (backfilled.length > 0) {
+    await ctx.db.referralClaim.update({
+      where: { id: data.claim_id },
+      data: { backfilled: { increment: backfilled.length } },
+    });
+  }
+
+  return { ok: true, message: `Backfilled ${backfilled.length} commissions` };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HELPER: Find the member behind a redeemed personal promo code
+// Codes only count within the community they were issued for
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function findPromoCodeReferrer(ctx: WebhookHandlerContext, promoCode: string | null, creatorId: string) {
+  if (!promoCode) return null;
+
+  const referrer = await ctx.db.member.findUnique({
+    where: { promoCode },
+  });
+
+  return referrer && referrer.creatorId === creatorId ? referrer : null;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HELPER: Process commission with TIERED RATES (creator ladder, default 10%/15%/18%)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function processCommission(ctx: WebhookHandlerContext, {
+  referrer,
+  saleAmount,
+  currency: paymentCurrency,
+  paymentId,
+  membershipId,
+  creatorId,
+  billingPeriod,
+  productId,
+  productType,
+  paymentType,
+}: {
+  referrer: any;
+  saleAmount: number; // In the payment currency
+  currency?: string;
+  paymentId: string;
+  membershipId: string;
+  creatorId: string;
+  billingPeriod: string | null;
+  productId?: string | null;
+  productType: string;
+  paymentType: 'initial' | 'recurring';
+}) {
+  // Multi-product creators: excluded products and one-time rules don't earn (further) commission
+  const productPolicy = await getProductCommissionPolicy(creatorId, { productId, billingPeriod, productType }, ctx.db);
+
+  if (productPolicy.excluded) {
+    logger.info(`Product ${productId} is excluded from the referral program - no commission for payment ${paymentId}`);
+    return;
+  }
+
+  if (!ruleCoversPayment(productPolicy.rule, paymentType)) {
+    logger.debug(`Product rule ${productPolicy.rule?.id} only pays on the first payment - skipping ${paymentId}`);
+    return;
+  }
+
+  // Recurring commission policy: a capped membership stops earning after N months / N payments
+  if (paymentType === 'recurring') {
+    const policyCreator = await ctx.db.creator.findUnique({
+      where: { id: creatorId },
+      select: { recurringCommissionMode: true, recurringCommissionLimit: true },
+    });
+    const recurringPolicy = parseRecurringPolicy(policyCreator ?? {});
+
+    if (recurringPolicy.mode !== 'lifetime') {
+      const prior = await ctx.db.commission.aggregate({
+        where: { whopMembershipId: membershipId },
+        _count: { _all: true },
+        _min: { createdAt: true },
+      });
+      const history = { priorCommissions: prior._count._all, firstCommissionAt: prior._min.createdAt };
+
+      if (!isPaymentCommissionable(recurringPolicy, history)) {
+        logger.info(`Membership ${membershipId} is past the recurring commission cap (${describeRecurringPolicy(recurringPolicy)}) - no commission for payment ${paymentId}`);
+        return;
+      }
+    }
+  }
+
+  // Calculate TIERED splits based on the referrer's standing on the creator's ladder
+  // Default ladder (no creator ladder configured):
+  // Starter (0-49): 10% member / 70% creator / 20% platform
+  // Ambassador (50-99): 15% member / 70% creator / 15% platform
+  // Elite (100+): 18% member / 70% creator / 12% platform
+  // Rolling/still-paying ladders keep the member's stored tier until the daily recalculation downgrades it
+  const tierSettings = await getCreatorTierSettings(creatorId, ctx.db);
+  const { ladder, qualification } = tierSettings;
+  const tierMetrics = await getMemberTierMetrics(referrer, tierSettings, ctx.db);
+  const heldTier = getHeldTier(tierMetrics, ladder, qualification, referrer.commissionTier);
+
+  // A matching product rule replaces the base rate (tier bonus kept, difference from the creator share)
+  const productTier = applyProductRule(heldTier, ladder[0], productPolicy.rule);
+
+  // Stack the best active boost campaign on the tier rate (capped, paid from the creator share)
+  const campaign = await findActiveCampaign(creatorId, {
+    memberId: referrer.id,
+    tierName: heldTier.tierName,
+    productId,
+    billingPeriod,
+    at: new Date(),
+  }, productTier.memberRate, ctx.db);
+  const { tier: boostedTier, boostRate } = applyCampaignBoost(productTier, campaign);
+  const tieredResult = calculateTierSplit(saleAmount, boostedTier);
+  const { memberShare, creatorShare, platformShare, appliedTier, appliedMemberRate } = tieredResult;
+
+  // Normalize into the reporting currency with today's stored rate
+  // (a missing rate throws, so the queue retries once rates are available)
+  const currency = normalizeCurrency(paymentCurrency);
+  const fxRate = await getFxRate(currency, { db: ctx.db });
+  const reporting = convertSplit({
+    sale: toCents(saleAmount),
+    memberShare: toCents(memberShare),
+    creatorShare: toCents(creatorShare),
+    platformShare: toCents(platformShare),
+  }, fxRate);
+
+  // Calculate monthly value for MRR tracking
+  const monthlyValue = calculateMonthlyValue(saleAmount, billingPeriod as any);
+
+  // Check if first referral
+  const isFirstReferral = paymentType === 'initial' && referrer.totalReferred === 0;
+
+  // Fraud evaluation - medium/high risk holds the commission for review instead of auto-paying
+  const fraudCheck = await evaluateCommissionFraud(referrer, membershipId, ctx.db);
+  const heldForReview = shouldHoldCommission(fraudCheck);
+
+  // Clearing period - the commission is paid out once the creator's hold has passed
+  const creator = await ctx.db.creator.findUnique({ where: { id: creatorId } });
+  const companyId = creator?.companyId;
+  const createdAt = new Date();
+  const clearsAt = getClearsAt(createdAt, parseCommissionHoldDays(creator ?? {}));
+  const status = getClearingStatus({ heldForReview, clearsAt, now: createdAt });
+
+  // Create commission record with tier info and post it to the ledger
+  // Status starts as 'pending' (clearing), 'cleared' (no hold) or 'held' (fraud review)
+  const commission = await runInTransaction(ctx, async (tx) => {
+    const created = await tx.commission.create({
+      data: {
+        whopPaymentId: paymentId,
+        whopMembershipId: membershipId,
+        whopProductId: productId ?? null,
+        saleAmount,
+        memberShare,
+        creatorShare,
+        platformShare,
+        currency,
+        fxRate,
+        reportingSaleAmount: fromCents(reporting.sale),
+        reportingMemberShare: fromCents(reporting.memberShare),
+        reportingCreatorShare: fromCents(reporting.creatorShare),
+        reportingPlatformShare: fromCents(reporting.platformShare),
+        paymentType,
+        status,
+        clearsAt,
+        createdAt,
+        memberId: referrer.id,
+        creatorId,
+        productType,
+        billingPeriod,
+        monthlyValue,
+        appliedMemberRate,
+        appliedPlatformRate: platformShare / saleAmount,
+        appliedTier,
+        campaignId: campaign?.id ?? null,
+        appliedBoostRate: boostRate,
+        appliedCampaignName: campaign?.name ?? null,
+        productRuleId: productPolicy.rule?.id ?? null,
+      },
+    });
+
+    await postCommissionEarned(tx, created);
+    await recordFraudCase(tx, fraudCheck, created);
+
+    // First paid commission on the membership converts the link click behind it
+    // and counts as a new referral (earnings and revenue are the ledger posting above)
+    if (paymentType === 'initial') {
+      await markClickConverted(tx, {
+        membershipId,
+        commissionId: created.id,
+        saleAmount: created.reportingSaleAmount ?? created.saleAmount,
+      });
+      await tx.member.update({
+        where: { id: referrer.id },
+        data: {
+          totalReferred: { increment: 1 },
+          monthlyReferred: { increment: 1 },
+        },
+      });
+      await tx.creator.update({
+        where: { id: creatorId },
+        data: {
+          totalReferrals: { increment: 1 },
+        },
+      });
+    }
+
+    return created;
+  });
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PAYOUT: cleared commissions are paid by the creator's next payout run
+  // (lib/utils/payout-runs.ts) - nothing is transferred from the webhook
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  if (status === 'cleared') {
+    logger.info(`Commission ${commission.id} cleared - paid out in the next payout run`);
+  } else if (status === 'held') {
+    logger.info(`Commission ${commission.id} is held for fraud review - skipping payouts`);
+  } else {
+    logger.info(`Commission ${commission.id} is clearing until ${clearsAt.toISOString()}`);
+  }
+  // Store the tier the member holds after this sale (upgrades apply right away)
+  const metricsAfterSale = await getMemberTierMetrics({
+    ...referrer,
+    totalReferred: (referrer.totalReferred || 0) + (paymentType === 'initial' ? 1 : 0),
+  }, tierSettings, ctx.db);
+  const tierAfterSale = getHeldTier(metricsAfterSale, ladder, qualification, referrer.commissionTier);
+  const isTierUpgrade = ladder.indexOf(tierAfterSale) > ladder.indexOf(heldTier);
+
+  if (tierAfterSale.tierName !== referrer.commissionTier) {
+    await runInTransaction(ctx, (tx) => recordTierChange(tx, {
+      member: referrer,
+      ladder,
+      newTier: tierAfterSale,
+      triggerType: 'referral',
+      referralCount: metricsAfterSale.referrals,
+    }));
+  }
+
+  // Log with tier info
+  const tierEmoji = appliedTier === 'elite' ? '👑' : appliedTier === 'ambassador' ? '🌟' : '⭐';
+  logger.info(`${tierEmoji} Commission processed: ${formatCurrency(memberShare, currency)} (${(appliedMemberRate * 100).toFixed(0)}% ${appliedTier}${campaign ? ` + ${campaign.name}` : ''}) -> ${referrer.referralCode} (${paymentType})`);
+
+  // Dry-runs stop here: everything below talks to Whop or writes outside ctx.db
+  if (ctx.dryRun) return;
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // NEW: PUSH NOTIFICATIONS & DMs FOR KEY EVENTS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  // companyId already fetched above with the creator
+
+  if (companyId && referrer.userId) {
+    // 1. Commission earned notification (Push + DM)
+    const formattedAmount = formatCurrency(memberShare, currency);
+    notifyCommissionEarned(companyId, referrer.userId, formattedAmount, 'a new member').catch(err =>
+      logger.error('Failed to send commission notification:', err)
+    );
+    // Also send DM for commission earned (more personal)
+    sendCommissionEarnedDM(referrer.userId, referrer.username, formattedAmount, 'a new member').catch(err =>
+      logger.error('Failed to send commission DM:', err)
+    );
+
+    // 2. First referral notification (Push + DM)
+    if (isFirstReferral) {
+      logger.info(`🎉 FIRST REFERRAL SUCCESS for ${referrer.referralCode}!`);
+      notifyFirstReferral(companyId, referrer.userId, referrer.username).catch(err =>
+        logger.error('Failed to send first referral notification:', err)
+      );
+      // Also send DM for first referral bonus
+      sendFirstReferralBonusDM(referrer.userId, referrer.username, formattedAmount).catch(err =>
+        logger.error('Failed to send first referral DM:', err)
+      );
+    }
+
+    // 3. Check for tier upgrade (Push + DM)
+    const newTotalReferrals = (referrer.totalReferred || 0) + (paymentType === 'initial' ? 1 : 0);
+
+    if (isTierUpgrade) {
+      // Tier upgrade detected!
+      const newRate = formatRateAsPercent(tierAfterSale.memberRate);
+      logger.info(`🎊 TIER UPGRADE: ${referrer.referralCode} upgraded to ${tierAfterSale.displayName}!`);
+      notifyTierUpgrade(companyId, referrer.userId, tierAfterSale.displayName, newRate).catch(err =>
+        logger.error('Failed to send tier upgrade notification:', err)
+      );
+      // Also send DM for tier upgrade
+      sendTierUpgradeDM(referrer.userId, referrer.username, tierAfterSale.displayName, newRate, newTotalReferrals).catch(err =>
+        logger.error('Failed to send tier upgrade DM:', err)
+      );
+    }
+
+    // 4. Milestone notifications (Push + DM) - 10, 25, 50, 100, 250, 500, 1000 referrals
+    const milestones = [10, 25, 50, 100, 250, 500, 1000];
+    const nextMilestones: Record<number, number | undefined> = {
+      10: 25, 25: 50, 50: 100, 100: 250, 250: 500, 500: 1000, 1000: undefined
+    };
+    for (const milestone of milestones) {
+      if (newTotalReferrals === milestone) {
+        logger.info(`🏆 MILESTONE REACHED: ${referrer.referralCode} hit ${milestone} referrals!`);
+        // Push notification
+        notifyMilestone(companyId, referrer.userId, milestone).catch(err =>
+          logger.error(`Failed to send ${milestone} milestone notification:`, err)
+        );
+        // DM with more detail
+        sendMilestoneDM(
+          referrer.userId,
+          referrer.username,
+          milestone,
+          undefined, // reward - could fetch from creator settings
+          nextMilestones[milestone]
+        ).catch(err =>
+          logger.error(`Failed to send ${milestone} milestone DM:`, err)
+        );
+        break;
+      }
+    }
+  } else {
+    if (isFirstReferral) {
+      logger.info(`🎉 FIRST REFERRAL SUCCESS for ${referrer.referralCode}!`);
+    }
+  }
+
+  // Update rankings (non-blocking)
+  updateMemberRankings(referrer.id).catch(err =>
+    logger.error('Failed to update rankings:', err)
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Payment Refunded
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handlePaymentRefunded(data: WhopRefundData, ctx: WebhookHandlerContext): Promise<WebhookHandlerResult> {
+  logger.info('Processing refund...');
+
+  const { id: refundId, payment_id: paymentId, amount, reason } = data;
+
+  const originalCommission = await ctx.db.commission.findUnique({
+    where: { whopPaymentId: paymentId },
+    include: {
+      member: true,
+      creator: true,
+      refunds: true,
+    },
+  });
+
+  if (!originalCommission) {
+    // Whop can deliver the refund before the payment - retry until the payment is processed
+    const paymentEvent = await ctx.db.webhookEvent.findFirst({
+      where: {
+        eventType: { in: PAYMENT_SUCCEEDED_EVENTS },
+        payload: { path: ['data', 'id'], equals: paymentId },
+      },
+      select: { status: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!paymentEvent || !['completed', 'dead'].includes(paymentEvent.status)) {
+      logger.warn(`Refund ${refundId} arrived before payment ${paymentId} was processed - retrying`);
+      throw new RetryableError(`Payment ${paymentId} not processed yet`);
+    }
+
+    if (paymentEvent.status === 'completed') {
+      logger.debug(`Payment ${paymentId} earned no commission - nothing to reverse for refund ${refundId}`);
+      return { ok: true, skipped: true, reason: 'Payment earned no commission' };
+    }
+
+    logger.error(`Cannot refund - no commission found for payment ${paymentId}`);
+    return { ok: false, error: 'Commission not found' };
+  }
+
+  // Check if already refunded
+  const existingRefund = await ctx.db.refund.findUnique({
+    where: { whopRefundId: refundId },
+  });
+
+  if (existingRefund) {
+    logger.debug('Refund already processed');
+    return { ok: true, message: 'Already refunded' };
+  }
+
+  // A rejected commission was already fully reversed in fraud review
+  if (originalCommission.status === 'rejected') {
+    logger.info(`Commission ${originalCommission.id} was rejected in fraud review - nothing to reverse for refund ${refundId}`);
+    return { ok: true, message: 'Commission already reversed' };
+  }
+
+  // Calculate reversed amounts in cents, pro-rated against the original split
+  // together with any earlier partial refunds so no fractional cents are left behind
+  const original = {
+    sale: toCents(originalCommission.saleAmount),
+    memberShare: toCents(originalCommission.memberShare),
+    creatorShare: toCents(originalCommission.creatorShare),
+    platformShare: toCents(originalCommission.platformShare),
+  };
+  const previous = originalCommission.refunds;
+  const previouslyRefunded = sumCents(previous.map(r => toCents(r.refundAmount)));
+  const reversal = splitRefund(original, Math.round(amount), {
+    refund: previouslyRefunded,
+    memberShare: sumCents(previous.map(r => toCents(r.memberShareReversed))),
+    creatorShare: sumCents(previous.map(r => toCents(r.creatorShareReversed))),
+    platformShare: sumCents(previous.map(r => toCents(r.platformShareReversed))),
+  });
+
+  const refundAmount = fromCents(reversal.refund);
+  const memberShareReversed = fromCents(reversal.memberShare);
+  const creatorShareReversed = fromCents(reversal.creatorShare);
+  const platformShareReversed = fromCents(reversal.platformShare);
+  const isFullRefund = previouslyRefunded + reversal.refund >= original.sale;
+
+  // Refunds are in the sale currency and convert at the commission's rate,
+  // so the ledger reverses exactly what the sale posted
+  if (data.currency && normalizeCurrency(data.currency) !== originalCommission.currency) {
+    logger.warn(`Refund ${refundId} is in ${data.currency}, commission is in ${originalCommission.currency}`);
+  }
+  const convertedOriginal = {
+    sale: toCents(originalCommission.reportingSaleAmount ?? originalCommission.saleAmount),
+    memberShare: toCents(originalCommission.reportingMemberShare ?? originalCommission.memberShare),
+    creatorShare: toCents(originalCommission.reportingCreatorShare ?? originalCommission.creatorShare),
+    platformShare: toCents(originalCommission.reportingPlatformShare ?? originalCommission.platformShare),
+  };
+  const reportingReversal = convertRefund(original, convertedOriginal, reversal.refund, previouslyRefunded, {
+    refund: sumCents(previous.map(r => toCents(r.reportingRefundAmount ?? r.refundAmount))),
+    memberShare: sumCents(previous.map(r => toCents(r.reportingMemberShareReversed ?? r.memberShareReversed))),
+    creatorShare: sumCents(previous.map(r => toCents(r.reportingCreatorShareReversed ?? r.creatorShareReversed))),
+    platformShare: sumCents(previous.map(r => toCents(r.reportingPlatformShareReversed ?? r.platformShareReversed))),
+  });
+
+  // Execute refund
+  await runInTransaction(ctx, async (tx) => {
+    const refund = await tx.refund.create({
+      data: {
+        commissionId: originalCommission.id,
+        whopRefundId: refundId,
+        whopPaymentId: paymentId,
+        refundAmount,
+        memberShareReversed,
+        creatorShareReversed,
+        platformShareReversed,
+        currency: originalCommission.currency,
+        fxRate: originalCommission.fxRate,
+        reportingRefundAmount: fromCents(reportingReversal.refund),
+        reportingMemberShareReversed: fromCents(reportingReversal.memberShare),
+        reportingCreatorShareReversed: fromCents(reportingReversal.creatorShare),
+        reportingPlatformShareReversed: fromCents(reportingReversal.platformShare),
+        reason: reason || 'refund_requested',
+        status: 'processed',
+        refundedAt: new Date(),
+        processedAt: new Date(),
+      },
+    });
+
+    // Reverses member earnings and creator revenue
+    await postRefundReversal(tx, refund, originalCommission);
+
+    await tx.commission.update({
+      where: { id: originalCommission.id },
+      data: {
+        // Refunded before payout: nothing to claw back, the commission is void
+        status: getRefundedCommissionStatus(originalCommission.status, isFullRefund),
+      },
+    });
+  });
+
+  logger.info('Refund processed successfully');
+
+  // Refunded after the transfer went out: the member keeps it, so the reversed
+  // share is carried forward as a negative balance and recovered from their next payouts
+  if (originalCommission.paidAt && memberShareReversed > 0) {
+    logger.warn(`Clawback: ${formatCurrency(memberShareReversed, originalCommission.currency)} of paid commission ${originalCommission.id} carried forward against ${originalCommission.member.username}'s next payouts`);
+  }
+
+  if (!ctx.dryRun) {
+    updateMemberRankings(originalCommission.memberId).catch(err =>
+      logger.error('Failed to update rankings after refund:', err)
+    );
+  }
+
+  return { ok: true, refundAmount, memberShareReversed, creatorShareReversed };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Membership Created
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handleMembershipCreated(data: any, ctx: WebhookHandlerContext) {
+  logger.info('Membership created (event logged)');
+  // This is typically followed by membership.went_valid or payment.succeeded
+  return { ok: true, message: 'Event logged' };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Membership Deleted
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handleMembershipDeleted(data: any, ctx: WebhookHandlerContext) {
+  logger.info('Member cancelled...');
+
+  const member = await ctx.db.member.findUnique({
+    where: { membershipId: data.membership_id },
+  });
+
+  if (!member) return { ok: false, error: 'Member not found' };
+
+  await ctx.db.memberLifecycle.upsert({
+    where: { memberId: member.id },
+    create: {
+      memberId: member.id,
+      cancelledAt: new Date(),
+      currentStatus: 'cancelled',
+    },
+    update: {
+      cancelledAt: new Date(),
+      currentStatus: 'cancelled',
+    },
+  });
+
+  logger.info(`Marked member ${member.username} as cancelled`);
+
+  return { ok: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Payment Failed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handlePaymentFailed(data: any, ctx: WebhookHandlerContext) {
+  logger.error('Payment failed...');
+
+  const member = await ctx.db.member.findUnique({
+    where: { membershipId: data.membership_id },
+  });
+
+  if (!member) return { ok: false, error: 'Member not found' };
+
+  // Idempotency check (re-delivered or replayed event)
+  const existingFailure = await ctx.db.paymentFailure.findFirst({
+    where: { memberId: member.id, whopPaymentId: data.id, attemptNumber: data.attempt_number || 1 },
+  });
+
+  if (existingFailure) {
+    return { ok: true, message: 'Payment failure already recorded' };
+  }
+
+  await ctx.db.paymentFailure.create({
+    data: {
+      memberId: member.id,
+      whopPaymentId: data.id,
+      failureReason: data.failure_reason || 'unknown',
+      attemptNumber: data.attempt_number || 1,
+      expectedAmount: fromCents(data.amount),
+      failedAt: new Date(),
+    },
+  });
+
+  logger.warn(`Payment failure recorded for ${member.username}`);
+
+  return { ok: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Trial Started
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handleTrialStarted(data: any, ctx: WebhookHandlerContext) {
+  logger.info('Trial started...');
+
+  const member = await ctx.db.member.findUnique({
+    where: { membershipId: data.membership_id },
+  });
+
+  if (!member) return { ok: false, error: 'Member not found' };
+
+  await ctx.db.memberLifecycle.upsert({
+    where: { memberId: member.id },
+    create: {
+      memberId: member.id,
+      trialStartedAt: new Date(),
+      currentStatus: 'trial',
+    },
+    update: {
+      trialStartedAt: new Date(),
+      currentStatus: 'trial',
+    },
+  });
+
+  return { ok: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Trial Ended
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handleTrialEnded(data: any, ctx: WebhookHandlerContext) {
+  logger.debug('Trial ended...');
+
+  const member = await ctx.db.member.findUnique({
+    where: { membershipId: data.membership_id },
+  });
+
+  if (!member) return { ok: false, error: 'Member not found' };
+
+  await ctx.db.memberLifecycle.update({
+    where: { memberId: member.id },
+    data: { trialEndedAt: new Date() },
+  });
+
+  return { ok: true };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HANDLER: Subscription Cancelled
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+async function handleSubscriptionCancelled(data: any, ctx: WebhookHandlerContext) {
+  logger.info('Subscription cancelled...');
+  return handleMembershipDeleted(data, ctx);
+}
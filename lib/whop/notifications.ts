@@ -143,6 +143,45 @@ export async function notifyTierUpgrade(
   });
 }
 
+/**
+ * Tier downgrade warning notification
+ * Sent when a member stops qualifying for their tier, before the grace period ends
+ */
+export async function notifyTierDowngradeWarning(
+  companyId: string,
+  userId: string,
+  currentTier: string,
+  newTier: string,
+  daysLeft: number
+): Promise<PushNotificationResult> {
+  return sendPushNotification({
+    companyId,
+    title: `⚠️ Keep your ${currentTier} status`,
+    content: `You no longer meet the ${currentTier} requirements. Requalify within ${daysLeft} day${daysLeft === 1 ? '' : 's'} or you'll move to ${newTier}.`,
+    userIds: [userId],
+    deepLink: '/dashboard',
+  });
+}
+
+/**
+ * Tier downgrade notification
+ * Sent when a downgrade applies after the grace period
+ */
+export async function notifyTierDowngrade(
+  companyId: string,
+  userId: string,
+  newTier: string,
+  newRate: string
+): Promise<PushNotificationResult> {
+  return sendPushNotification({
+    companyId,
+    title: `Your tier is now ${newTier}`,
+    content: `Your commission rate is now ${newRate}. Bring in new referrals to climb back up!`,
+    userIds: [userId],
+    deepLink: '/dashboard',
+  });
+}
+
 /**
  * First referral notification
  */
@@ -401,6 +440,24 @@ export async function notifyPaymentProcessed(
   });
 }
 
+/**
+ * Payout action needed notification
+ * Sent when a payout can't be transferred until the member enables payouts on Whop
+ */
+export async function notifyPayoutActionNeeded(
+  companyId: string,
+  userId: string,
+  amount: string
+): Promise<PushNotificationResult> {
+  return sendPushNotification({
+    companyId,
+    title: '⚠️ Action Needed to Get Paid',
+    content: `Your ${amount} payout is waiting. Enable payouts on your Whop account and we'll send it automatically.`,
+    userIds: [userId],
+    deepLink: '/dashboard',
+  });
+}
+
 /**
  * Top performer of the period notification
  * Sent to highlight top performers weekly/monthly
@@ -438,6 +495,7 @@ export default {
   notifyStreakAchievement,
   notifyInactiveReengagement,
   notifyPaymentProcessed,
+  notifyPayoutActionNeeded,
   notifyTopPerformer,
   notifyNeverReferred,
 };
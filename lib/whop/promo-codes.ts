@@ -0,0 +1,79 @@
+// lib/whop/promo-codes.ts
+/**
+ * Whop Promo Codes API
+ *
+ * Registers members' personal promo codes on Whop so they can be redeemed at
+ * checkout. The discount matches the referee bonus (first month only, new
+ * customers only); attribution happens when payment.succeeded carries the code.
+ */
+
+import logger from '../logger';
+
+const WHOP_API_BASE = 'https://api.whop.com/api/v2';
+const WHOP_API_KEY = process.env.WHOP_API_KEY;
+
+export interface PromoCodeOptions {
+  code: string;
+  productId: string;
+  percentOff: number;       // 10 = 10%
+  metadata?: Record<string, string>;
+}
+
+export interface PromoCodeResult {
+  success: boolean;
+  promoCodeId?: string;
+  error?: string;
+}
+
+/**
+ * Create a percentage promo code for a product
+ */
+export async function createPromoCode(options: PromoCodeOptions): Promise<PromoCodeResult> {
+  if (!WHOP_API_KEY) {
+    logger.error('❌ WHOP_API_KEY not configured');
+    return { success: false, error: 'WHOP_API_KEY not configured' };
+  }
+
+  const { code, productId, percentOff, metadata } = options;
+
+  try {
+    logger.info(`🏷️ Creating promo code ${code} for product ${productId} (${percentOff}% off)`);
+
+    const response = await fetch(`${WHOP_API_BASE}/promo_codes`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${WHOP_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        code,
+        promo_type: 'percentage',
+        amount_off: percentOff,
+        product_id: productId,
+        number_of_intervals: 1,
+        new_users_only: true,
+        metadata: {
+          ...metadata,
+          source: 'referral_flywheel',
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(`❌ Promo code creation failed (${response.status}): ${errorText}`);
+      return { success: false, error: `API error: ${response.status} ${errorText}` };
+    }
+
+    const result = await response.json();
+    const promoCodeId = result.id || result.data?.id;
+
+    logger.info(`✅ Promo code created: ${promoCodeId}`);
+
+    return { success: true, promoCodeId };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`❌ Promo code error:`, error);
+    return { success: false, error: errorMsg };
+  }
+}
@@ -9,6 +9,7 @@
  */
 
 import logger from '../logger';
+import { CURRENCY_SETTINGS } from '../constants/metrics';
 
 const WHOP_API_BASE = 'https://api.whop.com/api/v2';
 const WHOP_API_KEY = process.env.WHOP_API_KEY;
@@ -181,30 +182,35 @@ export async function createTransfer(options: TransferOptions): Promise<Transfer
  * Uses the commission ID as part of the idempotence key to prevent duplicates.
  *
  * @param commissionId - Our internal commission record ID
- * @param amount - Commission amount in dollars
+ * @param amount - Commission amount in the sale currency
  * @param recipientUserId - Whop user ID of the referrer (user_xxx)
  * @param companyId - Whop company ID that pays (biz_xxx)
+ * @param currency - Currency the sale was paid in (commissions are paid in kind)
+ * @param options - Idempotence key and notes for transfers that cover several
+ *                  commissions (payout runs); defaults to the single commission
  * @returns Transfer result
  */
 export async function payCommission(
   commissionId: string,
   amount: number,
   recipientUserId: string,
-  companyId: string
+  companyId: string,
+  currency: string = CURRENCY_SETTINGS.REPORTING_CURRENCY,
+  options: { idempotenceKey?: string; notes?: string } = {}
 ): Promise<TransferResult> {
   // Generate idempotence key based on commission ID
   // This ensures we never pay the same commission twice
-  const idempotenceKey = `commission_${commissionId}`;
+  const idempotenceKey = options.idempotenceKey ?? `commission_${commissionId}`;
 
-  logger.info(`Processing commission payout: ${commissionId} ($${amount.toFixed(2)})`);
+  logger.info(`Processing commission payout: ${commissionId} (${amount.toFixed(2)} ${currency.toUpperCase()})`);
 
   const result = await createTransfer({
     amount,
-    currency: 'usd',
+    currency,
     originId: companyId,
     destinationId: recipientUserId,
     idempotenceKey,
-    notes: `Commission payout for referral (Commission ID: ${commissionId})`,
+    notes: options.notes ?? `Commission payout for referral (Commission ID: ${commissionId})`,
   });
 
   if (result.success) {
@@ -298,6 +304,9 @@ export async function checkPayoutEligibility(userId: string): Promise<PayoutElig
  * Processes multiple commission payouts sequentially with error handling.
  * Continues processing even if some payouts fail.
  *
+ * Payout runs send one entry per member payout: commissionId is then the
+ * payout ID (results are reported under it) with its own idempotence key.
+ *
  * @param commissions - Array of commission payout requests
  * @returns Results for each payout attempt
  */
@@ -307,6 +316,9 @@ export async function batchPayCommissions(
     amount: number;
     recipientUserId: string;
     companyId: string;
+    currency?: string;
+    idempotenceKey?: string;
+    notes?: string;
   }>
 ): Promise<Array<{ commissionId: string; result: TransferResult }>> {
   const results: Array<{ commissionId: string; result: TransferResult }> = [];
@@ -323,7 +335,9 @@ export async function batchPayCommissions(
       commission.commissionId,
       commission.amount,
       commission.recipientUserId,
-      commission.companyId
+      commission.companyId,
+      commission.currency,
+      { idempotenceKey: commission.idempotenceKey, notes: commission.notes }
     );
 
     results.push({
@@ -0,0 +1,115 @@
+/**
+ * Backfill Commission Ledger
+ *
+ * Posts ledger entries for Commission, Refund and FirstReferralBonus records
+ * that predate the ledger, keeping each source record's timestamp.
+ * Postings are idempotent, so this is safe to re-run.
+ *
+ * Usage: npx tsx scripts/backfill-ledger.ts [--fix-cache]
+ *   --fix-cache  Overwrite drifted earnings/revenue counters with ledger balances
+ */
+
+import { prisma } from '../lib/db/prisma';
+import logger from '../lib/logger';
+import {
+  postLedgerTransaction,
+  buildCommissionEarnedPosting,
+  buildCommissionPayoutPosting,
+  buildRefundReversalPosting,
+  buildBonusPosting,
+  buildBonusRevocationPosting,
+  buildBonusPayoutPosting,
+  reconcileLedgerCaches,
+} from '../lib/ledger/commission-ledger';
+
+const BATCH_SIZE = 200;
+
+async function backfillLedger() {
+  const fixCache = process.argv.includes('--fix-cache');
+  let posted = 0;
+
+  logger.info(' Starting commission ledger backfill...');
+
+  try {
+    // Commissions (earned + paid out)
+    let cursor: string | undefined;
+    for (;;) {
+      const commissions = await prisma.commission.findMany({
+        take: BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        orderBy: { id: 'asc' },
+        include: { refunds: true },
+      });
+      if (commissions.length === 0) break;
+
+      for (const commission of commissions) {
+        await prisma.$transaction(async (tx) => {
+          const options = { updateCache: false };
+
+          if (await postLedgerTransaction(tx, buildCommissionEarnedPosting(commission), options)) posted++;
+
+          if (commission.status === 'paid' && commission.paidAt) {
+            if (await postLedgerTransaction(tx, buildCommissionPayoutPosting(commission), options)) posted++;
+          }
+
+          for (const refund of commission.refunds) {
+            if (await postLedgerTransaction(tx, buildRefundReversalPosting(refund, commission), options)) posted++;
+          }
+        });
+      }
+
+      cursor = commissions[commissions.length - 1].id;
+      logger.debug(`   Processed commissions up to ${cursor} (${posted} postings so far)`);
+    }
+
+    // First referral bonuses
+    const bonuses = await prisma.firstReferralBonus.findMany({
+      include: { member: { select: { creatorId: true } } },
+    });
+
+    for (const bonus of bonuses) {
+      await prisma.$transaction(async (tx) => {
+        const options = { updateCache: false };
+        const creatorId = bonus.member.creatorId;
+
+        if (await postLedgerTransaction(tx, buildBonusPosting(bonus, creatorId), options)) posted++;
+
+        if (bonus.status === 'revoked') {
+          const revocation = { ...buildBonusRevocationPosting(bonus, creatorId), createdAt: bonus.revokedAt ?? undefined };
+          if (await postLedgerTransaction(tx, revocation, options)) posted++;
+        }
+
+        if (bonus.status === 'paid') {
+          const payout = { ...buildBonusPayoutPosting(bonus, creatorId), createdAt: bonus.paidAt ?? undefined };
+          if (await postLedgerTransaction(tx, payout, options)) posted++;
+        }
+      });
+    }
+
+    logger.info(`✅ Posted ${posted} ledger transactions`);
+
+    // Compare cached counters with the ledger
+    const { discrepancies } = await reconcileLedgerCaches({ fix: fixCache });
+    logger.info(` ${discrepancies.length} cached balances differ from the ledger${fixCache ? ' (fixed)' : ''}`);
+
+    if (discrepancies.length > 0 && !fixCache) {
+      logger.info(' Re-run with --fix-cache to overwrite them with ledger balances');
+    }
+  } catch (error) {
+    logger.error('❌ Error backfilling ledger:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the backfill
+backfillLedger()
+  .then(() => {
+    logger.info(' Backfill complete!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    logger.error('💥 Backfill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,54 @@
+/**
+ * Backfill Referrer IDs
+ *
+ * Referee relations used to be keyed on Member.referredBy (the referrer's
+ * code), which broke whenever a referrer changed their code. They are now
+ * keyed on Member.referrerId. This sets referrerId from referredBy for rows
+ * created before the switch. Only fills NULLs, so this is safe to re-run.
+ *
+ * Run right after `prisma db push` adds the column.
+ *
+ * Usage: npx tsx scripts/backfill-referrer-ids.ts
+ */
+
+import { prisma } from '../lib/db/prisma';
+import logger from '../lib/logger';
+
+async function backfillReferrerIds() {
+  logger.info(' Backfilling referrer IDs...');
+
+  try {
+    const linked = await prisma.$executeRaw`
+      UPDATE "Member" AS referee
+      SET "referrerId" = referrer."id"
+      FROM "Member" AS referrer
+      WHERE referee."referrerId" IS NULL
+        AND referee."referredBy" = referrer."referralCode"
+    `;
+
+    logger.info(`✅ Linked ${linked} referred members to their referrer`);
+
+    const orphaned = await prisma.member.count({
+      where: { referrerId: null, referredBy: { not: null } },
+    });
+    if (orphaned > 0) {
+      logger.warn(`⚠️ ${orphaned} members have a referredBy code no member holds - reassign them manually`);
+    }
+  } catch (error) {
+    logger.error('❌ Error backfilling referrer IDs:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the backfill
+backfillReferrerIds()
+  .then(() => {
+    logger.info(' Backfill complete!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    logger.error('💥 Backfill failed:', error);
+    process.exit(1);
+  });
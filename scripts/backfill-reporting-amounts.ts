@@ -0,0 +1,75 @@
+/**
+ * Backfill Reporting-Currency Amounts
+ *
+ * Commissions, refunds and invoices created before multi-currency support
+ * were all in USD (the reporting currency), so their reporting amounts are
+ * the original amounts at a rate of 1. Rows in any other currency are left
+ * alone and reported. Only fills NULLs, so this is safe to re-run.
+ *
+ * Run before relying on reporting totals (leaderboards, creator dashboards).
+ *
+ * Usage: npx tsx scripts/backfill-reporting-amounts.ts
+ */
+
+import { prisma } from '../lib/db/prisma';
+import logger from '../lib/logger';
+import { CURRENCY_SETTINGS } from '../lib/constants/metrics';
+
+async function backfillReportingAmounts() {
+  const reportingCurrency = CURRENCY_SETTINGS.REPORTING_CURRENCY;
+
+  logger.info(` Backfilling ${reportingCurrency} reporting amounts...`);
+
+  try {
+    const commissions = await prisma.$executeRaw`
+      UPDATE "Commission"
+      SET "reportingSaleAmount" = "saleAmount",
+          "reportingMemberShare" = "memberShare",
+          "reportingCreatorShare" = "creatorShare",
+          "reportingPlatformShare" = "platformShare",
+          "fxRate" = 1
+      WHERE "reportingSaleAmount" IS NULL AND "currency" = ${reportingCurrency}
+    `;
+
+    const refunds = await prisma.$executeRaw`
+      UPDATE "Refund"
+      SET "reportingRefundAmount" = "refundAmount",
+          "reportingMemberShareReversed" = "memberShareReversed",
+          "reportingCreatorShareReversed" = "creatorShareReversed",
+          "reportingPlatformShareReversed" = "platformShareReversed",
+          "fxRate" = 1
+      WHERE "reportingRefundAmount" IS NULL AND "currency" = ${reportingCurrency}
+    `;
+
+    const invoices = await prisma.$executeRaw`
+      UPDATE "Invoice"
+      SET "reportingTotalAmount" = "totalAmount", "fxRate" = 1
+      WHERE "reportingTotalAmount" IS NULL AND "currency" = ${reportingCurrency}
+    `;
+
+    logger.info(`✅ Backfilled ${commissions} commissions, ${refunds} refunds, ${invoices} invoices`);
+
+    const unconverted = await prisma.commission.count({
+      where: { reportingSaleAmount: null },
+    });
+    if (unconverted > 0) {
+      logger.warn(`⚠️ ${unconverted} non-${reportingCurrency} commissions have no reporting amounts - convert them manually`);
+    }
+  } catch (error) {
+    logger.error('❌ Error backfilling reporting amounts:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the backfill
+backfillReportingAmounts()
+  .then(() => {
+    logger.info(' Backfill complete!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    logger.error('💥 Backfill failed:', error);
+    process.exit(1);
+  });
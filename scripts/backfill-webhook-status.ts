@@ -0,0 +1,75 @@
+/**
+ * Backfill Webhook Event Status
+ *
+ * The async queue (lib/queue/webhook-queue.ts) claims WebhookEvent rows by
+ * status, and `prisma db push` gives every existing row status "pending" due
+ * now - the first cron run would re-run the whole event history. This settles
+ * the rows received before the queue:
+ * - processed = true  -> completed
+ * - processed = false -> dead (failed under inline processing; re-drive them
+ *   from the admin webhook monitor if they still matter)
+ *
+ * Only touches rows created before --before (default: now), so re-running it
+ * after the deploy doesn't cancel anything the queue has picked up since.
+ *
+ * Run right after `prisma db push` adds the columns, before the
+ * process-webhooks cron first runs.
+ *
+ * Usage: npx tsx scripts/backfill-webhook-status.ts [--before 2026-10-18T12:00:00Z]
+ */
+
+import { prisma } from '../lib/db/prisma';
+import logger from '../lib/logger';
+import { WebhookJobStatus } from '../lib/queue/webhook-queue';
+
+function parseBefore(): Date {
+  const index = process.argv.indexOf('--before');
+  if (index === -1) return new Date();
+
+  const before = new Date(process.argv[index + 1]);
+  if (isNaN(before.getTime())) {
+    throw new Error(`Invalid --before timestamp: ${process.argv[index + 1]}`);
+  }
+  return before;
+}
+
+async function backfillWebhookStatus() {
+  const before = parseBefore();
+  logger.info(` Backfilling webhook event status for events received before ${before.toISOString()}...`);
+
+  try {
+    const queued = { createdAt: { lt: before }, status: { in: [WebhookJobStatus.PENDING, WebhookJobStatus.RETRYING] } };
+
+    const completed = await prisma.webhookEvent.updateMany({
+      where: { ...queued, processed: true },
+      data: { status: WebhookJobStatus.COMPLETED, lockedAt: null },
+    });
+    logger.info(`✅ Marked ${completed.count} processed events completed`);
+
+    const dead = await prisma.webhookEvent.updateMany({
+      where: { ...queued, processed: false },
+      data: { status: WebhookJobStatus.DEAD, lockedAt: null },
+    });
+    logger.info(`✅ Marked ${dead.count} unprocessed events dead`);
+
+    if (dead.count > 0) {
+      logger.warn(`⚠️ ${dead.count} events never completed - review them in the admin webhook monitor before replaying`);
+    }
+  } catch (error) {
+    logger.error('❌ Error backfilling webhook event status:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the backfill
+backfillWebhookStatus()
+  .then(() => {
+    logger.info(' Backfill complete!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    logger.error('💥 Backfill failed:', error);
+    process.exit(1);
+  });
@@ -7,6 +7,9 @@
  *   npx tsx scripts/export-invoices.ts              # Export all invoices
  *   npx tsx scripts/export-invoices.ts 2025-11      # Export specific month
  *   npx tsx scripts/export-invoices.ts pending      # Export only pending
+ *
+ * To check invoices against platform transfers and refunds, export the fee
+ * reconciliation statement from /admin/reconciliation instead.
  */
 
 import { prisma } from '../lib/db/prisma';
@@ -0,0 +1,55 @@
+// tests/unit/attribution-policy.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { parseAttributionPolicy, pickAttributionWinner } from '@/lib/utils/attribution-policy';
+import { getNetMemberShare } from '@/lib/utils/referral-reassignment';
+
+describe('Attribution Policy', () => {
+  // Touch order: legacy referral code first, then the Whop affiliate link
+  const legacy = { memberId: 'mem_a', source: 'referral_code' as const };
+  const whop = { memberId: 'mem_b', source: 'whop_affiliate' as const };
+  const promo = { memberId: 'mem_c', source: 'promo_code' as const };
+
+  describe('pickAttributionWinner', () => {
+    it('should credit the first or last touch', () => {
+      expect(pickAttributionWinner('first_touch', [legacy, whop]).winner).toBe(legacy);
+      expect(pickAttributionWinner('last_touch', [legacy, whop]).winner).toBe(whop);
+    });
+
+    it('should credit the Whop affiliate under whop_wins, else the first touch', () => {
+      expect(pickAttributionWinner('whop_wins', [legacy, whop]).winner).toBe(whop);
+      expect(pickAttributionWinner('whop_wins', [legacy, promo]).winner).toBe(legacy);
+    });
+
+    it('should flag manual review while provisionally crediting the Whop affiliate', () => {
+      const decision = pickAttributionWinner('manual_review', [legacy, whop]);
+
+      expect(decision.winner).toBe(whop);
+      expect(decision.needsReview).toBe(true);
+      expect(pickAttributionWinner('manual_review', [whop]).needsReview).toBe(false);
+    });
+
+    it('should return no winner without candidates', () => {
+      expect(pickAttributionWinner('first_touch', [])).toEqual({ winner: null, needsReview: false });
+    });
+  });
+
+  describe('parseAttributionPolicy', () => {
+    it('should fall back to whop_wins for unknown values', () => {
+      expect(parseAttributionPolicy('last_touch')).toBe('last_touch');
+      expect(parseAttributionPolicy('random')).toBe('whop_wins');
+      expect(parseAttributionPolicy(null)).toBe('whop_wins');
+    });
+  });
+
+  describe('getNetMemberShare', () => {
+    it('should subtract refunded member share, preferring reporting amounts', () => {
+      expect(getNetMemberShare({
+        memberShare: 5,
+        reportingMemberShare: 4.6,
+        refunds: [{ memberShareReversed: 2.5, reportingMemberShareReversed: 2.3 }],
+      })).toBe(2.3);
+
+      expect(getNetMemberShare({ memberShare: 5, reportingMemberShare: null, refunds: [] })).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+// tests/unit/click-tracking.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { classifyDevice, parseClickSource } from '@/lib/analytics/click-tracking';
+
+describe('Click Tracking', () => {
+  describe('classifyDevice', () => {
+    it('should classify common user agents', () => {
+      expect(classifyDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148')).toBe('mobile');
+      expect(classifyDevice('Mozilla/5.0 (Linux; Android 14; Pixel 8) Mobile Safari/537.36')).toBe('mobile');
+      expect(classifyDevice('Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X)')).toBe('tablet');
+      expect(classifyDevice('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0')).toBe('desktop');
+    });
+
+    it('should treat link previews and missing user agents as bots', () => {
+      expect(classifyDevice('facebookexternalhit/1.1')).toBe('bot');
+      expect(classifyDevice('Twitterbot/1.0')).toBe('bot');
+      expect(classifyDevice(null)).toBe('bot');
+    });
+  });
+
+  describe('parseClickSource', () => {
+    it('should prefer utm_source for the channel', () => {
+      const source = parseClickSource(
+        new URL('https://app.example.com/r/JOHN-ABC123?utm_source=YouTube&utm_campaign=launch'),
+        'https://www.tiktok.com/@john'
+      );
+
+      expect(source.channel).toBe('youtube');
+      expect(source.utmSource).toBe('YouTube');
+      expect(source.utmCampaign).toBe('launch');
+      expect(source.referer).toBe('https://www.tiktok.com/@john');
+    });
+
+    it('should fall back to the referring host, then direct', () => {
+      const url = new URL('https://app.example.com/r/JOHN-ABC123');
+
+      expect(parseClickSource(url, 'https://www.tiktok.com/@john').channel).toBe('tiktok.com');
+      expect(parseClickSource(url, 'not a url').channel).toBe('direct');
+      expect(parseClickSource(url, null).channel).toBe('direct');
+    });
+  });
+});
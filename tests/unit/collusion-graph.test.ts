@@ -0,0 +1,89 @@
+// tests/unit/collusion-graph.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  findCollusionClusters,
+  getClusterSignature,
+  isLostReferee,
+  COLLUSION_GRAPH,
+  type GraphMember,
+} from '@/lib/fraud/collusion-graph';
+
+const member = (id: string, overrides: Partial<GraphMember> = {}): GraphMember => ({
+  id,
+  username: id,
+  referrerId: null,
+  ipHashes: [],
+  fingerprints: [],
+  refereePayments: 1,
+  refunded: false,
+  churned: false,
+  ...overrides,
+});
+
+describe('Referral Graph Clustering', () => {
+  describe('findCollusionClusters', () => {
+    it('should flag a referral ring sharing a device whose referees cancel', () => {
+      const [cluster] = findCollusionClusters([
+        member('a', { fingerprints: ['fp1'] }),
+        member('b', { referrerId: 'a', fingerprints: ['fp1'], churned: true }),
+        member('c', { referrerId: 'b', fingerprints: ['fp1'], refunded: true }),
+      ]);
+
+      expect(cluster.memberIds.sort()).toEqual(['a', 'b', 'c']);
+      expect(cluster.flags.map(flag => flag.type)).toEqual(['device_cluster', 'referral_ring', 'refund_pattern']);
+      expect(cluster.riskScore).toBe(100);
+      expect(cluster.riskLevel).toBe('high');
+      expect(cluster.edges.filter(edge => edge.kind === 'referral')).toHaveLength(2);
+    });
+
+    it('should chain members through different shared signals', () => {
+      const clusters = findCollusionClusters([
+        member('a', { fingerprints: ['fp1'] }),
+        member('b', { fingerprints: ['fp1'], ipHashes: ['ip1'] }),
+        member('c', { ipHashes: ['ip1'] }),
+      ]);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].riskLevel).toBe('low');
+      expect(clusters[0].flags.map(flag => flag.type)).toEqual(['device_cluster']);
+    });
+
+    it('should not cluster a referral tree without shared devices', () => {
+      expect(findCollusionClusters([
+        member('a'),
+        member('b', { referrerId: 'a' }),
+        member('c', { referrerId: 'b' }),
+      ])).toEqual([]);
+    });
+
+    it('should leave pairs to the self-referral check', () => {
+      expect(findCollusionClusters([
+        member('a', { ipHashes: ['ip1'] }),
+        member('b', { referrerId: 'a', ipHashes: ['ip1'] }),
+      ])).toEqual([]);
+    });
+
+    it('should ignore signals shared by too many members', () => {
+      const crowd = Array.from({ length: COLLUSION_GRAPH.MAX_SIGNAL_SHARE + 1 }, (_, i) =>
+        member(`m${i}`, { ipHashes: ['carrier-nat'] })
+      );
+
+      expect(findCollusionClusters(crowd)).toEqual([]);
+    });
+  });
+
+  describe('getClusterSignature', () => {
+    it('should not depend on member order', () => {
+      expect(getClusterSignature(['a', 'b', 'c'])).toBe(getClusterSignature(['c', 'a', 'b']));
+      expect(getClusterSignature(['a', 'b'])).not.toBe(getClusterSignature(['a', 'b', 'c']));
+    });
+  });
+
+  describe('isLostReferee', () => {
+    it('should count refunds and cancellations after one payment', () => {
+      expect(isLostReferee({ refunded: true, churned: false, refereePayments: 5 })).toBe(true);
+      expect(isLostReferee({ refunded: false, churned: true, refereePayments: 1 })).toBe(true);
+      expect(isLostReferee({ refunded: false, churned: true, refereePayments: 6 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+// tests/unit/commission-campaigns.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyCampaignBoost,
+  campaignAppliesTo,
+  getBoostedMemberRate,
+  pickBestCampaign,
+  validateCampaign,
+  type CampaignRules,
+  type CampaignSale,
+} from '@/lib/utils/commission-campaigns';
+import { calculateTierSplit, COMMISSION_TIERS } from '@/lib/utils/tiered-commission';
+
+const starter = COMMISSION_TIERS[0];
+const elite = COMMISSION_TIERS[2];
+
+const baseCampaign: CampaignRules = {
+  boostType: 'multiplier',
+  boostValue: 2,
+  startsAt: new Date('2026-11-01T00:00:00Z'),
+  endsAt: new Date('2026-11-08T00:00:00Z'),
+  cancelledAt: null,
+  targetType: 'all',
+  targetTiers: [],
+  targetMemberIds: [],
+  productIds: [],
+  billingPeriods: [],
+};
+
+const sale: CampaignSale = {
+  memberId: 'member_1',
+  tierName: 'starter',
+  productId: 'prod_1',
+  billingPeriod: 'monthly',
+  at: new Date('2026-11-03T12:00:00Z'),
+};
+
+describe('Commission Campaigns', () => {
+  describe('campaignAppliesTo', () => {
+    it('should only apply while the campaign is running', () => {
+      expect(campaignAppliesTo(baseCampaign, sale)).toBe(true);
+      expect(campaignAppliesTo(baseCampaign, { ...sale, at: new Date('2026-11-08T00:00:00Z') })).toBe(false);
+      expect(campaignAppliesTo({ ...baseCampaign, cancelledAt: new Date('2026-11-02T00:00:00Z') }, sale)).toBe(false);
+    });
+
+    it('should respect tier and member targeting', () => {
+      expect(campaignAppliesTo({ ...baseCampaign, targetType: 'tier', targetTiers: ['elite'] }, sale)).toBe(false);
+      expect(campaignAppliesTo({ ...baseCampaign, targetType: 'tier', targetTiers: ['starter'] }, sale)).toBe(true);
+      expect(campaignAppliesTo({ ...baseCampaign, targetType: 'members', targetMemberIds: ['member_2'] }, sale)).toBe(false);
+    });
+
+    it('should respect product and billing filters', () => {
+      expect(campaignAppliesTo({ ...baseCampaign, productIds: ['prod_2'] }, sale)).toBe(false);
+      expect(campaignAppliesTo({ ...baseCampaign, billingPeriods: ['yearly'] }, sale)).toBe(false);
+      expect(campaignAppliesTo({ ...baseCampaign, productIds: ['prod_1'] }, { ...sale, productId: null })).toBe(false);
+    });
+  });
+
+  describe('boosts', () => {
+    it('should cap the boosted rate at the custom rate limit', () => {
+      expect(getBoostedMemberRate(baseCampaign, 0.10)).toBe(0.20);
+      expect(getBoostedMemberRate(baseCampaign, 0.18)).toBe(0.25);
+      expect(getBoostedMemberRate({ boostType: 'additive', boostValue: 0.05 }, 0.15)).toBe(0.20);
+    });
+
+    it('should fund the boost from the creator share', () => {
+      const { tier, boostRate } = applyCampaignBoost(elite, { boostType: 'additive', boostValue: 0.05 });
+      const split = calculateTierSplit(100, tier);
+
+      expect(boostRate).toBe(0.05);
+      expect(split.memberShare).toBe(23);
+      expect(split.creatorShare).toBe(65);
+      expect(split.platformShare).toBe(12);
+    });
+
+    it('should leave the tier untouched without a campaign', () => {
+      expect(applyCampaignBoost(starter, null)).toEqual({ tier: starter, boostRate: 0 });
+    });
+
+    it('should pick the campaign paying the member most', () => {
+      const additive = { ...baseCampaign, boostType: 'additive', boostValue: 0.12 };
+      const targeted = { ...baseCampaign, boostValue: 3, targetType: 'members', targetMemberIds: ['member_2'] };
+
+      expect(pickBestCampaign([baseCampaign, additive, targeted], sale, 0.10)).toBe(additive);
+      expect(pickBestCampaign([targeted], sale, 0.10)).toBeNull();
+    });
+  });
+
+  describe('validateCampaign', () => {
+    it('should accept a valid campaign', () => {
+      expect(validateCampaign(baseCampaign)).toEqual([]);
+    });
+
+    it('should reject out-of-range boosts and durations', () => {
+      expect(validateCampaign({ ...baseCampaign, boostValue: 5 })).toHaveLength(1);
+      expect(validateCampaign({ ...baseCampaign, boostType: 'additive', boostValue: 0.2 })).toHaveLength(1);
+      expect(validateCampaign({ ...baseCampaign, endsAt: baseCampaign.startsAt })).toHaveLength(1);
+      expect(validateCampaign({ ...baseCampaign, endsAt: new Date('2027-03-01T00:00:00Z') })).toHaveLength(1);
+    });
+
+    it('should require targets for targeted campaigns', () => {
+      expect(validateCampaign({ ...baseCampaign, targetType: 'members' })).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+// tests/unit/commission-clearing.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  getClearingDaysRemaining,
+  getClearingStatus,
+  getClearsAt,
+  getPayableMemberShare,
+  getRefundedCommissionStatus,
+  parseCommissionHoldDays,
+} from '@/lib/utils/commission-clearing';
+import { COMMISSION_CLEARING } from '@/lib/constants/commission';
+
+describe('Commission Clearing', () => {
+  const now = new Date('2026-03-31T12:00:00Z');
+
+  describe('parseCommissionHoldDays', () => {
+    it('should use the creator setting when valid', () => {
+      expect(parseCommissionHoldDays({ commissionHoldDays: 30 })).toBe(30);
+      expect(parseCommissionHoldDays({ commissionHoldDays: 0 })).toBe(0);
+    });
+
+    it('should fall back to the default for missing or out-of-range settings', () => {
+      expect(parseCommissionHoldDays({})).toBe(COMMISSION_CLEARING.DEFAULT_HOLD_DAYS);
+      expect(parseCommissionHoldDays({ commissionHoldDays: -1 })).toBe(COMMISSION_CLEARING.DEFAULT_HOLD_DAYS);
+      expect(parseCommissionHoldDays({ commissionHoldDays: COMMISSION_CLEARING.MAX_HOLD_DAYS + 1 }))
+        .toBe(COMMISSION_CLEARING.DEFAULT_HOLD_DAYS);
+    });
+  });
+
+  describe('getClearingStatus', () => {
+    it('should start commissions inside the hold as pending', () => {
+      expect(getClearingStatus({ clearsAt: getClearsAt(now, 14), now })).toBe('pending');
+    });
+
+    it('should clear right away without a hold', () => {
+      expect(getClearingStatus({ clearsAt: getClearsAt(now, 0), now })).toBe('cleared');
+    });
+
+    it('should keep commissions flagged for fraud review held', () => {
+      expect(getClearingStatus({ heldForReview: true, clearsAt: getClearsAt(now, 0), now })).toBe('held');
+    });
+
+    it('should treat commissions from before clearing as cleared', () => {
+      expect(getClearingStatus({ clearsAt: null, now })).toBe('cleared');
+    });
+  });
+
+  describe('getClearingDaysRemaining', () => {
+    it('should round partial days up and stop at zero', () => {
+      expect(getClearingDaysRemaining(new Date('2026-04-01T00:00:00Z'), now)).toBe(1);
+      expect(getClearingDaysRemaining(getClearsAt(now, 14), now)).toBe(14);
+      expect(getClearingDaysRemaining(new Date('2026-03-01T00:00:00Z'), now)).toBe(0);
+    });
+  });
+
+  describe('getRefundedCommissionStatus', () => {
+    it('should void unpaid commissions on a full refund', () => {
+      expect(getRefundedCommissionStatus('pending', true)).toBe('voided');
+      expect(getRefundedCommissionStatus('cleared', true)).toBe('voided');
+      expect(getRefundedCommissionStatus('held', true)).toBe('voided');
+    });
+
+    it('should keep unpaid commissions clearing on a partial refund', () => {
+      expect(getRefundedCommissionStatus('pending', false)).toBe('pending');
+    });
+
+    it('should mark paid commissions as refunded', () => {
+      expect(getRefundedCommissionStatus('paid', true)).toBe('refunded');
+      expect(getRefundedCommissionStatus('paid', false)).toBe('partial_refund');
+    });
+  });
+
+  describe('getPayableMemberShare', () => {
+    it('should subtract member share reversed by refunds', () => {
+      expect(getPayableMemberShare({ memberShare: 5 }, [{ memberShareReversed: 2 }])).toBe(3);
+      expect(getPayableMemberShare({ memberShare: 0.3 }, [{ memberShareReversed: 0.1 }, { memberShareReversed: 0.1 }])).toBe(0.1);
+    });
+
+    it('should never go below zero', () => {
+      expect(getPayableMemberShare({ memberShare: 5 }, [{ memberShareReversed: 6 }])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+// tests/unit/commission-ledger.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildCommissionEarnedPosting,
+  buildRefundReversalPosting,
+  buildCommissionPayoutPosting,
+  buildCommissionRejectionPosting,
+  buildBonusPosting,
+  buildBonusRevocationPosting,
+  buildAdjustmentPosting,
+  buildCommissionReassignmentPostings,
+  getCacheDeltas,
+  isBalanced,
+  LedgerAccount,
+  LedgerConflictError,
+  postCommissionReassignment,
+  postLedgerTransaction,
+} from '@/lib/ledger/commission-ledger';
+import type { Prisma } from '@prisma/client';
+
+const commission = {
+  id: 'comm_1',
+  memberId: 'mem_1',
+  creatorId: 'cre_1',
+  saleAmount: 49.99,
+  memberShare: 5.0,
+  creatorShare: 34.99,
+  platformShare: 10.0,
+};
+
+const legAmount = (legs: { account: LedgerAccount; amount: number }[], account: LedgerAccount) =>
+  legs.find(leg => leg.account === account)?.amount;
+
+/**
+ * Just enough of a transaction client to post legs: enforces
+ * @@unique([transactionId, account]) like createMany({ skipDuplicates })
+ */
+function ledgerDb() {
+  const entries: Array<{ transactionId: string; account: string; amount: number; memberId: string | null }> = [];
+  const earnings = new Map<string, number>();
+
+  const db = {
+    ledgerEntry: {
+      createMany: async ({ data }: { data: typeof entries }) => {
+        let count = 0;
+        for (const row of data) {
+          if (entries.some(entry => entry.transactionId === row.transactionId && entry.account === row.account)) continue;
+          entries.push(row);
+          count++;
+        }
+        return { count };
+      },
+    },
+    member: {
+      update: async ({ where, data }: { where: { id: string }; data: { lifetimeEarnings: { increment: number } } }) => {
+        earnings.set(where.id, (earnings.get(where.id) || 0) + data.lifetimeEarnings.increment);
+      },
+    },
+    creator: { update: async () => undefined },
+  };
+
+  return { db: db as unknown as Prisma.TransactionClient, entries, earnings };
+}
+
+describe('Commission Ledger', () => {
+  describe('buildCommissionEarnedPosting', () => {
+    it('should split the sale into balanced legs', () => {
+      const posting = buildCommissionEarnedPosting(commission);
+
+      expect(posting.transactionId).toBe('commission:comm_1:earned');
+      expect(isBalanced(posting.legs)).toBe(true);
+      expect(legAmount(posting.legs, LedgerAccount.REFERRED_SALES)).toBe(-49.99);
+      expect(legAmount(posting.legs, LedgerAccount.MEMBER_PAYABLE)).toBe(5);
+      expect(legAmount(posting.legs, LedgerAccount.CREATOR_REVENUE)).toBe(34.99);
+      expect(legAmount(posting.legs, LedgerAccount.PLATFORM_REVENUE)).toBe(10);
+    });
+
+    it('should let the platform leg absorb rounding', () => {
+      const posting = buildCommissionEarnedPosting({ ...commission, platformShare: 9.99 });
+
+      expect(isBalanced(posting.legs)).toBe(true);
+      expect(legAmount(posting.legs, LedgerAccount.PLATFORM_REVENUE)).toBe(10);
+    });
+
+    it('should credit member earnings and creator revenue in the cache', () => {
+      const { memberEarnings, creatorRevenue } = getCacheDeltas(buildCommissionEarnedPosting(commission));
+
+      expect(memberEarnings.get('mem_1')).toBe(5);
+      expect(creatorRevenue.get('cre_1')).toBe(49.99);
+    });
+  });
+
+  describe('buildRefundReversalPosting', () => {
+    it('should reverse a partial refund with balanced legs', () => {
+      const refund = {
+        id: 'ref_1',
+        refundAmount: 20,
+        memberShareReversed: 5.0 * (20 / 49.99),
+        creatorShareReversed: 34.99 * (20 / 49.99),
+      };
+      const posting = buildRefundReversalPosting(refund, commission);
+
+      expect(isBalanced(posting.legs)).toBe(true);
+      expect(legAmount(posting.legs, LedgerAccount.REFERRED_SALES)).toBe(20);
+      expect(legAmount(posting.legs, LedgerAccount.MEMBER_PAYABLE)).toBe(-2);
+
+      const { memberEarnings, creatorRevenue } = getCacheDeltas(posting);
+      expect(memberEarnings.get('mem_1')).toBe(-2);
+      expect(creatorRevenue.get('cre_1')).toBe(-20);
+    });
+  });
+
+  describe('buildCommissionRejectionPosting', () => {
+    it('should reverse the whole split of an unrefunded commission', () => {
+      const posting = buildCommissionRejectionPosting(commission);
+      const earned = buildCommissionEarnedPosting(commission);
+
+      expect(posting.transactionId).toBe('commission:comm_1:rejected');
+      expect(isBalanced(posting.legs)).toBe(true);
+      for (const leg of earned.legs) {
+        expect(legAmount(posting.legs, leg.account)).toBe(-leg.amount);
+      }
+    });
+
+    it('should only reverse what earlier refunds left', () => {
+      const refund = { id: 'ref_1', refundAmount: 20, memberShareReversed: 2, creatorShareReversed: 14 };
+      const posting = buildCommissionRejectionPosting(commission, [refund]);
+
+      expect(isBalanced(posting.legs)).toBe(true);
+      expect(legAmount(posting.legs, LedgerAccount.REFERRED_SALES)).toBe(29.99);
+      expect(legAmount(posting.legs, LedgerAccount.MEMBER_PAYABLE)).toBe(-3);
+      expect(legAmount(posting.legs, LedgerAccount.CREATOR_REVENUE)).toBe(-20.99);
+    });
+  });
+
+  describe('buildCommissionPayoutPosting', () => {
+    it('should move the share from payable to payouts without changing earnings', () => {
+      const posting = buildCommissionPayoutPosting(commission);
+
+      expect(isBalanced(posting.legs)).toBe(true);
+      expect(legAmount(posting.legs, LedgerAccount.MEMBER_PAYABLE)).toBe(-5);
+      expect(legAmount(posting.legs, LedgerAccount.MEMBER_PAYOUTS)).toBe(5);
+      expect(getCacheDeltas(posting).memberEarnings.size).toBe(0);
+    });
+
+    it('should only pay out what is left after a refund during clearing', () => {
+      const refund = { id: 'ref_1', refundAmount: 20, memberShareReversed: 2, creatorShareReversed: 14 };
+      const posting = buildCommissionPayoutPosting(commission, [refund]);
+
+      expect(isBalanced(posting.legs)).toBe(true);
+      expect(legAmount(posting.legs, LedgerAccount.MEMBER_PAYOUTS)).toBe(3);
+    });
+  });
+
+  describe('bonuses and adjustments', () => {
+    const bonus = { id: 'bonus_1', memberId: 'mem_1', bonusAmount: 5 };
+
+    it('should net a revoked bonus back to zero', () => {
+      const awarded = getCacheDeltas(buildBonusPosting(bonus, 'cre_1')).memberEarnings.get('mem_1');
+      const revoked = getCacheDeltas(buildBonusRevocationPosting(bonus, 'cre_1')).memberEarnings.get('mem_1');
+
+      expect(awarded).toBe(5);
+      expect(revoked).toBe(-5);
+    });
+
+    it('should post adjustments against the adjustments account', () => {
+      const posting = buildAdjustmentPosting({
+        memberId: 'mem_1',
+        creatorId: 'cre_1',
+        amount: -3.5,
+        reference: 'audit_1',
+      });
+
+      expect(posting.transactionId).toBe('adjustment:audit_1');
+      expect(isBalanced(posting.legs)).toBe(true);
+      expect(legAmount(posting.legs, LedgerAccount.ADJUSTMENTS)).toBe(3.5);
+    });
+
+    it('should move a reassigned commission between member balances', () => {
+      const postings = buildCommissionReassignmentPostings({
+        commission,
+        fromMemberId: 'mem_1',
+        toMemberId: 'mem_2',
+        amount: 5,
+        reference: 'conflict_1',
+      });
+      const keys = postings.flatMap(posting => posting.legs.map(leg => `${posting.transactionId}/${leg.account}`));
+
+      expect(postings.map(posting => posting.transactionId)).toEqual([
+        'commission:comm_1:reassigned:conflict_1:from',
+        'commission:comm_1:reassigned:conflict_1:to',
+      ]);
+      expect(new Set(keys).size).toBe(keys.length);
+      expect(postings.every(posting => isBalanced(posting.legs))).toBe(true);
+      expect(getCacheDeltas(postings[0]).memberEarnings.get('mem_1')).toBe(-5);
+      expect(getCacheDeltas(postings[1]).memberEarnings.get('mem_2')).toBe(5);
+      expect(getCacheDeltas(postings[1]).creatorRevenue.size).toBe(0);
+    });
+  });
+
+  describe('postLedgerTransaction', () => {
+    const reassignment = {
+      commission,
+      fromMemberId: 'mem_1',
+      toMemberId: 'mem_2',
+      amount: 5,
+      reference: 'conflict_1',
+    };
+
+    it('should post both member legs of a reassignment', async () => {
+      const { db, entries, earnings } = ledgerDb();
+
+      expect(await postCommissionReassignment(db, reassignment)).toBe(true);
+
+      const payable = entries.filter(entry => entry.account === LedgerAccount.MEMBER_PAYABLE);
+      expect(payable.map(entry => [entry.memberId, entry.amount])).toEqual([['mem_1', -5], ['mem_2', 5]]);
+      expect(entries.reduce((sum, entry) => sum + entry.amount, 0)).toBe(0);
+      expect(earnings.get('mem_1')).toBe(-5);
+      expect(earnings.get('mem_2')).toBe(5);
+    });
+
+    it('should not post a reassignment twice', async () => {
+      const { db, entries } = ledgerDb();
+
+      await postCommissionReassignment(db, reassignment);
+      expect(await postCommissionReassignment(db, reassignment)).toBe(false);
+      expect(entries).toHaveLength(4);
+    });
+
+    it('should fail when legs collide instead of dropping one', async () => {
+      const { db } = ledgerDb();
+      const posting = buildAdjustmentPosting({ memberId: 'mem_1', creatorId: 'cre_1', amount: 5, reference: 'audit_1' });
+      posting.legs = [
+        { account: LedgerAccount.MEMBER_PAYABLE, amount: -5, memberId: 'mem_1', creatorId: 'cre_1' },
+        { account: LedgerAccount.MEMBER_PAYABLE, amount: 5, memberId: 'mem_2', creatorId: 'cre_1' },
+      ];
+
+      await expect(postLedgerTransaction(db, posting)).rejects.toBeInstanceOf(LedgerConflictError);
+    });
+  });
+});
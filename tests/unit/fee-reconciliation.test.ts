@@ -0,0 +1,160 @@
+// tests/unit/fee-reconciliation.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildReconciliationPeriods,
+  findReconciliationIssues,
+  getPlatformFeeOwedCents,
+  getPlatformShareAfterRefunds,
+  toReconciliationCsv,
+  type ReconciliationCommission,
+} from '@/lib/invoice/fee-reconciliation';
+
+function commission(overrides: Partial<ReconciliationCommission> = {}): ReconciliationCommission {
+  return {
+    id: 'com_1',
+    whopPaymentId: 'pay_1',
+    status: 'paid',
+    createdAt: new Date(2026, 0, 10),
+    clearsAt: new Date(2026, 0, 24),
+    platformShare: 10,
+    reportingPlatformShare: null,
+    platformCollected: true,
+    platformTransferId: 'tr_1',
+    reportingPlatformCollectedAmount: null,
+    platformFeeInvoiced: false,
+    invoiceId: null,
+    refunds: [],
+    ...overrides,
+  };
+}
+
+describe('Platform Fee Reconciliation', () => {
+  const now = new Date(2026, 3, 1);
+
+  describe('getPlatformShareAfterRefunds', () => {
+    it('should net refunds in both currencies', () => {
+      expect(getPlatformShareAfterRefunds(commission({
+        platformShare: 10,
+        reportingPlatformShare: 11,
+        refunds: [{ platformShareReversed: 4, reportingPlatformShareReversed: 4.4 }],
+      }))).toEqual({ amount: 6, reportingAmount: 6.6 });
+    });
+
+    it('should not go below zero', () => {
+      expect(getPlatformShareAfterRefunds(commission({
+        refunds: [{ platformShareReversed: 12, reportingPlatformShareReversed: null }],
+      }))).toEqual({ amount: 0, reportingAmount: 0 });
+    });
+  });
+
+  describe('getPlatformFeeOwedCents', () => {
+    it('should net refunds and skip sales that are not owed yet', () => {
+      expect(getPlatformFeeOwedCents(commission())).toBe(1000);
+      expect(getPlatformFeeOwedCents(commission({
+        status: 'partial_refund',
+        refunds: [{ platformShareReversed: 4, reportingPlatformShareReversed: null }],
+      }))).toBe(600);
+      expect(getPlatformFeeOwedCents(commission({ status: 'pending' }))).toBe(0);
+      expect(getPlatformFeeOwedCents(commission({ status: 'rejected' }))).toBe(0);
+    });
+  });
+
+  describe('findReconciliationIssues', () => {
+    it('should not flag a collected sale', () => {
+      expect(findReconciliationIssues(commission(), now)).toEqual([]);
+    });
+
+    it('should flag a share that was transferred and invoiced', () => {
+      const issues = findReconciliationIssues(commission({ platformFeeInvoiced: true, invoiceId: 'inv_1' }), now);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ type: 'collected_twice', amount: 10, invoiceIds: ['inv_1'] });
+    });
+
+    it('should flag the refunded part of a transferred share', () => {
+      const issues = findReconciliationIssues(commission({
+        status: 'refunded',
+        refunds: [{ platformShareReversed: 10, reportingPlatformShareReversed: null }],
+      }), now);
+
+      expect(issues).toEqual([expect.objectContaining({ type: 'collected_on_refund', amount: 10 })]);
+    });
+
+    it('should not flag a share collected net of an earlier partial refund', () => {
+      expect(findReconciliationIssues(commission({
+        status: 'cleared',
+        reportingPlatformCollectedAmount: 6,
+        refunds: [{ platformShareReversed: 4, reportingPlatformShareReversed: null }],
+      }), now)).toEqual([]);
+    });
+
+    it('should flag the part of a collected share refunded afterwards', () => {
+      const issues = findReconciliationIssues(commission({
+        status: 'partial_refund',
+        reportingPlatformCollectedAmount: 6,
+        refunds: [
+          { platformShareReversed: 4, reportingPlatformShareReversed: null },
+          { platformShareReversed: 2, reportingPlatformShareReversed: null },
+        ],
+      }), now);
+
+      expect(issues).toEqual([expect.objectContaining({ type: 'collected_on_refund', amount: 2 })]);
+    });
+
+    it('should flag an uncollected share only after the grace period', () => {
+      const uncollected = commission({ status: 'cleared', platformCollected: false, platformTransferId: null });
+
+      expect(findReconciliationIssues(uncollected, now)).toEqual([
+        expect.objectContaining({ type: 'never_collected', amount: 10 }),
+      ]);
+      expect(findReconciliationIssues(uncollected, new Date(2026, 1, 1))).toEqual([]);
+    });
+  });
+
+  describe('buildReconciliationPeriods', () => {
+    it('should compare owed with collected and invoiced per month', () => {
+      const periods = buildReconciliationPeriods(
+        [
+          commission(),
+          commission({ id: 'com_2', createdAt: new Date(2026, 1, 3), platformCollected: false, platformTransferId: null, platformFeeInvoiced: true, invoiceId: 'inv_2' }),
+        ],
+        [
+          { id: 'inv_2', periodStart: new Date(2026, 1, 1), status: 'pending', totalAmount: '10.00', reportingTotalAmount: null },
+          { id: 'inv_3', periodStart: new Date(2026, 1, 1), status: 'cancelled', totalAmount: '10.00', reportingTotalAmount: null },
+        ],
+        now
+      );
+
+      expect(periods.map(period => [period.periodStart, period.owed, period.collected, period.invoiced, period.balanced])).toEqual([
+        [new Date(2026, 0, 1), 10, 10, 0, true],
+        [new Date(2026, 1, 1), 10, 0, 10, true],
+      ]);
+    });
+
+    it('should flag a month invoiced twice', () => {
+      const [period] = buildReconciliationPeriods(
+        [],
+        [
+          { id: 'inv_1', periodStart: new Date(2026, 1, 1), status: 'sent', totalAmount: '25.00', reportingTotalAmount: null },
+          { id: 'inv_2', periodStart: new Date(2026, 1, 1), status: 'pending', totalAmount: '25.00', reportingTotalAmount: null },
+        ],
+        now
+      );
+
+      expect(period.difference).toBe(50);
+      expect(period.issues).toEqual([
+        expect.objectContaining({ type: 'collected_twice', amount: 25, invoiceIds: ['inv_1', 'inv_2'] }),
+      ]);
+    });
+  });
+
+  describe('toReconciliationCsv', () => {
+    it('should list month summaries, then issues', () => {
+      const [period] = buildReconciliationPeriods([commission({ platformFeeInvoiced: true, invoiceId: 'inv_1' })], [], now);
+      const csv = toReconciliationCsv([{ creatorName: 'Acme "Pro"', companyId: 'biz_1', ...period }]).split('\n');
+
+      expect(csv[1]).toBe('"Acme ""Pro""",biz_1,2026-01,10.00,10.00,0.00,0.00,1,no');
+      expect(csv[4]).toContain('collected_twice,pay_1,10.00,tr_1,inv_1');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+// tests/unit/fraud-cases.test.ts
+import { describe, it, expect } from '@jest/globals';
+import type { Prisma } from '@prisma/client';
+import { evaluateCommissionFraud, getInitialCaseStatus, shouldHoldCommission } from '@/lib/fraud/fraud-cases';
+import type { FraudCheck } from '@/lib/fraud/detector';
+
+// Members and clicks only visible through the given client (e.g. rows written earlier in a dry-run)
+function fraudDb(members: Array<{ id: string; userId: string; membershipId: string }>) {
+  const findMember = ({ where }: { where: { id?: string; membershipId?: string } }) => {
+    const member = members.find(m => (where.id ? m.id === where.id : m.membershipId === where.membershipId));
+    return Promise.resolve(member ? { ...member, commissions: [] } : null);
+  };
+
+  return {
+    member: { findUnique: findMember, findMany: () => Promise.resolve([]) },
+    attributionClick: { findFirst: () => Promise.resolve(null), findMany: () => Promise.resolve([]) },
+    fraudCluster: { findFirst: () => Promise.resolve(null) },
+  } as unknown as Prisma.TransactionClient;
+}
+
+describe('Fraud Cases', () => {
+  const check = (riskScore: number, flagged = true): FraudCheck => ({
+    riskScore,
+    riskLevel: riskScore > 70 ? 'high' : riskScore > 30 ? 'medium' : 'low',
+    flags: flagged
+      ? [{ type: 'self_referral', severity: 'high', description: 'Same IP address as referrer', evidence: {}, points: 40 }]
+      : [],
+    shouldBlock: riskScore > 70,
+    shouldReview: riskScore > 30 && riskScore <= 70,
+    details: {},
+  });
+
+  describe('shouldHoldCommission', () => {
+    it('should hold medium and high risk commissions', () => {
+      expect(shouldHoldCommission(check(50))).toBe(true);
+      expect(shouldHoldCommission(check(90))).toBe(true);
+    });
+
+    it('should not hold low risk or unevaluated commissions', () => {
+      expect(shouldHoldCommission(check(20))).toBe(false);
+      expect(shouldHoldCommission(null)).toBe(false);
+    });
+  });
+
+  describe('getInitialCaseStatus', () => {
+    it('should open a case for held commissions', () => {
+      expect(getInitialCaseStatus(check(50))).toBe('open');
+    });
+
+    it('should record low risk flags as cleared', () => {
+      expect(getInitialCaseStatus(check(20))).toBe('cleared');
+    });
+
+    it('should not create a case when nothing was flagged', () => {
+      expect(getInitialCaseStatus(check(0, false))).toBeNull();
+      expect(getInitialCaseStatus(null)).toBeNull();
+    });
+  });
+
+  describe('evaluateCommissionFraud', () => {
+    const referrer = { id: 'mem_ref', referralCode: 'ALICE-1', fraudWhitelisted: false };
+
+    it('should read the referee through the given client', async () => {
+      const db = fraudDb([
+        { id: 'mem_ref', userId: 'user_1', membershipId: 'mship_ref' },
+        { id: 'mem_new', userId: 'user_1', membershipId: 'mship_new' },
+      ]);
+
+      const check = await evaluateCommissionFraud(referrer, 'mship_new', db);
+
+      expect(check?.flags.map(flag => flag.type)).toEqual(['self_referral_payment']);
+    });
+
+    it('should skip whitelisted referrers', async () => {
+      expect(await evaluateCommissionFraud({ ...referrer, fraudWhitelisted: true }, 'mship_new', fraudDb([]))).toBeNull();
+    });
+  });
+});
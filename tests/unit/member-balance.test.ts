@@ -0,0 +1,60 @@
+// tests/unit/member-balance.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { applyCarryForward, applyCarryForwardToLines } from '@/lib/ledger/member-balance';
+
+describe('Member Balance Carry-Forward', () => {
+  describe('applyCarryForward', () => {
+    it('should not withhold anything while the balance is zero or positive', () => {
+      expect(applyCarryForward({ saleOwed: 10, reportingOwed: 10, settledBalance: 0 })).toEqual({
+        memberShare: 10,
+        reportingPayout: 10,
+        balanceOffset: 0,
+      });
+      expect(applyCarryForward({ saleOwed: 10, reportingOwed: 10, settledBalance: 25 }).balanceOffset).toBe(0);
+    });
+
+    it('should withhold the debt and transfer the rest', () => {
+      expect(applyCarryForward({ saleOwed: 10, reportingOwed: 10, settledBalance: -4 })).toEqual({
+        memberShare: 6,
+        reportingPayout: 6,
+        balanceOffset: 4,
+      });
+    });
+
+    it('should prorate the sale-currency transfer for foreign-currency commissions', () => {
+      // €20 sale share reported as $25, $5 owed → 80% of the euro amount goes out
+      expect(applyCarryForward({ saleOwed: 20, reportingOwed: 25, settledBalance: -5 })).toEqual({
+        memberShare: 16,
+        reportingPayout: 20,
+        balanceOffset: 5,
+      });
+    });
+
+    it('should absorb the whole payout when the debt covers it', () => {
+      expect(applyCarryForward({ saleOwed: 10, reportingOwed: 10, settledBalance: -30 })).toEqual({
+        memberShare: 0,
+        reportingPayout: 0,
+        balanceOffset: 10,
+      });
+    });
+  });
+
+  describe('applyCarryForwardToLines', () => {
+    it('should recover the debt from the oldest lines first', () => {
+      const lines = applyCarryForwardToLines(
+        [
+          { commissionId: 'c1', saleOwed: 5, reportingOwed: 5 },
+          { commissionId: 'c2', saleOwed: 10, reportingOwed: 10 },
+          { commissionId: 'c3', saleOwed: 10, reportingOwed: 10 },
+        ],
+        -8
+      );
+
+      expect(lines.map(line => [line.commissionId, line.memberShare, line.balanceOffset])).toEqual([
+        ['c1', 0, 5],
+        ['c2', 7, 3],
+        ['c3', 10, 0],
+      ]);
+    });
+  });
+});
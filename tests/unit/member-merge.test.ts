@@ -0,0 +1,173 @@
+// tests/unit/member-merge.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { Member } from '@prisma/client';
+import {
+  buildMergedMember,
+  getMergeBlocker,
+  MEMBER_MERGE_PLAN,
+  pickFreeSlug,
+} from '@/lib/utils/member-merge';
+import { SUB_LINK_LIMITS } from '@/lib/constants/attribution';
+
+/**
+ * Every "Model.field" that points at a Member in the Prisma schema
+ */
+function getMemberRelations(): string[] {
+  const schema = readFileSync(join(__dirname, '../../prisma/schema.prisma'), 'utf8');
+  const relations: string[] = [];
+  let model = '';
+
+  for (const line of schema.split('\n')) {
+    const modelMatch = line.match(/^model (\w+) \{/);
+    if (modelMatch) model = modelMatch[1];
+
+    const relationMatch = line.match(/^\s+\w+\s+Member\??\s+@relation\(.*fields: \[(\w+)\]/);
+    if (relationMatch) relations.push(`${model}.${relationMatch[1]}`);
+  }
+
+  return relations;
+}
+
+function member(overrides: Partial<Member> = {}): Member {
+  return {
+    id: 'mem_target',
+    creatorId: 'cre_1',
+    userId: 'user_target',
+    membershipId: 'mship_target',
+    referralCode: 'TARGET-ABC123',
+    referrerId: null,
+    referredBy: null,
+    memberOrigin: 'organic',
+    whopUsername: 'target',
+    promoCode: null,
+    promoCodeWhopId: null,
+    whopAffiliateUsername: null,
+    landingNote: null,
+    subscriptionPrice: 49.99,
+    billingPeriod: 'monthly',
+    monthlyValue: 49.99,
+    lifetimeEarnings: 10,
+    monthlyEarnings: 5,
+    totalReferred: 2,
+    monthlyReferred: 1,
+    currentStreak: 1,
+    longestStreak: 3,
+    firstReferralBonusEarned: false,
+    fraudWhitelisted: false,
+    customCommissionRate: null,
+    customRateSetBy: null,
+    customRateSetAt: null,
+    customRateReason: null,
+    createdAt: new Date(2026, 0, 1),
+    ...overrides,
+  } as Member;
+}
+
+describe('Member Merge', () => {
+  describe('MEMBER_MERGE_PLAN', () => {
+    it('should cover every relation to Member (the rest is deleted with the duplicate)', () => {
+      const relations = getMemberRelations();
+
+      expect(relations.length).toBeGreaterThan(10);
+      expect(relations.filter(relation => !(relation in MEMBER_MERGE_PLAN))).toEqual([]);
+    });
+
+    it('should move money records as they are', () => {
+      expect(MEMBER_MERGE_PLAN['Commission.memberId']).toBe('move');
+      expect(MEMBER_MERGE_PLAN['LedgerEntry.memberId']).toBe('move');
+      expect(MEMBER_MERGE_PLAN['Payout.memberId']).toBe('move');
+      expect(MEMBER_MERGE_PLAN['FraudCase.memberId']).toBe('move');
+    });
+  });
+
+  describe('getMergeBlocker', () => {
+    const target = { id: 'mem_target', creatorId: 'cre_1', referrerId: null, firstReferralBonus: null };
+    const source = { id: 'mem_source', creatorId: 'cre_1', referrerId: null, firstReferralBonus: null };
+
+    it('should allow duplicates in the same community', () => {
+      expect(getMergeBlocker(source, target, 0)).toBeNull();
+    });
+
+    it('should refuse merges that would lose or double money', () => {
+      expect(getMergeBlocker(source, { ...target, creatorId: 'cre_2' }, 0)).toContain('different communities');
+      expect(getMergeBlocker({ ...source, firstReferralBonus: {} }, { ...target, firstReferralBonus: {} }, 0))
+        .toContain('first referral bonus');
+      expect(getMergeBlocker(source, { ...target, referrerId: 'mem_source' }, 0)).toContain('referred the other');
+      expect(getMergeBlocker(source, source, 0)).toContain('into itself');
+    });
+
+    it('should wait for the duplicate\'s open payouts', () => {
+      expect(getMergeBlocker(source, target, 2)).toContain('2 unfinished payout(s)');
+    });
+  });
+
+  describe('buildMergedMember', () => {
+    it('should keep the target\'s values, fill gaps from the duplicate and sum counters', () => {
+      const { data } = buildMergedMember(
+        member({ id: 'mem_source', whopUsername: 'source', promoCode: 'SRC10', lifetimeEarnings: 4, totalReferred: 1, longestStreak: 5 }),
+        member()
+      );
+
+      expect(data.whopUsername).toBe('target');
+      expect(data.promoCode).toBe('SRC10');
+      expect(data.lifetimeEarnings).toEqual({ increment: 4 });
+      expect(data.totalReferred).toEqual({ increment: 1 });
+      expect(data.longestStreak).toBe(5);
+    });
+
+    it('should take over the newer duplicate\'s Whop membership', () => {
+      const newer = member({ id: 'mem_source', userId: 'user_source', membershipId: 'mship_source', createdAt: new Date(2026, 1, 1) });
+
+      expect(buildMergedMember(newer, member())).toMatchObject({
+        adoptedMembership: true,
+        data: { userId: 'user_source', membershipId: 'mship_source' },
+      });
+      expect(buildMergedMember(member({ id: 'mem_source', createdAt: new Date(2025, 0, 1) }), member()).data)
+        .not.toHaveProperty('membershipId');
+    });
+
+    it('should keep the duplicate\'s referrer only when the target has none', () => {
+      const source = member({ id: 'mem_source', referrerId: 'mem_ref_1', referredBy: 'REF1', memberOrigin: 'referred' });
+
+      expect(buildMergedMember(source, member()).data).toMatchObject({ referrerId: 'mem_ref_1', referredBy: 'REF1' });
+      expect(buildMergedMember(source, member({ referrerId: 'mem_ref_2', referredBy: 'REF2' })).data)
+        .toMatchObject({ referrerId: 'mem_ref_2', referredBy: 'REF2' });
+    });
+
+    it('should only stay fraud-whitelisted when both records were', () => {
+      const trusted = member({ id: 'mem_source', fraudWhitelisted: true });
+
+      expect(buildMergedMember(trusted, member({ fraudWhitelisted: true }))).toMatchObject({
+        droppedFraudWhitelist: false,
+        data: { fraudWhitelisted: true },
+      });
+      expect(buildMergedMember(trusted, member())).toMatchObject({
+        droppedFraudWhitelist: true,
+        data: { fraudWhitelisted: false },
+      });
+      expect(buildMergedMember(member({ id: 'mem_source' }), member({ fraudWhitelisted: true })).data.fraudWhitelisted).toBe(false);
+    });
+  });
+
+  describe('pickFreeSlug', () => {
+    it('should keep a slug the kept member does not use', () => {
+      expect(pickFreeSlug('youtube', new Set(['tiktok']))).toBe('youtube');
+    });
+
+    it('should suffix colliding slugs with the next free number', () => {
+      expect(pickFreeSlug('youtube', new Set(['youtube']))).toBe('youtube-2');
+      expect(pickFreeSlug('youtube', new Set(['youtube', 'youtube-2']))).toBe('youtube-3');
+    });
+
+    it('should stay within the slug length limit', () => {
+      const long = 'a'.repeat(32);
+      const slug = pickFreeSlug(long, new Set([long]));
+
+      expect(slug).toHaveLength(32);
+      expect(slug.endsWith('-2')).toBe(true);
+      expect(SUB_LINK_LIMITS.SLUG_PATTERN.test(slug)).toBe(true);
+    });
+  });
+});
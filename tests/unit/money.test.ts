@@ -0,0 +1,121 @@
+// tests/unit/money.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  toCents,
+  fromCents,
+  applyRate,
+  prorate,
+  splitSale,
+  splitRefund,
+  sumDollars,
+  convertSplit,
+  convertRefund,
+} from '@/lib/utils/money';
+
+describe('Money (integer cents)', () => {
+  describe('toCents', () => {
+    it('should convert dollars to whole cents', () => {
+      expect(toCents(49.99)).toBe(4999);
+      expect(toCents('12.50')).toBe(1250);
+      expect(toCents(null)).toBe(0);
+    });
+
+    it('should round half away from zero despite float noise', () => {
+      expect(toCents(1.005)).toBe(101);
+      expect(toCents(-1.005)).toBe(-101);
+    });
+
+    it('should reject non-finite amounts', () => {
+      expect(() => toCents(NaN)).toThrow();
+    });
+  });
+
+  describe('applyRate and prorate', () => {
+    it('should round rates half away from zero', () => {
+      expect(applyRate(4999, 0.1)).toBe(500);
+      expect(applyRate(4999, 0.7)).toBe(3499);
+    });
+
+    it('should prorate in integer math', () => {
+      expect(prorate(500, 2000, 4999)).toBe(200);
+      expect(prorate(1, 1, 2)).toBe(1);
+      expect(prorate(100, 1, 0)).toBe(0);
+    });
+  });
+
+  describe('splitSale', () => {
+    it('should always sum exactly to the sale', () => {
+      for (const sale of [1, 3, 99, 4999, 12345, 99999]) {
+        for (const memberRate of [0.1, 0.15, 0.18, 0.25]) {
+          const split = splitSale(sale, { memberRate, creatorRate: 0.7 });
+          expect(split.memberShare + split.creatorShare + split.platformShare).toBe(sale);
+        }
+      }
+    });
+
+    it('should throw when rates exceed 100%', () => {
+      expect(() => splitSale(1000, { memberRate: 0.5, creatorRate: 0.7 })).toThrow();
+    });
+  });
+
+  describe('splitRefund', () => {
+    const original = splitSale(4999, { memberRate: 0.1, creatorRate: 0.7 });
+
+    it('should reverse a full refund exactly', () => {
+      const reversal = splitRefund(original, 4999);
+
+      expect(reversal.memberShare).toBe(original.memberShare);
+      expect(reversal.creatorShare).toBe(original.creatorShare);
+      expect(reversal.platformShare).toBe(original.platformShare);
+    });
+
+    it('should leave no residue across several partial refunds', () => {
+      const first = splitRefund(original, 1666);
+      const second = splitRefund(original, 1666, first);
+      const soFar = {
+        refund: first.refund + second.refund,
+        memberShare: first.memberShare + second.memberShare,
+        creatorShare: first.creatorShare + second.creatorShare,
+        platformShare: first.platformShare + second.platformShare,
+      };
+      const third = splitRefund(original, 1667, soFar);
+
+      expect(soFar.memberShare + third.memberShare).toBe(original.memberShare);
+      expect(soFar.creatorShare + third.creatorShare).toBe(original.creatorShare);
+      expect(soFar.platformShare + third.platformShare).toBe(original.platformShare);
+      expect(third.memberShare + third.creatorShare + third.platformShare).toBe(third.refund);
+    });
+
+    it('should never refund more than the sale', () => {
+      const reversal = splitRefund(original, 10000);
+      expect(reversal.refund).toBe(4999);
+    });
+  });
+
+  describe('sumDollars', () => {
+    it('should sum without float drift', () => {
+      expect(sumDollars([0.1, 0.2])).toBe(0.3);
+      expect(fromCents(toCents(0.1) + toCents(0.2))).toBe(0.3);
+    });
+  });
+
+  describe('convertSplit / convertRefund', () => {
+    const original = splitSale(4999, { memberRate: 0.1, creatorRate: 0.7 });
+    const converted = convertSplit(original, 1.0843); // EUR -> USD
+
+    it('should convert the sale once and keep the split exact', () => {
+      expect(converted.sale).toBe(5420);
+      expect(converted.memberShare + converted.creatorShare + converted.platformShare).toBe(converted.sale);
+    });
+
+    it('should reverse the converted split exactly across partial refunds', () => {
+      const first = convertRefund(original, converted, 2000, 0);
+      const second = convertRefund(original, converted, 2999, 2000, first);
+
+      expect(first.refund + second.refund).toBe(converted.sale);
+      expect(first.memberShare + second.memberShare).toBe(converted.memberShare);
+      expect(first.creatorShare + second.creatorShare).toBe(converted.creatorShare);
+      expect(first.platformShare + second.platformShare).toBe(converted.platformShare);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+// tests/unit/payment-lifecycle.test.ts
+import { describe, it, expect } from '@jest/globals';
+import type { Prisma } from '@prisma/client';
+import { handleWhopEvent, type WebhookHandlerContext } from '@/lib/webhook/whop-handlers';
+import { FxRateUnavailableError } from '@/lib/fx/rates';
+
+const creator = {
+  id: 'cre_1',
+  companyId: 'biz_1',
+  companyName: 'Acme',
+  defaultSubscriptionPrice: 50,
+  attributionPolicy: 'whop_wins',
+  commissionHoldDays: 0,
+};
+
+const buyer = {
+  id: 'mem_buyer',
+  userId: 'user_buyer',
+  username: 'buyer',
+  referralCode: 'BUYER-1',
+  referredBy: 'ALICE-1',
+  referrerId: 'mem_ref',
+  whopAffiliateUsername: null,
+  memberOrigin: 'referral_code',
+  membershipId: 'mship_buyer',
+  creatorId: creator.id,
+  subscriptionPrice: 50,
+  totalReferred: 0,
+  welcomeMessageSent: true,
+  createdAt: new Date(2026, 0, 1),
+};
+
+const referrer = {
+  id: 'mem_ref',
+  userId: 'user_ref',
+  username: 'alice',
+  referralCode: 'ALICE-1',
+  membershipId: 'mship_ref',
+  creatorId: creator.id,
+  totalReferred: 0,
+  commissionTier: 'starter',
+  fraudWhitelisted: true,
+};
+
+// Buyer with a lifecycle, referred by alice; the first FX lookup fails like a missing rate
+function paymentDb() {
+  const lifecycle = { memberId: buyer.id, lifetimeValue: 100, netValue: 100 };
+  const countedPayments = new Set<string>();
+  const commissions: Array<Record<string, any>> = [];
+  let fxLookups = 0;
+
+  const db = {
+    commission: {
+      findUnique: ({ where }: any) => Promise.resolve(commissions.find(c => c.whopPaymentId === where.whopPaymentId) ?? null),
+      count: ({ where }: any) => Promise.resolve(commissions.filter(c => c.whopMembershipId === where.whopMembershipId).length),
+      create: ({ data }: any) => {
+        const created = { id: `com_${commissions.length + 1}`, ...data };
+        commissions.push(created);
+        return Promise.resolve(created);
+      },
+    },
+    member: {
+      findUnique: ({ where }: any) => Promise.resolve(
+        where.membershipId === buyer.membershipId ? { ...buyer, creator }
+          : where.id === referrer.id ? referrer
+          : null
+      ),
+      update: () => Promise.resolve({}),
+      count: () => Promise.resolve(0),
+    },
+    creator: {
+      findUnique: () => Promise.resolve(creator),
+      update: () => Promise.resolve({}),
+    },
+    memberLifecycle: {
+      findUnique: () => Promise.resolve(lifecycle),
+      update: ({ data }: any) => {
+        lifecycle.lifetimeValue += data.lifetimeValue.increment;
+        lifecycle.netValue += data.netValue.increment;
+        return Promise.resolve(lifecycle);
+      },
+    },
+    lifecyclePayment: {
+      createMany: ({ data }: any) => {
+        const fresh = data.filter((row: { whopPaymentId: string }) => !countedPayments.has(row.whopPaymentId));
+        fresh.forEach((row: { whopPaymentId: string }) => countedPayments.add(row.whopPaymentId));
+        return Promise.resolve({ count: fresh.length });
+      },
+    },
+    fxRate: {
+      findFirst: () => (++fxLookups === 1
+        ? Promise.reject(new FxRateUnavailableError('EUR', new Date()))
+        : Promise.resolve({ rate: 1.1 })),
+    },
+    creatorProduct: { findUnique: () => Promise.resolve(null) },
+    productCommissionRule: { findMany: () => Promise.resolve([]) },
+    commissionCampaign: { findMany: () => Promise.resolve([]) },
+    attributionClick: { findFirst: () => Promise.resolve(null) },
+    ledgerEntry: { createMany: ({ data }: any) => Promise.resolve({ count: data.length }) },
+    memberTierHistory: { create: () => Promise.resolve({}) },
+  } as unknown as Prisma.TransactionClient;
+
+  return { db, lifecycle, commissions };
+}
+
+describe('Payment Lifecycle', () => {
+  const payment = {
+    id: 'pay_1',
+    membership_id: buyer.membershipId,
+    company_id: creator.companyId,
+    final_amount: 5000,
+    currency: 'eur',
+    plan_type: 'subscription',
+    billing_period: 'monthly',
+  };
+
+  it('should count a payment once when its first attempt fails on the FX lookup', async () => {
+    const { db, lifecycle, commissions } = paymentDb();
+    // Dry run keeps DMs and notifications out of the test; retries are not replays
+    const ctx: WebhookHandlerContext = { webhookEventId: 'evt_1', db, dryRun: true, replay: false };
+
+    await expect(handleWhopEvent('payment.succeeded', payment, ctx)).rejects.toThrow(FxRateUnavailableError);
+    await expect(handleWhopEvent('payment.succeeded', payment, ctx)).resolves.toEqual({ ok: true });
+
+    expect(commissions).toHaveLength(1);
+    expect(lifecycle.lifetimeValue).toBe(150);
+    expect(lifecycle.netValue).toBe(150);
+  });
+});
@@ -0,0 +1,74 @@
+// tests/unit/payout-failures.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  classifyTransferFailure,
+  classifyPayoutEligibility,
+  getPayoutRetryDelayMinutes,
+  planPayoutRetry,
+} from '@/lib/utils/payout-failures';
+import { PAYOUT_RETRIES } from '@/lib/constants/commission';
+
+describe('Payout Failures', () => {
+  describe('classifyTransferFailure', () => {
+    it('should treat network errors, rate limits and outages as transient', () => {
+      expect(classifyTransferFailure({ errorCode: 'NETWORK_ERROR', error: 'fetch failed' }).reason).toBe('network');
+      expect(classifyTransferFailure({ errorCode: 'RATE_LIMITED' }).reason).toBe('rate_limited');
+      expect(classifyTransferFailure({ errorCode: 'SERVER_ERROR' }).category).toBe('transient');
+      expect(classifyTransferFailure({ errorCode: 'HTTP_507' }).reason).toBe('whop_unavailable');
+    });
+
+    it('should read the cause from validation errors', () => {
+      expect(classifyTransferFailure({ errorCode: 'VALIDATION_ERROR', error: 'Insufficient balance' }))
+        .toMatchObject({ reason: 'insufficient_funds', category: 'creator_action' });
+      expect(classifyTransferFailure({ errorCode: 'VALIDATION_ERROR', error: 'Destination payouts are not enabled' }))
+        .toMatchObject({ reason: 'payouts_not_enabled', category: 'member_action' });
+      expect(classifyTransferFailure({ errorCode: 'VALIDATION_ERROR', error: 'Invalid currency' }).reason).toBe('rejected');
+    });
+
+    it('should send configuration errors and duplicates to an admin', () => {
+      // "not configured" here is the API key, not the member's payout method
+      expect(classifyTransferFailure({ errorCode: 'CONFIG_ERROR', error: 'API key not configured' }))
+        .toMatchObject({ reason: 'configuration', category: 'admin_action' });
+      expect(classifyTransferFailure({ errorCode: 'DUPLICATE_TRANSFER' }).category).toBe('admin_action');
+    });
+  });
+
+  describe('classifyPayoutEligibility', () => {
+    it('should block members without a payout method', () => {
+      expect(classifyPayoutEligibility({ eligible: true, payoutMethodConfigured: true })).toBeNull();
+      expect(classifyPayoutEligibility({ eligible: false, payoutMethodConfigured: false })?.reason).toBe('payouts_not_enabled');
+      expect(classifyPayoutEligibility({ eligible: false, reason: 'User not found' })?.reason).toBe('recipient_not_found');
+    });
+
+    it('should not block when the check itself failed', () => {
+      expect(classifyPayoutEligibility({ eligible: false, reason: 'Failed to verify user: HTTP 503' })).toBeNull();
+    });
+  });
+
+  describe('planPayoutRetry', () => {
+    const now = new Date(2026, 2, 11, 6, 0);
+    const transient = classifyTransferFailure({ errorCode: 'NETWORK_ERROR' });
+
+    it('should back off exponentially up to a day', () => {
+      expect(getPayoutRetryDelayMinutes(1)).toBe(30);
+      expect(getPayoutRetryDelayMinutes(2)).toBe(60);
+      expect(getPayoutRetryDelayMinutes(3)).toBe(120);
+      expect(getPayoutRetryDelayMinutes(20)).toBe(PAYOUT_RETRIES.MAX_DELAY_MINUTES);
+
+      expect(planPayoutRetry(transient, 2, now)).toEqual({ status: 'retrying', nextRetryAt: new Date(2026, 2, 11, 7, 0) });
+    });
+
+    it('should stop retrying after the last attempt', () => {
+      expect(planPayoutRetry(transient, PAYOUT_RETRIES.MAX_ATTEMPTS, now)).toEqual({ status: 'failed', nextRetryAt: null });
+    });
+
+    it('should wait on the member when they have to enable payouts', () => {
+      const blocked = classifyPayoutEligibility({ eligible: false, payoutMethodConfigured: false })!;
+
+      expect(planPayoutRetry(blocked, 0, now)).toEqual({
+        status: 'action_needed',
+        nextRetryAt: new Date(2026, 2, 12, 6, 0),
+      });
+    });
+  });
+});
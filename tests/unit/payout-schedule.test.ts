@@ -0,0 +1,71 @@
+// tests/unit/payout-schedule.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  parsePayoutSchedule,
+  parsePayoutMinimum,
+  getNextPayoutRunAt,
+  isPayoutRunDue,
+  groupPayoutCommissions,
+  meetsPayoutMinimum,
+} from '@/lib/utils/payout-schedule';
+import { PAYOUT_RUNS } from '@/lib/constants/commission';
+
+describe('Payout Schedule', () => {
+  describe('parsePayoutSchedule / parsePayoutMinimum', () => {
+    it('should fall back to the defaults for missing or invalid settings', () => {
+      expect(parsePayoutSchedule({ payoutSchedule: 'monthly' })).toBe('monthly');
+      expect(parsePayoutSchedule({ payoutSchedule: 'daily' })).toBe(PAYOUT_RUNS.DEFAULT_SCHEDULE);
+      expect(parsePayoutSchedule({})).toBe(PAYOUT_RUNS.DEFAULT_SCHEDULE);
+
+      expect(parsePayoutMinimum({ payoutMinimum: 0 })).toBe(0);
+      expect(parsePayoutMinimum({ payoutMinimum: 50 })).toBe(50);
+      expect(parsePayoutMinimum({ payoutMinimum: -5 })).toBe(PAYOUT_RUNS.DEFAULT_MINIMUM);
+      expect(parsePayoutMinimum({ payoutMinimum: null })).toBe(PAYOUT_RUNS.DEFAULT_MINIMUM);
+    });
+  });
+
+  describe('getNextPayoutRunAt', () => {
+    // Wednesday
+    const lastRunAt = new Date(2026, 2, 11, 6, 0);
+
+    it('should run weekly on the following Monday', () => {
+      expect(getNextPayoutRunAt('weekly', lastRunAt)).toEqual(new Date(2026, 2, 16));
+    });
+
+    it('should run monthly on the 1st of the next month', () => {
+      expect(getNextPayoutRunAt('monthly', lastRunAt)).toEqual(new Date(2026, 3, 1));
+    });
+
+    it('should be due right away for a creator that never had a run', () => {
+      const now = new Date(2026, 2, 11);
+      expect(getNextPayoutRunAt('monthly', null, now)).toEqual(now);
+      expect(isPayoutRunDue('monthly', null, now)).toBe(true);
+    });
+
+    it('should only be due once the next run date has passed', () => {
+      expect(isPayoutRunDue('weekly', lastRunAt, new Date(2026, 2, 15, 23, 59))).toBe(false);
+      expect(isPayoutRunDue('weekly', lastRunAt, new Date(2026, 2, 16, 6, 0))).toBe(true);
+    });
+  });
+
+  describe('groupPayoutCommissions', () => {
+    it('should group per member and currency, keeping order', () => {
+      const groups = groupPayoutCommissions([
+        { id: 'c1', memberId: 'm1', currency: 'usd' },
+        { id: 'c2', memberId: 'm2', currency: 'usd' },
+        { id: 'c3', memberId: 'm1', currency: 'eur' },
+        { id: 'c4', memberId: 'm1', currency: 'usd' },
+      ]);
+
+      expect(groups.map(group => group.map(c => c.id))).toEqual([['c1', 'c4'], ['c2'], ['c3']]);
+    });
+  });
+
+  describe('meetsPayoutMinimum', () => {
+    it('should roll over payouts under the minimum but settle fully offset ones', () => {
+      expect(meetsPayoutMinimum(24.99, 25)).toBe(false);
+      expect(meetsPayoutMinimum(25, 25)).toBe(true);
+      expect(meetsPayoutMinimum(0, 25)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+// tests/unit/product-commission.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyProductRule,
+  matchProductRule,
+  ruleCoversPayment,
+  validateProductRules,
+  type ProductRuleInput,
+} from '@/lib/utils/product-commission';
+import { calculateTierSplit, COMMISSION_TIERS } from '@/lib/utils/tiered-commission';
+
+const [starter, ambassador] = COMMISSION_TIERS;
+
+const rules: ProductRuleInput[] = [
+  { whopProductId: null, billingPeriod: 'monthly', productType: null, memberRate: 0.10, recurring: true },
+  { whopProductId: null, billingPeriod: 'lifetime', productType: null, memberRate: 0.05, recurring: false },
+  { whopProductId: 'prod_course', billingPeriod: null, productType: null, memberRate: 0.20, recurring: false },
+];
+
+describe('Product Commission Rules', () => {
+  describe('matchProductRule', () => {
+    it('should match by billing period', () => {
+      expect(matchProductRule(rules, { productId: 'prod_community', billingPeriod: 'lifetime' })).toBe(rules[1]);
+      expect(matchProductRule(rules, { productId: 'prod_community', billingPeriod: 'annual' })).toBeNull();
+    });
+
+    it('should prefer the most specific rule', () => {
+      expect(matchProductRule(rules, { productId: 'prod_course', billingPeriod: 'monthly' })).toBe(rules[2]);
+    });
+  });
+
+  describe('applyProductRule', () => {
+    it('should replace the base rate from the creator share', () => {
+      const split = calculateTierSplit(100, applyProductRule(starter, starter, rules[1]));
+
+      expect(split.memberShare).toBe(5);
+      expect(split.creatorShare).toBe(75);
+      expect(split.platformShare).toBe(20);
+    });
+
+    it('should keep the tier bonus on top of the rule rate', () => {
+      const tier = applyProductRule(ambassador, starter, rules[2]);
+
+      expect(tier.memberRate).toBe(0.25);
+      expect(tier.platformRate).toBe(0.15);
+      expect(tier.creatorRate).toBe(0.60);
+    });
+
+    it('should leave the tier untouched without a rule', () => {
+      expect(applyProductRule(ambassador, starter, null)).toBe(ambassador);
+    });
+  });
+
+  it('should only pay one-time rules on the first payment', () => {
+    expect(ruleCoversPayment(rules[1], 'initial')).toBe(true);
+    expect(ruleCoversPayment(rules[1], 'recurring')).toBe(false);
+    expect(ruleCoversPayment(null, 'recurring')).toBe(true);
+  });
+
+  it('should reject duplicate matches and out-of-range rates', () => {
+    expect(validateProductRules(rules)).toEqual([]);
+    expect(validateProductRules([...rules, { ...rules[0], memberRate: 0.5 }])).toHaveLength(2);
+  });
+});
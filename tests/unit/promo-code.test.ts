@@ -0,0 +1,106 @@
+// tests/unit/promo-code.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  extractPromoCode,
+  generatePromoCode,
+  normalizePromoCode,
+  resolveFirstPaymentAttribution,
+  resolveReferralAttribution,
+} from '@/lib/utils/promo-code';
+
+describe('Promo Code Attribution', () => {
+  const alice = { id: 'mem_alice', referralCode: 'A7B2-K9X4' };
+  const bob = { id: 'mem_bob', referralCode: 'BEKA-TORU' };
+
+  describe('generatePromoCode / normalizePromoCode', () => {
+    it('should derive a punctuation-free code from the referral code', () => {
+      expect(generatePromoCode('A7B2-K9X4')).toBe('A7B2K9X4');
+      expect(generatePromoCode('A7B2-K9X4', '42')).toBe('A7B2K9X442');
+    });
+
+    it('should match codes regardless of case and punctuation', () => {
+      expect(normalizePromoCode(' a7b2-k9x4 ')).toBe('A7B2K9X4');
+    });
+  });
+
+  describe('extractPromoCode', () => {
+    it('should read string and object payloads', () => {
+      expect(extractPromoCode({ promo_code: 'a7b2k9x4' })).toBe('A7B2K9X4');
+      expect(extractPromoCode({ promo_code: { id: 'promo_1', code: 'A7B2-K9X4' } })).toBe('A7B2K9X4');
+    });
+
+    it('should return null when no code was redeemed', () => {
+      expect(extractPromoCode({})).toBeNull();
+      expect(extractPromoCode({ promo_code: null })).toBeNull();
+      expect(extractPromoCode({ promo_code: '--' })).toBeNull();
+    });
+  });
+
+  describe('resolveReferralAttribution', () => {
+    it('should let the link win over a different promo code', () => {
+      const result = resolveReferralAttribution({ linkReferrer: alice, promoReferrer: bob });
+
+      expect(result.referrer).toBe(alice);
+      expect(result.source).toBe('whop_affiliate');
+      expect(result.conflict).toBe(true);
+    });
+
+    it('should follow the creator policy when link and code disagree', () => {
+      const lastTouch = resolveReferralAttribution({ linkReferrer: alice, promoReferrer: bob, policy: 'last_touch' });
+      const review = resolveReferralAttribution({ linkReferrer: alice, promoReferrer: bob, policy: 'manual_review' });
+
+      expect(lastTouch.referrer).toBe(bob);
+      expect(lastTouch.source).toBe('promo_code');
+      expect(review.referrer).toBe(alice);
+      expect(review.needsReview).toBe(true);
+    });
+
+    it('should not flag a conflict when both point to the same member', () => {
+      const result = resolveReferralAttribution({ linkReferrer: alice, promoReferrer: alice });
+
+      expect(result.conflict).toBe(false);
+    });
+
+    it('should attribute link-less referrals to the promo code owner', () => {
+      const result = resolveReferralAttribution({ linkReferrer: null, promoReferrer: bob });
+
+      expect(result.referrer).toBe(bob);
+      expect(result.source).toBe('promo_code');
+    });
+
+    it('should ignore a member redeeming their own code', () => {
+      const result = resolveReferralAttribution({ linkReferrer: null, promoReferrer: bob, buyerMemberId: bob.id });
+
+      expect(result.referrer).toBeNull();
+      expect(result.source).toBeNull();
+    });
+  });
+
+  describe('resolveFirstPaymentAttribution', () => {
+    it('should credit an unattributed member to the promo code owner', () => {
+      const result = resolveFirstPaymentAttribution({ currentReferrer: null, promoReferrer: bob, buyerMemberId: 'mem_buyer' });
+
+      expect(result.referrer).toBe(bob);
+      expect(result.changed).toBe(true);
+    });
+
+    it('should weigh a different referrer\'s promo code against the link referrer by policy', () => {
+      const whopWins = resolveFirstPaymentAttribution({ currentReferrer: alice, promoReferrer: bob, buyerMemberId: 'mem_buyer' });
+      const lastTouch = resolveFirstPaymentAttribution({ currentReferrer: alice, promoReferrer: bob, buyerMemberId: 'mem_buyer', policy: 'last_touch' });
+      const firstTouch = resolveFirstPaymentAttribution({ currentReferrer: alice, promoReferrer: bob, buyerMemberId: 'mem_buyer', policy: 'first_touch' });
+      const review = resolveFirstPaymentAttribution({ currentReferrer: alice, promoReferrer: bob, buyerMemberId: 'mem_buyer', policy: 'manual_review' });
+
+      expect(whopWins).toMatchObject({ referrer: alice, conflict: true, changed: false, needsReview: false });
+      expect(lastTouch).toMatchObject({ referrer: bob, source: 'promo_code', conflict: true, changed: true });
+      expect(firstTouch).toMatchObject({ referrer: alice, conflict: true, changed: false });
+      expect(review).toMatchObject({ referrer: alice, conflict: true, needsReview: true });
+    });
+
+    it('should keep the current credit when the code names the same member', () => {
+      const result = resolveFirstPaymentAttribution({ currentReferrer: bob, promoReferrer: bob, buyerMemberId: 'mem_buyer' });
+
+      expect(result.changed).toBe(false);
+      expect(result.conflict).toBe(false);
+    });
+  });
+});
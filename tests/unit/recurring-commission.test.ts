@@ -0,0 +1,67 @@
+// tests/unit/recurring-commission.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  getCommissionableMonths,
+  isPaymentCommissionable,
+  parseRecurringPolicy,
+} from '@/lib/utils/recurring-commission';
+import { calculateEarningsProjection } from '@/lib/utils/earnings-calculator';
+
+const firstCommissionAt = new Date('2026-01-15T00:00:00Z');
+
+describe('Recurring Commission Policy', () => {
+  describe('parseRecurringPolicy', () => {
+    it('should default to lifetime', () => {
+      expect(parseRecurringPolicy({}).mode).toBe('lifetime');
+      expect(parseRecurringPolicy({ recurringCommissionMode: 'weekly' }).mode).toBe('lifetime');
+    });
+
+    it('should fall back to lifetime when a capped mode has no limit', () => {
+      expect(parseRecurringPolicy({ recurringCommissionMode: 'months' }).mode).toBe('lifetime');
+      expect(parseRecurringPolicy({ recurringCommissionMode: 'months', recurringCommissionLimit: 12 }))
+        .toEqual({ mode: 'months', limit: 12 });
+    });
+  });
+
+  describe('isPaymentCommissionable', () => {
+    it('should cap by number of payments', () => {
+      const policy = { mode: 'payments' as const, limit: 3 };
+
+      expect(isPaymentCommissionable(policy, { priorCommissions: 2, firstCommissionAt })).toBe(true);
+      expect(isPaymentCommissionable(policy, { priorCommissions: 3, firstCommissionAt })).toBe(false);
+    });
+
+    it('should cap by months since the first commission', () => {
+      const policy = { mode: 'months' as const, limit: 12 };
+      const history = { priorCommissions: 11, firstCommissionAt };
+
+      expect(isPaymentCommissionable(policy, history, new Date('2027-01-14T00:00:00Z'))).toBe(true);
+      expect(isPaymentCommissionable(policy, history, new Date('2027-01-15T00:00:00Z'))).toBe(false);
+    });
+
+    it('should only pay the first payment for initial_only', () => {
+      const policy = { mode: 'initial_only' as const, limit: null };
+
+      expect(isPaymentCommissionable(policy, { priorCommissions: 0, firstCommissionAt: null })).toBe(true);
+      expect(isPaymentCommissionable(policy, { priorCommissions: 1, firstCommissionAt })).toBe(false);
+    });
+  });
+
+  describe('earnings projections', () => {
+    it('should only project commissionable months', () => {
+      expect(getCommissionableMonths({ mode: 'months', limit: 6 }, 12)).toBe(6);
+
+      const lifetime = calculateEarningsProjection(10, { avgSubscriptionPrice: 50 });
+      const capped = calculateEarningsProjection(10, {
+        avgSubscriptionPrice: 50,
+        recurringPolicy: { mode: 'payments', limit: 6 },
+      });
+
+      expect(lifetime.yearlyEarnings).toBe(600);
+      expect(lifetime.lifetimeEarnings).toBe(1200);
+      expect(capped.monthlyEarnings).toBe(50);
+      expect(capped.yearlyEarnings).toBe(300);
+      expect(capped.lifetimeEarnings).toBe(300);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+// tests/unit/referral-claims.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  getClaimIneligibility,
+  normalizeRefereeHandle,
+  summarizeClaimEvidence,
+} from '@/lib/utils/referral-claims';
+
+describe('Missed-Referral Claims', () => {
+  const now = new Date('2026-03-20T12:00:00Z');
+  const claimant = { id: 'mem_alice', referralCode: 'A7B2-K9X4', creatorId: 'creator_1' };
+  const referee = { id: 'mem_bob', referrerId: null, creatorId: 'creator_1', createdAt: new Date('2026-03-10T12:00:00Z') };
+
+  describe('normalizeRefereeHandle', () => {
+    it('should strip @ prefixes, profile URLs and whitespace', () => {
+      expect(normalizeRefereeHandle('  @bob ')).toBe('bob');
+      expect(normalizeRefereeHandle('https://whop.com/@bob')).toBe('bob');
+      expect(normalizeRefereeHandle('bob')).toBe('bob');
+    });
+  });
+
+  describe('getClaimIneligibility', () => {
+    it('should allow claiming an unattributed member of the same community', () => {
+      expect(getClaimIneligibility(claimant, referee, now)).toBeNull();
+    });
+
+    it('should allow claiming a member credited to someone else', () => {
+      expect(getClaimIneligibility(claimant, { ...referee, referrerId: 'mem_beka' }, now)).toBeNull();
+    });
+
+    it('should reject self, cross-community and already-credited claims', () => {
+      expect(getClaimIneligibility(claimant, { ...referee, id: claimant.id }, now)).toMatch(/yourself/);
+      expect(getClaimIneligibility(claimant, { ...referee, creatorId: 'creator_2' }, now)).toMatch(/different community/);
+      expect(getClaimIneligibility(claimant, { ...referee, referrerId: claimant.id }, now)).toMatch(/already credited/);
+    });
+
+    it('should reject members who joined too long ago', () => {
+      const old = { ...referee, createdAt: new Date('2025-11-01T00:00:00Z') };
+      expect(getClaimIneligibility(claimant, old, now)).toMatch(/days ago/);
+    });
+  });
+
+  describe('summarizeClaimEvidence', () => {
+    it('should count clicks in the window before signup and measure the gap', () => {
+      const evidence = summarizeClaimEvidence({
+        signedUpAt: referee.createdAt,
+        membershipId: 'mem_whop_bob',
+        clicks: [
+          { createdAt: new Date('2026-03-10T11:30:00Z'), signupMembershipId: null },
+          { createdAt: new Date('2026-03-08T09:00:00Z'), signupMembershipId: null },
+          { createdAt: new Date('2026-03-11T09:00:00Z'), signupMembershipId: null }, // after signup
+          { createdAt: new Date('2025-12-01T09:00:00Z'), signupMembershipId: null }, // outside window
+        ],
+        currentReferrer: null,
+        memberOrigin: 'organic',
+        now,
+      });
+
+      expect(evidence.clicksBeforeSignup).toBe(2);
+      expect(evidence.lastClickAt).toBe('2026-03-10T11:30:00.000Z');
+      expect(evidence.minutesFromLastClick).toBe(30);
+      expect(evidence.daysSinceSignup).toBe(10);
+      expect(evidence.alreadyAttributed).toBe(false);
+    });
+
+    it('should flag a signup already joined to one of the claimant clicks', () => {
+      const evidence = summarizeClaimEvidence({
+        signedUpAt: referee.createdAt,
+        membershipId: 'mem_whop_bob',
+        clicks: [{ createdAt: new Date('2026-03-10T10:00:00Z'), signupMembershipId: 'mem_whop_bob' }],
+        currentReferrer: { referralCode: 'BEKA-TORU', username: 'carol' },
+        memberOrigin: 'promo_code',
+        now,
+      });
+
+      expect(evidence.signupJoinedToClaimant).toBe(true);
+      expect(evidence.alreadyAttributed).toBe(true);
+      expect(evidence.currentReferrer?.username).toBe('carol');
+    });
+
+    it('should report no clicks without a gap', () => {
+      const evidence = summarizeClaimEvidence({
+        signedUpAt: referee.createdAt,
+        membershipId: 'mem_whop_bob',
+        clicks: [],
+        currentReferrer: null,
+        memberOrigin: 'organic',
+        now,
+      });
+
+      expect(evidence.clicksBeforeSignup).toBe(0);
+      expect(evidence.lastClickAt).toBeNull();
+      expect(evidence.minutesFromLastClick).toBeNull();
+    });
+  });
+});
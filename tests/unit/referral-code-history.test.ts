@@ -0,0 +1,185 @@
+// tests/unit/referral-code-history.test.ts
+import { describe, it, expect } from '@jest/globals';
+import type { Prisma } from '@prisma/client';
+import {
+  getRemainingCodeChanges,
+  ReferralCodeChangeError,
+  resolveReferralCode,
+  switchReferralCode,
+} from '@/lib/utils/referral-code-history';
+import { REFERRAL_CODE_CHANGE_LIMITS } from '@/lib/constants/attribution';
+
+type MemberRow = { id: string; referralCode: string; referrerId?: string | null; referredBy?: string | null };
+type HistoryRow = { code: string; memberId: string; replacedBy: string };
+
+/**
+ * Just enough of a transaction client for code lookups and switches
+ * (ReferralCodeHistory.code and Member.referralCode are unique)
+ */
+function codeDb({ members, history = [] }: { members: MemberRow[]; history?: HistoryRow[] }) {
+  const audit: Array<{ entityId: string; createdAt: Date }> = [];
+  const memberById = (id: string) => members.find(member => member.id === id);
+  const pick = (member: MemberRow | undefined) => (member ? { id: member.id, referralCode: member.referralCode } : null);
+
+  const db = {
+    member: {
+      findUnique: async ({ where }: { where: { id?: string; referralCode?: string } }) =>
+        pick(members.find(member => (where.id ? member.id === where.id : member.referralCode === where.referralCode))),
+      update: async ({ where, data }: { where: { id: string }; data: { referralCode: string } }) => {
+        if (members.some(member => member.referralCode === data.referralCode)) throw new Error('Unique constraint failed');
+        Object.assign(memberById(where.id)!, data);
+      },
+      updateMany: async ({ where, data }: { where: { referrerId: string }; data: { referredBy: string } }) => {
+        const referees = members.filter(member => member.referrerId === where.referrerId);
+        referees.forEach(member => Object.assign(member, data));
+        return { count: referees.length };
+      },
+    },
+    referralCodeHistory: {
+      findUnique: async ({ where }: { where: { code: string } }) => {
+        const row = history.find(entry => entry.code === where.code);
+        return row ? { member: pick(memberById(row.memberId)) } : null;
+      },
+      deleteMany: async ({ where }: { where: { code: string; memberId: string } }) => {
+        const index = history.findIndex(entry => entry.code === where.code && entry.memberId === where.memberId);
+        if (index >= 0) history.splice(index, 1);
+        return { count: index >= 0 ? 1 : 0 };
+      },
+      create: async ({ data }: { data: HistoryRow }) => {
+        if (history.some(entry => entry.code === data.code)) throw new Error('Unique constraint failed');
+        history.push(data);
+      },
+    },
+    auditLog: {
+      findMany: async ({ where }: { where: { entityId: string; createdAt: { gte: Date } } }) =>
+        audit.filter(entry => entry.entityId === where.entityId && entry.createdAt >= where.createdAt.gte),
+      create: async ({ data }: { data: { entityId: string } }) => {
+        audit.push({ entityId: data.entityId, createdAt: new Date() });
+      },
+    },
+  };
+
+  return { db: db as unknown as Prisma.TransactionClient, members, history };
+}
+
+describe('Referral Code History', () => {
+  const now = new Date('2026-03-31T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  describe('getRemainingCodeChanges', () => {
+    it('should allow the full quota for a member who never changed their code', () => {
+      expect(getRemainingCodeChanges([], now)).toBe(REFERRAL_CODE_CHANGE_LIMITS.MAX_CHANGES);
+    });
+
+    it('should count changes inside the window', () => {
+      expect(getRemainingCodeChanges([daysAgo(1), daysAgo(10)], now)).toBe(REFERRAL_CODE_CHANGE_LIMITS.MAX_CHANGES - 2);
+    });
+
+    it('should ignore changes older than the window', () => {
+      const old = daysAgo(REFERRAL_CODE_CHANGE_LIMITS.WINDOW_DAYS + 1);
+      expect(getRemainingCodeChanges([old, old, old], now)).toBe(REFERRAL_CODE_CHANGE_LIMITS.MAX_CHANGES);
+    });
+
+    it('should never go below zero', () => {
+      const recent = Array.from({ length: REFERRAL_CODE_CHANGE_LIMITS.MAX_CHANGES + 2 }, (_, i) => daysAgo(i));
+      expect(getRemainingCodeChanges(recent, now)).toBe(0);
+    });
+  });
+
+  describe('resolveReferralCode', () => {
+    const members = [{ id: 'mem_1', referralCode: 'JANE' }, { id: 'mem_2', referralCode: 'BOB-XYZ789' }];
+
+    it('should resolve a current code to its member', async () => {
+      const { db } = codeDb({ members });
+
+      expect(await resolveReferralCode('JANE', db)).toEqual({ memberId: 'mem_1', currentCode: 'JANE', retired: false });
+    });
+
+    it('should resolve a retired code to its owner\'s current code', async () => {
+      const { db } = codeDb({ members, history: [{ code: 'JANE-ABC123', memberId: 'mem_1', replacedBy: 'JANE' }] });
+
+      expect(await resolveReferralCode('JANE-ABC123', db)).toEqual({ memberId: 'mem_1', currentCode: 'JANE', retired: true });
+    });
+
+    it('should not resolve unknown codes', async () => {
+      const { db } = codeDb({ members });
+
+      expect(await resolveReferralCode('NOBODY-000000', db)).toBeNull();
+    });
+
+    it('should send a merged duplicate\'s codes to the kept member', async () => {
+      // mergeMembers() re-points the duplicate's history and retires its current code onto the kept member
+      const { db } = codeDb({
+        members: [{ id: 'mem_kept', referralCode: 'JANE' }],
+        history: [
+          { code: 'JANE-OLD111', memberId: 'mem_kept', replacedBy: 'JANE-DUP222' },
+          { code: 'JANE-DUP222', memberId: 'mem_kept', replacedBy: 'JANE' },
+        ],
+      });
+
+      expect(await resolveReferralCode('JANE-DUP222', db)).toMatchObject({ memberId: 'mem_kept', currentCode: 'JANE' });
+      expect(await resolveReferralCode('JANE-OLD111', db)).toMatchObject({ memberId: 'mem_kept', currentCode: 'JANE' });
+    });
+  });
+
+  describe('switchReferralCode', () => {
+    it('should retire the old code so it keeps redirecting', async () => {
+      const { db, history, members } = codeDb({
+        members: [
+          { id: 'mem_1', referralCode: 'JANE-ABC123' },
+          { id: 'mem_3', referralCode: 'SAM-QRS456', referrerId: 'mem_1', referredBy: 'JANE-ABC123' },
+        ],
+      });
+
+      const result = await switchReferralCode(db, { memberId: 'mem_1', newCode: 'JANE', now });
+
+      expect(result).toMatchObject({ referralCode: 'JANE', oldCode: 'JANE-ABC123' });
+      expect(history).toEqual([{ code: 'JANE-ABC123', memberId: 'mem_1', replacedBy: 'JANE' }]);
+      expect(members[1].referredBy).toBe('JANE');
+      expect(await resolveReferralCode('JANE-ABC123', db)).toMatchObject({ memberId: 'mem_1', currentCode: 'JANE' });
+    });
+
+    it('should release a retired code when its owner switches back to it', async () => {
+      const { db, history } = codeDb({
+        members: [{ id: 'mem_1', referralCode: 'JANE' }],
+        history: [{ code: 'JANE-ABC123', memberId: 'mem_1', replacedBy: 'JANE' }],
+      });
+
+      await switchReferralCode(db, { memberId: 'mem_1', newCode: 'JANE-ABC123', now });
+
+      expect(history).toEqual([{ code: 'JANE', memberId: 'mem_1', replacedBy: 'JANE-ABC123' }]);
+      expect(await resolveReferralCode('JANE-ABC123', db)).toMatchObject({ retired: false });
+    });
+
+    it('should not let anyone claim another member\'s current or retired code', async () => {
+      const { db } = codeDb({
+        members: [{ id: 'mem_1', referralCode: 'JANE' }, { id: 'mem_2', referralCode: 'BOB-XYZ789' }],
+        history: [{ code: 'JANE-ABC123', memberId: 'mem_1', replacedBy: 'JANE' }],
+      });
+
+      await expect(switchReferralCode(db, { memberId: 'mem_2', newCode: 'JANE', now }))
+        .rejects.toMatchObject({ status: 409 });
+      await expect(switchReferralCode(db, { memberId: 'mem_2', newCode: 'JANE-ABC123', now }))
+        .rejects.toMatchObject({ status: 409 });
+    });
+
+    it('should let the kept member of a merge switch to the duplicate\'s old code', async () => {
+      const { db } = codeDb({
+        members: [{ id: 'mem_kept', referralCode: 'JANE' }, { id: 'mem_2', referralCode: 'BOB-XYZ789' }],
+        history: [{ code: 'JANE-DUP222', memberId: 'mem_kept', replacedBy: 'JANE' }],
+      });
+
+      await expect(switchReferralCode(db, { memberId: 'mem_2', newCode: 'JANE-DUP222', now }))
+        .rejects.toBeInstanceOf(ReferralCodeChangeError);
+      expect(await switchReferralCode(db, { memberId: 'mem_kept', newCode: 'JANE-DUP222', now }))
+        .toMatchObject({ referralCode: 'JANE-DUP222', oldCode: 'JANE' });
+    });
+
+    it('should reject malformed codes', async () => {
+      const { db } = codeDb({ members: [{ id: 'mem_1', referralCode: 'JANE' }] });
+
+      await expect(switchReferralCode(db, { memberId: 'mem_1', newCode: 'no spaces!', now }))
+        .rejects.toMatchObject({ status: 400 });
+    });
+  });
+});
@@ -0,0 +1,44 @@
+// tests/unit/referral-landing.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildWhopProductUrl,
+  describeRefereeBonus,
+  shouldShowReferralLanding,
+} from '@/lib/utils/referral-landing';
+
+describe('Referral Landing Page', () => {
+  describe('shouldShowReferralLanding', () => {
+    const link = (query = '') => new URL(`https://app.example.com/r/JOHN-ABC123${query}`);
+
+    it('should only show when the creator enabled it', () => {
+      expect(shouldShowReferralLanding(true, link())).toBe(true);
+      expect(shouldShowReferralLanding(false, link())).toBe(false);
+    });
+
+    it('should be skippable with the skip flag', () => {
+      expect(shouldShowReferralLanding(true, link('?skip=1'))).toBe(false);
+      expect(shouldShowReferralLanding(true, link('?skip'))).toBe(false);
+      expect(shouldShowReferralLanding(true, link('?skip=0'))).toBe(true);
+      expect(shouldShowReferralLanding(true, link('?skip=false'))).toBe(true);
+    });
+  });
+
+  describe('buildWhopProductUrl', () => {
+    it('should add the affiliate parameter when there is a username', () => {
+      expect(buildWhopProductUrl('prod_123', 'john doe')).toBe('https://whop.com/products/prod_123?a=john%20doe');
+      expect(buildWhopProductUrl('prod_123', null)).toBe('https://whop.com/products/prod_123');
+    });
+  });
+
+  describe('describeRefereeBonus', () => {
+    it('should describe the ReferralBonus defaults', () => {
+      expect(describeRefereeBonus()).toBe('10% off your first month');
+    });
+
+    it('should describe credits and hide empty bonuses', () => {
+      expect(describeRefereeBonus({ bonusType: 'credit', bonusPercent: 0, bonusValue: 5 })).toBe('$5.00 account credit');
+      expect(describeRefereeBonus({ bonusType: 'credit', bonusPercent: 0, bonusValue: 0 })).toBeNull();
+      expect(describeRefereeBonus({ bonusType: 'first_month_discount', bonusPercent: 0, bonusValue: 0 })).toBeNull();
+    });
+  });
+});
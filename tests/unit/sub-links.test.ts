@@ -0,0 +1,46 @@
+// tests/unit/sub-links.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { buildSubLinkUrl, isValidSubLinkSlug, slugifySubLinkLabel } from '@/lib/analytics/sub-links';
+
+describe('Referral Sub-Links', () => {
+  describe('slugifySubLinkLabel', () => {
+    it('should lowercase and hyphenate labels', () => {
+      expect(slugifySubLinkLabel('My Newsletter!')).toBe('my-newsletter');
+      expect(slugifySubLinkLabel('  YouTube -- Bio  ')).toBe('youtube-bio');
+    });
+
+    it('should cap slugs at 32 characters without a trailing hyphen', () => {
+      const slug = slugifySubLinkLabel('a'.repeat(31) + ' bcd');
+      expect(slug).toBe('a'.repeat(31));
+      expect(isValidSubLinkSlug(slug)).toBe(true);
+    });
+  });
+
+  describe('isValidSubLinkSlug', () => {
+    it('should accept lowercase slugs and reject anything else', () => {
+      expect(isValidSubLinkSlug('tiktok')).toBe(true);
+      expect(isValidSubLinkSlug('yt-2024')).toBe(true);
+      expect(isValidSubLinkSlug('')).toBe(false);
+      expect(isValidSubLinkSlug('-leading')).toBe(false);
+      expect(isValidSubLinkSlug('Upper')).toBe(false);
+      expect(isValidSubLinkSlug('a'.repeat(33))).toBe(false);
+    });
+  });
+
+  describe('buildSubLinkUrl', () => {
+    it('should keep the vanity route and add the slug and UTM tags', () => {
+      const url = new URL(buildSubLinkUrl('https://app.example.com', 'JOHN-ABC123', {
+        slug: 'youtube',
+        utmSource: 'youtube',
+        utmMedium: 'video',
+        utmCampaign: null,
+      }));
+
+      expect(url.pathname).toBe('/r/JOHN-ABC123');
+      expect(url.searchParams.get('l')).toBe('youtube');
+      expect(url.searchParams.get('utm_source')).toBe('youtube');
+      expect(url.searchParams.get('utm_medium')).toBe('video');
+      expect(url.searchParams.has('utm_campaign')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// tests/unit/tiered-commission.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildTierLadder,
+  calculateTieredCommission,
+  getCommissionTier,
+  getHeldTier,
+  getNextTierInfo,
+  parseTierQualification,
+  parseTierLadder,
+  validateTierLadder,
+  COMMISSION_TIERS,
+  type TierLadderEntry,
+} from '@/lib/utils/tiered-commission';
+
+const ladderEntries: TierLadderEntry[] = [
+  { key: 'rookie', name: 'Rookie', memberRate: 0.10, platformRate: 0.20, creatorRate: 0.70, requirements: { referrals: 0 } },
+  { key: 'pro', name: 'Pro', memberRate: 0.14, platformRate: 0.16, creatorRate: 0.70, requirements: { referrals: 10, activeReferrals: 5 } },
+  { key: 'legend', name: 'Legend', memberRate: 0.18, platformRate: 0.12, creatorRate: 0.70, requirements: { referrals: 25, activeReferrals: 15, referredRevenue: 1000 } },
+];
+
+describe('Tiered Commission', () => {
+  describe('default ladder', () => {
+    it('should keep Starter/Ambassador/Elite thresholds', () => {
+      expect(getCommissionTier(0).tierName).toBe('starter');
+      expect(getCommissionTier(50).tierName).toBe('ambassador');
+      expect(getCommissionTier(100).tierName).toBe('elite');
+    });
+
+    it('should still accept legacy threshold overrides', () => {
+      expect(getCommissionTier(20, { ambassadorThreshold: 20 }).tierName).toBe('ambassador');
+    });
+  });
+
+  describe('validateTierLadder', () => {
+    it('should accept a valid ladder', () => {
+      expect(validateTierLadder(ladderEntries)).toEqual([]);
+    });
+
+    it('should reject rates that do not sum to 100%', () => {
+      const entries = ladderEntries.map((entry, i) => (i === 1 ? { ...entry, platformRate: 0.20 } : entry));
+      expect(validateTierLadder(entries).join('\n')).toContain('must sum to 100%');
+    });
+
+    it('should protect the creator and platform shares', () => {
+      const entries = [
+        ladderEntries[0],
+        { ...ladderEntries[1], memberRate: 0.20, platformRate: 0.20, creatorRate: 0.60 },
+        { ...ladderEntries[2], memberRate: 0.20, platformRate: 0.10 },
+      ];
+      const errors = validateTierLadder(entries).join('\n');
+
+      expect(errors).toContain('creator rate must be 70%');
+      expect(errors).toContain('platform rate must be at least 12%');
+    });
+
+    it('should require the first tier to be open to everyone', () => {
+      const entries = [{ ...ladderEntries[0], requirements: { referrals: 1 } }, ...ladderEntries.slice(1)];
+      expect(validateTierLadder(entries).join('\n')).toContain('first tier cannot have requirements');
+    });
+
+    it('should reject tiers that do not climb', () => {
+      const entries = [
+        ladderEntries[0],
+        ladderEntries[2],
+        { ...ladderEntries[1], key: 'late' },
+      ];
+      const errors = validateTierLadder(entries).join('\n');
+
+      expect(errors).toContain('cannot be lower than Legend');
+    });
+
+    it('should reject duplicate keys and oversized ladders', () => {
+      expect(validateTierLadder([ladderEntries[0], { ...ladderEntries[1], key: 'rookie' }]).join('\n'))
+        .toContain('Duplicate tier key');
+      expect(validateTierLadder([])).toHaveLength(1);
+    });
+  });
+
+  describe('creator ladders', () => {
+    const ladder = buildTierLadder(ladderEntries);
+
+    it('should require every metric of a tier', () => {
+      expect(getCommissionTier({ referrals: 30 }, ladder).tierName).toBe('rookie');
+      expect(getCommissionTier({ referrals: 30, activeReferrals: 5 }, ladder).tierName).toBe('pro');
+      expect(getCommissionTier({ referrals: 30, activeReferrals: 20, referredRevenue: 1000 }, ladder).tierName).toBe('legend');
+    });
+
+    it('should apply the ladder rates to the split', () => {
+      const result = calculateTieredCommission(100, { referrals: 12, activeReferrals: 6 }, ladder);
+
+      expect(result.appliedTier).toBe('pro');
+      expect(result.memberShare).toBe(14);
+      expect(result.creatorShare).toBe(70);
+      expect(result.platformShare).toBe(16);
+    });
+
+    it('should report progress against the furthest requirement', () => {
+      const info = getNextTierInfo({ referrals: 10, activeReferrals: 1 }, ladder);
+
+      expect(info.currentTier.tierName).toBe('rookie');
+      expect(info.nextTier?.tierName).toBe('pro');
+      expect(info.referralsToNextTier).toBe(0);
+      expect(info.remaining.activeReferrals).toBe(4);
+      expect(info.progressPercent).toBe(20);
+    });
+
+    it('should fall back to the default ladder for missing or invalid stored ladders', () => {
+      expect(parseTierLadder(null)).toBe(COMMISSION_TIERS);
+      expect(parseTierLadder([{ key: 'broken' }])).toBe(COMMISSION_TIERS);
+      expect(parseTierLadder(ladderEntries).map(t => t.tierName)).toEqual(['rookie', 'pro', 'legend']);
+    });
+  });
+
+  describe('tier qualification', () => {
+    const ladder = buildTierLadder(ladderEntries);
+    const rolling = { mode: 'rolling' as const, windowDays: 90, graceDays: 7 };
+
+    it('should apply the live tier for lifetime qualification', () => {
+      const tier = getHeldTier({ referrals: 0 }, ladder, { ...rolling, mode: 'lifetime' }, 'legend');
+      expect(tier.tierName).toBe('rookie');
+    });
+
+    it('should keep the stored tier until the recalculation downgrades it', () => {
+      expect(getHeldTier({ referrals: 0 }, ladder, rolling, 'legend').tierName).toBe('legend');
+      expect(getHeldTier({ referrals: 12, activeReferrals: 6 }, ladder, rolling, 'rookie').tierName).toBe('pro');
+    });
+
+    it('should ignore stored tiers that are not on the ladder', () => {
+      expect(getHeldTier({ referrals: 0 }, ladder, rolling, 'bronze').tierName).toBe('rookie');
+    });
+
+    it('should fall back to defaults for unknown settings', () => {
+      expect(parseTierQualification({ tierQualificationMode: 'weekly' })).toEqual({
+        mode: 'lifetime',
+        windowDays: 90,
+        graceDays: 7,
+      });
+      expect(parseTierQualification({ tierQualificationMode: 'paying', tierQualificationDays: 30 }).mode).toBe('paying');
+    });
+  });
+});
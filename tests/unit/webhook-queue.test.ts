@@ -0,0 +1,32 @@
+// tests/unit/webhook-queue.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { getRetryDelay, type QueueConfig } from '@/lib/queue/webhook-queue';
+
+const config: QueueConfig = {
+  maxConcurrency: 1,
+  pollInterval: 1000,
+  retryDelayMs: 60000,
+  maxRetryDelay: 600000,
+  backoffMultiplier: 2,
+  deadLetterAfter: 5,
+  batchSize: 10,
+  lockTimeoutMs: 300000,
+};
+
+describe('Webhook Queue', () => {
+  describe('getRetryDelay', () => {
+    it('should back off exponentially from the base delay', () => {
+      expect(getRetryDelay(1, config)).toBe(60000);
+      expect(getRetryDelay(2, config)).toBe(120000);
+      expect(getRetryDelay(3, config)).toBe(240000);
+    });
+
+    it('should cap the delay at maxRetryDelay', () => {
+      expect(getRetryDelay(10, config)).toBe(600000);
+    });
+
+    it('should treat attempt 0 like the first attempt', () => {
+      expect(getRetryDelay(0, config)).toBe(60000);
+    });
+  });
+});
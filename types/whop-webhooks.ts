@@ -86,6 +86,7 @@ export interface WhopPaymentData extends WhopWebhookDataBase {
   plan_type?: string;
   billing_period?: 'monthly' | 'yearly' | 'weekly' | 'quarterly' | 'lifetime';
   payment_method?: string;
+  promo_code?: string | { id?: string; code?: string } | null;  // Redeemed at checkout
 }
 
 /**
@@ -95,6 +96,7 @@ export interface WhopRefundData extends WhopWebhookDataBase {
   id: string;
   payment_id: string;
   amount: number;
+  currency?: string;
   reason?: string;
 }
 